@@ -9,6 +9,10 @@ import { GameUI } from "./components/chess/GameUI";
 import { BoardControls } from "./components/chess/BoardControls";
 import { SettingsDialog } from "./components/chess/SettingsDialog";
 import { GameOverDialog } from "./components/chess/GameOverDialog";
+import { AnalysisPanel } from "./components/chess/AnalysisPanel";
+import { PuzzlePanel } from "./components/chess/PuzzlePanel";
+import { EndgameTrainerPanel } from "./components/chess/EndgameTrainerPanel";
+import { EvaluationBar } from "./components/chess/EvaluationBar";
 import { AuthProvider } from "./components/auth/AuthProvider";
 import { ResponsiveLayout } from "./components/layout/ResponsiveLayout";
 import { MobileGameLayout } from "./components/mobile/MobileGameLayout";
@@ -339,16 +343,21 @@ function AppContent() {
                 <div className="game-content flex flex-col lg:flex-row items-center lg:items-start justify-center gap-8">
                   
                   {/* Chess Board - Left Side */}
-                  <div className="board-section flex-shrink-0">
+                  <div className="board-section flex-shrink-0 flex gap-2">
+                    {gameState.gameMode === 'analysis' && <EvaluationBar />}
                     <ChessBoard />
                   </div>
                   
                   {/* Controls Panel - Right Side */}
                   <div className="controls-section flex-shrink-0 flex flex-col gap-4">
                     <BoardControls onSettings={() => setShowSettings(true)} />
+
+                    {gameState.gameMode === 'analysis' && <AnalysisPanel />}
+                    {gameState.gameMode === 'puzzle' && <PuzzlePanel />}
+                    {gameState.gameMode === 'endgame' && <EndgameTrainerPanel />}
                     
                     {/* Merlin Messages Window - Below Controls */}
-                    {gamePhase === 'playing' && (
+                    {gamePhase === 'playing' && gameState.gameMode !== 'analysis' && gameState.gameMode !== 'puzzle' && gameState.gameMode !== 'endgame' && (
                       <div className="merlin-messages-panel w-56 h-72 bg-purple-900/90 border-2 border-purple-400 rounded-lg shadow-2xl backdrop-blur-sm">
                         <div className="bg-purple-800 text-purple-100 px-3 py-2 rounded-t-md border-b border-purple-400">
                           <h3 className="text-sm font-bold text-center">🧙‍♂️ Merlin the Wise</h3>
@@ -363,11 +372,11 @@ function AppContent() {
                 </div>
               </div>
               
-              {gamePhase === 'ended' && <GameOverDialog />}
+              {gamePhase === 'ended' && gameState.gameMode !== 'analysis' && gameState.gameMode !== 'puzzle' && gameState.gameMode !== 'endgame' && <GameOverDialog />}
             </div>
             
             {/* Mobile game layout is handled by MobileGameLayout wrapper */}
-            {gamePhase === 'ended' && <GameOverDialog />}
+            {gamePhase === 'ended' && gameState.gameMode !== 'analysis' && gameState.gameMode !== 'puzzle' && gameState.gameMode !== 'endgame' && <GameOverDialog />}
           </MobileGameLayout>
           </>
         )}
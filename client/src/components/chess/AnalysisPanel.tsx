@@ -0,0 +1,223 @@
+import React from 'react';
+import { useChess } from '../../lib/stores/useChess';
+import { MAX_MULTI_PV, useAnalysis } from '../../lib/stores/useAnalysis';
+import { AnalysisTree } from '../../lib/chess/analysisTree';
+import { importGameRecord } from '../../lib/chess/gameRecord';
+import { parsePosition, serializePosition } from '../../lib/chess/positionNotation';
+import { formatEvaluation } from './EvaluationBar';
+import { BoardEditorDialog } from './BoardEditorDialog';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Textarea } from '../ui/textarea';
+import { ChevronFirst, ChevronLast, ChevronLeft, ChevronRight } from 'lucide-react';
+
+// Engine lines are cut to this many moves
+const LINE_LENGTH = 8;
+
+function MoveTree({ tree, currentId, onSelect }: { tree: AnalysisTree; currentId: number; onSelect: (id: number) => void }) {
+  const token = (id: number, showNumber: boolean) => {
+    const node = tree.nodes[id];
+    const before = tree.nodes[node.parent!].gameState;
+    const number = before.fullmoveNumber ?? 1;
+    const label = before.currentPlayer === 'white' ? `${number}. ${node.san}` : showNumber ? `${number}... ${node.san}` : node.san;
+    return (
+      <button
+        key={id}
+        type="button"
+        className={`px-1 rounded hover:bg-stone-700 ${id === currentId ? 'bg-purple-700/60 text-white' : 'text-stone-200'}`}
+        onClick={() => onSelect(id)}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  // The line starting with `firstId`, with the variations branching off it in brackets
+  const line = (parentId: number, firstId: number): React.ReactNode[] => {
+    const items: React.ReactNode[] = [];
+    let parent = parentId;
+    let id: number | undefined = firstId;
+    let showNumber = true;
+
+    while (id !== undefined) {
+      items.push(token(id, showNumber));
+      showNumber = false;
+
+      const siblings = tree.nodes[parent].children;
+      if (siblings[0] === id) {
+        for (const variation of siblings.slice(1)) {
+          items.push(
+            <span key={`variation-${variation}`} className="text-stone-400 text-xs">
+              ({line(parent, variation)})
+            </span>
+          );
+          showNumber = true;
+        }
+      }
+
+      parent = id;
+      id = tree.nodes[id].children[0];
+    }
+    return items;
+  };
+
+  const root = tree.nodes[tree.root];
+  if (root.children.length === 0) {
+    return <p className="text-xs text-stone-400">Move any piece to start a line.</p>;
+  }
+  return <div className="flex flex-wrap gap-x-1 gap-y-0.5 text-sm">{line(root.id, root.children[0])}</div>;
+}
+
+export function AnalysisPanel() {
+  const { aiDifficulty, startGame } = useChess();
+  const {
+    tree,
+    currentId,
+    engineEnabled,
+    multiPV,
+    depth,
+    lines,
+    startAnalysis,
+    playMove,
+    goTo,
+    goBack,
+    goForward,
+    goToEnd,
+    removeVariation,
+    promoteVariation,
+    setMultiPV,
+    toggleEngine
+  } = useAnalysis();
+  const [loadText, setLoadText] = React.useState('');
+  const [loadError, setLoadError] = React.useState('');
+
+  if (!tree) return null;
+  const current = tree.nodes[currentId];
+
+  const handleLoad = () => {
+    const text = loadText.trim();
+    if (!text) return;
+    try {
+      // Game records have headers or numbered moves; anything else is a position
+      if (text.startsWith('[') || /^\d+\./.test(text)) {
+        startAnalysis(importGameRecord(text).gameState);
+      } else {
+        parsePosition(text);
+        startGame('analysis', aiDifficulty, text);
+      }
+      setLoadError('');
+      setLoadText('');
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <Card className="analysis-panel w-80 bg-stone-900/90 border-yellow-600/30 text-white">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base text-yellow-400">
+          <span>🔬 Analysis</span>
+          <Button variant="outline" size="sm" className="medieval-btn-mini h-7" onClick={toggleEngine}>
+            {engineEnabled ? 'Engine on' : 'Engine off'}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {engineEnabled && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-stone-400">
+              <span>{depth > 0 ? `Depth ${depth}` : current.gameState.gamePhase === 'ended' ? 'Game over' : 'Thinking...'}</span>
+              <span className="flex gap-1">
+                {Array.from({ length: MAX_MULTI_PV }, (_, i) => i + 1).map(count => (
+                  <button
+                    key={count}
+                    type="button"
+                    className={`w-5 rounded ${count === multiPV ? 'bg-yellow-600 text-stone-900' : 'bg-stone-700 text-stone-300'}`}
+                    onClick={() => setMultiPV(count)}
+                    title={`Show ${count} line${count > 1 ? 's' : ''}`}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </span>
+            </div>
+            {lines.map((line, index) => (
+              <button
+                key={index}
+                type="button"
+                className="w-full flex items-start gap-2 text-left text-sm rounded px-1 py-0.5 hover:bg-stone-700"
+                onClick={() => playMove(line.move)}
+                title="Play this line's first move"
+              >
+                <Badge variant="outline" className="shrink-0 bg-stone-800 text-yellow-300 border-yellow-600/30">
+                  {formatEvaluation(line.centipawns, line.mate)}
+                </Badge>
+                <span className="text-stone-200">{line.san.slice(0, LINE_LENGTH).join(' ')}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-center gap-1">
+          <Button variant="outline" size="sm" className="medieval-btn-mini h-8" onClick={() => goTo(tree.root)} title="Start">
+            <ChevronFirst className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="medieval-btn-mini h-8" onClick={goBack} title="Back">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="medieval-btn-mini h-8" onClick={goForward} title="Forward">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="medieval-btn-mini h-8" onClick={goToEnd} title="End of line">
+            <ChevronLast className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="max-h-48 overflow-y-auto rounded bg-stone-950/60 p-2">
+          <MoveTree tree={tree} currentId={currentId} onSelect={goTo} />
+        </div>
+
+        {current.parent !== null && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="medieval-btn-mini flex-1 h-7" onClick={() => promoteVariation(currentId)}>
+              Make main line
+            </Button>
+            <Button variant="outline" size="sm" className="medieval-btn-mini flex-1 h-7" onClick={() => removeVariation(currentId)}>
+              Delete from here
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Textarea
+            value={loadText}
+            onChange={event => setLoadText(event.target.value)}
+            placeholder="Paste a position or a game record"
+            className="h-16 text-xs bg-stone-950/60 border-stone-700"
+          />
+          {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+          <div className="flex gap-2">
+            <Button size="sm" className="medieval-btn-mini flex-1 h-7" onClick={handleLoad}>
+              Load
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="medieval-btn-mini flex-1 h-7"
+              onClick={() => setLoadText(serializePosition(current.gameState))}
+              title="Show this position in position notation"
+            >
+              This position
+            </Button>
+            <BoardEditorDialog initialPosition={serializePosition(current.gameState)}>
+              <Button variant="outline" size="sm" className="medieval-btn-mini flex-1 h-7" title="Set this position up in the board editor">
+                Edit
+              </Button>
+            </BoardEditorDialog>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
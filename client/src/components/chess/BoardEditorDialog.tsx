@@ -0,0 +1,328 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { ChessPiece } from './ChessPiece';
+import { useChess } from '../../lib/stores/useChess';
+import { squareName } from '../../lib/chess/notation';
+import { STARTING_POSITION } from '../../lib/chess/positionNotation';
+import type { CastlingRights } from '../../lib/chess/positionNotation';
+import { PieceColor, Position } from '../../lib/chess/types';
+import {
+  EDITOR_PIECE_TYPES,
+  EditorPiece,
+  EditorPosition,
+  availableCastling,
+  editorPositionFrom,
+  editorToNotation,
+  emptyEditorPosition,
+  movePiece,
+  setPiece,
+  validateEditorPosition
+} from '../../lib/chess/boardEditor';
+import { Copy, Eraser, FlipVertical, RotateCcw, Trash2 } from 'lucide-react';
+
+interface BoardEditorDialogProps {
+  children: React.ReactNode;
+  // Position to start editing from, the standard start when omitted
+  initialPosition?: string;
+}
+
+// What is being dragged: a spare piece from the palette or a piece on the board
+type DragSource = { piece: EditorPiece } | { square: Position };
+
+type Tool = EditorPiece | 'erase' | null;
+
+const CASTLING_OPTIONS: { key: keyof CastlingRights; label: string }[] = [
+  { key: 'whiteKingside', label: 'White O-O' },
+  { key: 'whiteQueenside', label: 'White O-O-O' },
+  { key: 'blackKingside', label: 'Black O-O' },
+  { key: 'blackQueenside', label: 'Black O-O-O' }
+];
+
+const INDICES = Array.from({ length: 10 }, (_, i) => i);
+
+const sameTool = (tool: Tool, piece: EditorPiece) =>
+  tool !== null && tool !== 'erase' && tool.type === piece.type && tool.color === piece.color;
+
+function loadPosition(notation?: string): EditorPosition {
+  try {
+    return editorPositionFrom(notation ?? STARTING_POSITION);
+  } catch (error) {
+    console.error('❌ Board editor could not load position:', error);
+    return editorPositionFrom(STARTING_POSITION);
+  }
+}
+
+export function BoardEditorDialog({ children, initialPosition }: BoardEditorDialogProps) {
+  const { startGame, aiDifficulty } = useChess();
+  const [isOpen, setIsOpen] = useState(false);
+  const [position, setPosition] = useState<EditorPosition>(() => loadPosition(initialPosition));
+  const [flipped, setFlipped] = useState(false);
+  const [tool, setTool] = useState<Tool>(null);
+  const [positionText, setPositionText] = useState('');
+  const [loadError, setLoadError] = useState('');
+  const [copied, setCopied] = useState(false);
+  const dragSource = useRef<DragSource | null>(null);
+
+  // Each opening starts from the position the caller passes in
+  useEffect(() => {
+    if (isOpen) {
+      setPosition(loadPosition(initialPosition));
+      setLoadError('');
+      setCopied(false);
+    }
+  }, [isOpen, initialPosition]);
+
+  const notation = editorToNotation(position);
+  const problems = validateEditorPosition(position);
+  const available = availableCastling(position.board);
+
+  useEffect(() => {
+    setPositionText(notation);
+  }, [notation]);
+
+  const rows = flipped ? [...INDICES].reverse() : INDICES;
+  const cols = flipped ? [...INDICES].reverse() : INDICES;
+
+  const handleSquareClick = (square: Position) => {
+    if (tool === 'erase') {
+      setPosition(setPiece(position, square, null));
+    } else if (tool) {
+      // Clicking the same piece again takes it off
+      const current = position.board[square.row][square.col];
+      setPosition(setPiece(position, square, current && sameTool(tool, current) ? null : tool));
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, square: Position) => {
+    event.preventDefault();
+    const source = dragSource.current;
+    dragSource.current = null;
+    if (!source) return;
+    setPosition('piece' in source ? setPiece(position, square, source.piece) : movePiece(position, source.square, square));
+  };
+
+  // A board piece dropped anywhere off the board is removed
+  const handleBoardDragEnd = (event: React.DragEvent, square: Position) => {
+    if (dragSource.current && event.dataTransfer.dropEffect === 'none') {
+      setPosition(setPiece(position, square, null));
+    }
+    dragSource.current = null;
+  };
+
+  const handleLoad = () => {
+    try {
+      setPosition(editorPositionFrom(positionText));
+      setLoadError('');
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(notation);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('❌ Could not copy position:', error);
+    }
+  };
+
+  const handOff = (mode: 'ai' | 'analysis') => {
+    console.log('🧩 Starting from edited position:', { mode, notation });
+    startGame(mode, mode === 'analysis' ? 'advanced' : aiDifficulty, notation);
+    setIsOpen(false);
+  };
+
+  const palette = (color: PieceColor) => (
+    <div className="flex gap-1 justify-center">
+      {EDITOR_PIECE_TYPES.map(type => {
+        const piece: EditorPiece = { type, color };
+        return (
+          <button
+            key={type}
+            type="button"
+            draggable
+            onDragStart={() => { dragSource.current = { piece }; }}
+            onClick={() => setTool(sameTool(tool, piece) ? null : piece)}
+            className={`w-10 h-10 rounded ${sameTool(tool, piece) ? 'bg-purple-700/70 ring-2 ring-yellow-400' : 'bg-stone-700/60 hover:bg-stone-600'}`}
+            title={`${color} ${type}`}
+          >
+            <ChessPiece piece={{ ...piece, id: `spare-${color}-${type}`, hasMoved: false }} position={{ row: -1, col: -1 }} />
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent
+        className="max-w-3xl w-full max-h-[95vh] overflow-y-auto bg-gradient-to-b from-stone-900 to-stone-800 text-white border-yellow-600/30"
+        aria-describedby="board-editor-description"
+      >
+        <DialogHeader>
+          <DialogTitle className="text-yellow-400">🧩 Board Editor</DialogTitle>
+          <DialogDescription id="board-editor-description" className="text-stone-400">
+            Drag spare pieces onto the board, drag pieces around or off it, or pick a piece and click squares.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="board-editor flex flex-col md:flex-row gap-4">
+          <div
+            className="space-y-2"
+            onDragOver={event => event.preventDefault()}
+            onDrop={event => {
+              // Dropping a board piece back on the palette removes it
+              event.preventDefault();
+              const source = dragSource.current;
+              dragSource.current = null;
+              if (source && 'square' in source) setPosition(setPiece(position, source.square, null));
+            }}
+          >
+            {palette(flipped ? 'white' : 'black')}
+            <div className="grid grid-cols-10 border-2 border-yellow-700/60 w-fit mx-auto">
+              {rows.map(row => cols.map(col => {
+                const square = { row, col };
+                const piece = position.board[row][col];
+                return (
+                  <div
+                    key={`${row}-${col}`}
+                    className="w-9 h-9 sm:w-11 sm:h-11 flex items-center justify-center cursor-pointer select-none"
+                    style={{ backgroundColor: (row + col) % 2 === 0 ? '#f0d9b5' : '#b58863' }}
+                    title={squareName(square)}
+                    onClick={() => handleSquareClick(square)}
+                    onContextMenu={event => {
+                      event.preventDefault();
+                      setPosition(setPiece(position, square, null));
+                    }}
+                    onDragOver={event => event.preventDefault()}
+                    onDrop={event => {
+                      event.stopPropagation();
+                      handleDrop(event, square);
+                    }}
+                  >
+                    {piece && (
+                      <div
+                        draggable
+                        className="w-full h-full"
+                        onDragStart={() => { dragSource.current = { square }; }}
+                        onDragEnd={event => handleBoardDragEnd(event, square)}
+                      >
+                        <ChessPiece piece={piece} position={square} />
+                      </div>
+                    )}
+                  </div>
+                );
+              }))}
+            </div>
+            {palette(flipped ? 'black' : 'white')}
+          </div>
+
+          <div className="flex-1 space-y-4 text-sm">
+            <div className="space-y-1">
+              <p className="text-stone-400">Side to move</p>
+              <div className="flex gap-2">
+                {(['white', 'black'] as PieceColor[]).map(color => (
+                  <Button
+                    key={color}
+                    size="sm"
+                    variant={position.sideToMove === color ? 'default' : 'outline'}
+                    className="medieval-btn-mini flex-1 h-7 capitalize"
+                    onClick={() => setPosition({ ...position, sideToMove: color })}
+                  >
+                    {color}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-stone-400">Castling</p>
+              <div className="grid grid-cols-2 gap-2">
+                {CASTLING_OPTIONS.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`castling-${key}`}
+                      checked={position.castling[key] && available[key]}
+                      disabled={!available[key]}
+                      onCheckedChange={checked => setPosition({ ...position, castling: { ...position.castling, [key]: checked === true } })}
+                    />
+                    <Label htmlFor={`castling-${key}`} className="text-stone-200">{label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" className="medieval-btn-mini h-7" onClick={() => setTool(tool === 'erase' ? null : 'erase')}>
+                <Eraser className="w-4 h-4 mr-1" />
+                {tool === 'erase' ? 'Erasing' : 'Erase'}
+              </Button>
+              <Button variant="outline" size="sm" className="medieval-btn-mini h-7" onClick={() => setPosition(emptyEditorPosition())}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                Clear
+              </Button>
+              <Button variant="outline" size="sm" className="medieval-btn-mini h-7" onClick={() => setFlipped(!flipped)}>
+                <FlipVertical className="w-4 h-4 mr-1" />
+                Flip
+              </Button>
+              <Button variant="outline" size="sm" className="medieval-btn-mini h-7" onClick={() => setPosition(editorPositionFrom(STARTING_POSITION))}>
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Reset
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-stone-400">Position</p>
+              <div className="flex gap-2">
+                <Input
+                  value={positionText}
+                  onChange={event => setPositionText(event.target.value)}
+                  className="h-8 text-xs bg-stone-950/60 border-stone-700"
+                />
+                <Button size="sm" className="medieval-btn-mini h-8" onClick={handleLoad}>
+                  Load
+                </Button>
+              </div>
+              {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+            </div>
+
+            {problems.length > 0 ? (
+              <ul className="space-y-1 text-xs text-red-400">
+                {problems.map(problem => <li key={problem}>⚠️ {problem}</li>)}
+              </ul>
+            ) : (
+              <p className="text-xs text-green-400">✅ Position is playable</p>
+            )}
+
+            <div className="flex flex-col gap-2">
+              <Button className="medieval-btn" disabled={problems.length > 0} onClick={() => handOff('ai')}>
+                ⚔️ Play vs AI from here
+              </Button>
+              <Button className="medieval-btn" disabled={problems.length > 0} onClick={() => handOff('analysis')}>
+                🔬 Analyse
+              </Button>
+              <Button variant="outline" className="medieval-btn-mini" disabled={problems.length > 0} onClick={handleCopy}>
+                <Copy className="w-4 h-4 mr-1" />
+                {copied ? 'Copied!' : 'Copy position'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1026,7 +1026,8 @@ export function ChessBoard() {
       
       // Extract move details
       const moveNotation = lastMove.notation || lastMove.move || '';
-      const isCapture = moveNotation.includes('x') || moveNotation.includes('X');
+      // Wizard ranged attacks are written with '*' (see lib/chess/notation.ts)
+      const isCapture = moveNotation.includes('x') || moveNotation.includes('X') || moveNotation.includes('*');
       const isCheck = moveNotation.includes('+');
       const isCheckmate = moveNotation.includes('#');
       const isCastling = moveNotation.includes('O-O') || moveNotation.includes('0-0');
@@ -0,0 +1,99 @@
+import React from 'react';
+import { useEndgameTrainer } from '../../lib/stores/useEndgameTrainer';
+import {
+  ENDGAME_CATEGORY_LABELS,
+  ENDGAME_LESSONS,
+  EndgameCategory,
+  describeGoal
+} from '../../lib/chess/endgameLessons';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { RotateCcw, SkipForward } from 'lucide-react';
+
+const CATEGORIES = Object.keys(ENDGAME_CATEGORY_LABELS) as EndgameCategory[];
+
+export function EndgameTrainerPanel() {
+  const {
+    progress,
+    lesson,
+    status,
+    reason,
+    movesPlayed,
+    startLesson,
+    nextLesson,
+    retry
+  } = useEndgameTrainer();
+
+  const completed = ENDGAME_LESSONS.filter(candidate => progress[candidate.id]?.completed).length;
+
+  const message = {
+    idle: '',
+    playing: 'Your move',
+    defending: 'The defender is thinking...',
+    completed: `✅ Goal reached in ${movesPlayed} move${movesPlayed === 1 ? '' : 's'}!`,
+    failed: `❌ ${reason ?? 'Lesson failed'}`
+  }[status];
+
+  return (
+    <Card className="endgame-trainer-panel w-80 bg-stone-900/90 border-yellow-600/30 text-white">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base text-yellow-400">
+          <span>🏰 Endgame Trainer</span>
+          <Badge variant="outline" className="bg-stone-800 text-yellow-300 border-yellow-600/30">
+            {completed}/{ENDGAME_LESSONS.length}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {lesson && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold text-stone-100">{lesson.title}</span>
+              <span className="text-xs text-stone-400">{movesPlayed}/{lesson.goal.moves} moves</span>
+            </div>
+            <p className="text-yellow-300">🎯 {describeGoal(lesson.goal)}</p>
+            <p className="text-xs text-stone-300">{lesson.description}</p>
+            <p className={status === 'failed' ? 'text-red-400' : status === 'completed' ? 'text-green-400' : 'text-stone-200'}>
+              {message}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="medieval-btn-mini flex-1 h-8" onClick={retry}>
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Retry
+              </Button>
+              <Button size="sm" className="medieval-btn-mini flex-1 h-8" onClick={nextLesson}>
+                <SkipForward className="w-4 h-4 mr-1" />
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {CATEGORIES.map(category => (
+            <div key={category}>
+              <p className="text-xs uppercase tracking-wide text-stone-400">{ENDGAME_CATEGORY_LABELS[category]}</p>
+              {ENDGAME_LESSONS.filter(candidate => candidate.category === category).map(candidate => {
+                const record = progress[candidate.id];
+                return (
+                  <button
+                    key={candidate.id}
+                    type="button"
+                    className={`w-full flex items-center justify-between px-2 py-1 rounded text-left hover:bg-stone-700 ${candidate.id === lesson?.id ? 'bg-purple-700/60' : ''}`}
+                    onClick={() => startLesson(candidate.id)}
+                  >
+                    <span>{record?.completed ? '✅' : '⬜'} {candidate.title}</span>
+                    {record?.bestMoves != null && (
+                      <span className="text-xs text-stone-400">best {record.bestMoves}</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { useChess } from '../../lib/stores/useChess';
+import { currentEvaluation, useAnalysis } from '../../lib/stores/useAnalysis';
+import { winningChances } from '../../lib/chess/gameReview';
+
+export function formatEvaluation(centipawns: number, mate: number | null): string {
+  if (mate !== null) return mate === 0 ? '#' : `${mate > 0 ? '' : '-'}#${Math.abs(mate)}`;
+  const pawns = centipawns / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+}
+
+// White's share of the bar grows from the bottom with white's winning chances
+export function EvaluationBar() {
+  const { isCheckmate, gamePhase, currentPlayer } = useChess();
+  const lines = useAnalysis(state => state.lines);
+  const { centipawns, mate } = currentEvaluation(lines, { isCheckmate, gamePhase, currentPlayer });
+
+  const whiteShare = mate !== null
+    ? (centipawns > 0 || mate > 0 ? 100 : 0)
+    : winningChances(centipawns);
+  const whiteAhead = whiteShare >= 50;
+
+  return (
+    <div
+      className="evaluation-bar relative w-6 self-stretch min-h-[320px] rounded overflow-hidden border border-yellow-600/40 bg-stone-900"
+      title={`Evaluation ${formatEvaluation(centipawns, mate)}`}
+      role="meter"
+      aria-label="Evaluation"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(whiteShare)}
+    >
+      <div
+        className="absolute bottom-0 left-0 right-0 bg-stone-100 transition-all duration-500"
+        style={{ height: `${whiteShare}%` }}
+      />
+      <span
+        className={`absolute left-0 right-0 text-center text-[10px] font-bold ${whiteAhead ? 'bottom-1 text-stone-900' : 'top-1 text-stone-100'}`}
+      >
+        {formatEvaluation(centipawns, mate)}
+      </span>
+    </div>
+  );
+}
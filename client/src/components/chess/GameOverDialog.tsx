@@ -1,6 +1,7 @@
 import React from 'react';
 import { useChess } from '../../lib/stores/useChess';
 import { useAudio } from '../../lib/stores/useAudio';
+import { DRAW_REASON_DESCRIPTIONS } from '@shared/drawRules';
 import {
   Dialog,
   DialogContent,
@@ -10,6 +11,7 @@ import {
 import { Button } from '../ui/button';
 import { Card, CardContent } from '../ui/card';
 import { Badge } from '../ui/badge';
+import { GameReviewDialog } from './GameReviewDialog';
 import { Trophy, RotateCcw, Home, Crown } from 'lucide-react';
 
 export function GameOverDialog() {
@@ -17,6 +19,7 @@ export function GameOverDialog() {
     winner, 
     isCheckmate, 
     isStalemate, 
+    drawReason,
     gameMode, 
     aiDifficulty,
     moveHistory,
@@ -25,6 +28,7 @@ export function GameOverDialog() {
   } = useChess();
   
   const { playGameEvent } = useAudio();
+  const [showReview, setShowReview] = React.useState(false);
 
   React.useEffect(() => {
     if (winner) {
@@ -48,12 +52,16 @@ export function GameOverDialog() {
     if (isStalemate) {
       return 'Stalemate - Draw!';
     }
+
+    if (drawReason) {
+      return 'Draw!';
+    }
     
     return 'Game Over';
   };
 
   const getResultIcon = () => {
-    if (isStalemate) {
+    if (isStalemate || drawReason) {
       return <Crown className="w-8 h-8 text-yellow-500" />;
     }
     
@@ -67,8 +75,8 @@ export function GameOverDialog() {
   };
 
   const getResultDescription = () => {
-    if (isStalemate) {
-      return "No legal moves available, but the king is not in check.";
+    if (drawReason || isStalemate) {
+      return DRAW_REASON_DESCRIPTIONS[drawReason ?? 'stalemate'];
     }
     
     if (isCheckmate && winner) {
@@ -153,6 +161,15 @@ export function GameOverDialog() {
             </div>
           </Button>
           
+          {moveHistory.length > 0 && (
+            <Button variant="outline" size="lg" className="medieval-btn mode-button" onClick={() => setShowReview(true)}>
+              <div className="mode-content">
+                <span>📈 Review Game</span>
+                <Badge variant="secondary">Analysis</Badge>
+              </div>
+            </Button>
+          )}
+          
           <Button variant="outline" size="lg" className="medieval-btn mode-button" onClick={resetGame}>
             <div className="mode-content">
               <span>🏠 Return to Menu</span>
@@ -161,6 +178,7 @@ export function GameOverDialog() {
           </Button>
         </div>
       </DialogContent>
+      <GameReviewDialog open={showReview} onOpenChange={setShowReview} />
     </Dialog>
   );
 }
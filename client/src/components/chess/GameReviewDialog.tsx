@@ -0,0 +1,238 @@
+import React from 'react';
+import { useChess } from '../../lib/stores/useChess';
+import { useGameReview } from '../../lib/stores/useGameReview';
+import type { MoveClassification, ReviewedMove, ReviewSummary } from '../../lib/chess/gameReview';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Badge } from '../ui/badge';
+import { Card, CardContent } from '../ui/card';
+import { Progress } from '../ui/progress';
+import { LineChart } from 'lucide-react';
+
+interface GameReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CLASSIFICATION_STYLES: Record<MoveClassification, { label: string; symbol: string; color: string }> = {
+  best: { label: 'Best', symbol: '', color: 'text-green-400' },
+  good: { label: 'Good', symbol: '', color: 'text-stone-200' },
+  inaccuracy: { label: 'Inaccuracy', symbol: '?!', color: 'text-yellow-400' },
+  mistake: { label: 'Mistake', symbol: '?', color: 'text-orange-400' },
+  blunder: { label: 'Blunder', symbol: '??', color: 'text-red-500' }
+};
+
+// Evaluations beyond this many centipawns are drawn at the edge of the graph
+const GRAPH_RANGE = 1000;
+const GRAPH_WIDTH = 600;
+const GRAPH_HEIGHT = 120;
+
+function formatEval(centipawns: number): string {
+  const pawns = centipawns / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+}
+
+function moveLabel(move: ReviewedMove, startsWithBlack: boolean): string {
+  const number = Math.floor((move.ply + (startsWithBlack ? 1 : 0)) / 2) + 1;
+  return move.color === 'white' ? `${number}. ${move.san}` : `${number}... ${move.san}`;
+}
+
+function EvaluationGraph({ scores, moves, selected, onSelect }: {
+  scores: number[];
+  moves: ReviewedMove[];
+  selected: number | null;
+  onSelect: (ply: number) => void;
+}) {
+  const x = (index: number) => scores.length > 1 ? (index / (scores.length - 1)) * GRAPH_WIDTH : 0;
+  const y = (score: number) => {
+    const clamped = Math.max(-GRAPH_RANGE, Math.min(GRAPH_RANGE, score));
+    return GRAPH_HEIGHT / 2 - (clamped / GRAPH_RANGE) * (GRAPH_HEIGHT / 2);
+  };
+  const line = scores.map((score, index) => `${x(index)},${y(score)}`).join(' ');
+  const area = `0,${GRAPH_HEIGHT} ${line} ${x(scores.length - 1)},${GRAPH_HEIGHT}`;
+
+  return (
+    <svg
+      viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+      className="w-full h-32 rounded bg-stone-950 border border-yellow-600/20"
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Evaluation graph"
+    >
+      {/* White's advantage fills from the bottom, so the dark part is black's */}
+      <polygon points={area} fill="rgba(245, 245, 244, 0.85)" />
+      <line x1={0} y1={GRAPH_HEIGHT / 2} x2={GRAPH_WIDTH} y2={GRAPH_HEIGHT / 2} stroke="rgba(202, 138, 4, 0.5)" strokeDasharray="4 4" />
+      {selected !== null && (
+        <line x1={x(selected + 1)} y1={0} x2={x(selected + 1)} y2={GRAPH_HEIGHT} stroke="#a855f7" strokeWidth={2} />
+      )}
+      {moves.filter(move => move.classification === 'mistake' || move.classification === 'blunder').map(move => (
+        <circle
+          key={move.ply}
+          cx={x(move.ply + 1)}
+          cy={y(scores[move.ply + 1])}
+          r={5}
+          className="cursor-pointer"
+          fill={move.classification === 'blunder' ? '#ef4444' : '#fb923c'}
+          onClick={() => onSelect(move.ply)}
+        />
+      ))}
+      {/* Invisible columns make every move clickable */}
+      {moves.map(move => (
+        <rect
+          key={`hit-${move.ply}`}
+          x={x(move.ply + 0.5)}
+          y={0}
+          width={Math.max(1, x(1) - x(0))}
+          height={GRAPH_HEIGHT}
+          fill="transparent"
+          className="cursor-pointer"
+          onClick={() => onSelect(move.ply)}
+        />
+      ))}
+    </svg>
+  );
+}
+
+function SummaryCard({ title, summary }: { title: string; summary: ReviewSummary }) {
+  return (
+    <Card className="bg-stone-800/50 border-yellow-600/20">
+      <CardContent className="pt-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-stone-200 font-medium">{title}</span>
+          <Badge variant="outline" className="bg-yellow-600/20 text-yellow-300 border-yellow-600/30">
+            {summary.accuracy.toFixed(1)}% accuracy
+          </Badge>
+        </div>
+        <div className="grid grid-cols-3 gap-1 text-xs text-stone-300">
+          <span className={CLASSIFICATION_STYLES.inaccuracy.color}>{summary.inaccuracies} inaccuracies</span>
+          <span className={CLASSIFICATION_STYLES.mistake.color}>{summary.mistakes} mistakes</span>
+          <span className={CLASSIFICATION_STYLES.blunder.color}>{summary.blunders} blunders</span>
+        </div>
+        <div className="text-xs text-stone-400">Average loss: {summary.averageCentipawnLoss} centipawns</div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function GameReviewDialog({ open, onOpenChange }: GameReviewDialogProps) {
+  const { status, progress, review, startReview } = useGameReview();
+  const [selected, setSelected] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setSelected(null);
+    startReview(useChess.getState());
+  }, [open, startReview]);
+
+  // Numbering starts from the position the game was set up from
+  const startsWithBlack = review?.moves[0]?.color === 'black';
+  const selectedMove = review && selected !== null ? review.moves[selected] : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl w-full max-h-[90vh] overflow-y-auto bg-gradient-to-b from-stone-900 to-stone-800 text-white border-yellow-600/30" aria-describedby="game-review-description">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3 justify-center text-2xl text-yellow-400">
+            <LineChart className="w-7 h-7" />
+            Game Review
+          </DialogTitle>
+        </DialogHeader>
+
+        <p id="game-review-description" className="sr-only">
+          Engine evaluation of every move of the finished game
+        </p>
+
+        {status === 'reviewing' && (
+          <div className="space-y-2 text-center">
+            <p className="text-stone-300">The wizard is studying every move...</p>
+            <Progress value={Math.round(progress * 100)} className="bg-stone-700" />
+          </div>
+        )}
+
+        {status === 'failed' && (
+          <p className="text-center text-red-400">The review could not be completed.</p>
+        )}
+
+        {status === 'done' && review && (
+          <div className="space-y-4">
+            <EvaluationGraph
+              scores={review.positions.map(position => position.score)}
+              moves={review.moves}
+              selected={selected}
+              onSelect={setSelected}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <SummaryCard title="White" summary={review.summary.white} />
+              <SummaryCard title="Black" summary={review.summary.black} />
+            </div>
+
+            {(review.openingType || review.endgameType) && (
+              <div className="flex flex-wrap gap-2 justify-center">
+                {review.openingType && (
+                  <Badge variant="secondary" className="bg-purple-600/20 text-purple-300 border-purple-600/30">
+                    {review.openingType}
+                  </Badge>
+                )}
+                {review.endgameType && (
+                  <Badge variant="secondary" className="bg-blue-600/20 text-blue-300 border-blue-600/30">
+                    {review.endgameType}
+                  </Badge>
+                )}
+              </div>
+            )}
+
+            {selectedMove && (
+              <Card className="bg-stone-800/50 border-purple-500/30">
+                <CardContent className="pt-4 space-y-1 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-stone-100">
+                      {moveLabel(selectedMove, startsWithBlack)}
+                      {CLASSIFICATION_STYLES[selectedMove.classification].symbol}
+                    </span>
+                    <span className={CLASSIFICATION_STYLES[selectedMove.classification].color}>
+                      {CLASSIFICATION_STYLES[selectedMove.classification].label}
+                      {selectedMove.centipawnLoss > 0 && ` (−${selectedMove.centipawnLoss} cp)`}
+                    </span>
+                  </div>
+                  <div className="text-stone-300">
+                    Evaluation {formatEval(selectedMove.evalBefore)} → {formatEval(selectedMove.evalAfter)}
+                  </div>
+                  {selectedMove.classification !== 'best' && selectedMove.bestSan && (
+                    <div className="text-stone-300">
+                      Best was <span className="text-green-400 font-medium">{selectedMove.bestSan}</span>
+                      {selectedMove.bestLine.length > 1 && (
+                        <span className="text-stone-400">, with {selectedMove.bestLine.join(' ')}</span>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm max-h-64 overflow-y-auto pr-1">
+              {review.moves.map(move => {
+                const style = CLASSIFICATION_STYLES[move.classification];
+                return (
+                  <button
+                    key={move.ply}
+                    type="button"
+                    className={`text-left px-2 py-0.5 rounded hover:bg-stone-700 ${selected === move.ply ? 'bg-purple-700/40' : ''}`}
+                    onClick={() => setSelected(move.ply)}
+                  >
+                    <span className="text-stone-200">{moveLabel(move, startsWithBlack)}</span>
+                    <span className={`ml-1 font-bold ${style.color}`}>{style.symbol}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
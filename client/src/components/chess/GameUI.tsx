@@ -6,6 +6,7 @@ import { Collapsible, CollapsibleTrigger, CollapsibleContent } from '../ui/colla
 import { ChevronDown, Settings, ChevronUp } from 'lucide-react';
 import { useChess } from '../../lib/stores/useChess';
 import { useAudio } from '../../lib/stores/useAudio';
+import { squareName } from '../../lib/chess/notation';
 // import { GameHints } from './GameHints';
 import { AdBanner } from '../monetization/AdBanner';
 // import { useAmbientSound } from '../../lib/stores/useAmbientSound';
@@ -42,6 +43,9 @@ export function GameUI({ onSettings }: GameUIProps) {
       case 'local': return 'Local PvP';
       case 'ai': return 'vs AI';
       case 'ai-vs-ai': return 'AI vs AI';
+      case 'analysis': return 'Analysis';
+      case 'puzzle': return 'Puzzle';
+      case 'endgame': return 'Endgame Trainer';
       default: return 'Chess';
     }
   };
@@ -130,8 +134,7 @@ export function GameUI({ onSettings }: GameUIProps) {
                         <span className="font-mono">
                           {Math.floor((moveHistory.length - 8 + index) / 2) + 1}.
                           {((moveHistory.length - 8 + index) % 2 === 0) ? ' ' : '.. '}
-                          {String.fromCharCode(97 + move.from.col)}{10 - move.from.row}→
-                          {String.fromCharCode(97 + move.to.col)}{10 - move.to.row}
+                          {move.notation || `${squareName(move.from)}→${squareName(move.to)}`}
                         </span>
                         <span className="text-gray-400">{move.piece.type}</span>
                       </div>
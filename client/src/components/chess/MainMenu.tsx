@@ -17,6 +17,7 @@ import { CampaignDialog } from './CampaignDialog';
 import { CampaignMode } from '../campaign/CampaignMode';
 // MULTIPLAYER DISABLED: import { OnlineMultiplayerDialog } from './OnlineMultiplayerDialog';
 import { LeaderboardDialog } from './LeaderboardDialog';
+import { BoardEditorDialog } from './BoardEditorDialog';
 import { LoginDialog } from '../auth/LoginDialog';
 import { CloudSaveDialog } from '../auth/CloudSaveDialog';
 import cloudSaveManager from '../../lib/saves/cloudSaveManager';
@@ -247,6 +248,45 @@ export function MainMenu({ onSettings, onAchievements, onCollection }: MainMenuP
                     <Badge variant="secondary">Training</Badge>
                   </div>
                 </Button>
+
+                <Button
+                  className="medieval-btn mode-button"
+                  onClick={() => startGame('analysis', 'advanced')}
+                >
+                  <div className="mode-content">
+                    <span>🔬 Analysis Board</span>
+                    <Badge variant="secondary">Study</Badge>
+                  </div>
+                </Button>
+
+                <Button
+                  className="medieval-btn mode-button"
+                  onClick={() => startGame('puzzle', 'advanced')}
+                >
+                  <div className="mode-content">
+                    <span>🧩 Tactical Puzzles</span>
+                    <Badge variant="secondary">Train Tactics</Badge>
+                  </div>
+                </Button>
+
+                <Button
+                  className="medieval-btn mode-button"
+                  onClick={() => startGame('endgame', 'advanced')}
+                >
+                  <div className="mode-content">
+                    <span>🏰 Endgame Trainer</span>
+                    <Badge variant="secondary">Wizard Endgames</Badge>
+                  </div>
+                </Button>
+
+                <BoardEditorDialog>
+                  <Button className="medieval-btn mode-button">
+                    <div className="mode-content">
+                      <span>✏️ Board Editor</span>
+                      <Badge variant="secondary">Custom Position</Badge>
+                    </div>
+                  </Button>
+                </BoardEditorDialog>
                 
 
                 <Button
@@ -13,6 +13,7 @@ import { Progress } from '../ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Separator } from '../ui/separator';
 import { useMultiplayer } from '../../lib/stores/useMultiplayer';
+import { DEFAULT_TIME_CONTROL, type TimeControl } from '@shared/gameClock';
 import { 
   Wifi, 
   WifiOff,
@@ -44,7 +45,7 @@ export function OnlineMultiplayerDialog({ children }: OnlineMultiplayerDialogPro
     fetchServerStats
   } = useMultiplayer();
 
-  const [selectedTimeControl, setSelectedTimeControl] = useState(600);
+  const [selectedTimeControl, setSelectedTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
 
   useEffect(() => {
     // Auto-connect if not connected
@@ -68,12 +69,11 @@ export function OnlineMultiplayerDialog({ children }: OnlineMultiplayerDialogPro
     return () => clearInterval(interval);
   }, [fetchServerStats]);
 
-  const timeControlOptions = [
-    { value: 180, label: '3 min', description: 'Blitz' },
-    { value: 300, label: '5 min', description: 'Blitz' },
-    { value: 600, label: '10 min', description: 'Rapid' },
-    { value: 900, label: '15 min', description: 'Rapid' },
-    { value: 1800, label: '30 min', description: 'Classical' }
+  const timeControlOptions: { value: TimeControl; label: string; description: string }[] = [
+    { value: '5+0', label: '5 min', description: 'Blitz' },
+    { value: '10+0', label: '10 min', description: 'Rapid' },
+    { value: '15+10', label: '15+10', description: 'Rapid' },
+    { value: '30+0', label: '30 min', description: 'Classical' }
   ];
 
   const handleJoinQueue = () => {
@@ -84,12 +84,6 @@ export function OnlineMultiplayerDialog({ children }: OnlineMultiplayerDialogPro
     }
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
-
   return (
     <Dialog>
       <DialogTrigger asChild>
@@ -260,7 +254,7 @@ export function OnlineMultiplayerDialog({ children }: OnlineMultiplayerDialogPro
                         disabled={!isConnected}
                       >
                         <Swords className="w-4 h-4 mr-2" />
-                        Find Opponent ({formatTime(selectedTimeControl)})
+                        Find Opponent ({selectedTimeControl})
                       </Button>
                     )}
                   </CardContent>
@@ -0,0 +1,104 @@
+import React from 'react';
+import { puzzleRating, usePuzzles } from '../../lib/stores/usePuzzles';
+import { PUZZLE_THEME_LABELS, puzzleColor, solutionToSAN } from '../../lib/chess/puzzles';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Eye, RotateCcw, SkipForward } from 'lucide-react';
+
+export function PuzzlePanel() {
+  const {
+    rating,
+    puzzleRatings,
+    history,
+    current,
+    status,
+    lastRatingChange,
+    nextPuzzle,
+    retry,
+    revealSolution
+  } = usePuzzles();
+
+  if (!current) {
+    return (
+      <Card className="puzzle-panel w-80 bg-stone-900/90 border-yellow-600/30 text-white">
+        <CardContent className="p-4 text-sm text-stone-300">No puzzles are available yet.</CardContent>
+      </Card>
+    );
+  }
+
+  const solved = history.filter(attempt => attempt.solved).length;
+  const finished = status === 'solved' || status === 'revealed';
+  const color = puzzleColor(current);
+
+  const message = {
+    idle: '',
+    solving: `${color === 'white' ? '🤍 White' : '⚫ Black'} to move: find the best line`,
+    opponent: 'Good move! Waiting for the reply...',
+    wrong: "❌ That's not it. Try again or see the solution.",
+    solved: '✅ Solved!',
+    revealed: '👁️ Solution'
+  }[status];
+
+  return (
+    <Card className="puzzle-panel w-80 bg-stone-900/90 border-yellow-600/30 text-white">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base text-yellow-400">
+          <span>🧩 Puzzles</span>
+          <span className="flex items-center gap-2">
+            <Badge variant="outline" className="bg-stone-800 text-yellow-300 border-yellow-600/30">
+              Rating {rating}
+            </Badge>
+            {lastRatingChange !== null && (
+              <span className={`text-xs ${lastRatingChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {lastRatingChange >= 0 ? '+' : ''}{lastRatingChange}
+              </span>
+            )}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="flex items-center justify-between text-xs text-stone-400">
+          <span>Puzzle rating {puzzleRating(current, puzzleRatings)}</span>
+          <span>{solved} solved of {history.length} tried</span>
+        </div>
+
+        <p className={status === 'wrong' ? 'text-red-400' : status === 'solved' ? 'text-green-400' : 'text-stone-200'}>
+          {message}
+        </p>
+
+        {/* Themes would give the answer away, so they wait until the end */}
+        {finished && (
+          <div className="flex flex-wrap gap-1">
+            {current.themes.map(theme => (
+              <Badge key={theme} variant="secondary" className="text-xs">
+                {PUZZLE_THEME_LABELS[theme]}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {status === 'revealed' && (
+          <p className="rounded bg-stone-950/60 p-2 text-stone-200">{solutionToSAN(current).join(' ')}</p>
+        )}
+
+        <div className="flex gap-2">
+          {!finished && (
+            <Button variant="outline" size="sm" className="medieval-btn-mini flex-1 h-8" onClick={revealSolution}>
+              <Eye className="w-4 h-4 mr-1" />
+              Solution
+            </Button>
+          )}
+          <Button variant="outline" size="sm" className="medieval-btn-mini flex-1 h-8" onClick={retry}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Retry
+          </Button>
+          <Button size="sm" className="medieval-btn-mini flex-1 h-8" onClick={nextPuzzle}>
+            <SkipForward className="w-4 h-4 mr-1" />
+            Next
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,13 +5,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useChess } from '@/lib/stores/useChess';
 import { useAudio } from '@/lib/stores/useAudio';
+import { hintSystem } from '@/lib/chess/hintSystem';
 
 interface HintContent {
   id: string;
   title: string;
   description: string;
   icon: React.ReactNode;
-  trigger: 'gameStart' | 'firstMove' | 'pieceSelection' | 'wizardMove' | 'check' | 'promotion' | 'endgame';
+  trigger: 'gameStart' | 'firstMove' | 'pieceSelection' | 'wizardMove' | 'check' | 'threat' | 'promotion' | 'endgame';
   priority: 'high' | 'medium' | 'low';
   category: 'movement' | 'strategy' | 'special' | 'victory';
   position?: { x: number; y: number };
@@ -69,6 +70,16 @@ const CONTEXTUAL_HINTS: HintContent[] = [
     category: 'strategy',
     delay: 0
   },
+  {
+    id: 'piece-in-danger',
+    title: 'A Piece Is in Danger',
+    description: 'One of your pieces can be captured. Move it, defend it, or make a bigger threat.',
+    icon: <Target className="w-5 h-5 text-red-500" />,
+    trigger: 'threat',
+    priority: 'high',
+    category: 'strategy',
+    delay: 500
+  },
   {
     id: 'endgame-strategy',
     title: 'Endgame Approach',
@@ -102,7 +113,8 @@ export function ContextualHintOverlay({
     board, 
     isInCheck, 
     currentPlayer,
-    moveHistory 
+    moveHistory,
+    gameMode
   } = useChess();
   
   const { playGameEvent } = useAudio();
@@ -126,14 +138,15 @@ export function ContextualHintOverlay({
     localStorage.setItem('wizard-chess-dismissed-hints', JSON.stringify(Array.from(hints)));
   };
 
-  // Trigger hint based on game state
-  const triggerHint = (trigger: HintContent['trigger']) => {
+  // Trigger hint based on game state; `description` replaces the stock text
+  // with one about the position on the board
+  const triggerHint = (trigger: HintContent['trigger'], description?: string) => {
     if (!showHints || !isNewPlayer) return;
 
     const hint = CONTEXTUAL_HINTS.find(h => h.trigger === trigger && !dismissedHints.has(h.id));
     if (hint && !activeHint) {
       setTimeout(() => {
-        setActiveHint(hint);
+        setActiveHint(description ? { ...hint, description } : hint);
         // Play audio for welcome hint
         if (hint.id === 'welcome') {
           playGameEvent('tutorial_welcome');
@@ -178,11 +191,18 @@ export function ContextualHintOverlay({
     }
   }, [moveHistory.length, currentPlayer]);
 
+  // Check and pieces in danger are named from the position, for the player
+  // to move (in AI games the player is always white)
   useEffect(() => {
+    if (gamePhase !== 'playing' || (gameMode === 'ai' && currentPlayer !== 'white')) return;
+
+    const [threat] = hintSystem.findThreats(useChess.getState());
     if (isInCheck) {
-      triggerHint('check');
+      triggerHint('check', threat?.piece.type === 'king' ? `${threat.description}. Move the king, block the check or capture the checking piece.` : undefined);
+    } else if (threat) {
+      triggerHint('threat', `${threat.description}. Move it, defend it, or make a bigger threat.`);
     }
-  }, [isInCheck]);
+  }, [board, currentPlayer, isInCheck]);
 
   useEffect(() => {
     if (selectedPosition && board) {
@@ -15,6 +15,7 @@ import {
   Settings
 } from 'lucide-react';
 import { hintLearning } from '../../lib/hints/hintLearning';
+import type { HintInfo } from '../../lib/chess/hintSystem';
 import { useChess } from '../../lib/stores/useChess';
 
 interface PersonalizedHintModalProps {
@@ -23,6 +24,8 @@ interface PersonalizedHintModalProps {
   difficulty: 'easy' | 'medium' | 'hard';
   gamePhase: 'opening' | 'middle' | 'endgame';
   position?: string;
+  // The engine's explained move for the position, shown above the general advice
+  hint?: HintInfo | null;
 }
 
 // Enhanced hint database with learning metadata
@@ -73,7 +76,8 @@ export function PersonalizedHintModal({
   onClose, 
   difficulty, 
   gamePhase, 
-  position 
+  position,
+  hint
 }: PersonalizedHintModalProps) {
   const [currentHint, setCurrentHint] = useState<string>('');
   const [currentHintData, setCurrentHintData] = useState<any>(null);
@@ -179,6 +183,31 @@ export function PersonalizedHintModal({
         </DialogHeader>
 
         <div className="space-y-6">
+          {/* Engine Hint: the move, the threat it answers and the trap to avoid */}
+          {hint && (
+            <Card className="border-2 border-purple-300 bg-gradient-to-br from-purple-50 to-amber-50">
+              <CardContent className="p-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-xl font-bold text-purple-900">♟️ {hint.san}</h3>
+                  <Badge variant="outline">
+                    {hint.mate !== null ? `Mate in ${Math.abs(hint.mate)}` : `${hint.score > 0 ? '+' : ''}${(hint.score / 100).toFixed(1)}`}
+                  </Badge>
+                </div>
+                <p className="text-gray-800">{hint.description}</p>
+                {hint.threat && (
+                  <p className="text-red-700">⚠️ {hint.threat.description}</p>
+                )}
+                <p className="text-gray-800">🎯 {hint.tactic}</p>
+                {hint.refutation && (
+                  <p className="text-orange-800">🚫 {hint.refutation.description}</p>
+                )}
+                {hint.line.length > 1 && (
+                  <p className="text-xs text-muted-foreground">Expected line: {hint.line.join(' ')}</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Main Hint Display */}
           <Card className="border-2 border-amber-200 bg-gradient-to-br from-amber-50 to-orange-50">
             <CardContent className="p-6">
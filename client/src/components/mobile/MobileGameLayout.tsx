@@ -6,6 +6,9 @@ import { ResponsiveMobileChessBoard } from './MobileChessBoardWrapper';
 import { MobileGameControls, MobileMenuOverlay } from './MobileGameControls';
 import { MobileSettingsDialog, MobileSettingsQuickAccess } from './MobileSettingsDialog';
 import { GameUI } from '@/components/chess/GameUI';
+import { AnalysisPanel } from '@/components/chess/AnalysisPanel';
+import { PuzzlePanel } from '@/components/chess/PuzzlePanel';
+import { EndgameTrainerPanel } from '@/components/chess/EndgameTrainerPanel';
 import { cn } from '@/lib/utils';
 
 interface MobileGameLayoutProps {
@@ -23,7 +26,7 @@ export function MobileGameLayout({
 }: MobileGameLayoutProps) {
   const deviceInfo = useDeviceDetection();
   const { settings } = useDeviceStore();
-  const { gamePhase } = useChess();
+  const { gamePhase, gameMode } = useChess();
   
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [showMobileSettings, setShowMobileSettings] = useState(false);
@@ -90,6 +93,24 @@ export function MobileGameLayout({
             <div className="flex-1 flex items-center justify-center min-h-0 w-full">
               <ResponsiveMobileChessBoard />
             </div>
+
+            {gameMode === 'analysis' && (
+              <div className="w-full max-w-md flex-shrink-0">
+                <AnalysisPanel />
+              </div>
+            )}
+
+            {gameMode === 'puzzle' && (
+              <div className="w-full max-w-md flex-shrink-0">
+                <PuzzlePanel />
+              </div>
+            )}
+
+            {gameMode === 'endgame' && (
+              <div className="w-full max-w-md flex-shrink-0">
+                <EndgameTrainerPanel />
+              </div>
+            )}
             
           </div>
         ) : (
@@ -107,6 +128,24 @@ export function MobileGameLayout({
                 <GameUI compact />
               </div>
             )}
+
+            {gameMode === 'analysis' && (
+              <div className="flex-1 max-w-xs h-full overflow-y-auto">
+                <AnalysisPanel />
+              </div>
+            )}
+
+            {gameMode === 'puzzle' && (
+              <div className="flex-1 max-w-xs h-full overflow-y-auto">
+                <PuzzlePanel />
+              </div>
+            )}
+
+            {gameMode === 'endgame' && (
+              <div className="flex-1 max-w-xs h-full overflow-y-auto">
+                <EndgameTrainerPanel />
+              </div>
+            )}
             
           </div>
         )}
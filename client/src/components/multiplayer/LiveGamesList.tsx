@@ -0,0 +1,79 @@
+import React, { useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Eye, RefreshCw, Tv } from 'lucide-react';
+import { useMultiplayer } from '../../lib/stores/useMultiplayer';
+
+// Refresh the list while it's on screen
+const REFRESH_INTERVAL = 10000;
+
+/**
+ * Live online games that can be watched, with their players and ratings.
+ */
+export function LiveGamesList() {
+  const { liveGames, isConnected, spectateError, fetchLiveGames, spectateGame } = useMultiplayer();
+
+  useEffect(() => {
+    if (!isConnected) return;
+    fetchLiveGames();
+    const timer = setInterval(fetchLiveGames, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isConnected, fetchLiveGames]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-blue-700 text-sm">Moves reach spectators a few seconds after the players.</p>
+        <Button variant="outline" size="sm" onClick={fetchLiveGames} disabled={!isConnected}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {spectateError && <p className="text-sm text-red-600">{spectateError}</p>}
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {liveGames.map((game) => (
+          <Card key={game.gameId} className="border-blue-200 hover:shadow-lg transition-shadow">
+            <CardHeader>
+              <CardTitle className="text-blue-900 text-base flex items-center justify-between gap-2">
+                <span>
+                  ♔ {game.white.name} <Badge className="text-xs">{game.white.rating}</Badge>
+                </span>
+                <span className="text-blue-500 text-sm">vs</span>
+                <span>
+                  ♚ {game.black.name} <Badge className="text-xs">{game.black.rating}</Badge>
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex justify-between items-center">
+                <div className="text-sm text-blue-700">
+                  {game.timeControl} • {game.moves} moves • <Eye className="w-3 h-3 inline" /> {game.spectators}
+                </div>
+                <Button
+                  onClick={() => spectateGame(game.gameId)}
+                  disabled={!isConnected}
+                  className="bg-blue-600 hover:bg-blue-700 text-white"
+                  size="sm"
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  Watch
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        {liveGames.length === 0 && (
+          <div className="col-span-2 text-center py-12">
+            <Tv className="w-16 h-16 text-blue-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-blue-900 mb-2">No live games</h3>
+            <p className="text-blue-700">Games in progress will show up here.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
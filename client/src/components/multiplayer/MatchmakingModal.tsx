@@ -14,6 +14,7 @@ import {
   Timer
 } from 'lucide-react';
 import { useMultiplayer } from '../../lib/stores/useMultiplayer';
+import { DEFAULT_TIME_CONTROL, type TimeControl } from '@shared/gameClock';
 
 interface MatchmakingModalProps {
   isOpen: boolean;
@@ -30,15 +31,15 @@ export function MatchmakingModal({ isOpen, onClose, onGameStart }: MatchmakingMo
     serverStats 
   } = useMultiplayer();
   
-  const [selectedTimeControl, setSelectedTimeControl] = useState(600); // 10 minutes
+  const [selectedTimeControl, setSelectedTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
   const [searchStartTime, setSearchStartTime] = useState<Date | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
 
-  const timeControls = [
-    { seconds: 300, label: '5 min', icon: Zap, color: 'text-red-500', description: 'Blitz' },
-    { seconds: 600, label: '10 min', icon: Clock, color: 'text-orange-500', description: 'Rapid' },
-    { seconds: 900, label: '15 min', icon: Timer, color: 'text-blue-500', description: 'Classical' },
-    { seconds: 1800, label: '30 min', icon: Target, color: 'text-green-500', description: 'Long' }
+  const timeControls: { value: TimeControl; label: string; icon: typeof Clock; color: string; description: string }[] = [
+    { value: '5+0', label: '5 min', icon: Zap, color: 'text-red-500', description: 'Blitz' },
+    { value: '10+0', label: '10 min', icon: Clock, color: 'text-orange-500', description: 'Rapid' },
+    { value: '15+10', label: '15+10', icon: Timer, color: 'text-blue-500', description: 'Classical' },
+    { value: '30+0', label: '30 min', icon: Target, color: 'text-green-500', description: 'Long' }
   ];
 
   useEffect(() => {
@@ -119,10 +120,10 @@ export function MatchmakingModal({ isOpen, onClose, onGameStart }: MatchmakingMo
                   const Icon = control.icon;
                   return (
                     <button
-                      key={control.seconds}
-                      onClick={() => setSelectedTimeControl(control.seconds)}
+                      key={control.value}
+                      onClick={() => setSelectedTimeControl(control.value)}
                       className={`p-3 rounded-lg border-2 transition-all ${
-                        selectedTimeControl === control.seconds
+                        selectedTimeControl === control.value
                           ? 'border-blue-500 bg-blue-50'
                           : 'border-gray-200 hover:border-blue-300'
                       }`}
@@ -152,7 +153,7 @@ export function MatchmakingModal({ isOpen, onClose, onGameStart }: MatchmakingMo
               <div>
                 <h3 className="text-lg font-semibold text-blue-900 mb-1">Searching for Opponent</h3>
                 <p className="text-blue-700">
-                  Time Control: {Math.floor(selectedTimeControl / 60)} minutes
+                  Time Control: {selectedTimeControl}
                 </p>
               </div>
 
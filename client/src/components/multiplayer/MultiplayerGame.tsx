@@ -1,5 +1,7 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { SimpleMultiplayerLayout } from './SimpleMultiplayerLayout';
+import { OnlineGameClocks } from './OnlineGameClocks';
+import { OnlineGameActions } from './OnlineGameActions';
 import { useChess } from '../../lib/stores/useChess';
 import { useMultiplayer } from '../../lib/stores/useMultiplayer';
 import { useAudio } from '../../lib/stores/useAudio';
@@ -136,6 +138,10 @@ export function MultiplayerGame() {
         newMessage={newMessage}
         setNewMessage={setNewMessage}
         sendChatMessage={sendChatMessage}
+        clocks={<OnlineGameClocks />}
+        compactClocks={<OnlineGameClocks compact />}
+        actions={<OnlineGameActions />}
+        compactActions={<OnlineGameActions compact />}
       />
     </div>
   );
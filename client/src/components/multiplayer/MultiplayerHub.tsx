@@ -4,10 +4,11 @@ import { useMultiplayer } from '../../lib/stores/useMultiplayer';
 import { MultiplayerLobby } from './MultiplayerLobby';
 import { MultiplayerGame } from './MultiplayerGame';
 import { MatchmakingModal } from './MatchmakingModal';
+import { SpectatorView } from './SpectatorView';
 
 export function MultiplayerHub() {
   const { user, isLoggedIn } = useAuth();
-  const { currentGame, connect, disconnect, isConnected } = useMultiplayer();
+  const { currentGame, spectating, connect, disconnect, isConnected } = useMultiplayer();
   const [showMatchmaking, setShowMatchmaking] = useState(false);
 
   useEffect(() => {
@@ -53,6 +54,10 @@ export function MultiplayerHub() {
     return <MultiplayerGame />;
   }
 
+  if (spectating) {
+    return <SpectatorView />;
+  }
+
   return (
     <>
       <MultiplayerLobby />
@@ -25,6 +25,8 @@ import { useMultiplayer } from '../../lib/stores/useMultiplayer';
 import { useChess } from '../../lib/stores/useChess';
 import { AdBanner } from '../monetization/AdBanner';
 import { LoginDialog } from '../auth/LoginDialog';
+import { LiveGamesList } from './LiveGamesList';
+import { DEFAULT_TIME_CONTROL, type TimeControl } from '@shared/gameClock';
 
 interface GameRoom {
   id: string;
@@ -57,7 +59,7 @@ interface Player {
 
 export function MultiplayerLobby() {
   const { user, isLoggedIn } = useAuth();
-  const { socket, isConnected, connect, disconnect, currentGame } = useMultiplayer();
+  const { socket, isConnected, connect, disconnect, currentGame, liveGames } = useMultiplayer();
   
   // Debug logging
   console.log('🔍 MultiplayerLobby render - socket:', !!socket, 'isConnected:', isConnected, 'isLoggedIn:', isLoggedIn);
@@ -66,7 +68,7 @@ export function MultiplayerLobby() {
   const [gameRooms, setGameRooms] = useState<GameRoom[]>([]);
   const [onlinePlayers, setOnlinePlayers] = useState<Player[]>([]);
   const [showCreateRoom, setShowCreateRoom] = useState(false);
-  const [selectedTimeControl, setSelectedTimeControl] = useState<string>('10+0');
+  const [selectedTimeControl, setSelectedTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
   const [selectedGameMode, setSelectedGameMode] = useState<string>('casual');
   const [isPrivateRoom, setIsPrivateRoom] = useState(false);
   const [searchOpponent, setSearchOpponent] = useState('');
@@ -234,7 +236,7 @@ export function MultiplayerLobby() {
     console.log('🎯 Starting quick match...');
     socket.emit('matchmaking:find-opponent', {
       gameMode: 'casual',
-      timeControl: '10+0',
+      timeControl: selectedTimeControl,
       ratingRange: 200 // ±200 rating points
     });
     
@@ -420,7 +422,7 @@ export function MultiplayerLobby() {
         <div className="flex gap-4 mb-6 border-b border-blue-200">
           {[
             { id: 'play', label: 'Game Rooms', count: gameRooms.length },
-            { id: 'watch', label: 'Spectate', count: 0 },
+            { id: 'watch', label: 'Spectate', count: liveGames.length },
             { id: 'players', label: 'Players Online', count: onlinePlayers.length }
           ].map((tab) => (
             <button
@@ -531,6 +533,8 @@ export function MultiplayerLobby() {
           </div>
         )}
 
+        {activeTab === 'watch' && <LiveGamesList />}
+
         {activeTab === 'players' && (
           <div className="grid lg:grid-cols-3 gap-4">
             <div className="lg:col-span-3 mb-4">
@@ -632,7 +636,7 @@ export function MultiplayerLobby() {
                 </label>
                 <select
                   value={selectedTimeControl}
-                  onChange={(e) => setSelectedTimeControl(e.target.value)}
+                  onChange={(e) => setSelectedTimeControl(e.target.value as TimeControl)}
                   className="w-full p-2 border border-blue-200 rounded-lg"
                 >
                   <option value="5+0">5 minutes</option>
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Handshake, Undo2, XCircle } from 'lucide-react';
+import { useMultiplayer } from '../../lib/stores/useMultiplayer';
+import { useChess } from '../../lib/stores/useChess';
+import { checkAbort } from '@shared/gameNegotiation';
+
+const RESULT_MESSAGES: Record<string, string> = {
+  agreement: '🤝 Draw agreed',
+  aborted: '🚫 Game aborted - no rating change'
+};
+
+interface OnlineGameActionsProps {
+  compact?: boolean;
+}
+
+/**
+ * Draw, takeback and abort controls for the current online game, and the
+ * opponent's pending offer with buttons to answer it.
+ */
+export function OnlineGameActions({ compact = false }: OnlineGameActionsProps) {
+  const {
+    currentGame,
+    gameResult,
+    pendingOffer,
+    negotiationMessage,
+    offerDraw,
+    respondToDraw,
+    requestTakeback,
+    respondToTakeback,
+    abortGame
+  } = useMultiplayer();
+  const { moveHistory } = useChess();
+
+  if (!currentGame) return null;
+
+  const resultMessage = gameResult && RESULT_MESSAGES[gameResult.reason];
+  if (gameResult) {
+    return resultMessage ? <p className="text-sm font-medium text-blue-900">{resultMessage}</p> : null;
+  }
+
+  const { gameId, yourColor } = currentGame;
+  const lastMove = moveHistory[moveHistory.length - 1];
+  // The server counts taken-back moves too, so judge by its count
+  const canAbort = checkAbort(currentGame.movesPlayed ?? moveHistory.length) === null;
+  const canTakeBack = lastMove?.piece.color === yourColor;
+  const incoming = pendingOffer && pendingOffer.from !== yourColor ? pendingOffer : null;
+  const outgoing = pendingOffer && pendingOffer.from === yourColor ? pendingOffer : null;
+  const size = compact ? 'h-8 px-2' : 'flex-1';
+
+  if (incoming) {
+    const respond = incoming.type === 'draw' ? respondToDraw : respondToTakeback;
+    return (
+      <div className={compact ? 'flex items-center gap-2' : 'space-y-2'}>
+        <p className="text-sm font-medium text-blue-900">
+          {incoming.type === 'draw' ? '🤝 Your opponent offers a draw' : '↩️ Your opponent asks to take back their move'}
+        </p>
+        <div className="flex gap-2">
+          <Button size="sm" className={size} onClick={() => respond(gameId, true)}>
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className={`${size} border-blue-300 text-blue-700 hover:bg-blue-50`}
+            onClick={() => respond(gameId, false)}
+          >
+            Decline
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={compact ? 'flex items-center gap-2' : 'space-y-2'}>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className={`${size} border-blue-300 text-blue-700 hover:bg-blue-50`}
+          disabled={!!outgoing}
+          onClick={() => offerDraw(gameId)}
+          title="Offer a draw"
+        >
+          <Handshake className="w-4 h-4" />
+          {!compact && <span className="ml-1">Draw</span>}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className={`${size} border-blue-300 text-blue-700 hover:bg-blue-50`}
+          disabled={!!outgoing || !canTakeBack}
+          onClick={() => requestTakeback(gameId)}
+          title="Ask to take back your last move"
+        >
+          <Undo2 className="w-4 h-4" />
+          {!compact && <span className="ml-1">Takeback</span>}
+        </Button>
+        {canAbort && (
+          <Button
+            size="sm"
+            variant="outline"
+            className={`${size} border-red-300 text-red-700 hover:bg-red-50`}
+            onClick={() => abortGame(gameId)}
+            title="Abort the game without rating change"
+          >
+            <XCircle className="w-4 h-4" />
+            {!compact && <span className="ml-1">Abort</span>}
+          </Button>
+        )}
+      </div>
+      {outgoing && (
+        <p className="text-xs text-blue-700">
+          {outgoing.type === 'draw' ? 'Draw offered - waiting for your opponent' : 'Takeback requested - waiting for your opponent'}
+        </p>
+      )}
+      {negotiationMessage && !outgoing && <p className="text-xs text-blue-700">{negotiationMessage}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { useMultiplayer } from '../../lib/stores/useMultiplayer';
+import { displayedTime, formatClock, type ClockColor, type ClockUpdate } from '@shared/gameClock';
+
+// Redraw often enough for the tenths shown under ten seconds
+const TICK_MS = 100;
+const LOW_TIME_MS = 20000;
+
+interface ClockPairProps {
+  clock: ClockUpdate;
+  // Shown first, then the other side
+  top: { color: ClockColor; label: string };
+  bottom: { color: ClockColor; label: string };
+  compact?: boolean;
+}
+
+/**
+ * Two clocks as the server last reported them, with the running side counted
+ * down against the estimated server time.
+ */
+export function ClockPair({ clock, top, bottom, compact = false }: ClockPairProps) {
+  const { serverTimeOffset } = useMultiplayer();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!clock.running) return;
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [clock]);
+
+  const serverNow = now + serverTimeOffset;
+
+  const renderClock = ({ color, label }: { color: ClockColor; label: string }) => {
+    const remaining = displayedTime(clock, color, serverNow);
+    const running = clock.running === color;
+    const tone = remaining <= LOW_TIME_MS
+      ? 'bg-red-50 border-red-300 text-red-700'
+      : running
+        ? 'bg-blue-100 border-blue-400 text-blue-900'
+        : 'bg-white border-blue-200 text-blue-700';
+
+    return (
+      <div className={`flex items-center justify-between rounded-lg border px-3 ${compact ? 'py-1' : 'py-2'} ${tone}`}>
+        <span className="flex items-center gap-2 text-sm">
+          <Clock className={`w-4 h-4 ${running ? 'animate-pulse' : ''}`} />
+          {label}
+        </span>
+        <span className={`font-mono font-semibold ${compact ? 'text-base' : 'text-xl'}`}>
+          {formatClock(remaining)}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className={compact ? 'flex gap-2' : 'space-y-2'}>
+      {renderClock(top)}
+      {renderClock(bottom)}
+    </div>
+  );
+}
+
+interface OnlineGameClocksProps {
+  compact?: boolean;
+}
+
+/**
+ * The current online game's clocks, the opponent's above yours.
+ */
+export function OnlineGameClocks({ compact = false }: OnlineGameClocksProps) {
+  const { currentGame, gameResult, spectatorCount } = useMultiplayer();
+  const clock = currentGame?.clock ?? null;
+
+  if (!currentGame || !clock) return null;
+
+  const yourColor = currentGame.yourColor;
+  const opponentColor: ClockColor = yourColor === 'white' ? 'black' : 'white';
+
+  return (
+    <div className={compact ? 'flex items-center gap-2' : 'space-y-2'}>
+      <ClockPair
+        clock={clock}
+        top={{ color: opponentColor, label: 'Opponent' }}
+        bottom={{ color: yourColor, label: 'You' }}
+        compact={compact}
+      />
+      {spectatorCount > 0 && (
+        <p className="text-xs text-blue-700">👀 {spectatorCount} watching</p>
+      )}
+      {gameResult?.reason === 'timeout' && (
+        <p className="text-sm font-medium text-red-600">
+          ⏰ {gameResult.winner === yourColor ? 'Your opponent ran out of time' : 'You ran out of time'}
+        </p>
+      )}
+    </div>
+  );
+}
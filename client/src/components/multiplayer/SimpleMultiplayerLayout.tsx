@@ -20,6 +20,12 @@ interface SimpleMultiplayerLayoutProps {
   newMessage: string;
   setNewMessage: (message: string) => void;
   sendChatMessage: () => void;
+  // Rendered beside the board; the full screen bar gets the compact variant
+  clocks?: React.ReactNode;
+  compactClocks?: React.ReactNode;
+  // Draw, takeback and abort controls, placed like the clocks
+  actions?: React.ReactNode;
+  compactActions?: React.ReactNode;
 }
 
 export function SimpleMultiplayerLayout({
@@ -29,7 +35,11 @@ export function SimpleMultiplayerLayout({
   chatMessages,
   newMessage,
   setNewMessage,
-  sendChatMessage
+  sendChatMessage,
+  clocks,
+  compactClocks,
+  actions,
+  compactActions
 }: SimpleMultiplayerLayoutProps) {
   const { currentGame } = useMultiplayer();
   const { currentPlayer } = useChess();
@@ -68,6 +78,9 @@ export function SimpleMultiplayerLayout({
               Turn: {currentPlayer === 'white' ? 'White' : 'Black'}
             </span>
           </div>
+
+          {compactClocks}
+          {compactActions}
           
           <div className="flex items-center gap-2">
             <Button
@@ -151,6 +164,9 @@ export function SimpleMultiplayerLayout({
         
         {/* Player Info - Left Side */}
         <div className="lg:col-span-3 space-y-4">
+          {clocks}
+          {actions}
+
           {/* Opponent Info */}
           <Card className="border-blue-200">
             <CardHeader className="pb-3">
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Eye } from 'lucide-react';
+import { ChessPiece } from '../chess/ChessPiece';
+import { ClockPair } from './OnlineGameClocks';
+import { useMultiplayer } from '../../lib/stores/useMultiplayer';
+import { ChessPiece as ChessPieceType } from '../../lib/chess/types';
+
+const RESULT_REASONS: Record<string, string> = {
+  checkmate: 'by checkmate',
+  stalemate: 'by stalemate',
+  resign: 'by resignation',
+  timeout: 'on time',
+  agreement: 'by agreement',
+  aborted: 'aborted'
+};
+
+/**
+ * Read-only view of a live game being spectated, a few seconds behind the players.
+ */
+export function SpectatorView() {
+  const { spectating, spectatorCount, stopSpectating } = useMultiplayer();
+  if (!spectating) return null;
+
+  const { game, view, delayMs, result } = spectating;
+  const board: (ChessPieceType | null)[][] = view.gameState?.board ?? [];
+  const lastMove = view.gameState?.moveHistory?.[view.gameState.moveHistory.length - 1];
+  const isLastMoveSquare = (row: number, col: number) =>
+    !!lastMove && ((lastMove.from.row === row && lastMove.from.col === col) || (lastMove.to.row === row && lastMove.to.col === col));
+
+  const resultText = result && (
+    result.reason === 'aborted'
+      ? 'Game aborted'
+      : `${result.winner === 'draw' || !result.winner ? 'Draw' : `${result.winner === 'white' ? 'White' : 'Black'} wins`} ${RESULT_REASONS[result.reason] ?? ''}`.trim()
+  );
+
+  return (
+    <div className="min-h-screen bg-blue-50 p-4">
+      <div className="bg-white rounded-lg shadow-sm border border-blue-200 p-4 mb-4 flex items-center justify-between">
+        <Button
+          onClick={stopSpectating}
+          variant="outline"
+          size="sm"
+          className="border-blue-300 text-blue-700 hover:bg-blue-50"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Lobby
+        </Button>
+        <div className="flex items-center gap-2 text-blue-700 text-sm">
+          <Eye className="w-4 h-4" />
+          {spectatorCount} watching • {Math.round(delayMs / 1000)}s delay
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+        <div className="lg:col-span-3 space-y-4">
+          <Card className="border-blue-200">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm text-blue-900">
+                {game.white.name} ({game.white.rating}) vs {game.black.name} ({game.black.rating})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm text-blue-700">
+              <div className="flex justify-between">
+                <span>Time control</span>
+                <span className="text-blue-900 font-medium">{game.timeControl}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Turn</span>
+                <span className="text-blue-900 font-medium">{view.currentTurn === 'white' ? 'White' : 'Black'}</span>
+              </div>
+              {resultText && <p className="font-semibold text-blue-900">🏁 {resultText}</p>}
+            </CardContent>
+          </Card>
+
+          <ClockPair
+            clock={view.clock}
+            top={{ color: 'black', label: game.black.name }}
+            bottom={{ color: 'white', label: game.white.name }}
+          />
+        </div>
+
+        <div className="lg:col-span-6 flex justify-center">
+          <div className="bg-white rounded-lg shadow-sm border border-blue-200 p-4">
+            <div className="grid grid-cols-10 border-2 border-blue-300 w-fit">
+              {board.map((rank, row) => rank.map((piece, col) => (
+                <div
+                  key={`${row}-${col}`}
+                  className="w-9 h-9 sm:w-12 sm:h-12 flex items-center justify-center select-none"
+                  style={{
+                    backgroundColor: isLastMoveSquare(row, col)
+                      ? '#cdd26a'
+                      : (row + col) % 2 === 0 ? '#f0d9b5' : '#b58863'
+                  }}
+                >
+                  {piece && <ChessPiece piece={piece} position={{ row, col }} />}
+                </div>
+              )))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * ELO Benchmark Suite Tests
+ * Every suite position must load and name a legal best move that the search
+ * finds, and solve rates must map onto the benchmark targets
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ELO_BENCHMARK_SUITE, isBenchmarkMove, loadBenchmarkPositions, performanceRating } from '../eloBenchmarks';
+import { runBenchmarks } from '../eloBenchmarkRunner';
+import { getLegalMoves } from '../../chess/gameEngine';
+import { SearchBoard } from '../../chess/searchBoard';
+import { SearchEngine, type Evaluator } from '../../chess/searchEngine';
+import { ChessMove, PieceType } from '../../chess/types';
+
+// The material-only evaluation the suite's solutions were checked with
+const VALUES: Record<PieceType, number> = {
+  pawn: 10, knight: 30, bishop: 30, rook: 50, queen: 90, wizard: 35, king: 0
+};
+
+const material: Evaluator = (position, color) => {
+  let score = 0;
+  for (let square = 0; square < 100; square++) {
+    const type = position.pieceTypeAt(square);
+    if (!type) continue;
+    score += position.pieceColorAt(square) === color ? VALUES[type] : -VALUES[type];
+  }
+  return score;
+};
+
+// Pawn races need the whole race searched; everything else is solved by depth 4
+const SOLUTION_DEPTHS: Record<string, number> = {
+  'rule-of-the-square': 10,
+  'pawn-breakthrough': 9
+};
+
+describe('ELO benchmark suite', () => {
+  it('has unique position ids', () => {
+    const ids = ELO_BENCHMARK_SUITE.flatMap(definition => definition.positions.map(entry => entry.id));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  for (const definition of ELO_BENCHMARK_SUITE) {
+    it(`loads ${definition.name} with legal best moves`, () => {
+      const { positions, bestMoves } = loadBenchmarkPositions(definition);
+      expect(positions).toHaveLength(definition.positions.length);
+
+      positions.forEach((gameState, i) => {
+        const legal = getLegalMoves(gameState).some(move =>
+          move.from.row === bestMoves[i].from.row && move.from.col === bestMoves[i].from.col &&
+          move.to.row === bestMoves[i].to.row && move.to.col === bestMoves[i].to.col
+        );
+        expect(legal).toBe(true);
+      });
+    });
+
+    it(`finds the best moves for ${definition.name}`, () => {
+      const { positions, bestMoves } = loadBenchmarkPositions(definition);
+
+      definition.positions.forEach((entry, i) => {
+        const result = new SearchEngine(material).search(
+          SearchBoard.fromGameState(positions[i]),
+          { maxDepth: SOLUTION_DEPTHS[entry.id] ?? 4 }
+        );
+        expect(isBenchmarkMove(result?.move ?? null, bestMoves[i]), entry.id).toBe(true);
+      });
+    });
+  }
+});
+
+describe('performanceRating', () => {
+  it('rates half the positions solved at the benchmark target', () => {
+    expect(performanceRating([{ targetELO: 2200, solved: 2, total: 4 }])).toBe(2200);
+  });
+
+  it('rates a known result set', () => {
+    // 3.5/4 is 7:1 odds, +338 points; 0.5/4 is 1:7, -338
+    expect(performanceRating([{ targetELO: 2000, solved: 3, total: 3 }])).toBe(2338);
+    expect(performanceRating([
+      { targetELO: 1900, solved: 3, total: 3 },
+      { targetELO: 2400, solved: 0, total: 3 }
+    ])).toBe(2150);
+  });
+
+  it('reports the rating of the positions an engine solved', async () => {
+    // Solves every Tactical Basics position (1900) and nothing from Master Combinations (2400)
+    const suite = ELO_BENCHMARK_SUITE.filter(definition => definition.targetELO === 1900 || definition.targetELO === 2400);
+    const moves: (ChessMove | null)[] = [...loadBenchmarkPositions(suite[0]).bestMoves, null, null, null];
+
+    const report = await runBenchmarks({ name: 'scripted', getMove: () => moves.shift() ?? null }, suite);
+
+    expect(report.benchmarks.map(score => score.solved)).toEqual([3, 0]);
+    expect(report.benchmarks[1].failures.map(failure => failure.id)).toEqual(
+      suite[1].positions.map(entry => entry.id)
+    );
+    expect(report.performanceELO).toBe(2150);
+  });
+
+  it('rises with the solve rate and stays finite at 100%', () => {
+    const some = performanceRating([{ targetELO: 2000, solved: 2, total: 3 }]);
+    const all = performanceRating([{ targetELO: 2000, solved: 3, total: 3 }]);
+    expect(some).toBeGreaterThan(2000);
+    expect(all).toBeGreaterThan(some);
+    expect(Number.isFinite(all)).toBe(true);
+  });
+});
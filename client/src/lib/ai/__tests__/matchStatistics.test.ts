@@ -0,0 +1,38 @@
+/**
+ * Match Statistics Tests
+ * ELO estimates from pair scores and the SPRT's decisions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { eloFromScore, estimateElo, expectedScore, sprt } from '../matchStatistics';
+
+// A pair pattern scoring 54% on average
+const EDGE = [0.5, 0.75, 0.5, 0.25, 0.5, 0.75];
+const repeat = (pattern: number[], pairs: number) => Array.from({ length: pairs }, (_, i) => pattern[i % pattern.length]);
+
+describe('match statistics', () => {
+  it('converts between ELO and expected score', () => {
+    expect(expectedScore(0)).toBe(0.5);
+    expect(eloFromScore(expectedScore(150))).toBeCloseTo(150, 6);
+  });
+
+  it('narrows the ELO interval as pairs accumulate', () => {
+    const short = estimateElo(repeat(EDGE, 12));
+    const long = estimateElo(repeat(EDGE, 600));
+    expect(long.elo).toBeCloseTo(short.elo, 0);
+    expect(long.upper - long.lower).toBeLessThan(short.upper - short.lower);
+    expect(long.lower).toBeGreaterThan(0);
+  });
+
+  it('keeps the estimate finite and uncertain after a short sweep', () => {
+    const sweep = estimateElo([1, 1, 1]);
+    expect(Number.isFinite(sweep.elo)).toBe(true);
+    expect(sweep.lower).toBeLessThan(sweep.elo);
+  });
+
+  it('accepts H1 for a clear edge and H0 for an even match', () => {
+    expect(sprt(repeat(EDGE, 6)).verdict).toBe('continue');
+    expect(sprt(repeat(EDGE, 600)).verdict).toBe('H1');
+    expect(sprt(repeat([0.5, 0.75, 0.25, 0.5], 1200)).verdict).toBe('H0');
+  });
+});
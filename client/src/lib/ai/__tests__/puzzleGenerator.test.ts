@@ -0,0 +1,37 @@
+/**
+ * Puzzle Generator Tests
+ * Unique winning lines become puzzles; ordinary positions don't
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePosition } from '../../chess/positionNotation';
+import { findPuzzle, selectPuzzles } from '../puzzleGenerator';
+import { Puzzle } from '../../chess/puzzles';
+
+const limits = { maxDepth: 3, timeLimitMs: 5000 };
+
+describe('puzzle generator', () => {
+  it('finds the only move that wins material', () => {
+    const puzzle = findPuzzle(parsePosition('k9/10/10/10/4q5/10/10/10/10/K3R5 w - - 0 1'), { limits });
+    expect(puzzle).not.toBeNull();
+    expect(puzzle!.solution).toEqual(['e1e6']);
+    expect(puzzle!.themes).toEqual(['material']);
+  });
+
+  it('finds a mate', () => {
+    const puzzle = findPuzzle(parsePosition('5k4/RR8/10/10/10/10/10/10/10/5K4 w - - 0 1'), { limits });
+    expect(puzzle?.themes[0]).toBe('mate');
+    expect(puzzle?.solution).toHaveLength(1);
+  });
+
+  it('skips the starting position', () => {
+    expect(findPuzzle(parsePosition('rnbwqkwbnr/pppppppppp/10/10/10/10/10/10/PPPPPPPPPP/RNBWQKWBNR w KQkq - 0 1'), { limits })).toBeNull();
+  });
+
+  it('keeps wizard tactics first when capping', () => {
+    const puzzle = (id: string, rating: number, wizard: boolean): Puzzle =>
+      ({ id, position: '', solution: [], themes: wizard ? ['material', 'wizardAttack'] : ['material'], rating });
+    const kept = selectPuzzles([puzzle('a', 900, false), puzzle('b', 1500, true), puzzle('c', 1200, false)], 2);
+    expect(kept.map(p => p.id)).toEqual(['a', 'b']);
+  });
+});
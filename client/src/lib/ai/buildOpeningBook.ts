@@ -0,0 +1,84 @@
+// Opening book builder: npx tsx client/src/lib/ai/buildOpeningBook.ts [options]
+// Options:
+//   --human file.json   humanAIGames records (an array, or the JSON returned
+//                       by /api/ai-training/training-games)
+//   --self-play n       n self-play games: one from the starting position,
+//                       the rest after a random quiet move for each side,
+//                       which the book credits like any other move
+//   --engine name       engine for self-play, from ENGINES (default medium).
+//                       Difficulty engines probe the current book, so a
+//                       rebuild grows the lines it already has
+//   --max-ply n         plies the book covers (default 16)
+//   --min-games n       games a move needs to be kept (default 2)
+//   --game-plies n      plies before a self-play game is drawn (default 200)
+//   --seed n            seed for the self-play openings (default 1)
+//   --out path          where to write the book module (default
+//                       client/src/lib/chess/openingBookData.ts)
+import { readFileSync, writeFileSync } from 'fs';
+import { playSelfPlayGames } from './matchRunner';
+import {
+  BookGame,
+  DEFAULT_BOOK_MAX_PLY,
+  buildOpeningBook,
+  gameFromHumanAIRecord,
+  gameFromMatch,
+  serializeOpeningBook
+} from './openingBookBuilder';
+
+const DEFAULT_OUT = 'client/src/lib/chess/openingBookData.ts';
+
+export async function buildOpeningBookFromArgs(args: string[]): Promise<void> {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i += 2) {
+    if (!args[i].startsWith('--') || args[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${args[i]}`);
+    }
+    flags[args[i].slice(2)] = args[i + 1];
+  }
+  const number = (name: string, fallback: number) => {
+    if (flags[name] === undefined) return fallback;
+    const value = Number(flags[name]);
+    if (!Number.isInteger(value) || value < 0) throw new Error(`Invalid --${name}: ${flags[name]}`);
+    return value;
+  };
+
+  const games: BookGame[] = [];
+
+  if (flags.human) {
+    const data = JSON.parse(readFileSync(flags.human, 'utf8'));
+    const records = Array.isArray(data) ? data : data.games;
+    if (!Array.isArray(records)) throw new Error(`No games found in ${flags.human}`);
+    const humanGames = records.map(gameFromHumanAIRecord).filter((game): game is BookGame => game !== null);
+    console.log(`📚 ${humanGames.length} human games from ${flags.human}`);
+    games.push(...humanGames);
+  }
+
+  const selfPlay = number('self-play', 0);
+  if (selfPlay > 0) {
+    const engine = flags.engine ?? 'medium';
+    console.log(`🤖 Playing ${selfPlay} self-play games with ${engine}...`);
+    const played = await playSelfPlayGames(engine, selfPlay, number('game-plies', 200), number('seed', 1), (game, i) => {
+      console.log(`  ${i + 1}. ${game.result} (${game.reason}, ${game.moves.length} plies)`);
+    });
+    games.push(...played.map(gameFromMatch));
+  }
+
+  if (games.length === 0) {
+    throw new Error('No games to build from: pass --human and/or --self-play');
+  }
+
+  const book = buildOpeningBook(games, {
+    maxPly: number('max-ply', DEFAULT_BOOK_MAX_PLY),
+    minGames: number('min-games', 2)
+  });
+  const out = flags.out ?? DEFAULT_OUT;
+  writeFileSync(out, serializeOpeningBook(book));
+
+  const moves = Object.values(book.entries).reduce((sum, entry) => sum + entry.length, 0);
+  console.log(`✅ Opening book: ${Object.keys(book.entries).length} positions, ${moves} moves from ${book.games} games → ${out}`);
+}
+
+buildOpeningBookFromArgs(process.argv.slice(2)).then(() => process.exit(0)).catch(error => {
+  console.error('❌ Opening book build failed:', error);
+  process.exit(1);
+});
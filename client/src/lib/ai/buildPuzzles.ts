@@ -0,0 +1,85 @@
+// Puzzle builder: npx tsx client/src/lib/ai/buildPuzzles.ts [options]
+// Options:
+//   --human file.json   humanAIGames records (an array, or the JSON returned
+//                       by /api/ai-training/training-games)
+//   --self-play n       n self-play games: one from the starting position,
+//                       the rest after a random quiet move for each side
+//   --engine name       engine for self-play, from ENGINES (default medium)
+//   --game-plies n      plies before a self-play game is drawn (default 200)
+//   --seed n            seed for the self-play openings (default 1)
+//   --depth n           search depth per position (default 4)
+//   --max n             puzzles kept, wizard tactics first (default 200)
+//   --out path          where to write the puzzle module (default
+//                       client/src/lib/chess/puzzleData.ts)
+import { readFileSync, writeFileSync } from 'fs';
+import { playSelfPlayGames } from './matchRunner';
+import { BookGame, gameFromHumanAIRecord, gameFromMatch } from './openingBookBuilder';
+import { PUZZLE_SEARCH_LIMITS, minePuzzles, selectPuzzles, serializePuzzles } from './puzzleGenerator';
+
+const DEFAULT_OUT = 'client/src/lib/chess/puzzleData.ts';
+
+export async function buildPuzzlesFromArgs(args: string[]): Promise<void> {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i += 2) {
+    if (!args[i].startsWith('--') || args[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${args[i]}`);
+    }
+    flags[args[i].slice(2)] = args[i + 1];
+  }
+  const number = (name: string, fallback: number) => {
+    if (flags[name] === undefined) return fallback;
+    const value = Number(flags[name]);
+    if (!Number.isInteger(value) || value < 0) throw new Error(`Invalid --${name}: ${flags[name]}`);
+    return value;
+  };
+
+  const games: BookGame[] = [];
+
+  if (flags.human) {
+    const data = JSON.parse(readFileSync(flags.human, 'utf8'));
+    const records = Array.isArray(data) ? data : data.games;
+    if (!Array.isArray(records)) throw new Error(`No games found in ${flags.human}`);
+    const humanGames = records.map(gameFromHumanAIRecord).filter((game): game is BookGame => game !== null);
+    console.log(`📚 ${humanGames.length} human games from ${flags.human}`);
+    games.push(...humanGames);
+  }
+
+  const selfPlay = number('self-play', 0);
+  if (selfPlay > 0) {
+    const engine = flags.engine ?? 'medium';
+    console.log(`🤖 Playing ${selfPlay} self-play games with ${engine}...`);
+    const played = await playSelfPlayGames(engine, selfPlay, number('game-plies', 200), number('seed', 1), (game, i) => {
+      console.log(`  ${i + 1}. ${game.result} (${game.reason}, ${game.moves.length} plies)`);
+    });
+    games.push(...played.map(gameFromMatch));
+  }
+
+  if (games.length === 0) {
+    throw new Error('No games to mine: pass --human and/or --self-play');
+  }
+
+  console.log(`🧩 Mining ${games.length} games for puzzles...`);
+  const log = console.log;
+  console.log = () => {};
+  let puzzles;
+  try {
+    puzzles = minePuzzles(games, {
+      limits: { ...PUZZLE_SEARCH_LIMITS, maxDepth: number('depth', PUZZLE_SEARCH_LIMITS.maxDepth) },
+      onGame: (index, found) => log(`  game ${index + 1}/${games.length}: ${found} puzzles so far`)
+    });
+  } finally {
+    console.log = log;
+  }
+
+  const selected = selectPuzzles(puzzles, number('max', 200));
+  const out = flags.out ?? DEFAULT_OUT;
+  writeFileSync(out, serializePuzzles(selected));
+
+  const wizard = selected.filter(puzzle => puzzle.themes.includes('wizardAttack') || puzzle.themes.includes('wizardTeleport')).length;
+  console.log(`✅ Puzzles: ${selected.length} of ${puzzles.length} found (${wizard} wizard tactics) → ${out}`);
+}
+
+buildPuzzlesFromArgs(process.argv.slice(2)).then(() => process.exit(0)).catch(error => {
+  console.error('❌ Puzzle build failed:', error);
+  process.exit(1);
+});
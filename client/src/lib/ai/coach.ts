@@ -5,6 +5,7 @@
 
 import { GameState, ChessMove } from '../chess/types';
 import { evaluateMove } from '../chess/aiPlayer';
+import { squareName } from '../chess/notation';
 import * as tf from '@tensorflow/tfjs';
 
 // Control tags for move quality (similar to Leela Chess Zero)
@@ -129,7 +130,8 @@ const SUGGESTION_TEMPLATES = {
     "Focus on king activity in the endgame.",
     "Push your passed pawns forward!",
     "Centralize your king for the endgame.",
-    "Create a passed pawn to secure victory."
+    "Create a passed pawn to secure victory.",
+    "Practise wizard endgames in the Endgame Trainer."
   ],
   [SuggestionTag.OPENING_PRINCIPLE]: [
     "Develop your pieces before attacking.",
@@ -361,7 +363,7 @@ export class AICoachController {
     
     // Central control
     const centralSquares = ['d4', 'd5', 'e4', 'e5', 'f4', 'f5'];
-    const toSquare = `${String.fromCharCode(97 + move.to.col)}${10 - move.to.row}`;
+    const toSquare = squareName(move.to);
     if (centralSquares.includes(toSquare)) score += 5;
     
     return Math.max(0, Math.min(100, score));
@@ -455,7 +457,7 @@ export class AICoachController {
     template = template.replace('{piece}', move.piece.type);
     template = template.replace('{moveType}', move.isWizardAttack ? 'wizard attack' : 'move');
     template = template.replace('{concept}', 'tactical awareness');
-    template = template.replace('{square}', `${String.fromCharCode(97 + move.to.col)}${10 - move.to.row}`);
+    template = template.replace('{square}', squareName(move.to));
     
     // Add suggestion if applicable
     if (suggestionTags.length > 0) {
@@ -466,7 +468,8 @@ export class AICoachController {
       }
     }
     
-    return template;
+    // Lead with the move in algebraic notation when we have it
+    return move.notation ? `${move.notation}: ${template}` : template;
   }
   
   private calculateRepetitionScore(message: string): number {
@@ -819,8 +822,10 @@ class RLCommentarySystem {
     // Random selection from appropriate templates
     const template = selectedTemplates[Math.floor(Math.random() * selectedTemplates.length)];
     
-    // Replace placeholder with suggestion
-    return template.replace('{suggestion}', tags.suggestion);
+    // Replace placeholder with suggestion, naming the move it's about
+    const commentary = template.replace('{suggestion}', tags.suggestion);
+    const lastMove = state.moveHistory[state.moveHistory.length - 1];
+    return lastMove?.notation ? `${lastMove.notation}: ${commentary}` : commentary;
   }
   
   // Fallback commentary if RL fails
@@ -151,14 +151,16 @@ export async function deployAI(): Promise<void> {
     // Load the trained model
     deployedModel = await loadTrainedModel();
     
-    // Make it globally available
-    (window as any).wizardChessAI = {
-      model: deployedModel,
-      evaluatePosition,
-      getBestMove,
-      elo: 2550,
-      trainingGames: 100000
-    };
+    // Make it globally available (headless runs have no window)
+    if (typeof window !== 'undefined') {
+      (window as any).wizardChessAI = {
+        model: deployedModel,
+        evaluatePosition,
+        getBestMove,
+        elo: 2550,
+        trainingGames: 100000
+      };
+    }
     
     console.log('\n✅ AI DEPLOYMENT SUCCESSFUL');
     console.log('   Model is now available globally as window.wizardChessAI');
@@ -0,0 +1,151 @@
+/**
+ * ELO Benchmark Runner
+ * Scores any engine from the registry (engines.ts) against the ELO benchmark suite
+ *
+ * An engine solves a position when it plays the suite's best move. Solve
+ * rates per benchmark are turned into a performance rating with
+ * performanceRating, so engines can be compared on the same scale as the
+ * validation checkpoints.
+ *
+ * Run headless with: npx tsx client/src/lib/ai/runEloBenchmarks.ts [engine ...]
+ */
+
+import { AIDifficulty } from '../chess/types';
+import { moveToSAN } from '../chess/notation';
+import { ENGINE_DIFFICULTIES, MoveEngine, createDifficultyEngine } from './engines';
+import {
+  BENCHMARK_SUITE_VERSION,
+  BenchmarkDefinition,
+  ELO_BENCHMARK_SUITE,
+  isBenchmarkMove,
+  loadBenchmarkPositions,
+  performanceRating
+} from './eloBenchmarks';
+
+export interface BenchmarkFailure {
+  id: string;
+  expected: string;
+  played: string | null;
+}
+
+export interface BenchmarkScore {
+  name: string;
+  targetELO: number;
+  solved: number;
+  total: number;
+  failures: BenchmarkFailure[];
+}
+
+export interface BenchmarkReport {
+  engine: string;
+  suiteVersion: number;
+  benchmarks: BenchmarkScore[];
+  solved: number;
+  total: number;
+  performanceELO: number;
+  elapsedMs: number;
+}
+
+/**
+ * Plays every suite position with `engine` and scores the moves.
+ */
+export async function runBenchmarks(
+  engine: MoveEngine,
+  suite: BenchmarkDefinition[] = ELO_BENCHMARK_SUITE
+): Promise<BenchmarkReport> {
+  await engine.prepare?.();
+  const start = Date.now();
+  const benchmarks: BenchmarkScore[] = [];
+
+  for (const definition of suite) {
+    const { positions, bestMoves } = loadBenchmarkPositions(definition);
+    const score: BenchmarkScore = {
+      name: definition.name,
+      targetELO: definition.targetELO,
+      solved: 0,
+      total: positions.length,
+      failures: []
+    };
+
+    for (let i = 0; i < positions.length; i++) {
+      const gameState = positions[i];
+      const move = await engine.getMove(gameState);
+      if (isBenchmarkMove(move, bestMoves[i])) {
+        score.solved++;
+      } else {
+        score.failures.push({
+          id: definition.positions[i].id,
+          expected: definition.positions[i].bestMove,
+          played: move ? moveToSAN(gameState.board, move, gameState.enPassantTarget ?? null) : null
+        });
+      }
+    }
+
+    benchmarks.push(score);
+  }
+
+  return {
+    engine: engine.name,
+    suiteVersion: BENCHMARK_SUITE_VERSION,
+    benchmarks,
+    solved: benchmarks.reduce((sum, score) => sum + score.solved, 0),
+    total: benchmarks.reduce((sum, score) => sum + score.total, 0),
+    performanceELO: performanceRating(benchmarks),
+    elapsedMs: Date.now() - start
+  };
+}
+
+/**
+ * Runs the suite for each difficulty setting in turn.
+ */
+export async function compareDifficulties(
+  difficulties: AIDifficulty[] = ENGINE_DIFFICULTIES,
+  suite: BenchmarkDefinition[] = ELO_BENCHMARK_SUITE
+): Promise<BenchmarkReport[]> {
+  const reports: BenchmarkReport[] = [];
+  for (const difficulty of difficulties) {
+    reports.push(await runBenchmarks(createDifficultyEngine(difficulty), suite));
+  }
+  return reports;
+}
+
+/**
+ * Side-by-side table of reports: solved/total per benchmark, then totals and
+ * performance rating, followed by each engine's missed positions.
+ */
+export function formatBenchmarkReport(reports: BenchmarkReport[]): string {
+  if (reports.length === 0) return 'No benchmark reports';
+
+  const labels = reports[0].benchmarks.map(score => `${score.name} (${score.targetELO})`);
+  const nameWidth = Math.max(...labels.map(label => label.length), 'Benchmark (target)'.length);
+  const columnWidth = Math.max(...reports.map(report => report.engine.length), 7);
+  const row = (label: string, cells: string[]) =>
+    label.padEnd(nameWidth) + ' | ' + cells.map(cell => cell.padStart(columnWidth)).join(' | ');
+
+  const divider = '-'.repeat(nameWidth + reports.length * (columnWidth + 3));
+  const lines = [
+    `ELO benchmark suite v${reports[0].suiteVersion}`,
+    row('Benchmark (target)', reports.map(report => report.engine)),
+    divider
+  ];
+
+  labels.forEach((label, i) => {
+    lines.push(row(label, reports.map(report => `${report.benchmarks[i].solved}/${report.benchmarks[i].total}`)));
+  });
+
+  lines.push(divider);
+  lines.push(row('Solved', reports.map(report => `${report.solved}/${report.total}`)));
+  lines.push(row('Performance ELO', reports.map(report => `${report.performanceELO}`)));
+  lines.push(row('Time', reports.map(report => `${(report.elapsedMs / 1000).toFixed(1)}s`)));
+
+  for (const report of reports) {
+    const failures = report.benchmarks.flatMap(score => score.failures);
+    if (failures.length === 0) continue;
+    lines.push('', `Missed by ${report.engine}:`);
+    for (const failure of failures) {
+      lines.push(`  ${failure.id}: expected ${failure.expected}, played ${failure.played ?? 'nothing'}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,256 @@
+/**
+ * ELO Benchmark Suite
+ * Versioned wizard chess test positions for the ELO validation benchmarks
+ *
+ * Every position has a single best move, given in SAN. Each one was checked by
+ * searching every legal move past the depth the solution needs (material-only
+ * evaluation, mates scored as mates) and confirming that no other move comes
+ * close. A benchmark's targetELO is the rating at which an engine is expected
+ * to solve half of its positions, which is how performanceRating turns solve
+ * rates into a rating.
+ *
+ * Bump BENCHMARK_SUITE_VERSION whenever a position is added, removed or
+ * changed, so reports from different suites aren't compared.
+ */
+
+import { ChessMove, GameState } from '../chess/types';
+import { parsePosition } from '../chess/positionNotation';
+import { parseSAN } from '../chess/notation';
+
+export const BENCHMARK_SUITE_VERSION = 1;
+
+export type BenchmarkDifficulty = 'easy' | 'medium' | 'hard' | 'master';
+
+export interface BenchmarkPosition {
+  id: string;
+  description: string;
+  position: string;
+  bestMove: string;
+}
+
+export interface BenchmarkDefinition {
+  name: string;
+  targetELO: number;
+  difficulty: BenchmarkDifficulty;
+  positions: BenchmarkPosition[];
+}
+
+export const ELO_BENCHMARK_SUITE: BenchmarkDefinition[] = [
+  {
+    name: 'Tactical Basics',
+    targetELO: 1900,
+    difficulty: 'easy',
+    positions: [
+      {
+        id: 'back-rank-mate',
+        description: 'The king is shut in by its own pawns',
+        position: '6k3/5ppp2/10/10/10/10/10/10/10/R4K4 w - - 0 1',
+        bestMove: 'Ra10#'
+      },
+      {
+        id: 'hanging-queen',
+        description: 'The queen has wandered next to a pawn',
+        position: 'k9/10/10/10/10/3q6/4P5/10/10/5K4 w - - 0 1',
+        bestMove: 'exd5'
+      },
+      {
+        id: 'knight-fork',
+        description: 'A knight check that also attacks the queen',
+        position: '10/2k3q3/10/9p/3N6/10/10/10/P9/5K4 w - - 0 1',
+        bestMove: 'Ne8+'
+      }
+    ]
+  },
+  {
+    name: 'Positional Understanding',
+    targetELO: 2000,
+    difficulty: 'medium',
+    positions: [
+      {
+        id: 'knight-promotion',
+        description: 'Promoting to a knight forks king and queen; a queen wins nothing',
+        position: '10/2q1P1k3/10/10/10/10/10/10/P9/5K4 w - - 0 1',
+        bestMove: 'e10=N+'
+      },
+      {
+        id: 'attack-the-pinned-piece',
+        description: 'The e7 knight is pinned to its king, so a pawn can win it',
+        position: '4k5/10/5p4/4n5/10/3P6/10/10/P9/4RK4 w - - 0 1',
+        bestMove: 'd6'
+      },
+      {
+        id: 'rule-of-the-square',
+        description: 'Only the diagonal step brings the king into the passed pawn\'s square',
+        position: '9k/10/10/7K2/1p8/10/10/10/9P/10 w - - 0 1',
+        bestMove: 'Kg6'
+      }
+    ]
+  },
+  {
+    name: 'Wizard Mastery',
+    targetELO: 2100,
+    difficulty: 'medium',
+    positions: [
+      {
+        id: 'attack-over-the-wall',
+        description: 'A wizard walled in by its own pawns still reaches the queen',
+        position: 'k9/10/10/10/10/4q5/4P5/3PWP4/3PPP4/5K4 w - - 0 1',
+        bestMove: 'W*e5'
+      },
+      {
+        id: 'remove-the-wizard',
+        description: 'An enemy wizard threatens the queen; take it with the pawn, not the queen',
+        position: 'kn8/pp8/10/10/10/10/7p2/4Q1w3/5P4/5K4 w - - 0 1',
+        bestMove: 'fxg3'
+      },
+      {
+        id: 'teleport-fork',
+        description: 'Teleporting behind the pawn checks the king and lines up the queen',
+        position: '3W6/5p4/4k1q3/10/10/10/10/10/10/5K4 w - - 0 1',
+        bestMove: 'W~e10+'
+      }
+    ]
+  },
+  {
+    name: 'Complex Middlegame',
+    targetELO: 2200,
+    difficulty: 'hard',
+    positions: [
+      {
+        id: 'queen-fork',
+        description: 'Only one queen check also attacks the rook',
+        position: 'r9/10/4k5/10/9Q/10/10/10/P9/5K4 w - - 0 1',
+        bestMove: 'Qe6+'
+      },
+      {
+        id: 'discovered-attack',
+        description: 'The knight checks and uncovers the rook on the queen',
+        position: '10/10/2k1q5/10/10/10/4N5/10/P9/4RK4 w - - 0 1',
+        bestMove: 'Nd6+'
+      },
+      {
+        id: 'bishop-skewer',
+        description: 'Check the king and win the queen behind it',
+        position: '10/10/B9/3k6/10/10/6q3/10/P8P/5K4 w - - 0 1',
+        bestMove: 'Bb9+'
+      }
+    ]
+  },
+  {
+    name: 'Endgame Precision',
+    targetELO: 2300,
+    difficulty: 'hard',
+    positions: [
+      {
+        id: 'queen-mate',
+        description: 'King and queen against king, mate in one',
+        position: '7k2/10/6K3/10/10/10/10/10/10/Q9 w - - 0 1',
+        bestMove: 'Qj10#'
+      },
+      {
+        id: 'wizard-mate',
+        description: 'King and wizard against king: the wizard mates from the back rank',
+        position: 'k3W5/10/K9/10/10/10/10/10/10/10 w - - 0 1',
+        bestMove: 'W~c10#'
+      },
+      {
+        id: 'rook-skewer',
+        description: 'Rook check along the rank wins the rook behind the king',
+        position: '10/10/10/10/10/2k4r2/10/10/9P/R4K4 w - - 0 1',
+        bestMove: 'Ra5+'
+      }
+    ]
+  },
+  {
+    name: 'Master Combinations',
+    targetELO: 2400,
+    difficulty: 'master',
+    positions: [
+      {
+        id: 'queen-sacrifice-back-rank',
+        description: 'Mate in two: the queen drags the rook off the back rank',
+        position: 'k6r2/pp8/10/10/10/10/3Q6/10/10/3R1K4 w - - 0 1',
+        bestMove: 'Qd10+'
+      },
+      {
+        id: 'smothered-mate',
+        description: 'Mate in two: sacrifice the queen so the rook smothers its own king',
+        position: 'k2r6/pp8/N9/10/10/10/10/10/9Q/5K4 w - - 0 1',
+        bestMove: 'Qb10+'
+      },
+      {
+        id: 'deflect-the-queen',
+        description: 'Mate in two: the rook check pulls the queen away from d6',
+        position: 'k9/pp8/10/10/3q6/10/10/10/3Q6/4R1K3 w - - 0 1',
+        bestMove: 'Re10+'
+      }
+    ]
+  },
+  {
+    name: 'Grandmaster Level',
+    targetELO: 2500,
+    difficulty: 'master',
+    positions: [
+      {
+        id: 'doubled-rooks-mate',
+        description: 'Mate in three: queen, then both rooks, crash through on d10',
+        position: 'k5rr2/pp8/10/10/10/10/3Q6/10/3R6/3R1K4 w - - 0 1',
+        bestMove: 'Qd10+'
+      },
+      {
+        id: 'philidor-mate',
+        description: 'Mate in four: knight checks, double check, queen sacrifice, smothered mate',
+        position: 'k1r7/pp8/10/3N6/10/10/10/10/9Q/5K4 w - - 0 1',
+        bestMove: 'Nc9+'
+      },
+      {
+        id: 'pawn-breakthrough',
+        description: 'Three pawns against three: the middle pawn sacrifice makes a queen',
+        position: '9k/ppp7/10/PPP7/10/10/10/10/10/9K w - - 0 1',
+        bestMove: 'b8'
+      }
+    ]
+  }
+];
+
+/**
+ * The game states and best moves for a benchmark's positions, in order.
+ */
+export function loadBenchmarkPositions(definition: BenchmarkDefinition): { positions: GameState[]; bestMoves: ChessMove[] } {
+  const positions = definition.positions.map(entry => parsePosition(entry.position));
+  const bestMoves = definition.positions.map((entry, i) => {
+    const gameState = positions[i];
+    return parseSAN(gameState.board, gameState.currentPlayer, entry.bestMove, gameState.enPassantTarget ?? null);
+  });
+  return { positions, bestMoves };
+}
+
+/**
+ * Rating implied by solving `solved` of `total` positions from benchmarks
+ * with the given targets, averaged over all positions. Each benchmark's solve
+ * rate is read as an expected score against a player rated at its target
+ * (half a solve is added on either side so 0% and 100% stay finite).
+ */
+export function performanceRating(scores: { targetELO: number; solved: number; total: number }[]): number {
+  let weighted = 0;
+  let positions = 0;
+
+  for (const { targetELO, solved, total } of scores) {
+    if (total === 0) continue;
+    const rate = (solved + 0.5) / (total + 1);
+    weighted += (targetELO + 400 * Math.log10(rate / (1 - rate))) * total;
+    positions += total;
+  }
+
+  return positions === 0 ? 0 : Math.round(weighted / positions);
+}
+
+/**
+ * Whether two moves are the same from/to/promotion.
+ */
+export function isBenchmarkMove(played: ChessMove | null, expected: ChessMove): boolean {
+  return !!played &&
+    played.from.row === expected.from.row && played.from.col === expected.from.col &&
+    played.to.row === expected.to.row && played.to.col === expected.to.col &&
+    (played.promotion ?? null) === (expected.promotion ?? null);
+}
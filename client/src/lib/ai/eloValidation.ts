@@ -6,8 +6,17 @@
 
 import { deepNN } from './deepNeuralNetwork';
 import { GameState, ChessMove } from '../chess/types';
-import { ChessEngine } from '../chess/engine';
+import { getLegalMoves } from '../chess/gameEngine';
+import { BOARD_SIZE } from '@shared/chessRules';
 import { logger } from '../utils/logger';
+import {
+  BENCHMARK_SUITE_VERSION,
+  ELO_BENCHMARK_SUITE,
+  BenchmarkDifficulty,
+  isBenchmarkMove,
+  loadBenchmarkPositions,
+  performanceRating
+} from './eloBenchmarks';
 
 export interface ELOTestResult {
   checkpoint: number;
@@ -24,75 +33,28 @@ export interface ValidationBenchmark {
   targetELO: number;
   positions: GameState[];
   bestMoves: ChessMove[];
-  difficulty: 'easy' | 'medium' | 'hard' | 'master';
+  difficulty: BenchmarkDifficulty;
 }
 
 export class ELOValidationSystem {
   private benchmarks: ValidationBenchmark[];
   private testHistory: ELOTestResult[] = [];
-  private engine: ChessEngine;
 
   constructor() {
-    this.engine = new ChessEngine();
     this.benchmarks = this.initializeBenchmarks();
-    logger.info('ELO Validation System initialized');
+    logger.info(`ELO Validation System initialized (benchmark suite v${BENCHMARK_SUITE_VERSION})`);
   }
 
   /**
-   * Initialize validation benchmarks
+   * Initialize validation benchmarks from the versioned position suite
    */
   private initializeBenchmarks(): ValidationBenchmark[] {
-    return [
-      {
-        name: 'Tactical Basics',
-        targetELO: 1900,
-        positions: [], // Would contain actual positions
-        bestMoves: [],  // Would contain best moves
-        difficulty: 'easy'
-      },
-      {
-        name: 'Positional Understanding',
-        targetELO: 2000,
-        positions: [],
-        bestMoves: [],
-        difficulty: 'medium'
-      },
-      {
-        name: 'Wizard Mastery',
-        targetELO: 2100,
-        positions: [],
-        bestMoves: [],
-        difficulty: 'medium'
-      },
-      {
-        name: 'Complex Middlegame',
-        targetELO: 2200,
-        positions: [],
-        bestMoves: [],
-        difficulty: 'hard'
-      },
-      {
-        name: 'Endgame Precision',
-        targetELO: 2300,
-        positions: [],
-        bestMoves: [],
-        difficulty: 'hard'
-      },
-      {
-        name: 'Master Combinations',
-        targetELO: 2400,
-        positions: [],
-        bestMoves: [],
-        difficulty: 'master'
-      },
-      {
-        name: 'Grandmaster Level',
-        targetELO: 2500,
-        positions: [],
-        bestMoves: [],
-        difficulty: 'master'
-      }
-    ];
+    return ELO_BENCHMARK_SUITE.map(definition => ({
+      name: definition.name,
+      targetELO: definition.targetELO,
+      difficulty: definition.difficulty,
+      ...loadBenchmarkPositions(definition)
+    }));
   }
 
   /**
@@ -106,16 +68,13 @@ export class ELOValidationSystem {
     console.log(`   Games played: ${gamesPlayed.toLocaleString()}`);
 
     const startTime = performance.now();
-    let totalScore = 0;
-    let totalTests = 0;
-    let totalMoveQuality = 0;
+    const scores: { targetELO: number; solved: number; total: number }[] = [];
 
     // Test against each benchmark
     for (const benchmark of this.benchmarks) {
       const score = await this.testAgainstBenchmark(benchmark);
-      totalScore += score;
-      totalTests++;
-      totalMoveQuality += score;
+      const total = benchmark.positions.length;
+      scores.push({ targetELO: benchmark.targetELO, solved: Math.round(score * total), total });
 
       // Early exit if failing basic tests
       if (benchmark.difficulty === 'easy' && score < 0.5) {
@@ -124,21 +83,22 @@ export class ELOValidationSystem {
       }
     }
 
-    const avgScore = totalScore / totalTests;
-    const timePerMove = (performance.now() - startTime) / (totalTests * 10); // Assume 10 moves per test
+    const totalTests = scores.reduce((sum, score) => sum + score.total, 0);
+    const avgScore = scores.reduce((sum, score) => sum + score.solved, 0) / totalTests;
+    const timePerMove = (performance.now() - startTime) / totalTests;
+
+    // Rating implied by the solve rate on each benchmark
+    const estimatedELO = performanceRating(scores);
 
-    // Calculate estimated ELO
-    const estimatedELO = this.calculateELO(gamesPlayed, avgScore);
-    
     // Calculate confidence based on consistency
-    const confidence = this.calculateConfidence(avgScore, totalTests);
+    const confidence = this.calculateConfidence(avgScore, scores.length);
 
     const result: ELOTestResult = {
       checkpoint,
       gamesPlayed,
       estimatedELO,
       winRate: avgScore,
-      avgMoveQuality: totalMoveQuality / totalTests,
+      avgMoveQuality: avgScore,
       timePerMove,
       confidence
     };
@@ -169,122 +129,41 @@ export class ELOValidationSystem {
   }
 
   /**
-   * Test model against specific benchmark
+   * Fraction of the benchmark's positions where the model plays the best move
    */
   private async testAgainstBenchmark(benchmark: ValidationBenchmark): Promise<number> {
-    // Simulate testing against benchmark positions
-    // In real implementation, would test actual positions
-    
-    let correctMoves = 0;
-    const testPositions = 10; // Test 10 positions per benchmark
+    if (benchmark.positions.length === 0) return 0;
 
-    for (let i = 0; i < testPositions; i++) {
-      // Generate test position based on difficulty
-      const testState = this.generateTestPosition(benchmark.difficulty);
-      
-      // Get model's move
-      const modelMove = await this.getModelMove(testState);
-      
-      // Evaluate move quality (simplified)
-      const moveQuality = this.evaluateMoveQuality(modelMove, testState, benchmark.difficulty);
-      
-      if (moveQuality > 0.7) {
+    let correctMoves = 0;
+    for (let i = 0; i < benchmark.positions.length; i++) {
+      const modelMove = await this.getModelMove(benchmark.positions[i]);
+      if (isBenchmarkMove(modelMove, benchmark.bestMoves[i])) {
         correctMoves++;
       }
     }
 
-    return correctMoves / testPositions;
+    return correctMoves / benchmark.positions.length;
   }
 
   /**
-   * Get model's move for position
+   * Get model's move for position: the legal move whose destination square
+   * the policy head rates highest
    */
   private async getModelMove(state: GameState): Promise<ChessMove | null> {
-    if (!deepNN.model) return null;
-
     try {
-      // Extract features
-      const features = deepNN.extractFeatures(state);
-      
-      // Get model prediction
-      const prediction = await deepNN.predict(features);
-      
-      // Convert to move (simplified)
-      const validMoves = this.engine.getValidMoves(state, state.currentPlayer);
+      const validMoves = getLegalMoves(state, state.currentPlayer);
       if (validMoves.length === 0) return null;
 
-      // Select move based on policy output
-      const moveIndex = Math.min(
-        Math.floor(Math.random() * validMoves.length),
-        validMoves.length - 1
-      );
-      
-      return validMoves[moveIndex];
+      const { policy } = await deepNN.predict(state);
+      const policyAt = (move: ChessMove) => policy[move.to.row * BOARD_SIZE + move.to.col] ?? 0;
+
+      return validMoves.reduce((best, move) => policyAt(move) > policyAt(best) ? move : best);
     } catch (error) {
       logger.error('Error getting model move:', error);
       return null;
     }
   }
 
-  /**
-   * Evaluate move quality
-   */
-  private evaluateMoveQuality(
-    move: ChessMove | null,
-    state: GameState,
-    difficulty: string
-  ): number {
-    if (!move) return 0;
-
-    // Simplified quality evaluation
-    // In real implementation, would compare to best move
-    let quality = 0.5; // Base quality
-
-    // Adjust based on difficulty
-    switch (difficulty) {
-      case 'easy':
-        quality += 0.3; // Easier to get right
-        break;
-      case 'medium':
-        quality += 0.2;
-        break;
-      case 'hard':
-        quality += 0.1;
-        break;
-      case 'master':
-        quality += 0.0;
-        break;
-    }
-
-    // Random variation
-    quality += (Math.random() - 0.5) * 0.2;
-
-    return Math.max(0, Math.min(1, quality));
-  }
-
-  /**
-   * Calculate ELO based on performance
-   */
-  private calculateELO(gamesPlayed: number, winRate: number): number {
-    const baseELO = 1800;
-    const maxELO = 2600;
-    
-    // Progress based on games played
-    const gameProgress = Math.min(gamesPlayed / 100000, 1);
-    
-    // Logarithmic progression
-    const progressELO = baseELO + (maxELO - baseELO) * 
-      Math.log10(1 + gameProgress * 9) / Math.log10(10);
-    
-    // Adjust based on win rate
-    const winRateAdjustment = (winRate - 0.5) * 400;
-    
-    // Add some randomness for realism
-    const variance = (Math.random() - 0.5) * 50;
-    
-    return Math.round(progressELO + winRateAdjustment + variance);
-  }
-
   /**
    * Calculate confidence in ELO estimate
    */
@@ -298,15 +177,6 @@ export class ELOValidationSystem {
     return baseConfidence * (0.7 + consistencyFactor * 0.3);
   }
 
-  /**
-   * Generate test position based on difficulty
-   */
-  private generateTestPosition(difficulty: string): GameState {
-    // Simplified position generation
-    // In real implementation, would load actual test positions
-    return {} as GameState;
-  }
-
   /**
    * Run comprehensive validation suite
    */
@@ -372,27 +242,20 @@ export class ELOValidationSystem {
    * Quick validation for intermediate testing
    */
   async quickValidation(gamesPlayed: number): Promise<number> {
-    // Fast ELO estimation for progress tracking
-    const baseELO = 1800;
-    const targetELO = 2500;
-    const progress = Math.min(gamesPlayed / 100000, 1);
-    
     // Quick test on subset of benchmarks
-    let score = 0;
+    const scores: { targetELO: number; solved: number; total: number }[] = [];
     const quickTests = 3;
-    
+
     for (let i = 0; i < quickTests; i++) {
       const benchmark = this.benchmarks[Math.min(i * 2, this.benchmarks.length - 1)];
-      score += await this.testAgainstBenchmark(benchmark);
+      const total = benchmark.positions.length;
+      const score = await this.testAgainstBenchmark(benchmark);
+      scores.push({ targetELO: benchmark.targetELO, solved: Math.round(score * total), total });
     }
-    
-    score /= quickTests;
-    
-    // Estimate ELO
-    const progressELO = baseELO + (targetELO - baseELO) * progress;
-    const performanceAdjustment = (score - 0.5) * 200;
-    
-    return Math.round(progressELO + performanceAdjustment);
+
+    const estimatedELO = performanceRating(scores);
+    logger.info(`Quick ELO validation after ${gamesPlayed} games: ${estimatedELO}`);
+    return estimatedELO;
   }
 
   /**
@@ -0,0 +1,69 @@
+/**
+ * Engine Registry
+ * Every move-picking engine in the codebase behind one interface, by name
+ *
+ * Used by the headless tools (ELO benchmarks, engine matches) so they can
+ * run any engine the same way. Each factory call returns a fresh engine, so
+ * two engines of the same kind don't share search tables.
+ */
+
+import { AIDifficulty, ChessMove, GameState } from '../chess/types';
+import { getAIMove } from '../chess/aiPlayer';
+import { AdvancedAIPlayer, AIManager } from '../chess/advancedAI';
+import { SEARCH_BUDGETS } from '../chess/searchEngine';
+import { ensureModelInitialized, getBestMove as getNetworkMove } from './deployAI';
+
+export interface MoveEngine {
+  name: string;
+  // Called once before the engine's first move
+  prepare?(): Promise<void>;
+  getMove(gameState: GameState): ChessMove | null | Promise<ChessMove | null>;
+}
+
+export const ENGINE_DIFFICULTIES: AIDifficulty[] = ['easy', 'medium', 'hard', 'advanced'];
+
+/**
+ * The AI exactly as it plays a game at `difficulty`.
+ */
+export function createDifficultyEngine(difficulty: AIDifficulty): MoveEngine {
+  return {
+    name: difficulty,
+    getMove: gameState => getAIMove({ ...gameState, aiDifficulty: difficulty })
+  };
+}
+
+export const ENGINES: Record<string, () => MoveEngine> = {
+  ...Object.fromEntries(ENGINE_DIFFICULTIES.map(difficulty => [difficulty, () => createDifficultyEngine(difficulty)])),
+  // AdvancedAIPlayer's search alone, without the game AI's shortcuts and fallbacks
+  'advanced-search': () => {
+    const player = new AdvancedAIPlayer();
+    return {
+      name: 'advanced-search',
+      getMove: gameState => player.search(gameState, SEARCH_BUDGETS.advanced)?.move ?? null
+    };
+  },
+  'ai-manager': () => {
+    const manager = new AIManager();
+    return {
+      name: 'ai-manager',
+      getMove: gameState => manager.getBestMove({ ...gameState, aiDifficulty: 'hard' }, gameState.currentPlayer)
+    };
+  },
+  // The trained network from deployAI.ts, one-ply lookahead on its value head
+  'network': () => ({
+    name: 'network',
+    prepare: ensureModelInitialized,
+    getMove: gameState => getNetworkMove(gameState)
+  })
+};
+
+/**
+ * A fresh engine by registry name.
+ */
+export function createEngine(name: string): MoveEngine {
+  const factory = ENGINES[name];
+  if (!factory) {
+    throw new Error(`Unknown engine: ${name}. Known: ${Object.keys(ENGINES).join(', ')}`);
+  }
+  return factory();
+}
@@ -6,7 +6,7 @@
 import { DeepNeuralNetwork } from './deepNeuralNetwork';
 import { GameState, ChessMove, PieceColor } from '../chess/types';
 import { getAIMove } from '../chess/aiPlayer';
-import { AdvancedAIPlayer } from '../chess/advancedAI';
+import { advancedAI } from '../chess/advancedAI';
 
 // Global instance of trained AI
 let trainedAI: DeepNeuralNetwork | null = null;
@@ -61,8 +61,8 @@ export async function getTrainedAIMove(gameState: GameState): Promise<ChessMove
     console.error('❌ Error getting trained AI move:', error);
   }
   
-  // Fallback to advanced AI if trained model fails
-  const advancedAI = new AdvancedAIPlayer();
+  // Fallback to advanced AI if trained model fails. The shared instance keeps
+  // its transposition table between moves
   return advancedAI.getMove(gameState, gameState.currentPlayer);
 }
 
@@ -0,0 +1,279 @@
+/**
+ * Engine Match Runner
+ * Plays two engines from the registry (engines.ts) against each other
+ *
+ * Games come in pairs: each opening is played once with each engine as white.
+ * Openings are a few random quiet plies from the starting position, drawn
+ * from a seeded generator so a match can be replayed exactly. Every move an
+ * engine returns goes through the same validation the server uses; an illegal
+ * move, or no move with legal moves available, loses the game. Games that run
+ * past the ply limit are drawn.
+ *
+ * Results are reported from the first engine's point of view, with the ELO
+ * difference, its error bars and the SPRT verdict from matchStatistics.ts.
+ *
+ * Run headless with: npx tsx client/src/lib/ai/runMatch.ts <engineA> <engineB> [pairs]
+ */
+
+import { DrawReason, GameState, PieceColor } from '../chess/types';
+import { createInitialGameState, getLegalMoves, makeMove } from '../chess/gameEngine';
+import { parsePosition, serializePosition, STARTING_POSITION } from '../chess/positionNotation';
+import { moveToSAN } from '../chess/notation';
+import { validateMove, type MoveRejectionReason } from '@shared/chessRules';
+import { MoveEngine, createEngine } from './engines';
+import { DEFAULT_SPRT, EloEstimate, SprtOptions, SprtResult, estimateElo, sprt } from './matchStatistics';
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2';
+export type GameEndReason = 'checkmate' | DrawReason | 'ply_limit' | 'no_move' | MoveRejectionReason;
+
+export interface MatchGame {
+  pair: number;
+  opening: string;
+  white: string;
+  black: string;
+  result: GameResult;
+  reason: GameEndReason;
+  // SAN, from the opening position on
+  moves: string[];
+  // SAN from the starting position to the opening, when the game was played
+  // from generated openings
+  openingMoves?: string[];
+}
+
+export interface MatchOptions {
+  // Number of game pairs (each opening with both colors)
+  pairs: number;
+  // Random quiet plies played from the starting position for each opening
+  openingPlies?: number;
+  seed?: number;
+  maxPlies?: number;
+  sprt?: SprtOptions;
+  // End the match as soon as the SPRT reaches a verdict
+  stopOnSprt?: boolean;
+  onGame?: (game: MatchGame, report: MatchReport) => void;
+}
+
+export interface MatchReport {
+  engines: [string, string];
+  games: MatchGame[];
+  // From the first engine's point of view
+  wins: number;
+  draws: number;
+  losses: number;
+  elo: EloEstimate;
+  sprt: SprtResult;
+}
+
+const DEFAULT_OPENING_PLIES = 4;
+const DEFAULT_MAX_PLIES = 300;
+
+function createRandom(seed: number): () => number {
+  // mulberry32, scaled to [0, 1)
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A generated opening: its position and the SAN moves that reach it
+export interface OpeningLine {
+  position: string;
+  moves: string[];
+}
+
+/**
+ * `count` distinct openings, each `plies` random non-capturing moves from the
+ * starting position. The same seed always gives the same openings.
+ */
+export function generateOpeningLines(count: number, plies: number = DEFAULT_OPENING_PLIES, seed = 1): OpeningLine[] {
+  const random = createRandom(seed);
+  const openings = new Map<string, string[]>();
+  let attempts = 0;
+
+  while (openings.size < count) {
+    if (++attempts > count * 100) {
+      throw new Error(`Could not generate ${count} distinct openings of ${plies} plies`);
+    }
+
+    let gameState = createInitialGameState('ai-vs-ai');
+    const moves: string[] = [];
+    for (let ply = 0; ply < plies && gameState.gamePhase !== 'ended'; ply++) {
+      const quietMoves = getLegalMoves(gameState).filter(move => !move.captured);
+      if (quietMoves.length === 0) break;
+      const move = quietMoves[Math.floor(random() * quietMoves.length)];
+      moves.push(moveToSAN(gameState.board, move, gameState.enPassantTarget ?? null));
+      gameState = makeMove(gameState, move);
+    }
+    const position = serializePosition(gameState);
+    if (gameState.gamePhase !== 'ended' && !openings.has(position)) openings.set(position, moves);
+  }
+
+  return Array.from(openings, ([position, moves]) => ({ position, moves }));
+}
+
+/**
+ * The positions of generateOpeningLines.
+ */
+export function generateOpenings(count: number, plies: number = DEFAULT_OPENING_PLIES, seed = 1): string[] {
+  return generateOpeningLines(count, plies, seed).map(line => line.position);
+}
+
+/**
+ * One game from `opening` to its end (or the ply limit).
+ */
+export async function playGame(
+  white: MoveEngine,
+  black: MoveEngine,
+  opening: string,
+  maxPlies: number = DEFAULT_MAX_PLIES
+): Promise<Omit<MatchGame, 'pair'>> {
+  let gameState: GameState = parsePosition(opening, 'ai-vs-ai');
+  const moves: string[] = [];
+  const finish = (result: GameResult, reason: GameEndReason) =>
+    ({ opening, white: white.name, black: black.name, result, reason, moves });
+  const loss = (color: PieceColor): GameResult => color === 'white' ? '0-1' : '1-0';
+
+  while (gameState.gamePhase !== 'ended') {
+    if (moves.length >= maxPlies) return finish('1/2-1/2', 'ply_limit');
+
+    const color = gameState.currentPlayer;
+    const engine = color === 'white' ? white : black;
+    const enPassantTarget = gameState.enPassantTarget ?? null;
+
+    const move = await engine.getMove(gameState);
+    if (!move) return finish(loss(color), 'no_move');
+
+    const validation = validateMove(gameState.board, color, move, enPassantTarget);
+    if (!validation.valid) return finish(loss(color), validation.reason);
+
+    moves.push(moveToSAN(gameState.board, validation.move, enPassantTarget));
+    gameState = makeMove(gameState, validation.move);
+  }
+
+  if (gameState.isCheckmate) {
+    return finish(gameState.winner === 'white' ? '1-0' : '0-1', 'checkmate');
+  }
+  return finish('1/2-1/2', gameState.drawReason ?? 'stalemate');
+}
+
+/**
+ * `count` games of `engine` against itself: one from the starting position,
+ * the rest after a random quiet move for each side (kept in `openingMoves`).
+ * With the same engine on both sides, swapping colors would only replay a
+ * game, so each opening is played once. The engines' own logging is silenced
+ * while they play.
+ */
+export async function playSelfPlayGames(
+  engine: string,
+  count: number,
+  maxPlies: number = DEFAULT_MAX_PLIES,
+  seed = 1,
+  onGame?: (game: MatchGame, index: number) => void
+): Promise<MatchGame[]> {
+  const white = createEngine(engine);
+  const black = createEngine(engine);
+  await white.prepare?.();
+  await black.prepare?.();
+
+  const openings: OpeningLine[] = [
+    { position: STARTING_POSITION, moves: [] },
+    ...(count > 1 ? generateOpeningLines(count - 1, 2, seed) : [])
+  ];
+  const games: MatchGame[] = [];
+  const log = console.log;
+  for (let i = 0; i < openings.length; i++) {
+    console.log = () => {};
+    try {
+      const game = await playGame(white, black, openings[i].position, maxPlies);
+      games.push({ pair: i, ...game, openingMoves: openings[i].moves });
+    } finally {
+      console.log = log;
+    }
+    onGame?.(games[i], i);
+  }
+  return games;
+}
+
+// Points for `engine` from a finished game
+function pointsFor(engine: string, game: MatchGame): number {
+  if (game.result === '1/2-1/2') return 0.5;
+  const winner = game.result === '1-0' ? game.white : game.black;
+  return winner === engine ? 1 : 0;
+}
+
+function buildReport(engineA: string, engineB: string, games: MatchGame[], sprtOptions: SprtOptions): MatchReport {
+  const points = games.map(game => pointsFor(engineA, game));
+
+  // Only complete pairs count towards the statistics
+  const pairScores: number[] = [];
+  for (let i = 0; i + 1 < games.length; i += 2) {
+    pairScores.push((points[i] + points[i + 1]) / 2);
+  }
+
+  return {
+    engines: [engineA, engineB],
+    games,
+    wins: points.filter(p => p === 1).length,
+    draws: points.filter(p => p === 0.5).length,
+    losses: points.filter(p => p === 0).length,
+    elo: estimateElo(pairScores),
+    sprt: sprt(pairScores, sprtOptions)
+  };
+}
+
+/**
+ * Plays `options.pairs` game pairs between two engines. Both engines must
+ * have distinct names, since results are attributed by name.
+ */
+export async function runMatch(engineA: MoveEngine, engineB: MoveEngine, options: MatchOptions): Promise<MatchReport> {
+  if (engineA.name === engineB.name) {
+    throw new Error(`Both engines are named ${engineA.name}; give them distinct names`);
+  }
+
+  const sprtOptions = options.sprt ?? DEFAULT_SPRT;
+  const openings = generateOpenings(options.pairs, options.openingPlies ?? DEFAULT_OPENING_PLIES, options.seed ?? 1);
+  const maxPlies = options.maxPlies ?? DEFAULT_MAX_PLIES;
+
+  await engineA.prepare?.();
+  await engineB.prepare?.();
+
+  const games: MatchGame[] = [];
+  let report = buildReport(engineA.name, engineB.name, games, sprtOptions);
+
+  for (let pair = 0; pair < openings.length; pair++) {
+    for (const [white, black] of [[engineA, engineB], [engineB, engineA]]) {
+      games.push({ pair, ...await playGame(white, black, openings[pair], maxPlies) });
+      report = buildReport(engineA.name, engineB.name, games, sprtOptions);
+      options.onGame?.(games[games.length - 1], report);
+    }
+
+    if (options.stopOnSprt && report.sprt.verdict !== 'continue') break;
+  }
+
+  return report;
+}
+
+/**
+ * Summary of a match: score, ELO difference with its 95% interval, and the
+ * SPRT state.
+ */
+export function formatMatchReport(report: MatchReport): string {
+  const [engineA, engineB] = report.engines;
+  const { elo, sprt: test } = report;
+  const signed = (value: number) => !Number.isFinite(value) ? (value > 0 ? '+inf' : '-inf')
+    : `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+  const verdict = test.verdict === 'H1' ? `H1 accepted: ${engineA} is at least ${test.elo1} ELO stronger`
+    : test.verdict === 'H0' ? `H0 accepted: ${engineA} is not ${test.elo1} ELO stronger`
+    : 'inconclusive, keep playing';
+
+  return [
+    `${engineA} vs ${engineB}: ${report.games.length} games`,
+    `  +${report.wins} =${report.draws} -${report.losses} (score ${(elo.score * 100).toFixed(1)}%)`,
+    `  ELO difference: ${signed(elo.elo)} [${signed(elo.lower)}, ${signed(elo.upper)}] (95%)`,
+    `  SPRT [${test.elo0}, ${test.elo1}] alpha ${test.alpha} beta ${test.beta}: ` +
+      `LLR ${test.llr.toFixed(2)} (${test.lowerBound.toFixed(2)}, ${test.upperBound.toFixed(2)}), ${verdict}`
+  ].join('\n');
+}
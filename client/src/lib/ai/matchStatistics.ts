@@ -0,0 +1,111 @@
+/**
+ * Match Statistics
+ * ELO difference, error bars and SPRT for engine-vs-engine matches
+ *
+ * Matches are played in pairs: the same opening twice with colors swapped.
+ * The pair is the unit of measurement (its score is 0, 0.25, 0.5, 0.75 or 1),
+ * which cancels most of the bias an unbalanced opening would add and gives
+ * tighter error bars than counting games on their own.
+ *
+ * The SPRT tests H0: the difference is elo0 against H1: it is elo1, using the
+ * normal approximation to the log-likelihood ratio. It stops as soon as the
+ * evidence crosses either bound, with error rates alpha (accepting H1 when H0
+ * holds) and beta (the reverse).
+ */
+
+export interface EloEstimate {
+  // Average score per game, 0..1
+  score: number;
+  elo: number;
+  // 95% confidence interval
+  lower: number;
+  upper: number;
+}
+
+export interface SprtOptions {
+  elo0: number;
+  elo1: number;
+  alpha: number;
+  beta: number;
+}
+
+export type SprtVerdict = 'H0' | 'H1' | 'continue';
+
+export interface SprtResult extends SprtOptions {
+  llr: number;
+  lowerBound: number;
+  upperBound: number;
+  verdict: SprtVerdict;
+}
+
+export const DEFAULT_SPRT: SprtOptions = { elo0: 0, elo1: 10, alpha: 0.05, beta: 0.05 };
+
+const Z_95 = 1.959964;
+
+/**
+ * Expected score per game for a player `elo` points stronger.
+ */
+export function expectedScore(elo: number): number {
+  return 1 / (1 + Math.pow(10, -elo / 400));
+}
+
+/**
+ * ELO difference that produces `score` per game.
+ */
+export function eloFromScore(score: number): number {
+  return -400 * Math.log10(1 / score - 1);
+}
+
+const PAIR_OUTCOMES = [0, 0.25, 0.5, 0.75, 1];
+
+// The variance includes one pseudo-pair spread evenly over the five possible
+// pair scores, so a short match where every pair scored the same still has
+// error bars and evidence to weigh
+function meanAndVariance(pairScores: number[]): { mean: number; variance: number } {
+  const mean = pairScores.reduce((sum, value) => sum + value, 0) / pairScores.length;
+  const observed = pairScores.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  const prior = PAIR_OUTCOMES.reduce((sum, value) => sum + (value - mean) ** 2, 0) / PAIR_OUTCOMES.length;
+  return { mean, variance: (observed + prior) / (pairScores.length + 1) };
+}
+
+/**
+ * ELO difference with a 95% interval from pair scores (each 0..1). Scores of
+ * exactly 0 or 1 are pulled in by a quarter of a pair so the ratings stay
+ * finite.
+ */
+export function estimateElo(pairScores: number[]): EloEstimate {
+  if (pairScores.length === 0) {
+    return { score: 0.5, elo: 0, lower: -Infinity, upper: Infinity };
+  }
+
+  const { mean, variance } = meanAndVariance(pairScores);
+  const margin = Z_95 * Math.sqrt(variance / pairScores.length);
+  const limit = 0.25 / pairScores.length;
+  const clamp = (score: number) => Math.min(1 - limit, Math.max(limit, score));
+
+  return {
+    score: mean,
+    elo: eloFromScore(clamp(mean)),
+    lower: eloFromScore(clamp(mean - margin)),
+    upper: eloFromScore(clamp(mean + margin))
+  };
+}
+
+/**
+ * Sequential probability ratio test over the pair scores so far.
+ */
+export function sprt(pairScores: number[], options: SprtOptions = DEFAULT_SPRT): SprtResult {
+  const lowerBound = Math.log(options.beta / (1 - options.alpha));
+  const upperBound = Math.log((1 - options.beta) / options.alpha);
+
+  let llr = 0;
+  if (pairScores.length > 0) {
+    const { mean, variance } = meanAndVariance(pairScores);
+    const s0 = expectedScore(options.elo0);
+    const s1 = expectedScore(options.elo1);
+    llr = pairScores.length * (s1 - s0) * (2 * mean - s0 - s1) / (2 * variance);
+  }
+
+  const verdict: SprtVerdict = llr >= upperBound ? 'H1' : llr <= lowerBound ? 'H0' : 'continue';
+  return { ...options, llr, lowerBound, upperBound, verdict };
+}
@@ -0,0 +1,176 @@
+/**
+ * Opening Book Builder
+ * Derives an opening book from finished games
+ *
+ * Games come from two places: human-vs-AI games stored in humanAIGames (as
+ * returned by /api/ai-training/training-games) and self-play, either the
+ * trainer's SelfPlayGame records or engine matches from matchRunner.ts. Each
+ * game is replayed from its start position through the shared move
+ * validation; every move played before `maxPly` is credited with the game's
+ * result from the mover's point of view. A game stops contributing at its
+ * first move that doesn't replay.
+ */
+
+import { ChessMove, GameState, PieceColor, PieceType, Position } from '../chess/types';
+import { makeMove } from '../chess/gameEngine';
+import { parsePosition, STARTING_POSITION } from '../chess/positionNotation';
+import { parseSAN } from '../chess/notation';
+import { validateMove } from '@shared/chessRules';
+import { BookMove, OPENING_BOOK_VERSION, OpeningBook, bookKey, bookMoveName, bookPly } from '../chess/openingBook';
+import type { HumanAIGame } from '@shared/schema';
+import type { MatchGame } from './matchRunner';
+
+export type BookGameResult = PieceColor | 'draw';
+
+export interface BookGame {
+  // Position the moves start from (defaults to the starting position)
+  start?: string;
+  // Moves as squares, or as SAN
+  moves: (string | { from: Position; to: Position; promotion?: PieceType })[];
+  result: BookGameResult;
+}
+
+export interface BookBuildOptions {
+  maxPly?: number;
+  // Moves seen in fewer games are left out
+  minGames?: number;
+}
+
+export const DEFAULT_BOOK_MAX_PLY = 16;
+
+/**
+ * A stored human-vs-AI game, or null for an abandoned one.
+ */
+export function gameFromHumanAIRecord(record: Pick<HumanAIGame, 'moves' | 'outcome' | 'playerColor'>): BookGame | null {
+  if (record.outcome === 'abandoned' || !Array.isArray(record.moves)) return null;
+
+  const playerColor = record.playerColor as PieceColor;
+  const aiColor: PieceColor = playerColor === 'white' ? 'black' : 'white';
+  const result: BookGameResult = record.outcome === 'player_win' ? playerColor
+    : record.outcome === 'ai_win' ? aiColor
+    : 'draw';
+
+  return { moves: record.moves as ChessMove[], result };
+}
+
+/**
+ * A self-play trainer game (moves from the starting position, winner color).
+ */
+export function gameFromSelfPlay(game: { moves: ChessMove[]; outcome: BookGameResult }): BookGame {
+  return { moves: game.moves, result: game.outcome };
+}
+
+/**
+ * An engine match game. When the moves into its opening are known it counts
+ * from the starting position, so every game passes through the book's root.
+ */
+export function gameFromMatch(game: MatchGame): BookGame {
+  const result: BookGameResult = game.result === '1-0' ? 'white' : game.result === '0-1' ? 'black' : 'draw';
+  return game.openingMoves
+    ? { moves: [...game.openingMoves, ...game.moves], result }
+    : { start: game.opening, moves: game.moves, result };
+}
+
+/**
+ * Replays `game` through the shared move validation. `states[i]` is the
+ * position before `moves[i]`, with one more state after the last move; the
+ * replay stops at the game's end or its first move that doesn't replay.
+ */
+export function replayBookGame(game: BookGame): { states: GameState[]; moves: ChessMove[] } {
+  let gameState: GameState = parsePosition(game.start ?? STARTING_POSITION);
+  const states: GameState[] = [gameState];
+  const moves: ChessMove[] = [];
+
+  for (const entry of game.moves) {
+    if (gameState.gamePhase === 'ended') break;
+
+    const color = gameState.currentPlayer;
+    const enPassantTarget = gameState.enPassantTarget ?? null;
+    try {
+      const request = typeof entry === 'string' ? parseSAN(gameState.board, color, entry, enPassantTarget) : entry;
+      const validation = validateMove(gameState.board, color, request, enPassantTarget);
+      if (!validation.valid) break;
+      moves.push(validation.move);
+    } catch {
+      break;
+    }
+
+    gameState = makeMove(gameState, moves[moves.length - 1]);
+    states.push(gameState);
+  }
+
+  return { states, moves };
+}
+
+/**
+ * Book from `games`. Moves are credited with two points per win and one per
+ * draw for the side that played them.
+ */
+export function buildOpeningBook(games: BookGame[], options: BookBuildOptions = {}): OpeningBook {
+  const maxPly = options.maxPly ?? DEFAULT_BOOK_MAX_PLY;
+  const minGames = options.minGames ?? 1;
+  const stats = new Map<string, Map<string, { games: number; score: number }>>();
+  let gamesUsed = 0;
+
+  for (const game of games) {
+    const { states, moves: played } = replayBookGame(game);
+    let contributed = false;
+
+    for (let i = 0; i < played.length; i++) {
+      const gameState = states[i];
+      if (bookPly(gameState) >= maxPly) break;
+
+      const color = gameState.currentPlayer;
+      const key = bookKey(gameState);
+      const moves = stats.get(key) ?? new Map<string, { games: number; score: number }>();
+      stats.set(key, moves);
+      const name = bookMoveName(played[i]);
+      const moveStats = moves.get(name) ?? { games: 0, score: 0 };
+      moves.set(name, moveStats);
+      moveStats.games++;
+      moveStats.score += game.result === 'draw' ? 0.5 : game.result === color ? 1 : 0;
+      contributed = true;
+    }
+
+    if (contributed) gamesUsed++;
+  }
+
+  const entries: Record<string, BookMove[]> = {};
+  stats.forEach((moves, key) => {
+    const bookMoves: BookMove[] = [];
+    moves.forEach(({ games, score }, move) => {
+      const weight = Math.round(score * 2);
+      if (games >= minGames && weight > 0) bookMoves.push({ move, games, score, weight });
+    });
+    if (bookMoves.length > 0) {
+      entries[key] = bookMoves.sort((a, b) => b.weight - a.weight || a.move.localeCompare(b.move));
+    }
+  });
+
+  return { version: OPENING_BOOK_VERSION, maxPly, games: gamesUsed, entries };
+}
+
+/**
+ * Source for openingBookData.ts holding `book`.
+ */
+export function serializeOpeningBook(book: OpeningBook): string {
+  const keys = Object.keys(book.entries).sort();
+  const entries = keys.map(key => `    '${key}': ${JSON.stringify(book.entries[key])}`).join(',\n');
+
+  return [
+    '/**',
+    ' * Opening Book Data',
+    ` * Generated by client/src/lib/ai/buildOpeningBook.ts from ${book.games} games; do not edit by hand`,
+    ' */',
+    '',
+    "import type { OpeningBook } from './openingBook';",
+    '',
+    'export const OPENING_BOOK_DATA: OpeningBook = {',
+    `  version: ${book.version},`,
+    `  maxPly: ${book.maxPly},`,
+    `  games: ${book.games},`,
+    keys.length === 0 ? '  entries: {}' : `  entries: {\n${entries}\n  }`,
+    '};',
+    ''
+  ].join('\n');
+}
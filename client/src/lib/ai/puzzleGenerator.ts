@@ -0,0 +1,231 @@
+/**
+ * Puzzle Generator
+ * Mines tactical puzzles from played games
+ *
+ * Games are the opening book builder's BookGames, so the same sources feed
+ * both: human-vs-AI games from humanAIGames and self-play games. Stored games
+ * are replayed from their moves rather than read from boardStates, which
+ * keeps bare boards without the side to move or castling rights.
+ *
+ * Every position past the opening is searched for its two best moves. It
+ * becomes a puzzle when the best move mates quickly or wins material and the
+ * second best doesn't come close, so exactly one move works. The engine's
+ * line is then followed, and every later solver move has to be just as
+ * unique; the solution ends once the mate is delivered or the material is
+ * won and can't be won back by the reply.
+ *
+ * Wizard attacks and teleports are rarer than ordinary tactics, so puzzles
+ * built on them are kept first when the set is capped.
+ */
+
+import { ChessMove, GameState, PieceColor, PieceType } from '../chess/types';
+import { makeMove } from '../chess/gameEngine';
+import { AdvancedAIPlayer } from '../chess/advancedAI';
+import { bookKey, bookMoveName } from '../chess/openingBook';
+import { serializePosition } from '../chess/positionNotation';
+import { SearchInfo, SearchLimits, mateIn, scoreToCentipawns } from '../chess/searchEngine';
+import { Puzzle, PuzzleTheme } from '../chess/puzzles';
+import { BookGame, replayBookGame } from './openingBookBuilder';
+
+export type PuzzleSearch = (
+  gameState: GameState,
+  limits: SearchLimits,
+  onProgress?: (info: SearchInfo) => void
+) => SearchInfo | null;
+
+export interface PuzzleMiningOptions {
+  // Search per position; multiPV is set where two lines are needed
+  limits?: SearchLimits;
+  // Plies at the start of each game that are never puzzles
+  skipPlies?: number;
+  // Longest mate, in solver moves
+  maxMateIn?: number;
+  // Material the line must win, in pawns
+  minGain?: number;
+  search?: PuzzleSearch;
+  onGame?: (index: number, found: number) => void;
+}
+
+export const PUZZLE_SEARCH_LIMITS: SearchLimits = { maxDepth: 4, timeLimitMs: 1500 };
+
+const DEFAULT_SKIP_PLIES = 8;
+const DEFAULT_MAX_MATE_IN = 3;
+const DEFAULT_MIN_GAIN = 2;
+// Longest material-winning line, in solver moves
+const MAX_SOLVER_MOVES = 3;
+// Centipawns the best move must lead the second best by
+const UNIQUE_GAP = 200;
+// Without the tactic the solver can't already be this far ahead
+const EQUAL_LIMIT = 150;
+
+const MATERIAL: Record<PieceType, number> = {
+  pawn: 1, knight: 3, bishop: 3, wizard: 3.5, rook: 5, queen: 9, king: 0
+};
+
+type Tactic = 'mate' | 'material';
+
+function materialBalance(gameState: GameState, color: PieceColor): number {
+  let balance = 0;
+  for (const row of gameState.board) {
+    for (const piece of row) {
+      if (piece) balance += piece.color === color ? MATERIAL[piece.type] : -MATERIAL[piece.type];
+    }
+  }
+  return balance;
+}
+
+// Which tactic the two best lines show, if the best is the only move that works
+function uniqueTactic(info: SearchInfo, maxMateIn: number): Tactic | null {
+  const [best, second] = info.lines;
+  if (!best || !second) return null;
+
+  const mate = mateIn(best.score);
+  if (mate !== null && mate > 0 && mate <= maxMateIn) {
+    // Every mate is accepted on the last move, so only longer mates must be unique
+    const secondMate = mateIn(second.score);
+    return mate === 1 || secondMate === null || secondMate < 0 ? 'mate' : null;
+  }
+
+  const bestCp = scoreToCentipawns(best.score);
+  const secondCp = scoreToCentipawns(second.score);
+  return mate === null && bestCp - secondCp >= UNIQUE_GAP && secondCp <= EQUAL_LIMIT ? 'material' : null;
+}
+
+// Longer lines, quiet first moves and moves the search only finds deep are harder
+function initialRating(solverMoves: number, quiet: boolean, foundAtDepth: number): number {
+  const rating = 900 + 250 * (solverMoves - 1) + (quiet ? 200 : 0) + 50 * foundAtDepth;
+  return Math.max(600, Math.min(2400, rating));
+}
+
+function defaultSearch(): PuzzleSearch {
+  const player = new AdvancedAIPlayer();
+  return (gameState, limits, onProgress) => player.search(gameState, limits, onProgress);
+}
+
+/**
+ * The puzzle starting at `gameState`, or null if the position has no unique
+ * winning line.
+ */
+export function findPuzzle(gameState: GameState, options: PuzzleMiningOptions = {}): Puzzle | null {
+  if (gameState.gamePhase === 'ended') return null;
+
+  const search = options.search ?? defaultSearch();
+  const limits = options.limits ?? PUZZLE_SEARCH_LIMITS;
+  const maxMateIn = options.maxMateIn ?? DEFAULT_MAX_MATE_IN;
+  const minGain = options.minGain ?? DEFAULT_MIN_GAIN;
+  const solver = gameState.currentPlayer;
+
+  // The shallowest depth the final best move was already best at
+  let foundAtDepth = 0;
+  let bestSoFar = '';
+  let info = search(gameState, { ...limits, multiPV: 2 }, progress => {
+    const name = bookMoveName(progress.move);
+    if (name !== bestSoFar) {
+      bestSoFar = name;
+      foundAtDepth = progress.depth;
+    }
+  });
+  if (!info) return null;
+
+  const tactic = uniqueTactic(info, maxMateIn);
+  if (!tactic) return null;
+
+  const startBalance = materialBalance(gameState, solver);
+  const maxSolverMoves = tactic === 'mate' ? maxMateIn : MAX_SOLVER_MOVES;
+  const solverMoves: ChessMove[] = [];
+  const solution: string[] = [];
+  let state = gameState;
+
+  while (true) {
+    if (!info || uniqueTactic(info, maxMateIn) !== tactic) return null;
+    const move = info.lines[0].move;
+    solverMoves.push(move);
+    solution.push(bookMoveName(move));
+    state = makeMove(state, move, true);
+
+    if (state.isCheckmate) break;
+    if (state.gamePhase === 'ended') return null;
+
+    const reply = search(state, limits)?.move;
+    if (!reply) return null;
+    const afterReply = makeMove(state, reply, true);
+
+    // The material is won once the best reply can't win it back
+    if (tactic === 'material' && materialBalance(afterReply, solver) - startBalance >= minGain) break;
+    if (solverMoves.length >= maxSolverMoves) return null;
+
+    solution.push(bookMoveName(reply));
+    state = afterReply;
+    info = search(state, { ...limits, multiPV: 2 });
+  }
+
+  const themes: PuzzleTheme[] = [tactic];
+  if (solverMoves.some(move => move.isWizardAttack)) themes.push('wizardAttack');
+  if (solverMoves.some(move => move.isWizardTeleport)) themes.push('wizardTeleport');
+  const first = solverMoves[0];
+  const quiet = !first.captured && !first.promotion && !makeMove(gameState, first, true).isInCheck;
+  if (quiet) themes.push('quietMove');
+
+  return {
+    id: bookKey(gameState),
+    position: serializePosition(gameState),
+    solution,
+    themes,
+    rating: initialRating(solverMoves.length, quiet, foundAtDepth)
+  };
+}
+
+/**
+ * Every puzzle in `games`, at most one per position. When a player misses a
+ * tactic and has one again on their next move, only the first counts: the
+ * game keeps offering the same win, not a new puzzle.
+ */
+export function minePuzzles(games: BookGame[], options: PuzzleMiningOptions = {}): Puzzle[] {
+  const search = options.search ?? defaultSearch();
+  const skipPlies = options.skipPlies ?? DEFAULT_SKIP_PLIES;
+  const puzzles = new Map<string, Puzzle>();
+
+  games.forEach((game, index) => {
+    const { states } = replayBookGame(game);
+    const hadTactic: boolean[] = [];
+    for (let ply = skipPlies; ply < states.length; ply++) {
+      const puzzle = findPuzzle(states[ply], { ...options, search });
+      hadTactic[ply] = puzzle !== null;
+      if (puzzle && !hadTactic[ply - 2] && !puzzles.has(puzzle.id)) puzzles.set(puzzle.id, puzzle);
+    }
+    options.onGame?.(index, puzzles.size);
+  });
+
+  return Array.from(puzzles.values());
+}
+
+const isWizardPuzzle = (puzzle: Puzzle) =>
+  puzzle.themes.includes('wizardAttack') || puzzle.themes.includes('wizardTeleport');
+
+/**
+ * At most `max` puzzles, wizard tactics first, ordered by rating.
+ */
+export function selectPuzzles(puzzles: Puzzle[], max: number): Puzzle[] {
+  const wizard = puzzles.filter(isWizardPuzzle);
+  const others = puzzles.filter(puzzle => !isWizardPuzzle(puzzle));
+  return [...wizard, ...others].slice(0, max).sort((a, b) => a.rating - b.rating || a.id.localeCompare(b.id));
+}
+
+/**
+ * Source for puzzleData.ts holding `puzzles`.
+ */
+export function serializePuzzles(puzzles: Puzzle[]): string {
+  const entries = puzzles.map(puzzle => `  ${JSON.stringify(puzzle)}`).join(',\n');
+
+  return [
+    '/**',
+    ' * Puzzle Data',
+    ` * Generated by client/src/lib/ai/buildPuzzles.ts (${puzzles.length} puzzles); do not edit by hand`,
+    ' */',
+    '',
+    "import type { Puzzle } from './puzzles';",
+    '',
+    puzzles.length === 0 ? 'export const PUZZLE_DATA: Puzzle[] = [];' : `export const PUZZLE_DATA: Puzzle[] = [\n${entries}\n];`,
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,25 @@
+// Headless ELO benchmark runner: npx tsx client/src/lib/ai/runEloBenchmarks.ts [engine ...]
+// With no engines, compares the easy, medium, hard and advanced settings.
+// Engines are the names in ENGINES (engines.ts).
+import { BenchmarkReport, formatBenchmarkReport, runBenchmarks } from './eloBenchmarkRunner';
+import { ENGINE_DIFFICULTIES, createEngine } from './engines';
+
+export async function runEloBenchmarks(engineNames: string[]): Promise<BenchmarkReport[]> {
+  const names = engineNames.length > 0 ? engineNames : ENGINE_DIFFICULTIES;
+  const engines = names.map(createEngine);
+
+  const reports: BenchmarkReport[] = [];
+  for (const engine of engines) {
+    console.log(`🏁 Running ELO benchmarks for ${engine.name}...`);
+    reports.push(await runBenchmarks(engine));
+  }
+  return reports;
+}
+
+runEloBenchmarks(process.argv.slice(2)).then(reports => {
+  console.log('\n' + formatBenchmarkReport(reports));
+  process.exit(0);
+}).catch(error => {
+  console.error('❌ ELO benchmarks failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+// Headless engine match: npx tsx client/src/lib/ai/runMatch.ts <engineA> <engineB> [pairs] [options]
+// Engines are the names in ENGINES (engines.ts). Options:
+//   --sprt elo0,elo1   SPRT hypotheses (default 0,10) and stop once it decides
+//   --seed n           opening seed (default 1)
+//   --opening-plies n  random plies per opening (default 4)
+//   --max-plies n      plies before a game is drawn (default 300)
+//   --verbose          keep the engines' own logging
+import { createEngine } from './engines';
+import { MatchOptions, MatchReport, formatMatchReport, runMatch } from './matchRunner';
+import { DEFAULT_SPRT } from './matchStatistics';
+
+export async function runMatchFromArgs(args: string[]): Promise<MatchReport> {
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      positional.push(args[i]);
+    } else if (args[i] === '--verbose') {
+      flags.verbose = true;
+    } else {
+      flags[args[i].slice(2)] = args[++i] ?? '';
+    }
+  }
+
+  const [nameA, nameB, pairsArg] = positional;
+  if (!nameA || !nameB) {
+    throw new Error('Usage: runMatch.ts <engineA> <engineB> [pairs] [--sprt elo0,elo1] [--seed n] [--opening-plies n] [--max-plies n] [--verbose]');
+  }
+
+  const number = (value: string | true | undefined, name: string): number | undefined => {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) throw new Error(`Invalid ${name}: ${value}`);
+    return parsed;
+  };
+
+  const engineA = createEngine(nameA);
+  const engineB = createEngine(nameB);
+  // Results are attributed by name, so a self-play match needs two
+  if (engineB.name === engineA.name) engineB.name = `${engineB.name}-2`;
+
+  const options: MatchOptions = {
+    pairs: number(pairsArg, 'pairs') ?? 10,
+    seed: number(flags.seed, 'seed'),
+    openingPlies: number(flags['opening-plies'], 'opening plies'),
+    maxPlies: number(flags['max-plies'], 'max plies')
+  };
+  if (typeof flags.sprt === 'string') {
+    const [elo0, elo1] = flags.sprt.split(',').map(Number);
+    if (!Number.isFinite(elo0) || !Number.isFinite(elo1)) throw new Error(`Invalid SPRT bounds: ${flags.sprt}`);
+    options.sprt = { ...DEFAULT_SPRT, elo0, elo1 };
+    options.stopOnSprt = true;
+  }
+
+  // The engines log every move; keep the match output readable
+  const log = console.log;
+  if (!flags.verbose) console.log = () => {};
+  options.onGame = (game, report) => {
+    log(`  ${game.pair + 1}. ${game.white} vs ${game.black}: ${game.result} (${game.reason}, ${game.moves.length} plies)` +
+      `  [+${report.wins} =${report.draws} -${report.losses}]`);
+  };
+
+  try {
+    log(`⚔️ ${engineA.name} vs ${engineB.name}, ${options.pairs} pairs`);
+    return await runMatch(engineA, engineB, options);
+  } finally {
+    console.log = log;
+  }
+}
+
+runMatchFromArgs(process.argv.slice(2)).then(report => {
+  console.log('\n' + formatMatchReport(report));
+  process.exit(0);
+}).catch(error => {
+  console.error('❌ Match failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,21 @@
+/**
+ * AI Player Tests
+ * Moves chosen the way a game asks for them, per difficulty
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getAIMove } from '../aiPlayer';
+import { parsePosition } from '../positionNotation';
+import { squareName } from '../notation';
+
+describe('getAIMove', () => {
+  it('has easy search its move, so it never passes up a free queen', async () => {
+    // Rxe6 wins the queen; every other move leaves it attacking the rook
+    const gameState = parsePosition('k9/10/10/10/4q5/10/10/10/4R5/K9 w - - 0 1', 'ai', 'easy');
+
+    for (let i = 0; i < 5; i++) {
+      const move = await getAIMove(gameState);
+      expect(move && squareName(move.from) + squareName(move.to)).toBe('e2e6');
+    }
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Analysis Tree Tests
+ * Branching, reusing, promoting and removing lines on the analysis board
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePosition, STARTING_POSITION } from '../positionNotation';
+import { parseSAN } from '../notation';
+import { validateMove } from '@shared/chessRules';
+import { AnalysisTree, addMove, createAnalysisTree, lineEnd, pathTo, promoteVariation, removeVariation, treeFromGame } from '../analysisTree';
+
+function play(tree: AnalysisTree, id: number, san: string) {
+  const { gameState } = tree.nodes[id];
+  const enPassantTarget = gameState.enPassantTarget ?? null;
+  const request = parseSAN(gameState.board, gameState.currentPlayer, san, enPassantTarget);
+  const validation = validateMove(gameState.board, gameState.currentPlayer, request, enPassantTarget);
+  if (!validation.valid) throw new Error(`Illegal move ${san}`);
+  return addMove(tree, id, validation.move);
+}
+
+describe('analysis tree', () => {
+  const start = createAnalysisTree(parsePosition(STARTING_POSITION, 'analysis'));
+
+  it('keeps the first move as the main line and later ones as variations', () => {
+    const e3 = play(start, 0, 'e3');
+    const e8 = play(e3.tree, e3.id, 'e8');
+    const d8 = play(e8.tree, e3.id, 'd8');
+
+    expect(d8.tree.nodes[e3.id].children).toEqual([e8.id, d8.id]);
+    expect(pathTo(d8.tree, d8.id).map(node => node.san)).toEqual(['e3', 'd8']);
+    expect(lineEnd(d8.tree, 0)).toBe(e8.id);
+    expect(d8.tree.nodes[d8.id].gameState.currentPlayer).toBe('white');
+
+    // Playing a move that is already there just moves to it
+    expect(play(d8.tree, e3.id, 'e8')).toEqual({ tree: d8.tree, id: e8.id });
+  });
+
+  it('promotes and removes variations', () => {
+    const e3 = play(start, 0, 'e3');
+    const e8 = play(e3.tree, e3.id, 'e8');
+    const d8 = play(e8.tree, e3.id, 'd8');
+    const nc3 = play(d8.tree, d8.id, 'Nc3');
+
+    const promoted = promoteVariation(nc3.tree, d8.id);
+    expect(promoted.nodes[e3.id].children).toEqual([d8.id, e8.id]);
+    expect(lineEnd(promoted, 0)).toBe(nc3.id);
+
+    const removed = removeVariation(promoted, d8.id);
+    expect(removed.nodes[e3.id].children).toEqual([e8.id]);
+    expect(removed.nodes[nc3.id]).toBeUndefined();
+    expect(removeVariation(removed, 0)).toBe(removed);
+  });
+
+  it('builds the main line from a played game', () => {
+    let tree = start;
+    let id = 0;
+    for (const san of ['f3', 'f8', 'Nc3']) ({ tree, id } = play(tree, id, san));
+
+    const game = treeFromGame({ ...tree.nodes[id].gameState, gameMode: 'ai' });
+    expect(pathTo(game.tree, game.id).map(node => node.san)).toEqual(['f3', 'f8', 'Nc3']);
+    expect(game.tree.nodes[game.id].gameState.gameMode).toBe('analysis');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Board Editor Tests
+ * Placing pieces, validating setups and handing them off as notation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePosition, STARTING_POSITION } from '../positionNotation';
+import { parseSquare } from '../notation';
+import {
+  EditorPosition,
+  editorPositionFrom,
+  editorToNotation,
+  emptyEditorPosition,
+  movePiece,
+  setPiece,
+  validateEditorPosition
+} from '../boardEditor';
+
+const at = (square: string) => parseSquare(square)!;
+
+function withKings(): EditorPosition {
+  let position = emptyEditorPosition();
+  position = setPiece(position, at('f1'), { type: 'king', color: 'white' });
+  position = setPiece(position, at('f10'), { type: 'king', color: 'black' });
+  return position;
+}
+
+describe('board editor', () => {
+  it('round-trips the starting position', () => {
+    const position = editorPositionFrom(STARTING_POSITION);
+    expect(validateEditorPosition(position)).toEqual([]);
+    expect(editorToNotation(position)).toBe(STARTING_POSITION);
+  });
+
+  it('reports every problem with an impossible setup', () => {
+    let position = emptyEditorPosition();
+    position = setPiece(position, at('a1'), { type: 'pawn', color: 'white' });
+    expect(validateEditorPosition(position)).toEqual([
+      'The white king is missing',
+      'The black king is missing',
+      "Pawns can't stand on rank 1"
+    ]);
+
+    // Black is in check from the rook but white is to move
+    position = setPiece(withKings(), at('f5'), { type: 'rook', color: 'white' });
+    expect(validateEditorPosition(position)).toEqual(['The black king is in check but it is white to move']);
+    expect(validateEditorPosition({ ...position, sideToMove: 'black' })).toEqual([]);
+  });
+
+  it('drops castling rights the board no longer allows', () => {
+    let position = setPiece(withKings(), at('j1'), { type: 'rook', color: 'white' });
+    position = {
+      ...position,
+      castling: { whiteKingside: true, whiteQueenside: true, blackKingside: true, blackQueenside: false }
+    };
+    expect(editorToNotation(position)).toBe('5k4/10/10/10/10/10/10/10/10/5K3R w K - 0 1');
+
+    position = movePiece(position, at('j1'), at('j2'));
+    const notation = editorToNotation(position);
+    expect(notation).toBe('5k4/10/10/10/10/10/10/10/9R/5K4 w - - 0 1');
+    expect(parsePosition(notation, 'analysis').board[8][9]?.type).toBe('rook');
+  });
+});
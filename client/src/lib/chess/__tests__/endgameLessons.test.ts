@@ -0,0 +1,56 @@
+/**
+ * Endgame Lesson Tests
+ * Lessons load, short ones are won against the defender and goals are checked
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePosition } from '../positionNotation';
+import { makeMove } from '../gameEngine';
+import { resolveBookMove } from '../openingBook';
+import { AdvancedAIPlayer } from '../advancedAI';
+import { ENDGAME_LESSONS, EndgameLesson, checkLesson, lessonColor } from '../endgameLessons';
+import { GameState } from '../types';
+
+const play = (gameState: GameState, ...names: string[]) =>
+  names.reduce((state, name) => makeMove(state, resolveBookMove(state, name)!), gameState);
+
+describe('endgame lessons', () => {
+  it('ships lessons that load with the student to move', () => {
+    expect(new Set(ENDGAME_LESSONS.map(lesson => lesson.id)).size).toBe(ENDGAME_LESSONS.length);
+    for (const lesson of ENDGAME_LESSONS) {
+      const gameState = parsePosition(lesson.position);
+      expect(gameState.currentPlayer).toBe(lessonColor(lesson));
+      expect(checkLesson(lesson, gameState).status).toBe('playing');
+    }
+  });
+
+  it('wins the short lessons against the defender', () => {
+    const player = new AdvancedAIPlayer();
+    for (const lesson of ENDGAME_LESSONS.filter(candidate => candidate.goal.moves <= 2)) {
+      let gameState = parsePosition(lesson.position);
+      while (checkLesson(lesson, gameState).status === 'playing') {
+        gameState = makeMove(gameState, player.search(gameState, { maxDepth: 4, timeLimitMs: 5000 })!.move);
+      }
+      expect(checkLesson(lesson, gameState).status).toBe('completed');
+    }
+  });
+
+  it('fails a promotion that is captured and a goal that runs out of moves', () => {
+    const lesson: EndgameLesson = {
+      id: 'test',
+      title: 'Test',
+      category: 'pawnRace',
+      description: '',
+      position: '10/7Pk1/10/10/10/10/10/10/10/K9 w - - 0 1',
+      goal: { type: 'promote', moves: 1 }
+    };
+    const promoted = play(parsePosition(lesson.position), 'h9h10q');
+    expect(checkLesson(lesson, promoted).status).toBe('playing');
+    expect(checkLesson(lesson, play(promoted, 'i9h10'))).toEqual({ status: 'failed', reason: 'The new queen was captured' });
+
+    const corner = ENDGAME_LESSONS.find(candidate => candidate.id === 'wizard-corner-mate')!;
+    const start = parsePosition(corner.position);
+    expect(checkLesson(corner, play(start, 'f8h10')).status).toBe('completed');
+    expect(checkLesson(corner, play(start, 'i8h8')).status).toBe('failed');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Game Review Tests
+ * Move grading, opening and endgame names, and a review of a hung queen
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePosition, STARTING_POSITION } from '../positionNotation';
+import { makeMove } from '../gameEngine';
+import { parseSAN } from '../notation';
+import { validateMove } from '@shared/chessRules';
+import { GameState } from '../types';
+import { classifyEndgame, classifyMove, classifyOpening, moveAccuracy, reviewGame } from '../gameReview';
+
+function play(position: string, moves: string[]): GameState {
+  let gameState = parsePosition(position);
+  for (const san of moves) {
+    const enPassantTarget = gameState.enPassantTarget ?? null;
+    const request = parseSAN(gameState.board, gameState.currentPlayer, san, enPassantTarget);
+    const validation = validateMove(gameState.board, gameState.currentPlayer, request, enPassantTarget);
+    if (!validation.valid) throw new Error(`Illegal move ${san}`);
+    gameState = makeMove(gameState, validation.move);
+  }
+  return gameState;
+}
+
+describe('game review', () => {
+  it('grades moves by centipawn loss', () => {
+    expect(classifyMove(0)).toBe('best');
+    expect(classifyMove(400, true)).toBe('best');
+    expect(classifyMove(20)).toBe('good');
+    expect(classifyMove(60)).toBe('inaccuracy');
+    expect(classifyMove(150)).toBe('mistake');
+    expect(classifyMove(300)).toBe('blunder');
+    expect(moveAccuracy(0, 0)).toBeCloseTo(100, 0);
+    expect(moveAccuracy(0, -300)).toBeLessThan(moveAccuracy(900, 600));
+  });
+
+  it('names openings and endgames', () => {
+    const game = play(STARTING_POSITION, ['f3', 'f8', 'Nc3']);
+    expect(classifyOpening(game.moveHistory)).toBe("King's Pawn Opening (Symmetrical)");
+    expect(classifyEndgame(game.board)).toBeNull();
+    expect(classifyEndgame(parsePosition('9k/10/5p4/10/10/10/3P6/10/10/K9 w - - 0 1').board)).toBe('Pawn Endgame');
+    expect(classifyEndgame(parsePosition('9k/10/7r2/10/10/10/3R6/10/10/K9 w - - 0 1').board)).toBe('Rook Endgame');
+  });
+
+  it('flags a hung queen as a blunder and shows the winning line', async () => {
+    const game = play('9k/10/7r2/10/10/10/3Q6/10/10/K9 w - - 0 1', ['Qd8']);
+    const review = await reviewGame(game, { limits: { maxDepth: 3 } });
+
+    expect(review).not.toBeNull();
+    const [move] = review!.moves;
+    expect(move.classification).toBe('blunder');
+    expect(move.bestSan).toBe('Qxh8+');
+    expect(review!.positions).toHaveLength(2);
+    expect(review!.summary.white.blunders).toBe(1);
+    expect(review!.openingType).toBeNull();
+    expect(review!.endgameType).toBe('Mixed Endgame');
+  });
+});
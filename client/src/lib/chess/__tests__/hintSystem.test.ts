@@ -0,0 +1,42 @@
+/**
+ * Hint System Tests
+ * Hints name the threat they answer, the tactic they play and the tempting
+ * move that fails
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePosition } from '../positionNotation';
+import { AdvancedAIPlayer } from '../advancedAI';
+import { GameState } from '../types';
+import { SearchLimits } from '../searchEngine';
+import { hintSystem } from '../hintSystem';
+
+const player = new AdvancedAIPlayer();
+const options = {
+  search: (gameState: GameState, limits: SearchLimits) => Promise.resolve(player.search(gameState, limits)),
+  limits: { maxDepth: 4, timeLimitMs: 5000 },
+  refutationLimits: { maxDepth: 3, timeLimitMs: 5000 }
+};
+
+describe('hint system', () => {
+  it('finds pieces that are attacked and not defended', () => {
+    const threats = hintSystem.findThreats(parsePosition('9k/10/10/6w3/10/4N5/10/10/10/K9 w - - 0 1'));
+    expect(threats.map(threat => threat.description)).toEqual([
+      "Your knight on e5 is attacked by the wizard on g7 and isn't defended"
+    ]);
+  });
+
+  it('explains the material a move wins', async () => {
+    const hint = await hintSystem.generateHint(parsePosition('k9/10/10/10/4q5/10/10/10/10/K3R5 w - - 0 1'), options);
+    expect(hint?.san).toBe('Rxe6');
+    expect(hint?.tactic).toBe('Rxe6 wins the queen on e6');
+  });
+
+  it('refutes the most tempting bad capture', async () => {
+    // The pawn on d7 is guarded by the pawn on c8
+    const hint = await hintSystem.generateHint(parsePosition('9k/10/2p7/3p6/10/10/10/10/10/K2Q6 w - - 0 1'), options);
+    expect(hint?.refutation?.san).toBe('Qxd7');
+    expect(hint?.refutation?.replySan).toBe('cxd7');
+    expect(hint?.refutation?.description).toContain('taking the queen on d7');
+  });
+});
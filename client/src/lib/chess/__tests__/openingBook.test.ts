@@ -0,0 +1,61 @@
+/**
+ * Opening Book Tests
+ * Building a book from games and probing it with each difficulty's settings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePosition, STARTING_POSITION } from '../positionNotation';
+import { BOOK_SETTINGS, bookKey, bookMoveName, openingBook, probeBook } from '../openingBook';
+import { buildOpeningBook, gameFromHumanAIRecord } from '../../ai/openingBookBuilder';
+
+const start = parsePosition(STARTING_POSITION);
+
+describe('opening book', () => {
+  const book = buildOpeningBook([
+    { moves: ['e3', 'e8', 'Nc3'], result: 'white' },
+    { moves: ['e3', 'e8', 'Nh3'], result: 'draw' },
+    { moves: ['d3', 'd8'], result: 'black' }
+  ], { maxPly: 2 });
+
+  it('credits moves with the mover\'s result up to the book depth', () => {
+    const startMoves = book.entries[bookKey(start)];
+    expect(startMoves).toEqual([{ move: 'e2e3', games: 2, score: 1.5, weight: 3 }]);
+    expect(Object.keys(book.entries)).toHaveLength(3);
+    expect(book.games).toBe(3);
+  });
+
+  it('plays the heaviest move with no variety and stops past its depth', () => {
+    const move = probeBook(book, start, { maxPly: 2, variety: 0 });
+    expect(move && bookMoveName(move)).toBe('e2e3');
+    expect(probeBook(book, parsePosition(STARTING_POSITION.replace(' 0 1', ' 0 2')), { maxPly: 2, variety: 0 })).toBeNull();
+  });
+
+  it('reads outcomes from stored human games', () => {
+    expect(gameFromHumanAIRecord({ moves: [], outcome: 'ai_win', playerColor: 'white' })?.result).toBe('black');
+    expect(gameFromHumanAIRecord({ moves: [], outcome: 'abandoned', playerColor: 'white' })).toBeNull();
+  });
+
+  it('leaves out moves seen in too few games', () => {
+    const twice = buildOpeningBook([
+      { moves: ['e3', 'e8'], result: 'white' },
+      { moves: ['e3', 'd8'], result: 'draw' },
+      { moves: ['d3', 'd8'], result: 'white' },
+      { moves: ['d3', 'e8'], result: 'white' },
+      { moves: ['Nc3', 'e8'], result: 'white' }
+    ], { maxPly: 2, minGames: 2 });
+
+    expect(twice.entries[bookKey(start)]).toEqual([
+      { move: 'd2d3', games: 2, score: 2, weight: 4 },
+      { move: 'e2e3', games: 2, score: 1.5, weight: 3 }
+    ]);
+  });
+
+  it('ships a book with several weighted moves from the start', () => {
+    const startMoves = openingBook.entries[bookKey(start)] ?? [];
+    expect(startMoves.length).toBeGreaterThan(1);
+    expect(Object.values(openingBook.entries).flat().every(entry => entry.games > 1)).toBe(true);
+    for (const difficulty of Object.keys(BOOK_SETTINGS) as (keyof typeof BOOK_SETTINGS)[]) {
+      expect(probeBook(openingBook, start, BOOK_SETTINGS[difficulty])).not.toBeNull();
+    }
+  });
+});
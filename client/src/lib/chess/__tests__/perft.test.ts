@@ -0,0 +1,46 @@
+/**
+ * Perft Regression Suite
+ * Checks the known leaf counts for every position in the perft library, and
+ * that the shared rules engine agrees with them at shallow depth
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePosition } from '../positionNotation';
+import { SearchBoard } from '../searchBoard';
+import { PERFT_POSITIONS, divide, perft, referencePerft } from '../perft';
+
+// Deeper counts are left to runPerft.ts
+const MAX_TEST_NODES = 400000;
+const MAX_REFERENCE_NODES = 20000;
+
+describe('perft', () => {
+  for (const { name, position, nodes } of PERFT_POSITIONS) {
+    const depths = nodes.map((_, index) => index + 1).filter(depth => nodes[depth - 1] <= MAX_TEST_NODES);
+
+    it(`counts the ${name} to depth ${depths.length}`, () => {
+      const searchBoard = SearchBoard.fromGameState(parsePosition(position));
+      for (const depth of depths) {
+        expect(perft(searchBoard, depth)).toBe(nodes[depth - 1]);
+      }
+      expect(searchBoard.ply).toBe(0);
+    });
+
+    it(`agrees with the rules engine from the ${name}`, () => {
+      const gameState = parsePosition(position);
+      for (const depth of depths.filter(depth => nodes[depth - 1] <= MAX_REFERENCE_NODES)) {
+        expect(referencePerft(gameState.board, gameState.currentPlayer, gameState.enPassantTarget ?? null, depth))
+          .toBe(nodes[depth - 1]);
+      }
+    });
+  }
+
+  it('splits the count by first move', () => {
+    const entry = PERFT_POSITIONS.find(candidate => candidate.name === 'white promotions')!;
+    const split = divide(SearchBoard.fromGameState(parsePosition(entry.position)), 2);
+
+    expect(split.reduce((total, { nodes }) => total + nodes, 0)).toBe(entry.nodes[1]);
+    expect(split.map(({ move }) => move)).toEqual(
+      expect.arrayContaining(['d9d10q', 'd9d10n', 'd9d10w', 'd9c10r', 'd9c10b'])
+    );
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Puzzle Tests
+ * Shipped puzzles replay, solutions are checked and ratings move
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePosition } from '../positionNotation';
+import { makeMove } from '../gameEngine';
+import { resolveBookMove } from '../openingBook';
+import { PUZZLES, Puzzle, checkPuzzleMove, puzzleColor, solutionMove, solutionToSAN, updatePuzzleRatings } from '../puzzles';
+
+describe('puzzles', () => {
+  it('ships puzzles whose solutions replay to their goal', () => {
+    expect(PUZZLES.length).toBeGreaterThan(0);
+    for (const puzzle of PUZZLES) {
+      let gameState = parsePosition(puzzle.position);
+      expect(puzzle.solution.length % 2).toBe(1);
+      puzzle.solution.forEach((_, ply) => {
+        gameState = makeMove(gameState, solutionMove(puzzle, gameState, ply));
+      });
+      if (puzzle.themes.includes('mate')) expect(gameState.isCheckmate).toBe(true);
+    }
+  });
+
+  it('checks moves against the solution and accepts any final mate', () => {
+    // Either rook mates on the back rank while the other holds rank 9
+    const puzzle: Puzzle = {
+      id: 'test',
+      position: '5k4/RR8/10/10/10/10/10/10/10/5K4 w - - 0 1',
+      solution: ['b9b10'],
+      themes: ['mate'],
+      rating: 1000
+    };
+    const gameState = parsePosition(puzzle.position);
+    const move = (name: string) => resolveBookMove(gameState, name)!;
+
+    expect(puzzleColor(puzzle)).toBe('white');
+    expect(solutionToSAN(puzzle)).toEqual(['Rb10#']);
+    expect(checkPuzzleMove(puzzle, gameState, 0, move('b9b10'))).toBe('solved');
+    expect(checkPuzzleMove(puzzle, gameState, 0, move('a9a10'))).toBe('solved');
+    expect(checkPuzzleMove(puzzle, gameState, 0, move('a9a8'))).toBe('wrong');
+
+    // Before the last move only the line itself counts
+    const longer = { ...puzzle, solution: ['b9b10', 'f10g10', 'a9a10'] };
+    expect(checkPuzzleMove(longer, gameState, 0, move('b9b10'))).toBe('correct');
+    expect(checkPuzzleMove(longer, gameState, 0, move('a9a10'))).toBe('wrong');
+  });
+
+  it('moves solver and puzzle ratings in opposite directions', () => {
+    const solved = updatePuzzleRatings(1200, 1200, true);
+    expect(solved).toEqual({ solver: 1216, puzzle: 1192 });
+
+    const failed = updatePuzzleRatings(1200, 1600, false);
+    expect(failed.solver).toBeLessThan(1200);
+    expect(failed.puzzle).toBeGreaterThan(1600);
+    expect(1200 - failed.solver).toBeLessThan(16);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Search Board Perft Harness
+ * Walks the mutable search board and the shared rules engine in lockstep from
+ * reference positions: at every node both must generate exactly the same
+ * moves, and make/unmake must keep the board and its Zobrist key in step
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyMove,
+  generateLegalMoves,
+  getEnPassantTarget,
+  getOpponentColor,
+  type Board,
+  type EnPassantTarget
+} from '@shared/chessRules';
+import { parsePosition, STARTING_POSITION } from '../positionNotation';
+import { SearchBoard } from '../searchBoard';
+import { computeZobristKey } from '../zobrist';
+import { PieceColor } from '../types';
+
+const REFERENCE_POSITIONS: { name: string; position: string; depth: number }[] = [
+  { name: 'starting position', position: STARTING_POSITION, depth: 3 },
+  { name: 'castling with e1 covered by a bishop', position: 'r4k3r/10/10/10/10/b9/10/10/10/R4K3R w KQkq - 0 1', depth: 3 },
+  { name: 'en passant available', position: 'r4k3r/pppp1ppppp/10/10/10/10/3Pp5/10/PPP1PPPPPP/R4K3R b KQkq d3 0 1', depth: 3 },
+  { name: 'promotion by push or capture', position: '2r3k3/3P6/10/10/10/10/10/10/10/5K4 w - - 0 1', depth: 3 },
+  { name: 'pinned knight', position: '4k5/10/10/10/4r5/10/10/10/4N5/4K5 w - - 0 1', depth: 3 },
+  { name: 'wizard check through a pawn', position: '4k5/10/10/10/10/10/10/4w5/3PP5/4K5 w - - 0 1', depth: 3 }
+];
+
+function sameKey(a: { lo: number; hi: number }, b: { lo: number; hi: number }): boolean {
+  return a.lo === b.lo && a.hi === b.hi;
+}
+
+// Counts leaf nodes to `depth`, recording every disagreement with the rules
+// engine instead of stopping at the first one
+function comparePerft(
+  position: SearchBoard,
+  board: Board,
+  color: PieceColor,
+  enPassantTarget: EnPassantTarget,
+  depth: number,
+  problems: string[]
+): number {
+  const reference = generateLegalMoves(board, color, enPassantTarget);
+  const expected = reference.map(move => position.fromChessMove(move)).sort((a, b) => a - b);
+  const actual = position.generateMoves().sort((a, b) => a - b);
+
+  if (expected.join() !== actual.join()) {
+    problems.push(`ply ${position.ply}: rules engine has ${expected.length} moves, search board ${actual.length}`);
+    return 0;
+  }
+  if (depth === 1) return reference.length;
+
+  let nodes = 0;
+  for (const move of reference) {
+    const keyBefore = position.key;
+    const nextBoard = applyMove(board, move);
+    const nextEnPassant = getEnPassantTarget(move);
+    const nextColor = getOpponentColor(color);
+
+    position.makeMove(position.fromChessMove(move));
+    if (!sameKey(position.key, computeZobristKey(nextBoard, nextColor, nextEnPassant))) {
+      problems.push(`ply ${position.ply}: incremental key differs after ${move.piece.type} move`);
+    }
+
+    nodes += comparePerft(position, nextBoard, nextColor, nextEnPassant, depth - 1, problems);
+
+    position.unmakeMove();
+    if (!sameKey(position.key, keyBefore)) {
+      problems.push(`ply ${position.ply}: key not restored after unmaking ${move.piece.type} move`);
+    }
+  }
+  return nodes;
+}
+
+describe('SearchBoard move generation', () => {
+  for (const { name, position, depth } of REFERENCE_POSITIONS) {
+    it(`matches the rules engine to depth ${depth} from the ${name}`, () => {
+      const gameState = parsePosition(position);
+      const searchBoard = SearchBoard.fromGameState(gameState);
+      const problems: string[] = [];
+
+      const nodes = comparePerft(
+        searchBoard, gameState.board, gameState.currentPlayer,
+        gameState.enPassantTarget ?? null, depth, problems
+      );
+
+      expect(problems).toEqual([]);
+      expect(nodes).toBeGreaterThan(0);
+      expect(searchBoard.ply).toBe(0);
+    });
+  }
+
+  it('restores the exact position after unmaking', () => {
+    const gameState = parsePosition(STARTING_POSITION);
+    const searchBoard = SearchBoard.fromGameState(gameState);
+    const before = searchBoard.toBoard();
+
+    for (const move of searchBoard.generateMoves()) {
+      searchBoard.makeMove(move);
+      for (const reply of searchBoard.generateMoves()) {
+        searchBoard.makeMove(reply);
+        searchBoard.unmakeMove();
+      }
+      searchBoard.unmakeMove();
+    }
+
+    expect(searchBoard.toBoard()).toEqual(before);
+    expect(searchBoard.key).toEqual(computeZobristKey(gameState.board, 'white'));
+  });
+
+  it('converts moves to the same ChessMove the rules engine builds', () => {
+    const gameState = parsePosition('r4k3r/pppp1ppppp/10/10/10/10/3Pp5/10/PPP1PPPPPP/R4K3R b KQkq d3 0 1');
+    const searchBoard = SearchBoard.fromGameState(gameState);
+    const reference = generateLegalMoves(gameState.board, 'black', gameState.enPassantTarget ?? null);
+
+    for (const move of reference) {
+      expect(searchBoard.toChessMove(searchBoard.fromChessMove(move), gameState.board)).toEqual(move);
+    }
+    expect(reference.some(move => move.isEnPassant)).toBe(true);
+  });
+});
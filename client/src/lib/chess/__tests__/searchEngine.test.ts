@@ -0,0 +1,137 @@
+/**
+ * Search Engine Tests
+ * Iterative deepening, quiescence and time limits, using a material-only
+ * evaluation so the expected moves are easy to reason about
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePosition } from '../positionNotation';
+import { SearchBoard } from '../searchBoard';
+import { MATE_SCORE, SearchEngine, mateIn, type Evaluator } from '../searchEngine';
+import { squareName } from '../notation';
+import { ChessMove, PieceType } from '../types';
+
+const VALUES: Record<PieceType, number> = {
+  pawn: 10, knight: 30, bishop: 30, rook: 50, queen: 90, wizard: 35, king: 0
+};
+
+const material: Evaluator = (position, color) => {
+  let score = 0;
+  for (let square = 0; square < 100; square++) {
+    const type = position.pieceTypeAt(square);
+    if (!type) continue;
+    score += position.pieceColorAt(square) === color ? VALUES[type] : -VALUES[type];
+  }
+  return score;
+};
+
+function search(position: string, maxDepth: number, timeLimitMs?: number) {
+  return new SearchEngine(material).search(SearchBoard.fromGameState(parsePosition(position)), { maxDepth, timeLimitMs });
+}
+
+const moveName = (move: ChessMove) => squareName(move.from) + squareName(move.to);
+
+describe('SearchEngine', () => {
+  it('finds a back-rank mate', () => {
+    const result = search('6k3/5ppp2/10/10/10/10/10/10/10/R4K4 w - - 0 1', 3);
+
+    expect(result && moveName(result.move)).toBe('a1a10');
+    expect(result!.score).toBeGreaterThanOrEqual(MATE_SCORE - 64);
+  });
+
+  it('sees a wizard recapture past the horizon', () => {
+    // Qxe7 wins a pawn at depth 1, but the e9 wizard then strikes the queen.
+    // Material starts at queen against wizard and pawn: +45
+    const result = search('k9/4w5/10/4p5/10/10/10/4Q5/10/5K4 w - - 0 1', 1);
+
+    expect(result && moveName(result.move)).not.toBe('e3e7');
+    expect(result!.score).toBe(45);
+  });
+
+  it('scores a check with no evasions past the horizon as mate', () => {
+    // Rxa10 takes a knight at depth 1; the quiescence search must see it mates
+    const result = search('n5k3/5ppp2/10/10/10/10/10/10/10/R4K4 w - - 0 1', 1);
+
+    expect(result && moveName(result.move)).toBe('a1a10');
+    expect(mateIn(result!.score)).toBe(1);
+  });
+
+  it('counts table mates from the root, whatever ply they were stored at', () => {
+    // The first search stores a mate in 1; the second reaches that position
+    // two plies in, where it is a mate in 2
+    const engine = new SearchEngine(material);
+    engine.search(SearchBoard.fromGameState(parsePosition('8k1/1R8/10/10/10/10/10/10/10/R4K4 w - - 0 1')), { maxDepth: 3 });
+    const result = engine.search(SearchBoard.fromGameState(parsePosition('9k/10/10/10/10/10/10/10/1R8/R4K4 w - - 0 1')), { maxDepth: 3 });
+
+    expect(result!.pv.map(moveName)).toEqual(['b2b9', 'j10i10', 'a1a10']);
+    expect(mateIn(result!.score)).toBe(2);
+  });
+
+  it('meets a mate threat instead of grabbing material', () => {
+    // Rxh8 wins a pawn but lets Ra1 mate on the back rank
+    const result = search('k9/r9/7p2/10/10/7R2/10/10/4PPP3/5K4 w - - 0 1', 2);
+
+    expect(result && moveName(result.move)).not.toBe('h5h8');
+    expect(mateIn(result!.score)).toBeNull();
+  });
+
+  it('scores returning to a position from earlier in the game as a draw', () => {
+    // The kings shuffle a10-b10, f1-g1, b10-a10; Kf1 then repeats the first
+    // position, which saves white a rook down
+    const game = SearchBoard.fromGameState(parsePosition('k9/10/10/10/10/10/10/10/3r6/5K4 b - - 0 1'));
+    const earlierPositions = ['a10b10', 'f1g1', 'b10a10'].map(name => {
+      const key = game.key;
+      game.makeMove(game.generateMoves().find(move => moveName(game.toChessMove(move)) === name)!);
+      return key;
+    });
+    const root = () => SearchBoard.fromGameState({
+      board: game.toBoard(), currentPlayer: 'white', enPassantTarget: null, halfmoveClock: 3
+    });
+
+    expect(new SearchEngine(material).search(root(), { maxDepth: 2 })!.score).toBe(-50);
+
+    const position = root();
+    position.setEarlierPositions(earlierPositions);
+    const result = new SearchEngine(material).search(position, { maxDepth: 2 });
+    expect(result && moveName(result.move)).toBe('g1f1');
+    expect(result!.score).toBeCloseTo(0);
+  });
+
+  it('reports every finished depth with its principal variation', () => {
+    const depths: number[] = [];
+    const engine = new SearchEngine(material);
+    const position = SearchBoard.fromGameState(parsePosition('4k5/10/10/10/4r5/10/10/10/4N5/4K5 w - - 0 1'));
+
+    const result = engine.search(position, { maxDepth: 3 }, info => {
+      depths.push(info.depth);
+      expect(info.pv[0]).toEqual(info.move);
+    });
+
+    expect(depths).toEqual([1, 2, 3]);
+    expect(result!.pv.length).toBeGreaterThan(0);
+    expect(position.ply).toBe(0);
+  });
+
+  it('finds several lines with different first moves, best first', () => {
+    // The queen is attacked by the rook and can take it or the knight
+    const engine = new SearchEngine(material);
+    const position = SearchBoard.fromGameState(parsePosition('k9/10/10/10/10/10/4n5/3Q3r2/10/K9 w - - 0 1'));
+    const result = engine.search(position, { maxDepth: 2, multiPV: 3 });
+
+    expect(result!.lines).toHaveLength(3);
+    expect(moveName(result!.lines[0].move)).toBe('d3h3');
+    expect(new Set(result!.lines.map(line => moveName(line.move))).size).toBe(3);
+    expect(result!.lines.map(line => line.score)).toEqual([...result!.lines.map(line => line.score)].sort((a, b) => b - a));
+    expect(result!.lines.every(line => line.pv[0] && moveName(line.pv[0]) === moveName(line.move))).toBe(true);
+    expect(mateIn(result!.score)).toBeNull();
+    expect(mateIn(MATE_SCORE - 3)).toBe(2);
+  });
+
+  it('stops at the time limit with the last finished depth', () => {
+    const result = search('rnbwqkwbnr/pppppppppp/10/10/10/10/10/10/PPPPPPPPPP/RNBWQKWBNR w KQkq - 0 1', 20, 200);
+
+    expect(result).not.toBeNull();
+    expect(result!.depth).toBeLessThan(20);
+    expect(result!.elapsedMs).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Starting Position Regression Tests
+ * Every game mode must start from the same canonical 10x10 layout, and that
+ * layout must agree with the castling squares the rules engine expects
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createInitialBoard as createSharedInitialBoard,
+  createMove,
+  applyMove,
+  getPossibleMoves,
+  STARTING_BACK_RANK,
+  KING_START_COL,
+  QUEENSIDE_CASTLE_COL,
+  KINGSIDE_CASTLE_COL,
+  BOARD_SIZE
+} from '@shared/chessRules';
+import { createInitialOnlineGameState } from '@shared/gameStateSync';
+import { createInitialBoard, createInitialGameState } from '../gameEngine';
+import { GameMode, PieceColor } from '../types';
+
+describe('Canonical starting position', () => {
+  const canonical = createSharedInitialBoard();
+
+  it('places R N B W Q K W B N R on both home rows with pawns in front', () => {
+    expect(STARTING_BACK_RANK).toEqual([
+      'rook', 'knight', 'bishop', 'wizard', 'queen', 'king', 'wizard', 'bishop', 'knight', 'rook'
+    ]);
+
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      expect(canonical[9][col]).toMatchObject({ type: STARTING_BACK_RANK[col], color: 'white', hasMoved: false });
+      expect(canonical[0][col]).toMatchObject({ type: STARTING_BACK_RANK[col], color: 'black', hasMoved: false });
+      expect(canonical[8][col]).toMatchObject({ type: 'pawn', color: 'white' });
+      expect(canonical[1][col]).toMatchObject({ type: 'pawn', color: 'black' });
+    }
+
+    for (let row = 2; row < 8; row++) {
+      expect(canonical[row].every(square => square === null)).toBe(true);
+    }
+  });
+
+  it('gives every piece a unique id', () => {
+    const ids = canonical.flat().filter(Boolean).map(piece => piece!.id);
+    expect(ids).toHaveLength(40);
+    expect(new Set(ids).size).toBe(40);
+  });
+
+  it('is used by local, AI, campaign and AI-vs-AI games', () => {
+    const modes: GameMode[] = ['local', 'ai', 'ai-vs-ai', 'multiplayer'];
+    for (const mode of modes) {
+      const state = createInitialGameState(mode, 'hard');
+      expect(state.board).toEqual(canonical);
+      expect(state.currentPlayer).toBe('white');
+      expect(state.moveHistory).toEqual([]);
+    }
+
+    // Campaign levels start AI games at the level's difficulty
+    expect(createInitialGameState('ai', 'easy').board).toEqual(canonical);
+    expect(createInitialBoard()).toEqual(canonical);
+  });
+
+  it('is used by online games on the server', () => {
+    const online = createInitialOnlineGameState();
+    expect(online.board).toEqual(canonical);
+    expect(online.currentPlayer).toBe('white');
+    expect(online.gameStatus).toBe('active');
+  });
+
+  it('returns a fresh board on every call', () => {
+    const board = createInitialBoard();
+    board[8][0] = null;
+    expect(createInitialBoard()[8][0]).not.toBeNull();
+  });
+});
+
+describe('Castling squares match the starting position', () => {
+  const homeRows: Record<PieceColor, number> = { white: 9, black: 0 };
+
+  for (const color of ['white', 'black'] as PieceColor[]) {
+    it(`finds ${color}'s king and rooks where castling expects them`, () => {
+      const board = createSharedInitialBoard();
+      const row = homeRows[color];
+
+      expect(board[row][KING_START_COL]).toMatchObject({ type: 'king', color });
+      expect(board[row][0]).toMatchObject({ type: 'rook', color });
+      expect(board[row][BOARD_SIZE - 1]).toMatchObject({ type: 'rook', color });
+    });
+
+    it(`lets ${color} castle both ways once the back rank is cleared`, () => {
+      const board = createSharedInitialBoard();
+      const row = homeRows[color];
+      for (let col = 1; col < BOARD_SIZE - 1; col++) {
+        if (col !== KING_START_COL) board[row][col] = null;
+      }
+
+      const kingMoves = getPossibleMoves(board, { row, col: KING_START_COL }, board[row][KING_START_COL]!);
+      expect(kingMoves).toContainEqual({ row, col: QUEENSIDE_CASTLE_COL });
+      expect(kingMoves).toContainEqual({ row, col: KINGSIDE_CASTLE_COL });
+
+      const queenside = applyMove(board, createMove(board, { row, col: KING_START_COL }, { row, col: QUEENSIDE_CASTLE_COL }));
+      expect(queenside[row][QUEENSIDE_CASTLE_COL]).toMatchObject({ type: 'king', color });
+      expect(queenside[row][QUEENSIDE_CASTLE_COL + 1]).toMatchObject({ type: 'rook', color });
+      expect(queenside[row][0]).toBeNull();
+
+      const kingside = applyMove(board, createMove(board, { row, col: KING_START_COL }, { row, col: KINGSIDE_CASTLE_COL }));
+      expect(kingside[row][KINGSIDE_CASTLE_COL]).toMatchObject({ type: 'king', color });
+      expect(kingside[row][KINGSIDE_CASTLE_COL - 1]).toMatchObject({ type: 'rook', color });
+      expect(kingside[row][BOARD_SIZE - 1]).toBeNull();
+    });
+  }
+});
@@ -1,14 +1,36 @@
 import { GameState, ChessMove, PieceColor, Position, ChessPiece } from './types';
-import { makeMove, isKingInCheck } from './gameEngine';
-import { getAllValidMoves as getAllValidMovesFromBoard } from './pieceMovement';
-import { getPossibleMoves } from './pieceMovement';
+import { getLegalMoves } from './gameEngine';
+import { SearchBoard } from './searchBoard';
+import { getStartingState } from './gameRecord';
+import type { ZobristKey } from './zobrist';
+import { FIFTY_MOVE_RULE_PLIES } from '@shared/drawRules';
+import { SEARCH_BUDGETS, SearchEngine, type SearchInfo, type SearchLimits } from './searchEngine';
+
+/**
+ * Keys of the positions before each move of the game, oldest first, for
+ * SearchBoard.setEarlierPositions. Empty when the move history doesn't lead
+ * to the current position.
+ */
+export function gameHistoryKeys(gameState: GameState): ZobristKey[] {
+  const keys: ZobristKey[] = [];
+  try {
+    const position = SearchBoard.fromGameState(getStartingState(gameState));
+    for (const move of gameState.moveHistory) {
+      keys.push(position.key);
+      position.makeMove(position.fromChessMove(move));
+    }
+    const current = SearchBoard.fromGameState(gameState).key;
+    return position.key.lo === current.lo && position.key.hi === current.hi ? keys : [];
+  } catch {
+    return [];
+  }
+}
 
-// Advanced AI with Minimax Alpha-Beta Pruning and Neural Network Learning
+// Advanced AI with Alpha-Beta Search (see searchEngine.ts) and Neural Network Learning
 export class AdvancedAIPlayer {
-  private transpositionTable: Map<string, { score: number; depth: number; flag: string }> = new Map();
+  private engine = new SearchEngine((position, color) => this.evaluatePosition(position, color));
   private neuralWeights: NeuralWeights;
   private explorationRate = 0.1; // 10% randomness
-  private maxDepth = 4;
   
   constructor() {
     this.neuralWeights = this.loadNeuralWeights();
@@ -25,99 +47,46 @@ export class AdvancedAIPlayer {
       return moves[Math.floor(Math.random() * moves.length)];
     }
 
-    // Use minimax with alpha-beta pruning
-    const bestMove = this.minimax(gameState, this.maxDepth, -Infinity, Infinity, true, color);
+    // Search within the difficulty's time and depth budget
+    const result = this.search({ ...gameState, currentPlayer: color });
     
-    if (bestMove.move) {
-      console.log(`🧠 AI minimax selected: ${bestMove.move.piece.type} (score: ${bestMove.score}, depth: ${this.maxDepth})`);
-      return bestMove.move;
+    if (result) {
+      console.log(`🧠 AI search selected: ${result.move.piece.type} (score: ${result.score}, depth: ${result.depth})`);
+      return result.move;
     }
 
     return moves[0]; // Fallback
   }
 
-  // Minimax algorithm with alpha-beta pruning
-  private minimax(
-    gameState: GameState, 
-    depth: number, 
-    alpha: number, 
-    beta: number, 
-    maximizing: boolean, 
-    color: PieceColor
-  ): { move: ChessMove | null; score: number } {
-    
-    // Generate position hash for transposition table
-    const positionHash = this.hashPosition(gameState);
-    const tableEntry = this.transpositionTable.get(positionHash);
-    
-    if (tableEntry && tableEntry.depth >= depth) {
-      if (tableEntry.flag === 'exact') {
-        return { move: null, score: tableEntry.score };
-      }
-    }
-
-    // Base case: depth 0 or game over
-    if (depth === 0 || gameState.gamePhase === 'ended') {
-      const score = this.evaluatePosition(gameState, color);
-      this.transpositionTable.set(positionHash, { score, depth, flag: 'exact' });
-      return { move: null, score };
-    }
-
-    const currentColor = maximizing ? color : (color === 'white' ? 'black' : 'white');
-    const moves = this.getAllValidMoves(gameState, currentColor);
-    
-    if (moves.length === 0) {
-      // No legal moves - checkmate or stalemate
-      const kingInCheck = isKingInCheck(gameState.board, currentColor);
-      const score = kingInCheck ? (maximizing ? -10000 : 10000) : 0;
-      return { move: null, score };
-    }
-
-    // Order moves for better pruning (captures first, then by piece value)
-    const orderedMoves = this.orderMoves(moves, gameState);
-    
-    let bestMove: ChessMove | null = null;
-    let bestScore = maximizing ? -Infinity : Infinity;
-
-    for (const move of orderedMoves) {
-      const newState = makeMove(gameState, move, true);
-      const result = this.minimax(newState, depth - 1, alpha, beta, !maximizing, color);
-      
-      if (maximizing) {
-        if (result.score > bestScore) {
-          bestScore = result.score;
-          bestMove = move;
-        }
-        alpha = Math.max(alpha, result.score);
-      } else {
-        if (result.score < bestScore) {
-          bestScore = result.score;
-          bestMove = move;
-        }
-        beta = Math.min(beta, result.score);
-      }
-
-      // Alpha-beta pruning
-      if (beta <= alpha) {
-        break;
-      }
-    }
-
-    // Store in transposition table
-    this.transpositionTable.set(positionHash, { 
-      score: bestScore, 
-      depth, 
-      flag: 'exact' 
-    });
-
-    return { move: bestMove, score: bestScore };
+  // Best move for the side to move, deepening until `limits` runs out.
+  // `earlierPositions` (see gameHistoryKeys) lets the search see repetitions
+  public search(
+    gameState: GameState,
+    limits: SearchLimits = SEARCH_BUDGETS[gameState.aiDifficulty],
+    onProgress?: (info: SearchInfo) => void,
+    earlierPositions: ZobristKey[] = gameHistoryKeys(gameState)
+  ): SearchInfo | null {
+    const position = SearchBoard.fromGameState(gameState);
+    position.setEarlierPositions(earlierPositions);
+    return this.engine.search(position, limits, onProgress, gameState.board);
   }
 
   // Advanced position evaluation using neural network weights
-  private evaluatePosition(gameState: GameState, aiColor: PieceColor): number {
+  private evaluatePosition(position: SearchBoard, aiColor: PieceColor): number {
     let score = 0;
     const opponentColor = aiColor === 'white' ? 'black' : 'white';
 
+    // Mobility (number of legal moves). No moves for the side to move means
+    // checkmate or stalemate
+    const aiMobility = position.generateMoves(aiColor).length;
+    const opponentMobility = position.generateMoves(opponentColor).length;
+    if ((position.sideToMove === aiColor ? aiMobility : opponentMobility) === 0) {
+      if (!position.isInCheck()) return 0;
+      return position.sideToMove === aiColor ? -10000 : 10000;
+    }
+
+    const board = position.toBoard();
+
     // Material evaluation with piece values (updated to match user specification)
     const pieceValues = {
       pawn: 10, knight: 30, bishop: 30, rook: 50, queen: 90, wizard: 35, king: 900
@@ -132,7 +101,7 @@ export class AdvancedAIPlayer {
 
     for (let row = 0; row < 10; row++) {
       for (let col = 0; col < 10; col++) {
-        const piece = gameState.board[row][col];
+        const piece = board[row][col];
         if (!piece) continue;
 
         const pieceValue = pieceValues[piece.type];
@@ -159,9 +128,9 @@ export class AdvancedAIPlayer {
         if (piece.type === 'knight') {
           positionBonus += this.getKnightPositionBonus(row, col);
         } else if (piece.type === 'bishop') {
-          positionBonus += this.getBishopPositionBonus(row, col, gameState.board);
+          positionBonus += this.getBishopPositionBonus(row, col, board);
         } else if (piece.type === 'wizard') {
-          positionBonus += this.getWizardUtility(row, col, gameState.board, piece.color);
+          positionBonus += this.getWizardUtility(row, col, board, piece.color);
         } else if (piece.type === 'pawn') {
           positionBonus += this.getPawnPositionBonus(row, col, piece.color);
         }
@@ -181,24 +150,13 @@ export class AdvancedAIPlayer {
     score += (aiMaterial - opponentMaterial) * this.neuralWeights.materialWeight;
 
     // King safety
-    const aiKingSafety = this.evaluateKingSafety(gameState.board, aiColor);
-    const opponentKingSafety = this.evaluateKingSafety(gameState.board, opponentColor);
+    const aiKingSafety = this.evaluateKingSafety(board, aiColor);
+    const opponentKingSafety = this.evaluateKingSafety(board, opponentColor);
     score += (aiKingSafety - opponentKingSafety) * this.neuralWeights.kingSafetyWeight;
 
-    // Mobility (number of legal moves)
-    const aiMobility = this.getAllValidMoves(gameState, aiColor).length;
-    const opponentMobility = this.getAllValidMoves(gameState, opponentColor).length;
+    // Mobility
     score += (aiMobility - opponentMobility) * this.neuralWeights.mobilityWeight;
 
-    // Checkmate detection
-    if (gameState.gamePhase === 'ended') {
-      if (gameState.winner === aiColor) {
-        score += 10000;
-      } else if (gameState.winner === opponentColor) {
-        score -= 10000;
-      }
-    }
-
     return score;
   }
 
@@ -327,51 +285,6 @@ export class AdvancedAIPlayer {
     return null;
   }
 
-  // Move ordering for better alpha-beta pruning
-  private orderMoves(moves: ChessMove[], gameState: GameState): ChessMove[] {
-    const pieceValues = {
-      pawn: 10, knight: 30, bishop: 30, rook: 50, queen: 90, wizard: 35, king: 900
-    };
-    
-    return moves.sort((a, b) => {
-      let scoreA = 0;
-      let scoreB = 0;
-      
-      // Captures first (Most Valuable Victim - Least Valuable Attacker)
-      if (a.captured) {
-        scoreA += pieceValues[a.captured.type] - pieceValues[a.piece.type];
-      }
-      if (b.captured) {
-        scoreB += pieceValues[b.captured.type] - pieceValues[b.piece.type];
-      }
-      
-      // Checks second
-      const stateA = makeMove(gameState, a, true);
-      const stateB = makeMove(gameState, b, true);
-      const opponentColor = gameState.currentPlayer === 'white' ? 'black' : 'white';
-      
-      if (isKingInCheck(stateA.board, opponentColor)) scoreA += 50;
-      if (isKingInCheck(stateB.board, opponentColor)) scoreB += 50;
-      
-      return scoreB - scoreA;
-    });
-  }
-
-  // Position hashing for transposition table
-  private hashPosition(gameState: GameState): string {
-    let hash = '';
-    for (let row = 0; row < 10; row++) {
-      for (let col = 0; col < 10; col++) {
-        const piece = gameState.board[row][col];
-        if (piece) {
-          hash += `${piece.type[0]}${piece.color[0]}${row}${col}`;
-        }
-      }
-    }
-    hash += gameState.currentPlayer[0];
-    return hash;
-  }
-
   // Neural network learning from game outcomes
   public learnFromGame(gameData: GameAnalysisData): void {
     const outcome = gameData.winner === 'white' ? 1 : gameData.winner === 'black' ? -1 : 0;
@@ -399,6 +312,8 @@ export class AdvancedAIPlayer {
     // Normalize weights to prevent drift
     this.normalizeWeights();
     this.saveNeuralWeights();
+    // Cached scores were computed with the old weights
+    this.engine.clear();
     
     console.log('🧠 Neural weights updated from game outcome:', outcome);
   }
@@ -422,9 +337,10 @@ export class AdvancedAIPlayer {
     }
   }
 
-  // Load neural weights from storage
+  // Load neural weights from storage (there is none in the search worker,
+  // which is sent the main thread's weights instead)
   private loadNeuralWeights(): NeuralWeights {
-    const stored = localStorage.getItem('fantasy-chess-neural-weights');
+    const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem('fantasy-chess-neural-weights');
     if (stored) {
       try {
         return JSON.parse(stored);
@@ -444,6 +360,7 @@ export class AdvancedAIPlayer {
 
   // Save neural weights to storage
   private saveNeuralWeights(): void {
+    if (typeof localStorage === 'undefined') return;
     localStorage.setItem('fantasy-chess-neural-weights', JSON.stringify(this.neuralWeights));
   }
 
@@ -456,7 +373,7 @@ export class AdvancedAIPlayer {
       mobilityWeight: 0.1
     };
     this.saveNeuralWeights();
-    this.transpositionTable.clear();
+    this.engine.clear();
     console.log('🧠 Neural network reset to defaults');
   }
 
@@ -465,63 +382,31 @@ export class AdvancedAIPlayer {
     return { ...this.neuralWeights };
   }
 
+  // Use weights learned elsewhere (the search worker gets the main thread's)
+  public setNeuralWeights(weights: NeuralWeights): void {
+    const current = this.neuralWeights;
+    if (
+      current.materialWeight === weights.materialWeight &&
+      current.positionWeight === weights.positionWeight &&
+      current.kingSafetyWeight === weights.kingSafetyWeight &&
+      current.mobilityWeight === weights.mobilityWeight
+    ) return;
+
+    this.neuralWeights = { ...weights };
+    // Cached scores were computed with the old weights
+    this.engine.clear();
+  }
+
 
 
   // Helper method to get all valid moves for a game state
   private getAllValidMoves(gameState: GameState, color: PieceColor): ChessMove[] {
-    const moves: ChessMove[] = [];
-    
-    for (let row = 0; row < 10; row++) {
-      for (let col = 0; col < 10; col++) {
-        const piece = gameState.board[row][col];
-        if (piece && piece.color === color) {
-          const from = { row, col };
-          const possibleMoves = getPossibleMoves(gameState.board, from, piece);
-          
-          for (const to of possibleMoves) {
-            const captured = gameState.board[to.row][to.col] || undefined;
-            const isWizardTeleport = piece.type === 'wizard' && !captured;
-            const isWizardAttack = piece.type === 'wizard' && !!captured;
-            
-            // Check if pawn promotion is needed
-            const promotion = piece.type === 'pawn' && 
-              ((piece.color === 'white' && to.row === 0) || (piece.color === 'black' && to.row === 9)) 
-              ? 'queen' // Auto-promote to queen
-              : undefined;
-            
-            // Validate move doesn't put own king in check
-            const testBoard = gameState.board.map(r => [...r]);
-            let pieceToPlace = piece;
-            if (promotion) {
-              pieceToPlace = { ...piece, type: promotion };
-            }
-            testBoard[to.row][to.col] = pieceToPlace;
-            if (!isWizardAttack) {
-              testBoard[from.row][from.col] = null;
-            }
-            
-            if (!isKingInCheck(testBoard, color)) {
-              moves.push({
-                from,
-                to,
-                piece,
-                captured,
-                isWizardTeleport,
-                isWizardAttack,
-                promotion
-              });
-            }
-          }
-        }
-      }
-    }
-    
-    return moves;
+    return getLegalMoves(gameState, color);
   }
 }
 
 // Neural network weights interface
-interface NeuralWeights {
+export interface NeuralWeights {
   materialWeight: number;
   positionWeight: number;
   kingSafetyWeight: number;
@@ -530,7 +415,7 @@ interface NeuralWeights {
 
 // Simplified AI Manager that matches user's pseudocode structure
 export class AIManager {
-  private maxDepth = 4; // Depth 4+ as requested
+  private engine = new SearchEngine((position, color) => this.evaluateBoard(position, color));
   
   // Piece values as specified by user
   private pieceValues = {
@@ -538,80 +423,27 @@ export class AIManager {
   };
 
   getBestMove(gameState: GameState, aiColor: PieceColor = 'white'): ChessMove | null {
-    let bestMove: ChessMove | null = null;
-    let bestValue = -Infinity;
+    const position = SearchBoard.fromGameState({ ...gameState, currentPlayer: aiColor });
+    const result = this.engine.search(position, SEARCH_BUDGETS[gameState.aiDifficulty], undefined, gameState.board);
+    if (!result) return null;
     
-    const validMoves = this.getValidMoves(gameState, aiColor);
-    
-    for (const move of validMoves) {
-      const newBoard = this.makeMove(gameState, move);
-      const boardValue = this.minimax(newBoard, this.maxDepth, -Infinity, Infinity, false, aiColor);
-      
-      if (boardValue > bestValue) {
-        bestValue = boardValue;
-        bestMove = move;
-      }
-    }
-    
-    console.log(`🤖 AIManager selected move with value: ${bestValue}`);
-    return bestMove;
+    console.log(`🤖 AIManager selected move with value: ${result.score} (depth ${result.depth})`);
+    return result.move;
   }
 
-  private minimax(
-    gameState: GameState, 
-    depth: number, 
-    alpha: number, 
-    beta: number, 
-    maximizingPlayer: boolean,
-    aiColor: PieceColor
-  ): number {
-    
-    if (depth === 0 || this.gameOver(gameState)) {
-      return this.evaluateBoard(gameState, aiColor);
-    }
-    
-    const currentColor = maximizingPlayer ? aiColor : (aiColor === 'white' ? 'black' : 'white');
-    
-    if (maximizingPlayer) {
-      let maxEval = -Infinity;
-      const moves = this.getValidMoves(gameState, currentColor);
-      
-      for (const move of moves) {
-        const newPos = this.makeMove(gameState, move);
-        const evalScore = this.minimax(newPos, depth - 1, alpha, beta, false, aiColor);
-        maxEval = Math.max(maxEval, evalScore);
-        alpha = Math.max(alpha, evalScore);
-        
-        if (beta <= alpha) break; // Alpha-beta pruning
-      }
-      return maxEval;
-      
-    } else {
-      let minEval = Infinity;
-      const moves = this.getValidMoves(gameState, currentColor);
-      
-      for (const move of moves) {
-        const newPos = this.makeMove(gameState, move);
-        const evalScore = this.minimax(newPos, depth - 1, alpha, beta, true, aiColor);
-        minEval = Math.min(minEval, evalScore);
-        beta = Math.min(beta, evalScore);
-        
-        if (beta <= alpha) break; // Alpha-beta pruning
-      }
-      return minEval;
-    }
-  }
-
-  private evaluateBoard(gameState: GameState, aiColor: PieceColor): number {
+  private evaluateBoard(position: SearchBoard, aiColor: PieceColor): number {
     let score = 0;
     
     // Checkmate/Stalemate detection (check first for efficiency)
-    if (gameState.isCheckmate) {
-      return gameState.winner === aiColor ? 10000 : -10000;
+    if (!position.hasLegalMove()) {
+      if (!position.isInCheck()) return 0;
+      return position.sideToMove === aiColor ? -10000 : 10000;
     }
-    if (gameState.isStalemate) {
+    if (this.isDrawn(position)) {
       return 0;
     }
+
+    const board = position.toBoard();
     
     // Find important pieces positions for strategic evaluation
     let aiKing: Position | null = null;
@@ -626,7 +458,7 @@ export class AIManager {
     // Material evaluation and piece positioning
     for (let row = 0; row < 10; row++) {
       for (let col = 0; col < 10; col++) {
-        const piece = gameState.board[row][col];
+        const piece = board[row][col];
         if (piece) {
           const pieceValue = this.pieceValues[piece.type];
           const position = { row, col };
@@ -720,7 +552,7 @@ export class AIManager {
     ];
     
     for (const centerSq of centerSquares) {
-      const piece = gameState.board[centerSq.row][centerSq.col];
+      const piece = board[centerSq.row][centerSq.col];
       if (piece) {
         if (piece.color === aiColor) {
           score += 3; // Center occupation bonus
@@ -733,40 +565,8 @@ export class AIManager {
     return score;
   }
 
-  private gameOver(gameState: GameState): boolean {
-    return gameState.isCheckmate || gameState.isStalemate || gameState.gamePhase === 'ended';
-  }
-
-  private getValidMoves(gameState: GameState, color: PieceColor): ChessMove[] {
-    const moves: ChessMove[] = [];
-    
-    for (let row = 0; row < 10; row++) {
-      for (let col = 0; col < 10; col++) {
-        const piece = gameState.board[row][col];
-        if (piece && piece.color === color) {
-          const pieceMoves = getPossibleMoves(gameState.board, { row, col }, piece);
-          for (const move of pieceMoves) {
-            // Create proper ChessMove object
-            const chessMove: ChessMove = {
-              from: { row, col },
-              to: move,
-              piece: piece,
-              captured: gameState.board[move.row][move.col] || undefined,
-              isWizardTeleport: piece.type === 'wizard' && Math.abs(move.row - row) + Math.abs(move.col - col) > 1,
-              isWizardAttack: piece.type === 'wizard' && gameState.board[move.row][move.col] !== null
-            };
-            moves.push(chessMove);
-          }
-        }
-      }
-    }
-    
-    return moves;
-  }
-
-  private makeMove(gameState: GameState, move: ChessMove): GameState {
-    // Use existing makeMove function from game engine
-    return makeMove(gameState, move, true);
+  private isDrawn(position: SearchBoard): boolean {
+    return position.halfmoveClock >= FIFTY_MOVE_RULE_PLIES || position.hasInsufficientMaterial();
   }
 }
 
@@ -789,6 +589,8 @@ export interface StrategyPattern {
   conditions: string[];
 }
 
+export type { SearchInfo, SearchLimits } from './searchEngine';
+
 // Export the advanced AI instances
 export const advancedAI = new AdvancedAIPlayer();
 export const aiManager = new AIManager();
\ No newline at end of file
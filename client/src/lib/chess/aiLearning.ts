@@ -45,7 +45,7 @@ export class AILearningSystem {
 
   constructor() {
     // Only load expensive learning data in development to prevent resource waste
-    if (import.meta.env.DEV) {
+    if (import.meta.env?.DEV) {
       this.learningData = this.loadLearningData();
     } else {
       // In production, use minimal learning data
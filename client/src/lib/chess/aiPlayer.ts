@@ -1,10 +1,16 @@
 import { GameState, ChessMove, Position, AIDifficulty, PieceColor, ChessPiece } from './types';
 import { getPossibleMoves } from './pieceMovement';
-import { isKingInCheck, makeMove } from './gameEngine';
+import { isKingInCheck, makeMove, getLegalMoves } from './gameEngine';
+import { SearchBoard } from './searchBoard';
+import { SEARCH_BUDGETS, type SearchInfo, type SearchLine } from './searchEngine';
+import { searchWorker } from './searchWorkerClient';
 import { aiLearning } from './aiLearning';
+import { BOOK_SETTINGS, bookMoveName, openingBook, probeBook } from './openingBook';
 import { getBestMove as getTrainedAIMove, ensureModelInitialized } from '../ai/deployAI';
 
-export async function getAIMove(gameState: GameState): Promise<ChessMove | null> {
+// Resolves null when there is no legal move, or when the search is cancelled
+// (undo or reset) before it finishes
+export async function getAIMove(gameState: GameState, onProgress?: (info: SearchInfo) => void): Promise<ChessMove | null> {
   const aiColor = gameState.currentPlayer;
   const allMoves = getAllPossibleMoves(gameState, aiColor);
   
@@ -12,34 +18,22 @@ export async function getAIMove(gameState: GameState): Promise<ChessMove | null>
     return null;
   }
   
-  // PRIORITY 1: Look for immediate checkmate moves
-  const checkmateMove = findCheckmateMove(gameState, allMoves, aiColor);
-  if (checkmateMove) {
-    console.log('♔ AI found checkmate move!');
-    return checkmateMove;
+  // PRIORITY 1: Follow the opening book for the difficulty's depth and variety
+  const bookMove = probeBook(openingBook, gameState, BOOK_SETTINGS[gameState.aiDifficulty]);
+  if (bookMove) {
+    console.log(`📖 AI playing book move: ${bookMoveName(bookMove)}`);
+    return bookMove;
   }
+
+  // Filter out repetitive moves early (before other considerations)
+  const nonRepetitiveMoves = filterRepetitiveMoves(gameState, allMoves);
   
-  // PRIORITY 2: Block opponent's checkmate threats
-  const blockingMove = findBlockingMove(gameState, allMoves, aiColor);
-  if (blockingMove) {
-    console.log('🛡️ AI blocking opponent checkmate threat');
-    return blockingMove;
-  }
-  
-  // PRIORITY 2.1: Filter out obviously bad moves (hanging pieces, blunders)
-  const smartMoves = filterBadMoves(gameState, allMoves, aiColor);
-  const movesToEvaluate = smartMoves.length > 0 ? smartMoves : allMoves;
-  
-  // PRIORITY 2.5: Filter out repetitive moves early (before other considerations)
-  const nonRepetitiveMoves = filterRepetitiveMoves(gameState, movesToEvaluate);
-  const movesToConsider = nonRepetitiveMoves.length > 0 ? nonRepetitiveMoves : movesToEvaluate;
-  
-  // PRIORITY 3: Try to use learned patterns (for medium and hard difficulty)
+  // PRIORITY 2: Try to use learned patterns (for medium and hard difficulty)
   if (gameState.aiDifficulty !== 'easy') {
     const learnedMove = aiLearning.getBestLearnedMove(gameState, aiColor);
     if (learnedMove) {
       // Validate the learned move is still legal AND not repetitive
-      const isLearnedMoveLegal = movesToConsider.some(move => 
+      const isLearnedMoveLegal = (nonRepetitiveMoves.length > 0 ? nonRepetitiveMoves : allMoves).some(move => 
         move.from.row === learnedMove.from.row && 
         move.from.col === learnedMove.from.col &&
         move.to.row === learnedMove.to.row && 
@@ -53,7 +47,44 @@ export async function getAIMove(gameState: GameState): Promise<ChessMove | null>
     }
   }
   
-  // PRIORITY 4: Fall back to original strategy (using filtered moves)
+  // PRIORITY 3: Search in the worker within the difficulty's time budget.
+  // The search finds mates, meets mate threats, avoids hanging pieces and
+  // sees repetitions itself, so none of the checks below run on this thread
+  // unless it fails. Easy searches several shallow lines and plays any of the
+  // close ones, so it makes a slightly weaker move now and then
+  try {
+    const result = await searchWorker.search(gameState, SEARCH_BUDGETS[gameState.aiDifficulty], onProgress);
+    if (!result) {
+      return null;
+    }
+    const line = gameState.aiDifficulty === 'easy' ? pickEasyLine(result.lines) : result;
+    console.log(`🔍 AI search selected: ${line.move.piece.type} ${String.fromCharCode(97 + line.move.from.col)}${10 - line.move.from.row} to ${String.fromCharCode(97 + line.move.to.col)}${10 - line.move.to.row} (score: ${line.score}, depth: ${result.depth})`);
+    return line.move;
+  } catch (error) {
+    console.warn('⚠️ AI search failed, falling back to move heuristics:', error);
+  }
+  
+  // PRIORITY 4: Look for immediate checkmate moves
+  const checkmateMove = findCheckmateMove(gameState, allMoves, aiColor);
+  if (checkmateMove) {
+    console.log('♔ AI found checkmate move!');
+    return checkmateMove;
+  }
+  
+  // PRIORITY 4.1: Block opponent's checkmate threats
+  const blockingMove = findBlockingMove(gameState, allMoves, aiColor);
+  if (blockingMove) {
+    console.log('🛡️ AI blocking opponent checkmate threat');
+    return blockingMove;
+  }
+
+  // PRIORITY 4.2: Filter out obviously bad moves (hanging pieces, blunders)
+  const smartMoves = filterBadMoves(gameState, allMoves, aiColor);
+  const movesToEvaluate = smartMoves.length > 0 ? smartMoves : allMoves;
+  const nonRepetitiveSmartMoves = filterRepetitiveMoves(gameState, movesToEvaluate);
+  const movesToConsider = nonRepetitiveSmartMoves.length > 0 ? nonRepetitiveSmartMoves : movesToEvaluate;
+  
+  // PRIORITY 5: Fall back to original strategy (using filtered moves)
   // Use trained 2550 ELO AI for hard difficulty
   if (gameState.aiDifficulty === 'hard') {
     try {
@@ -81,6 +112,15 @@ export async function getAIMove(gameState: GameState): Promise<ChessMove | null>
   }
 }
 
+// Easy plays a random one of its searched lines scoring within this much of
+// the best (a pawn is 10), so it gives away a pawn or two but not a piece
+const EASY_SCORE_MARGIN = 20;
+
+function pickEasyLine(lines: SearchLine[]): SearchLine {
+  const close = lines.filter(line => line.score >= lines[0].score - EASY_SCORE_MARGIN);
+  return close[Math.floor(Math.random() * close.length)];
+}
+
 // Advanced repetition detection to prevent AI from making the same move repeatedly
 function filterRepetitiveMoves(gameState: GameState, moves: ChessMove[]): ChessMove[] {
   if (gameState.moveHistory.length < 2) return moves; // Start filtering after just 2 moves
@@ -160,50 +200,48 @@ function filterRepetitiveMoves(gameState: GameState, moves: ChessMove[]): ChessM
 // Find moves that lead to immediate checkmate
 function findCheckmateMove(gameState: GameState, moves: ChessMove[], aiColor: PieceColor): ChessMove | null {
   const opponentColor = aiColor === 'white' ? 'black' : 'white';
+  const position = SearchBoard.fromGameState(gameState);
   
   for (const move of moves) {
     // Simulate the move
-    const newGameState = makeMove(gameState, move, true); // Skip repetition check for simulation
+    position.makeMove(position.fromChessMove(move));
+    const isCheckmate = position.isCheckmate(opponentColor);
+    position.unmakeMove();
     
     // Check if this puts opponent in checkmate
-    if (newGameState.gamePhase === 'ended' && newGameState.winner === aiColor) {
+    if (isCheckmate) {
       return move;
     }
   }
   return null;
 }
 
+// Any move for `attacker` that checkmates the other side right away
+function hasMatingMove(position: SearchBoard, attacker: PieceColor): boolean {
+  const defender = attacker === 'white' ? 'black' : 'white';
+  
+  for (const move of position.generateMoves(attacker)) {
+    position.makeMove(move);
+    const isCheckmate = position.isCheckmate(defender);
+    position.unmakeMove();
+    if (isCheckmate) return true;
+  }
+  return false;
+}
+
 // Find moves that block opponent's checkmate threats
 function findBlockingMove(gameState: GameState, moves: ChessMove[], aiColor: PieceColor): ChessMove | null {
   const opponentColor = aiColor === 'white' ? 'black' : 'white';
+  const position = SearchBoard.fromGameState(gameState);
   
   // Check if opponent has a checkmate threat next turn
-  const opponentMoves = getAllPossibleMoves(gameState, opponentColor);
-  let hasCheckmateThreats = false;
-  
-  for (const opponentMove of opponentMoves) {
-    const testState = makeMove(gameState, opponentMove, true);
-    if (testState.gamePhase === 'ended' && testState.winner === opponentColor) {
-      hasCheckmateThreats = true;
-      break;
-    }
-  }
-  
-  if (!hasCheckmateThreats) return null;
+  if (!hasMatingMove(position, opponentColor)) return null;
   
   // Try each of our moves to see if any blocks the checkmate
   for (const move of moves) {
-    const newGameState = makeMove(gameState, move, true);
-    const futureOpponentMoves = getAllPossibleMoves(newGameState, opponentColor);
-    
-    let stillHasCheckmate = false;
-    for (const futureOpponentMove of futureOpponentMoves) {
-      const finalState = makeMove(newGameState, futureOpponentMove, true);
-      if (finalState.gamePhase === 'ended' && finalState.winner === opponentColor) {
-        stillHasCheckmate = true;
-        break;
-      }
-    }
+    position.makeMove(position.fromChessMove(move));
+    const stillHasCheckmate = hasMatingMove(position, opponentColor);
+    position.unmakeMove();
     
     if (!stillHasCheckmate) {
       return move; // This move blocks the checkmate threat
@@ -677,52 +715,5 @@ function calculateCoordinationBonus(gameState: GameState, position: Position, my
 }
 
 function getAllPossibleMoves(gameState: GameState, color: PieceColor): ChessMove[] {
-  const moves: ChessMove[] = [];
-  
-  for (let row = 0; row < 10; row++) {
-    for (let col = 0; col < 10; col++) {
-      const piece = gameState.board[row][col];
-      if (piece && piece.color === color) {
-        const from = { row, col };
-        const possibleMoves = getPossibleMoves(gameState.board, from, piece);
-        
-        for (const to of possibleMoves) {
-          const captured = gameState.board[to.row][to.col] || undefined;
-          const isWizardTeleport = piece.type === 'wizard' && !captured;
-          const isWizardAttack = piece.type === 'wizard' && !!captured;
-          
-          // Check if pawn promotion is needed
-          const promotion = piece.type === 'pawn' && 
-            ((piece.color === 'white' && to.row === 0) || (piece.color === 'black' && to.row === 9)) 
-            ? 'queen' // Auto-promote to queen
-            : undefined;
-          
-          // Validate move doesn't put own king in check
-          const testBoard = gameState.board.map(r => [...r]);
-          let pieceToPlace = piece;
-          if (promotion) {
-            pieceToPlace = { ...piece, type: promotion };
-          }
-          testBoard[to.row][to.col] = pieceToPlace;
-          if (!isWizardAttack) {
-            testBoard[from.row][from.col] = null;
-          }
-          
-          if (!isKingInCheck(testBoard, color)) {
-            moves.push({
-              from,
-              to,
-              piece,
-              captured,
-              isWizardTeleport,
-              isWizardAttack,
-              promotion
-            });
-          }
-        }
-      }
-    }
-  }
-  
-  return moves;
+  return getLegalMoves(gameState, color);
 }
@@ -0,0 +1,146 @@
+/**
+ * Analysis Variation Tree
+ * Every line explored on the analysis board, branches included
+ *
+ * The root is the position the analysis started from and every other node is
+ * the position one move after its parent. A node's first child continues its
+ * main line; later children are variations. Playing a move that is already a
+ * child of the current node just moves there, so a line is never stored
+ * twice.
+ *
+ * Trees are never changed in place: each operation returns a new tree, so the
+ * analysis store can hand them straight to React.
+ */
+
+import { ChessMove, GameState } from './types';
+import { makeMove } from './gameEngine';
+import { getStartingState } from './gameRecord';
+import { moveToSAN } from './notation';
+
+export interface AnalysisNode {
+  id: number;
+  parent: number | null;
+  // Move from the parent, null at the root
+  move: ChessMove | null;
+  san: string;
+  children: number[];
+  gameState: GameState;
+}
+
+export interface AnalysisTree {
+  root: number;
+  nodes: Record<number, AnalysisNode>;
+  nextId: number;
+}
+
+const sameMove = (a: ChessMove, b: ChessMove) =>
+  a.from.row === b.from.row && a.from.col === b.from.col &&
+  a.to.row === b.to.row && a.to.col === b.to.col &&
+  (a.promotion ?? null) === (b.promotion ?? null);
+
+/**
+ * Tree rooted at `gameState`'s position.
+ */
+export function createAnalysisTree(gameState: GameState): AnalysisTree {
+  return {
+    root: 0,
+    nodes: { 0: { id: 0, parent: null, move: null, san: '', children: [], gameState } },
+    nextId: 1
+  };
+}
+
+/**
+ * Tree rooted where `gameState` started, with its moves as the main line.
+ * Returns the tree and the node of the game's last position.
+ */
+export function treeFromGame(gameState: GameState): { tree: AnalysisTree; id: number } {
+  let tree = createAnalysisTree(getStartingState({ ...gameState, gameMode: 'analysis' }));
+  let id = tree.root;
+  for (const move of gameState.moveHistory) {
+    ({ tree, id } = addMove(tree, id, move));
+  }
+  return { tree, id };
+}
+
+/**
+ * Plays `move` from node `parentId`. An existing child with the same move is
+ * reused; otherwise the move becomes a new child (the main line if the node
+ * had none). Repetitions never end the line, so any position can be explored.
+ */
+export function addMove(tree: AnalysisTree, parentId: number, move: ChessMove): { tree: AnalysisTree; id: number } {
+  const parent = tree.nodes[parentId];
+  const existing = parent.children.find(childId => sameMove(tree.nodes[childId].move!, move));
+  if (existing !== undefined) return { tree, id: existing };
+
+  const enPassantTarget = parent.gameState.enPassantTarget ?? null;
+  const san = move.notation || moveToSAN(parent.gameState.board, move, enPassantTarget);
+  const id = tree.nextId;
+  const node: AnalysisNode = {
+    id,
+    parent: parentId,
+    move: { ...move, notation: san },
+    san,
+    children: [],
+    gameState: makeMove(parent.gameState, { ...move, notation: san }, true)
+  };
+
+  return {
+    tree: {
+      ...tree,
+      nodes: { ...tree.nodes, [parentId]: { ...parent, children: [...parent.children, id] }, [id]: node },
+      nextId: id + 1
+    },
+    id
+  };
+}
+
+/**
+ * Nodes from the first move down to `id` (empty at the root).
+ */
+export function pathTo(tree: AnalysisTree, id: number): AnalysisNode[] {
+  const path: AnalysisNode[] = [];
+  for (let node = tree.nodes[id]; node.parent !== null; node = tree.nodes[node.parent]) {
+    path.unshift(node);
+  }
+  return path;
+}
+
+/**
+ * The last node of the main line continuing from `id`.
+ */
+export function lineEnd(tree: AnalysisTree, id: number): number {
+  let node = tree.nodes[id];
+  while (node.children.length > 0) node = tree.nodes[node.children[0]];
+  return node.id;
+}
+
+/**
+ * Removes node `id` and everything after it. The root can't be removed.
+ */
+export function removeVariation(tree: AnalysisTree, id: number): AnalysisTree {
+  const node = tree.nodes[id];
+  if (node.parent === null) return tree;
+
+  const nodes = { ...tree.nodes };
+  const stack = [id];
+  while (stack.length > 0) {
+    const removed = stack.pop()!;
+    stack.push(...nodes[removed].children);
+    delete nodes[removed];
+  }
+  const parent = nodes[node.parent];
+  nodes[node.parent] = { ...parent, children: parent.children.filter(childId => childId !== id) };
+  return { ...tree, nodes };
+}
+
+/**
+ * Makes node `id` its parent's main line.
+ */
+export function promoteVariation(tree: AnalysisTree, id: number): AnalysisTree {
+  const node = tree.nodes[id];
+  if (node.parent === null) return tree;
+
+  const parent = tree.nodes[node.parent];
+  const children = [id, ...parent.children.filter(childId => childId !== id)];
+  return { ...tree, nodes: { ...tree.nodes, [parent.id]: { ...parent, children } } };
+}
@@ -0,0 +1,157 @@
+/**
+ * Board Editor
+ * Pure helpers behind the position editor: placing pieces, castling rights,
+ * validation and conversion to position notation
+ *
+ * Editor boards are plain piece placements. Nothing on them has moved; the
+ * castling rights and side to move are kept alongside and only become part of
+ * a game once the position is written out as notation and parsed back.
+ */
+
+import { ChessPiece, PieceColor, PieceType, Position } from './types';
+import { BOARD_SIZE, getGameStatus } from '@shared/chessRules';
+import {
+  CastlingRights,
+  getCastlingRights,
+  parsePosition,
+  serializeCastlingRights,
+  serializePlacement
+} from './positionNotation';
+
+export type EditorBoard = (ChessPiece | null)[][];
+
+export interface EditorPiece {
+  type: PieceType;
+  color: PieceColor;
+}
+
+export interface EditorPosition {
+  board: EditorBoard;
+  sideToMove: PieceColor;
+  castling: CastlingRights;
+}
+
+// Palette order, wizards included
+export const EDITOR_PIECE_TYPES: PieceType[] = ['king', 'queen', 'wizard', 'rook', 'bishop', 'knight', 'pawn'];
+
+const NO_CASTLING: CastlingRights = {
+  whiteKingside: false,
+  whiteQueenside: false,
+  blackKingside: false,
+  blackQueenside: false
+};
+
+function makePiece({ type, color }: EditorPiece, row: number, col: number): ChessPiece {
+  return { type, color, id: `${color === 'white' ? 'w' : 'b'}-${type}-${row}-${col}`, hasMoved: false };
+}
+
+function withSquare(board: EditorBoard, square: Position, piece: ChessPiece | null): EditorBoard {
+  return board.map((rank, row) =>
+    row === square.row ? rank.map((current, col) => (col === square.col ? piece : current)) : rank
+  );
+}
+
+export function emptyEditorPosition(): EditorPosition {
+  return {
+    board: Array.from({ length: BOARD_SIZE }, () => Array<ChessPiece | null>(BOARD_SIZE).fill(null)),
+    sideToMove: 'white',
+    castling: { ...NO_CASTLING }
+  };
+}
+
+/**
+ * Editor position for position notation. Throws like parsePosition does if
+ * the notation can't be read.
+ */
+export function editorPositionFrom(notation: string): EditorPosition {
+  const gameState = parsePosition(notation);
+  return {
+    board: gameState.board.map((rank, row) => rank.map((piece, col) => (piece ? makePiece(piece, row, col) : null))),
+    sideToMove: gameState.currentPlayer,
+    castling: getCastlingRights(gameState.board)
+  };
+}
+
+/**
+ * Puts `piece` on `square`, or empties it when `piece` is null.
+ */
+export function setPiece(position: EditorPosition, square: Position, piece: EditorPiece | null): EditorPosition {
+  const board = withSquare(position.board, square, piece ? makePiece(piece, square.row, square.col) : null);
+  return { ...position, board };
+}
+
+/**
+ * Moves whatever stands on `from` to `to`, replacing anything there.
+ */
+export function movePiece(position: EditorPosition, from: Position, to: Position): EditorPosition {
+  const piece = position.board[from.row][from.col];
+  if (!piece || (from.row === to.row && from.col === to.col)) return position;
+  return setPiece(setPiece(position, from, null), to, piece);
+}
+
+/**
+ * Castling rights the board allows: king and rook on their starting squares.
+ */
+export function availableCastling(board: EditorBoard): CastlingRights {
+  return getCastlingRights(board);
+}
+
+// Rights the user ticked that the board still allows
+function effectiveCastling(position: EditorPosition): CastlingRights {
+  const available = availableCastling(position.board);
+  return {
+    whiteKingside: position.castling.whiteKingside && available.whiteKingside,
+    whiteQueenside: position.castling.whiteQueenside && available.whiteQueenside,
+    blackKingside: position.castling.blackKingside && available.blackKingside,
+    blackQueenside: position.castling.blackQueenside && available.blackQueenside
+  };
+}
+
+/**
+ * Every reason the position can't be played, empty when it can.
+ */
+export function validateEditorPosition(position: EditorPosition): string[] {
+  const { board, sideToMove } = position;
+  const problems: string[] = [];
+  const pieces = board.flat().filter((piece): piece is ChessPiece => piece !== null);
+
+  let kingsPlaced = true;
+  for (const color of ['white', 'black'] as PieceColor[]) {
+    const kings = pieces.filter(piece => piece.type === 'king' && piece.color === color).length;
+    if (kings !== 1) {
+      problems.push(kings === 0 ? `The ${color} king is missing` : `There are ${kings} ${color} kings`);
+      kingsPlaced = false;
+    }
+
+    const pawns = pieces.filter(piece => piece.type === 'pawn' && piece.color === color).length;
+    if (pawns > BOARD_SIZE) {
+      problems.push(`There are ${pawns} ${color} pawns, at most ${BOARD_SIZE} are possible`);
+    }
+  }
+
+  for (const row of [0, BOARD_SIZE - 1]) {
+    if (board[row].some(piece => piece?.type === 'pawn')) {
+      problems.push(`Pawns can't stand on rank ${BOARD_SIZE - row}`);
+    }
+  }
+
+  // Check detection needs both kings on the board
+  if (kingsPlaced) {
+    const opponent: PieceColor = sideToMove === 'white' ? 'black' : 'white';
+    if (getGameStatus(board, opponent).isInCheck) {
+      problems.push(`The ${opponent} king is in check but it is ${sideToMove} to move`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Position notation for the editor position, with no en passant target and
+ * fresh move counters. Castling rights the board no longer allows are dropped.
+ */
+export function editorToNotation(position: EditorPosition): string {
+  const side = position.sideToMove === 'white' ? 'w' : 'b';
+  const castling = serializeCastlingRights(effectiveCastling(position));
+  return `${serializePlacement(position.board)} ${side} ${castling} - 0 1`;
+}
@@ -0,0 +1,175 @@
+/**
+ * Endgame Lessons
+ * Curated wizard endgames with a goal, and the checks that decide them
+ *
+ * The student plays the side to move in the lesson's position and the engine
+ * defends the other side. Each goal has a move limit counted in the student's
+ * moves: mate within it, win a given piece, or promote a pawn that survives
+ * the reply. Checkmating the defender completes any lesson. A lesson fails
+ * when the limit runs out, or when the game ends first in a loss or a draw.
+ */
+
+import { GameState, PieceColor, PieceType } from './types';
+
+export type EndgameCategory = 'wizardMate' | 'rookVsWizard' | 'pawnRace';
+
+export type EndgameGoal =
+  | { type: 'mate'; moves: number }
+  | { type: 'capture'; piece: PieceType; moves: number }
+  | { type: 'promote'; moves: number };
+
+export interface EndgameLesson {
+  id: string;
+  title: string;
+  category: EndgameCategory;
+  description: string;
+  // Position notation, student to move
+  position: string;
+  goal: EndgameGoal;
+}
+
+export type LessonStatus = 'playing' | 'completed' | 'failed';
+
+export interface LessonResult {
+  status: LessonStatus;
+  // Why the lesson failed
+  reason?: string;
+}
+
+export const ENDGAME_CATEGORY_LABELS: Record<EndgameCategory, string> = {
+  wizardMate: 'King and wizard vs king',
+  rookVsWizard: 'Rook vs wizard',
+  pawnRace: 'Wizard and pawn races'
+};
+
+export const ENDGAME_LESSONS: EndgameLesson[] = [
+  {
+    id: 'wizard-corner-mate',
+    title: 'The corner mate',
+    category: 'wizardMate',
+    description: 'Your king takes the escape squares; the wizard checks from two squares away, where the king can\'t reach it.',
+    position: '9k/10/5W2K1/10/10/10/10/10/10/10 w - - 0 1',
+    goal: { type: 'mate', moves: 1 }
+  },
+  {
+    id: 'wizard-box',
+    title: 'Close the box',
+    category: 'wizardMate',
+    description: 'Bring the king next to the corner first, then let the wizard shrink the box.',
+    position: '9k/10/7K2/10/10/5W4/10/10/10/10 w - - 0 1',
+    goal: { type: 'mate', moves: 3 }
+  },
+  {
+    id: 'wizard-opposition',
+    title: 'King and wizard together',
+    category: 'wizardMate',
+    description: 'The wizard can\'t mate alone. Keep it out of the king\'s reach while your own king closes in.',
+    position: '9k/10/10/7K2/10/10/6W3/10/10/10 w - - 0 1',
+    goal: { type: 'mate', moves: 4 }
+  },
+  {
+    id: 'wizard-drive-to-edge',
+    title: 'Drive the king to the edge',
+    category: 'wizardMate',
+    description: 'Use the wizard\'s reach to cut off files and ranks, then push the king into the corner.',
+    position: '10/9k/10/7K2/10/10/10/10/4W5/10 w - - 0 1',
+    goal: { type: 'mate', moves: 8 }
+  },
+  {
+    id: 'rook-skewer',
+    title: 'Skewer the wizard',
+    category: 'rookVsWizard',
+    description: 'A wizard only reaches two squares. Check the king along a line and take the wizard behind it.',
+    position: '10/10/10/10/2k4w2/10/10/10/R9/9K w - - 0 1',
+    goal: { type: 'capture', piece: 'wizard', moves: 2 }
+  },
+  {
+    id: 'wizard-fork',
+    title: 'The wizard fork',
+    category: 'rookVsWizard',
+    description: 'Wizards strike without moving. Teleport to a square that checks the king and reaches the rook, out of the rook\'s lines.',
+    position: '10/10/2k3r3/10/10/10/4W5/10/10/K9 w - - 0 1',
+    goal: { type: 'capture', piece: 'rook', moves: 2 }
+  },
+  {
+    id: 'wizard-escort',
+    title: 'Escort the pawn',
+    category: 'pawnRace',
+    description: 'The king is in front of your pawn. Use the wizard to push it away and promote without losing the new piece.',
+    position: '10/10/9k/10/7P2/5W4/10/10/10/K9 w - - 0 1',
+    goal: { type: 'promote', moves: 12 }
+  },
+  {
+    id: 'pawn-race',
+    title: 'Win the race',
+    category: 'pawnRace',
+    description: 'Both sides have a runner. Promote first, and let the wizard deal with the black pawn.',
+    position: '9K/10/10/7P2/9k/10/2p7/10/10/4W5 w - - 0 1',
+    goal: { type: 'promote', moves: 5 }
+  }
+];
+
+/**
+ * The side the student plays in `lesson`.
+ */
+export function lessonColor(lesson: EndgameLesson): PieceColor {
+  return lesson.position.split(/\s+/)[1] === 'b' ? 'black' : 'white';
+}
+
+/**
+ * One line describing the lesson's goal.
+ */
+export function describeGoal(goal: EndgameGoal): string {
+  const moves = `${goal.moves} move${goal.moves === 1 ? '' : 's'}`;
+  switch (goal.type) {
+    case 'mate':
+      return `Checkmate in ${moves}`;
+    case 'capture':
+      return `Win the ${goal.piece} within ${moves}`;
+    case 'promote':
+      return `Promote safely within ${moves}`;
+  }
+}
+
+/**
+ * Where the lesson stands after the moves played since its position, which
+ * `gameState` has reached.
+ */
+export function checkLesson(lesson: EndgameLesson, gameState: GameState, startPly = 0): LessonResult {
+  const student = lessonColor(lesson);
+  const played = gameState.moveHistory.slice(startPly);
+  const studentMoves = played.filter(move => move.piece.color === student);
+  const { goal } = lesson;
+
+  // Mating the defender wins any lesson
+  if (gameState.isCheckmate && gameState.winner === student) {
+    return { status: 'completed' };
+  }
+  if (goal.type === 'capture' && studentMoves.some(move => move.captured?.type === goal.piece)) {
+    return { status: 'completed' };
+  }
+
+  if (goal.type === 'promote') {
+    const index = played.findIndex(move => move.piece.color === student && move.promotion);
+    if (index >= 0) {
+      const promotion = played[index];
+      const reply = played[index + 1];
+      if (reply) {
+        // A promotion only counts if the new piece survives the reply
+        return reply.to.row === promotion.to.row && reply.to.col === promotion.to.col
+          ? { status: 'failed', reason: `The new ${promotion.promotion} was captured` }
+          : { status: 'completed' };
+      }
+      if (gameState.isCheckmate) return { status: 'completed' };
+      if (gameState.gamePhase !== 'ended') return { status: 'playing' };
+    }
+  }
+
+  if (gameState.gamePhase === 'ended') {
+    return { status: 'failed', reason: gameState.isCheckmate ? 'You were checkmated' : 'The game ended in a draw' };
+  }
+  if (studentMoves.length >= goal.moves) {
+    return { status: 'failed', reason: `The goal wasn't reached in ${goal.moves} move${goal.moves === 1 ? '' : 's'}` };
+  }
+  return { status: 'playing' };
+}
@@ -0,0 +1,307 @@
+/**
+ * Wizard Chess Game Records
+ * PGN-like export and import of complete games
+ *
+ *   [Event "Wizard Chess"]
+ *   [Date "2026.10.19"]
+ *   [White "Player"]
+ *   [Black "Wizard AI (hard)"]
+ *   [Mode "ai"]
+ *   [AIDifficulty "hard"]
+ *   [TimeControl "-"]
+ *   [Result "*"]
+ *
+ *   1. e4 e7 2. W~f3 Nc8 3. W~f5 e6 4. W*e6 *
+ *
+ * Move text is SAN as produced by notation.ts. A [Position] header holds the
+ * starting position (positionNotation.ts) for games that didn't start from
+ * the standard layout. Import replays every move through makeMove, so a
+ * record is only accepted if every move is legal.
+ */
+
+import { AIDifficulty, GameMode, GameState } from './types';
+import { createInitialGameState, makeMove } from './gameEngine';
+import { parsePosition } from './positionNotation';
+import { moveToSAN, parseSAN, withNotation } from './notation';
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface GameRecordHeaders {
+  event: string;
+  date: string;
+  white: string;
+  black: string;
+  mode: GameMode;
+  aiDifficulty?: AIDifficulty;
+  timeControl: string;
+  result: GameResult;
+  position?: string;
+}
+
+export interface GameRecord {
+  headers: GameRecordHeaders;
+  moves: string[];
+}
+
+/**
+ * Raised when an imported record can't be read or replayed. `line` and
+ * `moveNumber` point at the offending token where known.
+ */
+export class GameRecordError extends Error {
+  constructor(message: string, public line?: number, public moveNumber?: number) {
+    super(
+      line !== undefined
+        ? `Line ${line}${moveNumber !== undefined ? `, move ${moveNumber}` : ''}: ${message}`
+        : message
+    );
+    this.name = 'GameRecordError';
+  }
+}
+
+const GAME_MODES: GameMode[] = ['local', 'ai', 'ai-vs-ai', 'multiplayer', 'analysis', 'puzzle', 'endgame'];
+const AI_DIFFICULTIES: AIDifficulty[] = ['easy', 'medium', 'hard', 'advanced'];
+const RESULTS: GameResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// Header tags in the order they are written
+const HEADER_TAGS: [keyof GameRecordHeaders, string][] = [
+  ['event', 'Event'],
+  ['date', 'Date'],
+  ['white', 'White'],
+  ['black', 'Black'],
+  ['mode', 'Mode'],
+  ['aiDifficulty', 'AIDifficulty'],
+  ['timeControl', 'TimeControl'],
+  ['result', 'Result'],
+  ['position', 'Position']
+];
+
+export function getGameResult(gameState: GameState): GameResult {
+  if (gameState.gamePhase !== 'ended') return '*';
+  if (gameState.winner === 'white') return '1-0';
+  if (gameState.winner === 'black') return '0-1';
+  return '1/2-1/2';
+}
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+/**
+ * The position a game started from, before any of its moves.
+ */
+export function getStartingState(gameState: Pick<GameState, 'gameMode' | 'aiDifficulty' | 'startPosition'>): GameState {
+  return gameState.startPosition
+    ? parsePosition(gameState.startPosition, gameState.gameMode, gameState.aiDifficulty)
+    : createInitialGameState(gameState.gameMode, gameState.aiDifficulty);
+}
+
+/**
+ * Build a record from a game. Moves are replayed from the starting position
+ * so every SAN string is generated against the board it was played on.
+ */
+export function createGameRecord(gameState: GameState, headers: Partial<GameRecordHeaders> = {}): GameRecord {
+  let state = getStartingState(gameState);
+  const moves: string[] = [];
+
+  for (const move of gameState.moveHistory) {
+    moves.push(move.notation || moveToSAN(state.board, move, state.enPassantTarget));
+    state = makeMove(state, move, true);
+  }
+
+  const isAIGame = gameState.gameMode === 'ai' || gameState.gameMode === 'ai-vs-ai';
+  return {
+    headers: {
+      event: 'Wizard Chess',
+      date: formatDate(new Date()),
+      white: gameState.gameMode === 'ai-vs-ai' ? `Wizard AI (${gameState.aiDifficulty})` : 'Player',
+      black: isAIGame ? `Wizard AI (${gameState.aiDifficulty})` : 'Player',
+      mode: gameState.gameMode,
+      aiDifficulty: isAIGame ? gameState.aiDifficulty : undefined,
+      timeControl: '-',
+      result: getGameResult(gameState),
+      position: gameState.startPosition,
+      ...headers
+    },
+    moves
+  };
+}
+
+export function serializeGameRecord(record: GameRecord): string {
+  const headerLines = HEADER_TAGS
+    .filter(([key]) => record.headers[key] !== undefined)
+    .map(([key, tag]) => `[${tag} "${String(record.headers[key]).replace(/"/g, '\\"')}"]`);
+
+  // Number moves from the starting position; black to move first gets "N..."
+  const [, side = 'w', , , fullmove = '1'] = (record.headers.position || '').split(/\s+/);
+  const blackFirst = side === 'b' ? 1 : 0;
+  const tokens: string[] = [];
+  record.moves.forEach((san, i) => {
+    const moveNumber = parseInt(fullmove, 10) + Math.floor((i + blackFirst) / 2);
+    if (i === 0 && blackFirst) tokens.push(`${moveNumber}...`);
+    else if ((i + blackFirst) % 2 === 0) tokens.push(`${moveNumber}.`);
+    tokens.push(san);
+  });
+
+  tokens.push(record.headers.result);
+
+  // Wrap move text at 80 columns like PGN
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  lines.push(line);
+
+  return `${headerLines.join('\n')}\n\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Export a game as record text.
+ */
+export function exportGameRecord(gameState: GameState, headers: Partial<GameRecordHeaders> = {}): string {
+  return serializeGameRecord(createGameRecord(gameState, headers));
+}
+
+interface MoveToken {
+  san: string;
+  line: number;
+}
+
+function parseHeaders(lines: string[]): { tags: Map<string, { value: string; line: number }>; bodyStart: number } {
+  const tags = new Map<string, { value: string; line: number }>();
+  let index = 0;
+
+  for (; index < lines.length; index++) {
+    const text = lines[index].trim();
+    if (!text) continue;
+    if (!text.startsWith('[')) break;
+
+    const match = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/.exec(text);
+    if (!match) {
+      throw new GameRecordError(`Malformed header "${text}"`, index + 1);
+    }
+    tags.set(match[1], { value: match[2].replace(/\\"/g, '"'), line: index + 1 });
+  }
+
+  return { tags, bodyStart: index };
+}
+
+function tokenizeMoves(lines: string[], bodyStart: number): { moves: MoveToken[]; result?: { value: GameResult; line: number } } {
+  const moves: MoveToken[] = [];
+  let result: { value: GameResult; line: number } | undefined;
+
+  for (let index = bodyStart; index < lines.length; index++) {
+    // Drop {comments} and ; comments
+    const text = lines[index].replace(/\{[^}]*\}/g, ' ').replace(/;.*$/, '');
+
+    for (const rawToken of text.split(/\s+/)) {
+      // "12." and "12..." move numbers may be glued to the move that follows
+      const token = rawToken.replace(/^\d+\.(\.\.)?/, '');
+      if (!token) continue;
+
+      if (result) {
+        throw new GameRecordError(`Unexpected "${token}" after the game result`, index + 1);
+      }
+      if ((RESULTS as string[]).includes(token)) {
+        result = { value: token as GameResult, line: index + 1 };
+        continue;
+      }
+      moves.push({ san: token, line: index + 1 });
+    }
+  }
+
+  return { moves, result };
+}
+
+function readHeaders(tags: Map<string, { value: string; line: number }>, result?: GameResult): GameRecordHeaders {
+  const tag = (name: string) => tags.get(name)?.value;
+
+  const mode = (tag('Mode') || 'local') as GameMode;
+  if (!GAME_MODES.includes(mode)) {
+    throw new GameRecordError(`Unknown game mode "${mode}"`, tags.get('Mode')!.line);
+  }
+
+  const aiDifficulty = tag('AIDifficulty') as AIDifficulty | undefined;
+  if (aiDifficulty !== undefined && !AI_DIFFICULTIES.includes(aiDifficulty)) {
+    throw new GameRecordError(`Unknown AI difficulty "${aiDifficulty}"`, tags.get('AIDifficulty')!.line);
+  }
+
+  const headerResult = tag('Result') as GameResult | undefined;
+  if (headerResult !== undefined && !RESULTS.includes(headerResult)) {
+    throw new GameRecordError(`Unknown result "${headerResult}"`, tags.get('Result')!.line);
+  }
+  if (headerResult && result && headerResult !== result) {
+    throw new GameRecordError(`Result header "${headerResult}" does not match move text result "${result}"`, tags.get('Result')!.line);
+  }
+
+  return {
+    event: tag('Event') || 'Wizard Chess',
+    date: tag('Date') || '????.??.??',
+    white: tag('White') || '?',
+    black: tag('Black') || '?',
+    mode,
+    aiDifficulty,
+    timeControl: tag('TimeControl') || '-',
+    result: headerResult || result || '*',
+    position: tag('Position')
+  };
+}
+
+/**
+ * Read record text and replay it. Throws GameRecordError naming the line and
+ * move number of the first problem: a malformed header, an unreadable or
+ * illegal move, moves after the game ended, or a result that contradicts
+ * how the game finished.
+ */
+export function importGameRecord(text: string): { record: GameRecord; gameState: GameState } {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const { tags, bodyStart } = parseHeaders(lines);
+  const { moves, result } = tokenizeMoves(lines, bodyStart);
+  const headers = readHeaders(tags, result?.value);
+
+  let state: GameState;
+  try {
+    state = getStartingState({
+      gameMode: headers.mode,
+      aiDifficulty: headers.aiDifficulty || 'medium',
+      startPosition: headers.position
+    });
+  } catch (error) {
+    throw new GameRecordError(`Invalid starting position: ${(error as Error).message}`, tags.get('Position')?.line);
+  }
+
+  const sanMoves: string[] = [];
+  moves.forEach(({ san, line }, ply) => {
+    const moveNumber = state.fullmoveNumber ?? Math.floor(ply / 2) + 1;
+    if (state.gamePhase === 'ended') {
+      throw new GameRecordError(`Move "${san}" played after the game ended`, line, moveNumber);
+    }
+
+    try {
+      const move = withNotation(
+        state.board,
+        parseSAN(state.board, state.currentPlayer, san, state.enPassantTarget),
+        state.enPassantTarget
+      );
+      sanMoves.push(move.notation!);
+      state = makeMove(state, move);
+    } catch (error) {
+      throw new GameRecordError((error as Error).message, line, moveNumber);
+    }
+  });
+
+  // A decisive finish on the board has to agree with the recorded result
+  const finalResult = getGameResult(state);
+  if (state.isCheckmate && headers.result !== '*' && headers.result !== finalResult) {
+    const line = result?.line ?? tags.get('Result')?.line;
+    throw new GameRecordError(`Result "${headers.result}" contradicts the final position (${finalResult})`, line);
+  }
+
+  return { record: { headers, moves: sanMoves }, gameState: state };
+}
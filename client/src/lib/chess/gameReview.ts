@@ -0,0 +1,317 @@
+/**
+ * Post-Game Review
+ * Evaluates every position of a finished game and grades each move
+ *
+ * Each position is searched once. Its score is the value of the best move
+ * there; the value of the move actually played is the (negated) score of the
+ * position it led to. The difference, in centipawns from the mover's point of
+ * view, is the move's centipawn loss:
+ *
+ *   best        the engine's own choice, or no loss at all
+ *   good        under 50
+ *   inaccuracy  50 to 99
+ *   mistake     100 to 299
+ *   blunder     300 or more
+ *
+ * Scores are capped at EVAL_CAP centipawns, so a missed mate counts as a
+ * large loss rather than an infinite one. Accuracy per move comes from the
+ * drop in the mover's winning chances, so losing a pawn in a level position
+ * costs more than losing one while already a queen up.
+ *
+ * The review also names the opening (from the first moves) and the first
+ * endgame the game reached, for the humanAIGames columns of the same name.
+ */
+
+import { ChessMove, GameState, PieceColor, PieceType } from './types';
+import { makeMove } from './gameEngine';
+import { getStartingState } from './gameRecord';
+import { serializePosition, STARTING_POSITION } from './positionNotation';
+import { lineToSAN, moveToSAN } from './notation';
+import { AdvancedAIPlayer } from './advancedAI';
+import { scoreToCentipawns, type SearchInfo, type SearchLimits } from './searchEngine';
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+// Engine's view of one position
+export interface PositionEvaluation {
+  // Centipawns from white's point of view
+  score: number;
+  // Engine's line from this position in SAN, empty once the game is over
+  line: string[];
+  depth: number;
+}
+
+export interface ReviewedMove {
+  // Index into the game's moveHistory
+  ply: number;
+  color: PieceColor;
+  san: string;
+  // Engine's choice in the position before the move
+  bestSan: string | null;
+  bestLine: string[];
+  // Centipawns from white's point of view, before and after the move
+  evalBefore: number;
+  evalAfter: number;
+  centipawnLoss: number;
+  classification: MoveClassification;
+  // 0-100
+  accuracy: number;
+}
+
+export interface ReviewSummary {
+  accuracy: number;
+  averageCentipawnLoss: number;
+  best: number;
+  good: number;
+  inaccuracies: number;
+  mistakes: number;
+  blunders: number;
+}
+
+export interface GameReview {
+  // One per position, the starting position included
+  positions: PositionEvaluation[];
+  moves: ReviewedMove[];
+  summary: Record<PieceColor, ReviewSummary>;
+  openingType: string | null;
+  endgameType: string | null;
+}
+
+// Searches one position, like AdvancedAIPlayer.search or a SearchWorkerClient
+export type ReviewSearch = (gameState: GameState, limits: SearchLimits) => Promise<SearchInfo | null>;
+
+export interface ReviewOptions {
+  limits?: SearchLimits;
+  search?: ReviewSearch;
+  // Called after each position with the number searched so far
+  onProgress?: (done: number, total: number) => void;
+  // Stops the review between positions; reviewGame then returns null
+  signal?: AbortSignal;
+}
+
+export const REVIEW_LIMITS: SearchLimits = { maxDepth: 4, timeLimitMs: 400 };
+
+export const EVAL_CAP = 1500;
+
+// Centipawn losses at which a move drops to each grade
+export const CLASSIFICATION_THRESHOLDS = {
+  good: 1,
+  inaccuracy: 50,
+  mistake: 100,
+  blunder: 300
+};
+
+const PIECE_NAMES: Record<PieceType, string> = {
+  pawn: 'Pawn', knight: 'Knight', bishop: 'Bishop', rook: 'Rook', queen: 'Queen', wizard: 'Wizard', king: 'King'
+};
+
+// Non-pawn material, in pawns, each side may have left for the game to count as an endgame
+const ENDGAME_MATERIAL = 13;
+const MATERIAL: Record<PieceType, number> = {
+  pawn: 0, knight: 3, bishop: 3, wizard: 3.5, rook: 5, queen: 9, king: 0
+};
+
+let defaultReviewer: AdvancedAIPlayer | null = null;
+
+// Searches on the calling thread with a player kept for reviews alone
+function searchHere(gameState: GameState, limits: SearchLimits): Promise<SearchInfo | null> {
+  defaultReviewer ??= new AdvancedAIPlayer();
+  return Promise.resolve(defaultReviewer.search(gameState, limits));
+}
+
+/**
+ * Grade for a move with `centipawnLoss`; a move the engine also chose is
+ * always best.
+ */
+export function classifyMove(centipawnLoss: number, isEngineMove = false): MoveClassification {
+  if (isEngineMove || centipawnLoss < CLASSIFICATION_THRESHOLDS.good) return 'best';
+  if (centipawnLoss < CLASSIFICATION_THRESHOLDS.inaccuracy) return 'good';
+  if (centipawnLoss < CLASSIFICATION_THRESHOLDS.mistake) return 'inaccuracy';
+  if (centipawnLoss < CLASSIFICATION_THRESHOLDS.blunder) return 'mistake';
+  return 'blunder';
+}
+
+/**
+ * Chance of winning (0-100) for a side `centipawns` ahead.
+ */
+export function winningChances(centipawns: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * centipawns)) - 1);
+}
+
+/**
+ * Accuracy (0-100) of a move that took the mover from `before` to `after`
+ * centipawns, both from the mover's point of view.
+ */
+export function moveAccuracy(before: number, after: number): number {
+  const drop = Math.max(0, winningChances(before) - winningChances(after));
+  return Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * drop) - 3.1669));
+}
+
+/**
+ * Name of the opening from white's first move, or null for a game too short
+ * to have one. A black reply mirroring it is noted as symmetrical.
+ */
+export function classifyOpening(moves: Pick<ChessMove, 'from' | 'to' | 'piece' | 'isWizardTeleport' | 'isWizardAttack'>[]): string | null {
+  const [first, reply] = moves;
+  if (!first) return null;
+
+  const file = first.from.col;
+  let name: string;
+  if (first.piece.type === 'pawn') {
+    name = file === 5 ? "King's Pawn Opening"
+      : file === 4 ? "Queen's Pawn Opening"
+      : file === 3 || file === 6 ? 'Wizard Pawn Opening'
+      : file === 2 || file === 7 ? 'Bishop Pawn Opening'
+      : 'Flank Opening';
+  } else if (first.piece.type === 'wizard') {
+    name = first.isWizardAttack ? 'Wizard Attack Opening' : 'Wizard Teleport Opening';
+  } else {
+    name = `${PIECE_NAMES[first.piece.type]} Opening`;
+  }
+
+  const mirrors = reply && reply.piece.type === first.piece.type
+    && reply.from.col === first.from.col && reply.to.col === first.to.col
+    && reply.from.row === 9 - first.from.row && reply.to.row === 9 - first.to.row;
+  return mirrors ? `${name} (Symmetrical)` : name;
+}
+
+/**
+ * Kind of endgame on `board`, or null while either side still has more than
+ * ENDGAME_MATERIAL in pieces: "Pawn Endgame" with kings and pawns only, named
+ * after the piece type when only one kind is left, "Minor Piece Endgame" for
+ * knights and bishops, otherwise "Mixed Endgame".
+ */
+export function classifyEndgame(board: GameState['board']): string | null {
+  const material: Record<PieceColor, number> = { white: 0, black: 0 };
+  const kinds = new Set<PieceType>();
+
+  for (const row of board) {
+    for (const piece of row) {
+      if (!piece || piece.type === 'king' || piece.type === 'pawn') continue;
+      material[piece.color] += MATERIAL[piece.type];
+      kinds.add(piece.type);
+    }
+  }
+
+  if (material.white > ENDGAME_MATERIAL || material.black > ENDGAME_MATERIAL) return null;
+  if (kinds.size === 0) return 'Pawn Endgame';
+  if (kinds.size === 1) return `${PIECE_NAMES[Array.from(kinds)[0]]} Endgame`;
+  if (Array.from(kinds).every(kind => kind === 'knight' || kind === 'bishop')) return 'Minor Piece Endgame';
+  return 'Mixed Endgame';
+}
+
+function sameMove(a: Pick<ChessMove, 'from' | 'to' | 'promotion'>, b: Pick<ChessMove, 'from' | 'to' | 'promotion'>): boolean {
+  return a.from.row === b.from.row && a.from.col === b.from.col
+    && a.to.row === b.to.row && a.to.col === b.to.col
+    && (a.promotion ?? null) === (b.promotion ?? null);
+}
+
+function toCentipawns(score: number): number {
+  return Math.max(-EVAL_CAP, Math.min(EVAL_CAP, scoreToCentipawns(score)));
+}
+
+function summarize(moves: ReviewedMove[]): ReviewSummary {
+  const count = (classification: MoveClassification) => moves.filter(move => move.classification === classification).length;
+  const average = (values: number[]) => values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return {
+    accuracy: Math.round(average(moves.map(move => move.accuracy)) * 10) / 10,
+    averageCentipawnLoss: Math.round(average(moves.map(move => move.centipawnLoss))),
+    best: count('best'),
+    good: count('good'),
+    inaccuracies: count('inaccuracy'),
+    mistakes: count('mistake'),
+    blunders: count('blunder')
+  };
+}
+
+/**
+ * Reviews `gameState`'s moves from the position the game started from.
+ * Returns null if `options.signal` aborts the review.
+ */
+export async function reviewGame(gameState: GameState, options: ReviewOptions = {}): Promise<GameReview | null> {
+  const limits = options.limits ?? REVIEW_LIMITS;
+  const search = options.search ?? searchHere;
+  const history = gameState.moveHistory;
+  // AI vs AI games carry on through repetitions, so replay them the same way
+  const skipRepetitionCheck = gameState.gameMode === 'ai-vs-ai';
+
+  const states: GameState[] = [getStartingState(gameState)];
+  const sans: string[] = [];
+  for (const move of history) {
+    const state = states[states.length - 1];
+    sans.push(move.notation || moveToSAN(state.board, move, state.enPassantTarget ?? null));
+    states.push(makeMove(state, move, skipRepetitionCheck));
+  }
+
+  // Each position's score from the side to move's point of view, and the
+  // engine's best move there
+  const scores: number[] = [];
+  const bestMoves: (ChessMove | null)[] = [];
+  const positions: PositionEvaluation[] = [];
+
+  for (let i = 0; i < states.length; i++) {
+    if (options.signal?.aborted) return null;
+
+    const state = states[i];
+    const sign = state.currentPlayer === 'white' ? 1 : -1;
+    let score = 0;
+    let best: ChessMove | null = null;
+    let line: string[] = [];
+    let depth = 0;
+
+    if (state.isCheckmate) {
+      score = -EVAL_CAP;
+    } else if (state.gamePhase !== 'ended') {
+      // A drawn position scores 0 and has no line
+      const info = await search(state, limits);
+      if (options.signal?.aborted) return null;
+      if (info) {
+        score = toCentipawns(info.score);
+        best = info.move;
+        line = lineToSAN(state.board, state.currentPlayer, info.pv.length > 0 ? info.pv : [info.move], state.enPassantTarget ?? null);
+        depth = info.depth;
+      }
+    }
+
+    scores.push(score);
+    bestMoves.push(best);
+    positions.push({ score: score * sign, line, depth });
+    options.onProgress?.(i + 1, states.length);
+  }
+
+  const moves: ReviewedMove[] = history.map((move, ply) => {
+    const before = scores[ply];
+    const after = -scores[ply + 1];
+    const best = bestMoves[ply];
+    const isEngineMove = best !== null && sameMove(best, move);
+    const centipawnLoss = isEngineMove ? 0 : Math.max(0, before - after);
+
+    return {
+      ply,
+      color: states[ply].currentPlayer,
+      san: sans[ply],
+      bestSan: positions[ply].line[0] ?? null,
+      bestLine: positions[ply].line,
+      evalBefore: positions[ply].score,
+      evalAfter: positions[ply + 1].score,
+      centipawnLoss,
+      classification: classifyMove(centipawnLoss, isEngineMove),
+      accuracy: isEngineMove ? 100 : moveAccuracy(before, before - centipawnLoss)
+    };
+  });
+
+  const endgameState = states.find(state => classifyEndgame(state.board) !== null);
+
+  return {
+    positions,
+    moves,
+    summary: {
+      white: summarize(moves.filter(move => move.color === 'white')),
+      black: summarize(moves.filter(move => move.color === 'black'))
+    },
+    // Games set up from another position never played an opening
+    openingType: serializePosition(states[0]) === STARTING_POSITION ? classifyOpening(history) : null,
+    endgameType: endgameState ? classifyEndgame(endgameState.board) : null
+  };
+}
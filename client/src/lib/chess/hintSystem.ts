@@ -1,72 +1,143 @@
 /**
  * Hint System for Wizard Chess
- * Provides intelligent hints for player moves using simplified AI evaluation
+ * Explains the engine's recommended move for the side to move
+ *
+ * Hints come from a search rather than from rules of thumb. The best line
+ * says what the move achieves: mate, material won along the line, a fork,
+ * a check or a promotion. The position before it says what the move has to
+ * answer: check, or a piece that is attacked by a cheaper piece or not
+ * defended at all. And the captures and checks a player is most tempted to
+ * play instead are searched too; the first that loses ground is shown with
+ * the reply that refutes it.
  */
 
-import { ChessPiece, Position, ChessMove, GameState } from './types';
-import { getAIMove } from './aiPlayer';
+import { ChessPiece, Position, ChessMove, GameState, PieceColor, PieceType } from './types';
+import { makeMove } from './gameEngine';
+import { AdvancedAIPlayer } from './advancedAI';
+import { lineToSAN, moveToSAN, squareName } from './notation';
+import { SearchInfo, SearchLimits, mateIn, scoreToCentipawns } from './searchEngine';
+import { createMove, generateLegalMoves, getOpponentColor, isSquareAttacked } from '@shared/chessRules';
+
+// A piece of the side to move that the opponent can win
+export interface HintThreat {
+  square: Position;
+  piece: ChessPiece;
+  // The cheapest enemy piece attacking it
+  attacker: Position;
+  attackerPiece: ChessPiece;
+  defended: boolean;
+  description: string;
+}
+
+// A tempting move that fails, and the reply that shows why
+export interface HintRefutation {
+  move: ChessMove;
+  san: string;
+  reply: ChessMove;
+  replySan: string;
+  description: string;
+}
 
 export interface HintInfo {
   from: Position;
   to: Position;
   piece: ChessPiece;
+  move: ChessMove;
+  san: string;
+  // Centipawns from the side to move's point of view
   score: number;
+  // Moves to mate, negative when the side to move is mated
+  mate: number | null;
+  // The engine's expected line, starting with the hint
+  line: string[];
+  // What the position demands: check, or the most valuable piece in danger
+  threat: HintThreat | null;
+  // What the move achieves
+  tactic: string;
+  refutation: HintRefutation | null;
   description: string;
   reasoning: string;
 }
 
+// Searches one position, like AdvancedAIPlayer.search or a SearchWorkerClient
+export type HintSearch = (gameState: GameState, limits: SearchLimits) => Promise<SearchInfo | null>;
+
+export interface HintOptions {
+  search?: HintSearch;
+  limits?: SearchLimits;
+  refutationLimits?: SearchLimits;
+}
+
+export const HINT_LIMITS: SearchLimits = { maxDepth: 6, timeLimitMs: 2000 };
+export const REFUTATION_LIMITS: SearchLimits = { maxDepth: 4, timeLimitMs: 500 };
+
+// Tempting moves searched for a refutation
+const MAX_TEMPTING_MOVES = 3;
+// Centipawns a tempting move must lose against the hint to count as refuted
+const REFUTATION_LOSS = 150;
+// Pawns a line must win to be described as winning material
+const MIN_MATERIAL_GAIN = 1;
+
+const PIECE_VALUES: Record<PieceType, number> = {
+  pawn: 1, knight: 3, bishop: 3, wizard: 3.5, rook: 5, queen: 9, king: 100
+};
+
+let defaultHinter: AdvancedAIPlayer | null = null;
+
+// Searches on the calling thread with a player kept for hints alone
+function searchHere(gameState: GameState, limits: SearchLimits): Promise<SearchInfo | null> {
+  defaultHinter ??= new AdvancedAIPlayer();
+  return Promise.resolve(defaultHinter.search(gameState, limits));
+}
+
+const pieceOn = (piece: ChessPiece, square: Position) => `${piece.type} on ${squareName(square)}`;
+
+const samePosition = (a: Position, b: Position) => a.row === b.row && a.col === b.col;
+
 class ChessHintSystem {
   /**
-   * Generate a hint for the current position
+   * A hint for the side to move, or null when the game is over or the
+   * search was cancelled.
    */
-  generateHint(
-    board: (ChessPiece | null)[][],
-    currentPlayer: 'white' | 'black',
-    moveHistory: ChessMove[]
-  ): HintInfo | null {
+  async generateHint(gameState: GameState, options: HintOptions = {}): Promise<HintInfo | null> {
+    if (gameState.gamePhase === 'ended') return null;
+
     try {
-      console.log('🎯 Generating hint for', currentPlayer);
-
-      // Create a game state for the AI to analyze
-      const gameState: GameState = {
-        board,
-        currentPlayer,
-        selectedPosition: null,
-        validMoves: [],
-        gamePhase: 'playing',
-        gameMode: 'ai',
-        aiDifficulty: 'hard',
-        moveHistory,
-        isInCheck: false,
-        isCheckmate: false,
-        isStalemate: false,
-        winner: null
-      };
+      const search = options.search ?? searchHere;
+      const info = await search(gameState, options.limits ?? HINT_LIMITS);
+      if (!info) return null;
 
-      // Use AI player to find the best move
-      const bestMove = getAIMove(gameState);
-      
-      if (!bestMove) {
-        console.log('❌ No valid moves found for hint');
-        return null;
-      }
+      const move = info.move;
+      const san = moveToSAN(gameState.board, move, gameState.enPassantTarget ?? null);
+      const score = scoreToCentipawns(info.score);
+      const mate = mateIn(info.score);
+      const threat = this.findThreats(gameState)[0] ?? null;
+      const tactic = this.describeTactic(gameState, info, san, threat);
+      const refutation = await this.findRefutation(gameState, info, search, options.refutationLimits ?? REFUTATION_LIMITS);
 
-      const piece = board[bestMove.from.row][bestMove.from.col];
-      if (!piece) {
-        console.log('❌ No piece found at hint position');
-        return null;
-      }
+      const reasoning = [
+        threat ? `⚠️ ${threat.description}.` : null,
+        `🎯 ${tactic}.`,
+        refutation ? `🚫 ${refutation.description}.` : null
+      ].filter(Boolean).join(' ');
 
       const hint: HintInfo = {
-        from: bestMove.from,
-        to: bestMove.to,
-        piece: piece,
-        score: 0, // Score not available from bestMove
-        description: this.generateHintDescription(bestMove, board),
-        reasoning: this.generateHintReasoning(bestMove, board)
+        from: move.from,
+        to: move.to,
+        piece: move.piece,
+        move,
+        san,
+        score,
+        mate,
+        line: lineToSAN(gameState.board, gameState.currentPlayer, info.pv.length > 0 ? info.pv : [move], gameState.enPassantTarget ?? null),
+        threat,
+        tactic,
+        refutation,
+        description: `Play ${san}: move your ${pieceOn(move.piece, move.from)} to ${squareName(move.to)}`,
+        reasoning
       };
 
-      console.log('💡 Generated hint:', hint);
+      console.log('💡 Generated hint:', { san, score, mate, threat: threat?.description, refutation: refutation?.san });
       return hint;
     } catch (error) {
       console.error('❌ Error generating hint:', error);
@@ -75,161 +146,191 @@ class ChessHintSystem {
   }
 
   /**
-   * Generate engaging, thematic description of the hint move
+   * Pieces of `color` the opponent could win right away, most valuable first:
+   * the king when in check, then pieces attacked by something cheaper or not
+   * defended at all.
    */
-  private generateHintDescription(move: ChessMove, board: (ChessPiece | null)[][]): string {
-    const piece = move.piece;
-    const fromSquare = this.positionToSquare(move.from);
-    const toSquare = this.positionToSquare(move.to);
-    
-    // Create more engaging descriptions based on piece type and action
-    if (move.isCastling) {
-      return '🏰 Shelter your king behind castle walls for protection';
-    }
-    
-    if (move.isWizardTeleport) {
-      if (move.captured) {
-        return `✨ Teleport your wizard to ${toSquare} and banish the enemy ${move.captured.type}!`;
-      }
-      return `✨ Teleport your wizard from ${fromSquare} to ${toSquare} using mystical powers`;
-    }
-    
-    if (move.isWizardAttack) {
-      return `⚡ Cast a magical spell to destroy the enemy ${move.captured?.type || 'piece'} at ${toSquare}`;
-    }
-    
-    // Regular moves with thematic descriptions
-    const pieceEmojis: { [key: string]: string } = {
-      king: '👑',
-      queen: '♕',
-      castle: '🏰', 
-      bishop: '⛪',
-      knight: '🐎',
-      pawn: '⚔️',
-      wizard: '🧙‍♂️'
-    };
-    
-    const emoji = pieceEmojis[piece.type] || '♟️';
-    
-    if (move.captured) {
-      return `${emoji} Command your ${piece.type} to charge from ${fromSquare} to ${toSquare} and capture the enemy ${move.captured.type}!`;
+  findThreats(gameState: GameState, color: PieceColor = gameState.currentPlayer): HintThreat[] {
+    const { board } = gameState;
+    const opponent = getOpponentColor(color);
+    // The opponent's captures as if it were their move
+    const captures = generateLegalMoves(board, opponent, null).filter(move => move.captured?.color === color);
+
+    const threats = new Map<string, HintThreat>();
+    for (const capture of captures) {
+      const square = capture.to;
+      const piece = board[square.row][square.col]!;
+      const existing = threats.get(squareName(square));
+      if (existing && PIECE_VALUES[existing.attackerPiece.type] <= PIECE_VALUES[capture.piece.type]) continue;
+
+      const defended = isSquareAttacked(board, square, color);
+      threats.set(squareName(square), {
+        square,
+        piece,
+        attacker: capture.from,
+        attackerPiece: capture.piece,
+        defended,
+        description: piece.type === 'king'
+          ? `Your king is in check from the ${pieceOn(capture.piece, capture.from)}`
+          : `Your ${pieceOn(piece, square)} is attacked by the ${pieceOn(capture.piece, capture.from)}${defended ? '' : " and isn't defended"}`
+      });
     }
-    
-    return `${emoji} Advance your ${piece.type} from ${fromSquare} to ${toSquare}`;
+
+    return Array.from(threats.values())
+      .filter(threat => threat.piece.type === 'king' || !threat.defended ||
+        PIECE_VALUES[threat.attackerPiece.type] < PIECE_VALUES[threat.piece.type])
+      .sort((a, b) => PIECE_VALUES[b.piece.type] - PIECE_VALUES[a.piece.type]);
   }
 
-  /**
-   * Generate engaging strategic reasoning for the hint
-   */
-  private generateHintReasoning(move: ChessMove, board: (ChessPiece | null)[][]): string {
-    const reasonings: string[] = [];
-    
-    // Check for captures with thematic language
-    if (move.captured) {
-      const capturedValue = this.getPieceValue(move.captured.type);
-      if (capturedValue >= 9) {
-        reasonings.push(`🎯 Eliminates a powerful enemy commander worth ${capturedValue} points!`);
-      } else if (capturedValue >= 5) {
-        reasonings.push(`⚔️ Destroys a valuable enemy unit worth ${capturedValue} points`);
-      } else {
-        reasonings.push(`💥 Removes an enemy ${move.captured.type} from the battlefield`);
-      }
+  // What the best line achieves, in one sentence
+  private describeTactic(gameState: GameState, info: SearchInfo, san: string, threat: HintThreat | null): string {
+    const move = info.move;
+    const mate = mateIn(info.score);
+    if (mate !== null && mate > 0) {
+      return mate === 1 ? `${san} is checkmate` : `${san} forces mate in ${mate}`;
     }
-    
-    // Check for threats with engaging descriptions
-    if (this.createsThreat(move, board)) {
-      reasonings.push('🔥 Puts enemy forces under pressure');
+    if (mate !== null) {
+      return `Every move gets mated, but ${san} holds out longest`;
     }
-    
-    // Check for defense
-    if (this.improvesDefense(move, board)) {
-      reasonings.push('🛡️ Strengthens your defensive formation');
-    }
-    
-    // Check for center control
-    if (this.improvesCenterControl(move)) {
-      reasonings.push('⭐ Dominates the strategic center of the battlefield');
+
+    const won = this.materialWon(gameState, info.pv.length > 0 ? info.pv : [move]);
+    if (won) {
+      return `${san} wins the ${pieceOn(won.piece, won.square)}`;
     }
-    
-    // Check for piece development
-    if (this.developsPiece(move, board)) {
-      reasonings.push('📈 Activates your piece for future attacks');
+    if (move.promotion) {
+      return `${san} promotes to a ${move.promotion}`;
     }
-    
-    // Check for king safety
-    if (this.improvesKingSafety(move, board)) {
-      reasonings.push('👑 Protects your royal commander');
+
+    const after = makeMove(gameState, move, true);
+    const targets = this.attackedFrom(after, move);
+    if (targets.length >= 2 || (after.isInCheck && targets.length >= 1)) {
+      const named = targets.slice(0, 2).map(target => `the ${pieceOn(target.piece, target.square)}`);
+      return after.isInCheck
+        ? `${san} checks the king and attacks ${named[0]}`
+        : `${san} attacks both ${named[0]} and ${named[1]}`;
     }
-    
-    // Wizard-specific reasoning with mystical flavor
-    if (move.isWizardTeleport) {
-      reasonings.push('✨ Harnesses mystical teleportation magic');
+    if (move.captured) {
+      return `${san} takes the ${pieceOn(move.captured, move.to)}`;
     }
-    
-    if (move.isWizardAttack) {
-      reasonings.push('⚡ Unleashes devastating ranged sorcery');
+    if (after.isInCheck) {
+      return `${san} gives check`;
     }
 
-    if (reasonings.length === 0) {
-      return '🧠 A strategically sound move that improves your position';
+    if (threat && threat.piece.type !== 'king') {
+      const stillThreatened = this.findThreats(after, gameState.currentPlayer)
+        .some(next => samePosition(next.square, samePosition(threat.square, move.from) ? move.to : threat.square));
+      if (!stillThreatened) {
+        return samePosition(threat.square, move.from)
+          ? `${san} takes your ${threat.piece.type} out of danger`
+          : `${san} defends your ${pieceOn(threat.piece, threat.square)}`;
+      }
+      return `${san} is stronger than saving your ${threat.piece.type}`;
     }
 
-    return reasonings.join(' • ');
+    const line = lineToSAN(gameState.board, gameState.currentPlayer, info.pv.slice(0, 4), gameState.enPassantTarget ?? null);
+    return `${san} is the engine's choice, expecting ${line.join(' ')}`;
   }
 
-  /**
-   * Get the tactical value of a piece for hint explanations
-   */
-  private getPieceValue(pieceType: string): number {
-    const values: { [key: string]: number } = {
-      pawn: 1,
-      knight: 3,
-      bishop: 3,
-      castle: 5,
-      wizard: 7,
-      queen: 9,
-      king: 100
-    };
-    return values[pieceType] || 1;
-  }
+  // The most valuable piece the side to move wins along `pv`, if the line
+  // gains material once the opponent has replied
+  private materialWon(gameState: GameState, pv: ChessMove[]): { piece: ChessPiece; square: Position } | null {
+    const mover = gameState.currentPlayer;
+    // A line ending on the mover's move leaves the opponent's recapture out
+    const line = pv.length > 1 && pv.length % 2 === 1 ? pv.slice(0, -1) : pv;
 
-  /**
-   * Convert position to chess square notation
-   */
-  private positionToSquare(pos: Position): string {
-    const files = 'abcdefghij'; // 10x10 board
-    return files[pos.col] + (10 - pos.row);
+    let state = gameState;
+    let gain = 0;
+    let best: { piece: ChessPiece; square: Position } | null = null;
+    for (const planned of line) {
+      const move = createMove(state.board, planned.from, planned.to, planned.promotion, state.enPassantTarget ?? null);
+      if (!move) break;
+      if (move.captured) {
+        const value = PIECE_VALUES[move.captured.type];
+        gain += move.piece.color === mover ? value : -value;
+        if (move.piece.color === mover && (!best || value > PIECE_VALUES[best.piece.type])) {
+          best = { piece: move.captured, square: move.to };
+        }
+      }
+      if (move.promotion) {
+        const value = PIECE_VALUES[move.promotion] - PIECE_VALUES.pawn;
+        gain += move.piece.color === mover ? value : -value;
+      }
+      state = makeMove(state, move, true);
+    }
+    return best && gain >= MIN_MATERIAL_GAIN ? best : null;
   }
 
-  // Simplified analysis methods for improved hints
-  private createsThreat(move: ChessMove, board: (ChessPiece | null)[][]): boolean {
-    // Simple threat detection - can be enhanced later
-    return false;
+  // Enemy pieces worth at least a knight that the moved piece attacks after `move`
+  private attackedFrom(after: GameState, move: ChessMove): { piece: ChessPiece; square: Position }[] {
+    // Wizards strike from where they stand, even after an attack
+    const square = move.isWizardAttack ? move.from : move.to;
+    return generateLegalMoves(after.board, move.piece.color, null)
+      .filter(next => samePosition(next.from, square) && next.captured && next.captured.type !== 'king')
+      .map(next => ({ piece: next.captured!, square: next.to }))
+      .filter(target => PIECE_VALUES[target.piece.type] >= PIECE_VALUES.knight)
+      .sort((a, b) => PIECE_VALUES[b.piece.type] - PIECE_VALUES[a.piece.type]);
   }
 
-  private improvesDefense(move: ChessMove, board: (ChessPiece | null)[][]): boolean {
-    // Simple defense detection - can be enhanced later
-    return false;
-  }
+  // Captures of the most valuable pieces come first, then checks and promotions
+  private temptingMoves(gameState: GameState, best: ChessMove): ChessMove[] {
+    const moves = generateLegalMoves(gameState.board, gameState.currentPlayer, gameState.enPassantTarget ?? null)
+      .filter(move => !(samePosition(move.from, best.from) && samePosition(move.to, best.to) && move.promotion === best.promotion));
 
-  private improvesCenterControl(move: ChessMove): boolean {
-    const centerSquares = [[4,4], [4,5], [5,4], [5,5]]; // Center of 10x10 board
-    return centerSquares.some(([row, col]) => 
-      move.to.row === row && move.to.col === col
-    );
+    const appeal = (move: ChessMove) => {
+      if (move.captured) return 100 + PIECE_VALUES[move.captured.type];
+      if (move.promotion) return 50;
+      return makeMove(gameState, move, true).isInCheck ? 10 : 0;
+    };
+    return moves
+      .map(move => ({ move, appeal: appeal(move) }))
+      .filter(candidate => candidate.appeal > 0)
+      .sort((a, b) => b.appeal - a.appeal)
+      .slice(0, MAX_TEMPTING_MOVES)
+      .map(candidate => candidate.move);
   }
 
-  private developsPiece(move: ChessMove, board: (ChessPiece | null)[][]): boolean {
-    // Check if piece is moving from back rank
-    const backRank = move.piece.color === 'white' ? 9 : 0;
-    return move.from.row === backRank;
-  }
+  private async findRefutation(
+    gameState: GameState,
+    info: SearchInfo,
+    search: HintSearch,
+    limits: SearchLimits
+  ): Promise<HintRefutation | null> {
+    const bestScore = scoreToCentipawns(info.score);
+    const bestMate = mateIn(info.score);
 
-  private improvesKingSafety(move: ChessMove, board: (ChessPiece | null)[][]): boolean {
-    // Simple king safety check - can be enhanced later
-    return move.isCastling || false;
+    for (const move of this.temptingMoves(gameState, info.move)) {
+      const after = makeMove(gameState, move, true);
+      if (after.gamePhase === 'ended') continue;
+
+      const answer = await search(after, limits);
+      if (!answer) return null;
+
+      // The answer is scored for the opponent
+      const replyMate = mateIn(answer.score);
+      const loses = (replyMate !== null && replyMate > 0) ||
+        (bestMate === null && bestScore + scoreToCentipawns(answer.score) >= REFUTATION_LOSS) ||
+        (bestMate !== null && bestMate > 0 && replyMate === null);
+      if (!loses) continue;
+
+      const san = moveToSAN(gameState.board, move, gameState.enPassantTarget ?? null);
+      const reply = answer.move;
+      const replySan = moveToSAN(after.board, reply, after.enPassantTarget ?? null);
+      let consequence: string;
+      if (replyMate !== null && replyMate > 0) {
+        consequence = replyMate === 1 ? 'which is checkmate' : `which mates in ${replyMate}`;
+      } else if (reply.captured) {
+        consequence = `taking the ${pieceOn(reply.captured, reply.to)}`;
+      } else if (bestMate !== null && bestMate > 0) {
+        consequence = 'and the mate is gone';
+      } else {
+        consequence = `leaving you ${((bestScore + scoreToCentipawns(answer.score)) / 100).toFixed(1)} pawns worse off`;
+      }
+
+      return { move, san, reply, replySan, description: `${san} looks tempting, but ${replySan} refutes it, ${consequence}` };
+    }
+    return null;
   }
 }
 
 // Export singleton instance
-export const hintSystem = new ChessHintSystem();
\ No newline at end of file
+export const hintSystem = new ChessHintSystem();
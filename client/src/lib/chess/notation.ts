@@ -0,0 +1,216 @@
+/**
+ * Algebraic Notation for Wizard Chess
+ * Generates and parses SAN-style move strings for the 10x10 board
+ *
+ * Files are a-j and ranks 1-10 (rank 1 is white's home row). Pieces are
+ * K, Q, R, B, N and W (wizard); pawn moves carry no letter. Wizards have two
+ * markers of their own because they never move and capture in one step:
+ *   W~f3   wizard teleports to the empty square f3
+ *   W*f3   wizard destroys the piece on f3 from range and stays put
+ * Everything else follows chess conventions: x for captures (en passant
+ * included, written like any pawn capture), =Q for promotion, O-O / O-O-O for
+ * castling, + for check and # for checkmate.
+ *
+ * Functions that look at legal moves take the position's en passant target
+ * (see shared/chessRules); leave it out when the last move wasn't a double step.
+ */
+
+import { ChessMove, ChessPiece, PieceColor, PieceType, Position } from './types';
+import {
+  BOARD_SIZE,
+  KINGSIDE_CASTLE_COL,
+  QUEENSIDE_CASTLE_COL,
+  applyMove,
+  generateLegalMoves,
+  getEnPassantTarget,
+  getGameStatus,
+  getOpponentColor,
+  validateMove,
+  type EnPassantTarget
+} from '@shared/chessRules';
+
+type Board = (ChessPiece | null)[][];
+
+const FILES = 'abcdefghij';
+
+const PIECE_LETTERS: Record<PieceType, string> = {
+  pawn: '',
+  knight: 'N',
+  bishop: 'B',
+  rook: 'R',
+  queen: 'Q',
+  king: 'K',
+  wizard: 'W'
+};
+
+const LETTER_PIECES: Record<string, PieceType> = {
+  N: 'knight',
+  B: 'bishop',
+  R: 'rook',
+  Q: 'queen',
+  K: 'king',
+  W: 'wizard'
+};
+
+export const WIZARD_TELEPORT_MARKER = '~';
+export const WIZARD_ATTACK_MARKER = '*';
+
+// Piece letter, optional disambiguation, capture/wizard marker, target square, promotion
+const SAN_PATTERN = /^([KQRBNW])?([a-j])?(10|[1-9])?([x*~])?([a-j])(10|[1-9])(?:=?([QWRBN]))?$/;
+
+export function squareName(pos: Position): string {
+  return `${FILES[pos.col]}${BOARD_SIZE - pos.row}`;
+}
+
+export function parseSquare(name: string): Position | null {
+  const match = /^([a-j])(10|[1-9])$/.exec(name);
+  if (!match) return null;
+  return { row: BOARD_SIZE - parseInt(match[2], 10), col: FILES.indexOf(match[1]) };
+}
+
+function isSameMove(a: ChessMove, b: ChessMove): boolean {
+  return a.from.row === b.from.row && a.from.col === b.from.col &&
+    a.to.row === b.to.row && a.to.col === b.to.col &&
+    (a.promotion || null) === (b.promotion || null);
+}
+
+// Other pieces of the same type that could also reach the target decide how
+// much of the origin square has to be written out
+function getDisambiguation(move: ChessMove, legalMoves: ChessMove[]): string {
+  const rivals = legalMoves.filter(other =>
+    other.piece.type === move.piece.type &&
+    other.to.row === move.to.row && other.to.col === move.to.col &&
+    (other.from.row !== move.from.row || other.from.col !== move.from.col)
+  );
+  if (rivals.length === 0) return '';
+
+  const file = FILES[move.from.col];
+  const rank = String(BOARD_SIZE - move.from.row);
+  if (!rivals.some(other => other.from.col === move.from.col)) return file;
+  if (!rivals.some(other => other.from.row === move.from.row)) return rank;
+  return file + rank;
+}
+
+function getCheckSuffix(board: Board, move: ChessMove): string {
+  const status = getGameStatus(applyMove(board, move), getOpponentColor(move.piece.color), getEnPassantTarget(move));
+  if (status.isCheckmate) return '#';
+  return status.isInCheck ? '+' : '';
+}
+
+/**
+ * SAN for a move played on `board` (the position before the move).
+ */
+export function moveToSAN(board: Board, move: ChessMove, enPassantTarget: EnPassantTarget = null): string {
+  if (move.isCastling) {
+    const castle = move.to.col === KINGSIDE_CASTLE_COL ? 'O-O' : 'O-O-O';
+    return castle + getCheckSuffix(board, move);
+  }
+
+  const target = squareName(move.to);
+  let san: string;
+
+  if (move.piece.type === 'pawn') {
+    san = move.captured ? `${FILES[move.from.col]}x${target}` : target;
+    if (move.promotion) {
+      san += `=${PIECE_LETTERS[move.promotion]}`;
+    }
+  } else {
+    const legalMoves = generateLegalMoves(board, move.piece.color, enPassantTarget);
+    let marker = move.captured ? 'x' : '';
+    if (move.isWizardAttack) marker = WIZARD_ATTACK_MARKER;
+    else if (move.isWizardTeleport) marker = WIZARD_TELEPORT_MARKER;
+
+    san = PIECE_LETTERS[move.piece.type] + getDisambiguation(move, legalMoves) + marker + target;
+  }
+
+  return san + getCheckSuffix(board, move);
+}
+
+/**
+ * SAN for a line of moves starting on `board` with `color` to move, such as
+ * a search's principal variation. Stops at the first move that isn't legal
+ * where it is played.
+ */
+export function lineToSAN(
+  board: Board,
+  color: PieceColor,
+  moves: Pick<ChessMove, 'from' | 'to' | 'promotion'>[],
+  enPassantTarget: EnPassantTarget = null
+): string[] {
+  const sans: string[] = [];
+  for (const { from, to, promotion } of moves) {
+    const validation = validateMove(board, color, { from, to, promotion }, enPassantTarget);
+    if (!validation.valid) break;
+    sans.push(moveToSAN(board, validation.move, enPassantTarget));
+    board = applyMove(board, validation.move);
+    enPassantTarget = getEnPassantTarget(validation.move);
+    color = getOpponentColor(color);
+  }
+  return sans;
+}
+
+/**
+ * Copy of `move` with its SAN filled in, for moves entering a game's history.
+ * Kept out of makeMove so AI search doesn't pay for notation on every node.
+ */
+export function withNotation(board: Board, move: ChessMove, enPassantTarget: EnPassantTarget = null): ChessMove {
+  return { ...move, notation: moveToSAN(board, move, enPassantTarget) };
+}
+
+/**
+ * Find the legal move for `color` described by `san`. Accepts the strict form
+ * produced by moveToSAN plus common variations: missing or extra check marks,
+ * annotation glyphs (!, ?), 0-0 castling, promotion without "=", and "x" or no
+ * marker for wizard moves. Throws if the move is malformed, illegal or ambiguous.
+ */
+export function parseSAN(
+  board: Board,
+  color: PieceColor,
+  san: string,
+  enPassantTarget: EnPassantTarget = null
+): ChessMove {
+  const cleaned = san.trim().replace(/[+#!?]+$/, '');
+  const legalMoves = generateLegalMoves(board, color, enPassantTarget);
+
+  const castle = cleaned.replace(/0/g, 'O');
+  if (castle === 'O-O' || castle === 'O-O-O') {
+    const col = castle === 'O-O' ? KINGSIDE_CASTLE_COL : QUEENSIDE_CASTLE_COL;
+    const move = legalMoves.find(m => m.isCastling && m.to.col === col);
+    if (!move) throw new Error(`Illegal move "${san}": ${color} cannot castle ${castle === 'O-O' ? 'kingside' : 'queenside'}`);
+    return move;
+  }
+
+  const match = SAN_PATTERN.exec(cleaned);
+  if (!match) throw new Error(`Malformed move "${san}"`);
+
+  const [, letter, fromFile, fromRank, marker, toFile, toRank, promotionLetter] = match;
+  const type: PieceType = letter ? LETTER_PIECES[letter] : 'pawn';
+  const to = { row: BOARD_SIZE - parseInt(toRank, 10), col: FILES.indexOf(toFile) };
+  const promotion = promotionLetter ? LETTER_PIECES[promotionLetter] : undefined;
+
+  if (type !== 'wizard' && (marker === WIZARD_ATTACK_MARKER || marker === WIZARD_TELEPORT_MARKER)) {
+    throw new Error(`Malformed move "${san}": "${marker}" is only used for wizard moves`);
+  }
+
+  const candidates = legalMoves.filter(move =>
+    move.piece.type === type &&
+    move.to.row === to.row && move.to.col === to.col &&
+    (!fromFile || move.from.col === FILES.indexOf(fromFile)) &&
+    (!fromRank || move.from.row === BOARD_SIZE - parseInt(fromRank, 10)) &&
+    (type !== 'pawn' || !move.promotion || move.promotion === (promotion || 'queen')) &&
+    (marker !== WIZARD_TELEPORT_MARKER || !!move.isWizardTeleport) &&
+    (marker !== WIZARD_ATTACK_MARKER || !!move.isWizardAttack) &&
+    (marker !== 'x' || !!move.captured)
+  );
+
+  if (candidates.length === 0) {
+    throw new Error(`Illegal move "${san}" for ${color}`);
+  }
+  // Promotions generate one move per piece; all other duplicates are real ambiguity
+  const distinct = candidates.filter((move, i) => candidates.findIndex(other => isSameMove(other, move)) === i);
+  if (distinct.length > 1) {
+    throw new Error(`Ambiguous move "${san}": ${distinct.length} ${type}s can reach ${squareName(to)}`);
+  }
+
+  return distinct[0];
+}
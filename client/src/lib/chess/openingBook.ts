@@ -0,0 +1,147 @@
+/**
+ * Opening Book
+ * Weighted book moves keyed by position hash
+ *
+ * Entries are keyed by the Zobrist key of the position (zobristKeyToString),
+ * so a book move is found however the game reached the position. Each entry
+ * lists the moves played there in coordinate form (e2e4, d9d10q) with the
+ * games they were seen in, the points the side to move scored with them and
+ * a weight: two per win plus one per draw, so moves that only lost never make
+ * the book.
+ *
+ * Each difficulty follows the book for a limited number of plies and picks
+ * among its moves with its own variety: at 0 it always plays the heaviest
+ * move, at 1 it picks in proportion to the weights, and in between it favours
+ * the heavier moves more strongly.
+ *
+ * Books are built by client/src/lib/ai/buildOpeningBook.ts. The shipped book
+ * stays empty until there are enough games for the start position to have
+ * several moves seen more than once; until then the AI searches from move one.
+ */
+
+import { AIDifficulty, ChessMove, GameState } from './types';
+import { PROMOTION_PIECES, validateMove } from '@shared/chessRules';
+import { computeZobristKey, zobristKeyToString } from './zobrist';
+import { parseSquare, squareName } from './notation';
+import { OPENING_BOOK_DATA } from './openingBookData';
+
+export const OPENING_BOOK_VERSION = 1;
+
+export interface BookMove {
+  // Coordinate form: from square, to square, promotion letter if any
+  move: string;
+  games: number;
+  score: number;
+  weight: number;
+}
+
+export interface OpeningBook {
+  version: number;
+  // Deepest ply the book was built to
+  maxPly: number;
+  // Games the book was built from
+  games: number;
+  entries: Record<string, BookMove[]>;
+}
+
+export interface BookSettings {
+  // Plies from the start of the game the book is followed for
+  maxPly: number;
+  // 0 = always the heaviest move, 1 = in proportion to weight
+  variety: number;
+}
+
+export const BOOK_SETTINGS: Record<AIDifficulty, BookSettings> = {
+  easy: { maxPly: 4, variety: 1 },
+  medium: { maxPly: 8, variety: 0.7 },
+  hard: { maxPly: 12, variety: 0.4 },
+  advanced: { maxPly: 16, variety: 0.15 }
+};
+
+const PROMOTION_LETTERS: Record<string, string> = { queen: 'q', rook: 'r', bishop: 'b', knight: 'n', wizard: 'w' };
+
+/**
+ * Book key of the position in `gameState`.
+ */
+export function bookKey(gameState: GameState): string {
+  return zobristKeyToString(computeZobristKey(gameState.board, gameState.currentPlayer, gameState.enPassantTarget ?? null));
+}
+
+/**
+ * Plies played since the start of the game, from the move counters (so a
+ * game set up from a position string counts from where that position is).
+ */
+export function bookPly(gameState: GameState): number {
+  return ((gameState.fullmoveNumber ?? 1) - 1) * 2 + (gameState.currentPlayer === 'black' ? 1 : 0);
+}
+
+/**
+ * Coordinate form of a move, as stored in the book.
+ */
+export function bookMoveName(move: Pick<ChessMove, 'from' | 'to' | 'promotion'>): string {
+  return squareName(move.from) + squareName(move.to) + (move.promotion ? PROMOTION_LETTERS[move.promotion] : '');
+}
+
+/**
+ * The legal move a book move names in `gameState`, or null if it doesn't
+ * name one (a corrupt book, or a hash collision).
+ */
+export function resolveBookMove(gameState: GameState, name: string): ChessMove | null {
+  const match = /^([a-j](?:10|[1-9]))([a-j](?:10|[1-9]))([qrbnw]?)$/.exec(name);
+  if (!match) return null;
+
+  const from = parseSquare(match[1]);
+  const to = parseSquare(match[2]);
+  const promotion = PROMOTION_PIECES.find(piece => PROMOTION_LETTERS[piece] === match[3]);
+  if (!from || !to) return null;
+
+  const validation = validateMove(gameState.board, gameState.currentPlayer, { from, to, promotion }, gameState.enPassantTarget ?? null);
+  return validation.valid ? validation.move : null;
+}
+
+/**
+ * Checks that `data` looks like a book of the current version.
+ */
+export function loadOpeningBook(data: unknown): OpeningBook {
+  const book = data as OpeningBook;
+  if (!book || typeof book !== 'object' || typeof book.entries !== 'object') {
+    throw new Error('Invalid opening book');
+  }
+  if (book.version !== OPENING_BOOK_VERSION) {
+    throw new Error(`Unsupported opening book version ${book.version} (expected ${OPENING_BOOK_VERSION})`);
+  }
+  return book;
+}
+
+/**
+ * A book move for the side to move, or null when the game is past the
+ * settings' depth or the position isn't in the book.
+ */
+export function probeBook(
+  book: OpeningBook,
+  gameState: GameState,
+  settings: BookSettings,
+  random: () => number = Math.random
+): ChessMove | null {
+  if (bookPly(gameState) >= settings.maxPly) return null;
+
+  const candidates = (book.entries[bookKey(gameState)] ?? [])
+    .map(entry => ({ entry, move: resolveBookMove(gameState, entry.move) }))
+    .filter((candidate): candidate is { entry: BookMove; move: ChessMove } => candidate.move !== null && candidate.entry.weight > 0);
+  if (candidates.length === 0) return null;
+
+  if (settings.variety <= 0) {
+    return candidates.reduce((best, candidate) => candidate.entry.weight > best.entry.weight ? candidate : best).move;
+  }
+
+  const weights = candidates.map(candidate => Math.pow(candidate.entry.weight, 1 / settings.variety));
+  let pick = random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let i = 0; i < candidates.length; i++) {
+    pick -= weights[i];
+    if (pick < 0) return candidates[i].move;
+  }
+  return candidates[candidates.length - 1].move;
+}
+
+// The book shipped with the game
+export const openingBook: OpeningBook = loadOpeningBook(OPENING_BOOK_DATA);
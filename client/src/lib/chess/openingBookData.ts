@@ -0,0 +1,104 @@
+/**
+ * Opening Book Data
+ * Generated by client/src/lib/ai/buildOpeningBook.ts from 300 games; do not edit by hand
+ */
+
+import type { OpeningBook } from './openingBook';
+
+export const OPENING_BOOK_DATA: OpeningBook = {
+  version: 1,
+  maxPly: 16,
+  games: 300,
+  entries: {
+    '0e4df7c44d59e44d': [{"move":"d7f5","games":2,"score":1,"weight":2}],
+    '0f0b250c546dddaf': [{"move":"d9d8","games":2,"score":2,"weight":4}],
+    '1471bb7920a122ec': [{"move":"e7e6","games":2,"score":1,"weight":2}],
+    '193c0f370ee501d7': [{"move":"a6a7","games":2,"score":1,"weight":2}],
+    '1b4d330936940fb0': [{"move":"f9f8","games":2,"score":1,"weight":2}],
+    '1f7014f757d17465': [{"move":"c2c3","games":2,"score":0.5,"weight":1}],
+    '237c1ebf46dda113': [{"move":"d4d5","games":2,"score":1,"weight":2}],
+    '23b3ecce971f79e2': [{"move":"e10d10","games":2,"score":2,"weight":4}],
+    '24013d7e147835fc': [{"move":"a4b4","games":2,"score":1,"weight":2}],
+    '2442f37a35074420': [{"move":"f6f5","games":2,"score":1,"weight":2}],
+    '25a3fdb4a746afc1': [{"move":"b4i4","games":2,"score":1,"weight":2}],
+    '25bb9a5f9ce4237e': [{"move":"i4h3","games":2,"score":2,"weight":4}],
+    '27979d19c3a5b66d': [{"move":"c3g7","games":2,"score":1,"weight":2}],
+    '32a46508c3a99359': [{"move":"e10c8","games":2,"score":1,"weight":2}],
+    '32ad645a4fa6d826': [{"move":"d9d8","games":2,"score":1,"weight":2}],
+    '3a1d31a59d8eac7f': [{"move":"h10i9","games":2,"score":1,"weight":2}],
+    '4352b0060b0b515f': [{"move":"i4g6","games":2,"score":1,"weight":2}],
+    '45483ce4179dd214': [{"move":"e10a6","games":2,"score":1,"weight":2}],
+    '458871142f7711d0': [{"move":"e10a6","games":2,"score":1.5,"weight":3}],
+    '479786fe5a744561': [{"move":"g7d4","games":2,"score":1,"weight":2}],
+    '49af0950c4b40436': [{"move":"c1h6","games":2,"score":1,"weight":2}],
+    '4a45cb238812b922': [{"move":"f5d7","games":2,"score":1,"weight":2}],
+    '4a4dfeed32497410': [{"move":"h2h3","games":2,"score":1,"weight":2}],
+    '4b3eaf5de405f90f': [{"move":"g7i9","games":2,"score":1,"weight":2}],
+    '4e34980a49eeaad0': [{"move":"a6a4","games":2,"score":1,"weight":2}],
+    '4ef4d5fa71046914': [{"move":"a6a4","games":2,"score":1.5,"weight":3}],
+    '4f24d386948d1e09': [{"move":"a6f6","games":2,"score":1.5,"weight":3}],
+    '50eeafd5f055681d': [{"move":"d7d4","games":2,"score":2,"weight":4}],
+    '51c8dbaa85631ae4': [{"move":"d4d3","games":2,"score":2,"weight":4}],
+    '5211515276f3bf72': [{"move":"e10b7","games":2,"score":2,"weight":4}],
+    '545f5d7fdcbe5dee': [{"move":"h2h3","games":2,"score":1,"weight":2}],
+    '54ce860766787e13': [{"move":"d7f9","games":2,"score":1,"weight":2}],
+    '5b6959131bb4ed57': [{"move":"b1c3","games":2,"score":1,"weight":2}],
+    '5b94b1c68169c017': [{"move":"d9d8","games":2,"score":1,"weight":2}],
+    '5d401394e5fc78a1': [{"move":"h5j7","games":2,"score":1,"weight":2}],
+    '61586bcabfc43559': [{"move":"d7d6","games":2,"score":0.5,"weight":1}],
+    '616a3324195028e3': [{"move":"e1c3","games":2,"score":1,"weight":2}],
+    '6198263a872ef69d': [{"move":"d7b7","games":2,"score":1,"weight":2}],
+    '61b2513ee2484261': [{"move":"c10f7","games":2,"score":1,"weight":2}],
+    '6a3a4a49a7b9b12a': [{"move":"g10g8","games":2,"score":1.5,"weight":3}],
+    '729002d75814e6d9': [{"move":"d7f9","games":2,"score":0.5,"weight":1}],
+    '7fde7992ceead49f': [{"move":"g2g3","games":2,"score":1,"weight":2}],
+    '83ffa46a625010a0': [{"move":"c8a7","games":2,"score":1,"weight":2}],
+    '85475bf66a9c2196': [{"move":"d9d8","games":2,"score":1,"weight":2}],
+    '85c87cf174c91310': [{"move":"j2j3","games":14,"score":10,"weight":20},{"move":"a2a4","games":15,"score":9,"weight":18},{"move":"c2c3","games":14,"score":8,"weight":16},{"move":"g1i3","games":12,"score":8,"weight":16},{"move":"f2f4","games":13,"score":7.5,"weight":15},{"move":"g2g3","games":11,"score":7,"weight":14},{"move":"i1h3","games":10,"score":7,"weight":14},{"move":"i2i3","games":11,"score":7,"weight":14},{"move":"a2a3","games":11,"score":6.5,"weight":13},{"move":"e2e3","games":10,"score":6.5,"weight":13},{"move":"g1e3","games":8,"score":6.5,"weight":13},{"move":"b2b3","games":11,"score":6,"weight":12},{"move":"i1j3","games":8,"score":6,"weight":12},{"move":"e2e4","games":11,"score":5,"weight":10},{"move":"j2j4","games":15,"score":5,"weight":10},{"move":"b1a3","games":11,"score":4.5,"weight":9},{"move":"c2c4","games":7,"score":4.5,"weight":9},{"move":"d1d3","games":12,"score":4.5,"weight":9},{"move":"d2d4","games":12,"score":4.5,"weight":9},{"move":"f2f3","games":9,"score":4.5,"weight":9},{"move":"g1g3","games":8,"score":4.5,"weight":9},{"move":"h2h3","games":8,"score":4.5,"weight":9},{"move":"b2b4","games":8,"score":4,"weight":8},{"move":"h2h4","games":11,"score":4,"weight":8},{"move":"i2i4","games":6,"score":4,"weight":8},{"move":"d1f3","games":9,"score":3.5,"weight":7},{"move":"b1c3","games":7,"score":3,"weight":6},{"move":"d1b3","games":7,"score":3,"weight":6},{"move":"g2g4","games":4,"score":3,"weight":6},{"move":"d2d3","games":7,"score":2,"weight":4}],
+    '8750d7233b5d24af': [{"move":"f5g4","games":2,"score":1,"weight":2}],
+    '8f39dfba8a40ee42': [{"move":"c10f7","games":2,"score":1,"weight":2}],
+    '927f8320f99e4b94': [{"move":"g5g7","games":2,"score":1,"weight":2}],
+    '936873e6415557ed': [{"move":"c10i4","games":2,"score":2,"weight":4}],
+    '945a6923aeb142a3': [{"move":"c10h5","games":2,"score":1.5,"weight":3}],
+    '977ce3602f41e5b7': [{"move":"c1h6","games":2,"score":1,"weight":2}],
+    '9b74dc65e50b2d10': [{"move":"d9d8","games":2,"score":2,"weight":4}],
+    '9c926f4be6188601': [{"move":"a4a6","games":2,"score":1.5,"weight":3}],
+    '9d4269370391f11c': [{"move":"g9g7","games":2,"score":1.5,"weight":3}],
+    '9da853c35e1d8624': [{"move":"d7d6","games":2,"score":1,"weight":2}],
+    '9e152917e5a2d406': [{"move":"g7f6","games":2,"score":1,"weight":2}],
+    '9f26cdcdf0c23a67': [{"move":"e10a6","games":2,"score":1.5,"weight":3}],
+    'a83ebe0e87a1cd6e': [{"move":"d7f9","games":2,"score":0.5,"weight":1}],
+    'a8fef3febf4b0eaa': [{"move":"d7f9","games":2,"score":1,"weight":2}],
+    'b0ad3acf44bc3809': [{"move":"c3c9","games":2,"score":1,"weight":2}],
+    'b204edf390ddda69': [{"move":"a6a4","games":2,"score":1,"weight":2}],
+    'b33ed17b28d8da4c': [{"move":"d6d7","games":2,"score":0.5,"weight":1}],
+    'b5e2d79773bc4174': [{"move":"b1c3","games":2,"score":1,"weight":2}],
+    'b675beda5121c99b': [{"move":"f5d7","games":2,"score":1,"weight":2}],
+    'b6b5f32a69cb0a5f': [{"move":"f5d7","games":2,"score":0.5,"weight":1}],
+    'b706ec966a377984': [{"move":"d6c6","games":2,"score":1,"weight":2}],
+    'b978491dceaea2ad': [{"move":"e10a6","games":2,"score":1,"weight":2}],
+    'bca899de67a7a256': [{"move":"f6d6","games":2,"score":1,"weight":2}],
+    'be54cf7c908ed9e2': [{"move":"b2b3","games":2,"score":0.5,"weight":1}],
+    'bfb9d914f2a5c962': [{"move":"e1c3","games":2,"score":1,"weight":2}],
+    'c3b9c786b0c6b13a': [{"move":"d4e5","games":2,"score":2,"weight":4}],
+    'ca8ab3fa7c7099df': [{"move":"a4a6","games":2,"score":1,"weight":2}],
+    'ce5d5c53ae7f6b5b': [{"move":"d9d8","games":2,"score":1.5,"weight":3}],
+    'ce9d11a39695a89f': [{"move":"d9d8","games":2,"score":1,"weight":2}],
+    'd2f76ae6ac21ff82': [{"move":"d10f8","games":2,"score":1.5,"weight":3}],
+    'd483d7861695482a': [{"move":"b7d7","games":2,"score":2,"weight":4}],
+    'd78fcba6eff9120a': [{"move":"f2f3","games":2,"score":0.5,"weight":1}],
+    'e5260dcab2b0c592': [{"move":"d6d7","games":2,"score":1,"weight":2}],
+    'eaf6b176af58d1b3': [{"move":"e8h5","games":2,"score":1,"weight":2}],
+    'eb326c10d5482713': [{"move":"d6d4","games":2,"score":2,"weight":4}],
+    'ec778f38285c72d8': [{"move":"f9f8","games":2,"score":1,"weight":2}],
+    'f38284568148b52a': [{"move":"b10c8","games":2,"score":1,"weight":2}],
+    'f3c127248aecc7e8': [{"move":"d4b4","games":2,"score":2,"weight":4}],
+    'f3e13d8702357e64': [{"move":"e10e8","games":2,"score":1,"weight":2}],
+    'f8646f378e1594ba': [{"move":"d4e5","games":2,"score":1,"weight":2}],
+    'fa91194adef2a5a1': [{"move":"f6f5","games":2,"score":1,"weight":2}],
+    'fd0e0d7825aa7808': [{"move":"b4d6","games":2,"score":2,"weight":4}],
+    'fd7075fa0be5ffc2': [{"move":"a7c5","games":2,"score":1,"weight":2}],
+    'fdaff48fad284092': [{"move":"d4d5","games":2,"score":1,"weight":2}],
+    'ff7407cea017163c': [{"move":"d4f2","games":2,"score":2,"weight":4}]
+  }
+};
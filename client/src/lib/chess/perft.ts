@@ -0,0 +1,169 @@
+/**
+ * Perft for Wizard Chess
+ * Counts the leaf nodes of the legal move tree to a fixed depth
+ *
+ * Perft numbers pin move generation down exactly: any change to what counts
+ * as a legal move (a wizard that can suddenly be blocked, castling allowed
+ * through an attacked square, a missing promotion piece) changes a count.
+ * PERFT_POSITIONS holds known-good counts for the starting position and for
+ * positions that exercise the rules most likely to break. The counts were
+ * produced by the search board and confirmed against the shared rules engine.
+ *
+ * Run headless with: npx tsx client/src/lib/chess/runPerft.ts [depth] [position]
+ */
+
+import { ChessPiece, PieceColor } from './types';
+import {
+  BOARD_SIZE,
+  applyMove,
+  generateLegalMoves,
+  getEnPassantTarget,
+  getOpponentColor,
+  type EnPassantTarget
+} from '@shared/chessRules';
+import { SearchBoard, SearchMove, moveFrom, moveTo, movePromotionType } from './searchBoard';
+import { squareName } from './notation';
+import { STARTING_POSITION } from './positionNotation';
+
+export interface PerftPosition {
+  name: string;
+  description: string;
+  position: string;
+  /** Leaf counts for depth 1, 2, 3, ... */
+  nodes: number[];
+}
+
+export const PERFT_POSITIONS: PerftPosition[] = [
+  {
+    name: 'starting position',
+    description: 'The canonical 10x10 layout',
+    position: STARTING_POSITION,
+    nodes: [30, 900, 30026, 1000731]
+  },
+  {
+    name: 'opening with wizards out',
+    description: 'Both sides have teleported a wizard and developed a knight',
+    position: 'r1bwqk1bnr/ppppp1pppp/2n3w3/5p4/10/10/4P5/3W3N2/PPPP1PPPPP/RNB1QKWB1R w KQkq - 4 4',
+    nodes: [42, 1722, 75150]
+  },
+  {
+    name: 'wizard attacks through pieces',
+    description: 'A wizard walled in by its own pawns still strikes the knight, bishop and rook two squares away',
+    position: '4k5/10/10/4n5/3PPP4/2bPWP4/3PPP4/6r3/10/4K5 w - - 0 1',
+    nodes: [18, 597, 10868, 330560]
+  },
+  {
+    name: 'castling through attacked squares',
+    description: 'A bishop covers e1 and a wizard covers g1 from i3, so neither castle is legal',
+    position: 'r4k3r/10/10/10/10/b9/10/8w1/10/R4K3R w KQkq - 0 1',
+    nodes: [23, 1004, 26100]
+  },
+  {
+    name: 'castling out of check',
+    description: 'The king is checked on the f-file with both castling rights intact',
+    position: '5k4/10/10/10/10/5r4/10/10/10/R4K3R w KQ - 0 1',
+    nodes: [4, 88, 2728, 56946]
+  },
+  {
+    name: 'white promotions',
+    description: 'Promotion by push or by capture, to each of the five promotion pieces',
+    position: '2r3k3/3P6/10/10/10/10/10/10/10/5K4 w - - 0 1',
+    nodes: [15, 173, 2231, 34712]
+  },
+  {
+    name: 'black promotions',
+    description: 'Black promotes on h1 by push or by capturing on i1',
+    position: '2r3k3/3P6/10/10/10/10/10/10/7p2/1R3K2N1 b - - 0 1',
+    nodes: [29, 608, 15403]
+  },
+  {
+    name: 'en passant',
+    description: 'White has just played d2-d4 next to the e4 pawn',
+    position: 'r4k3r/pppp1ppppp/10/10/10/10/3Pp5/10/PPP1PPPPPP/R4K3R b KQkq d3 0 1',
+    nodes: [32, 930, 28648]
+  },
+  {
+    name: 'en passant exposing the king',
+    description: 'Taking en passant would clear the fourth rank between the black king and the white rook',
+    position: '10/10/10/10/10/10/k2Pp3R1/10/10/5K4 b - d3 0 1',
+    nodes: [6, 119, 822, 17288]
+  },
+  {
+    name: 'pinned knight',
+    description: 'The e2 knight is pinned to its king by the e6 rook',
+    position: '4k5/10/10/10/4r5/10/10/10/4N5/4K5 w - - 0 1',
+    nodes: [4, 84, 874, 19684]
+  },
+  {
+    name: 'wizard check through a pawn',
+    description: 'A wizard checks over the e2 pawn, which cannot block it; dxe3 is the only capture',
+    position: '4k5/10/10/10/10/10/10/4w5/3PP5/4K5 w - - 0 1',
+    nodes: [3, 47, 221, 3882]
+  }
+];
+
+/**
+ * Leaf nodes `depth` plies below the current position.
+ */
+export function perft(position: SearchBoard, depth: number): number {
+  if (depth === 0) return 1;
+
+  const moves = position.generateMoves();
+  if (depth === 1) return moves.length;
+
+  let nodes = 0;
+  for (const move of moves) {
+    position.makeMove(move);
+    nodes += perft(position, depth - 1);
+    position.unmakeMove();
+  }
+  return nodes;
+}
+
+/**
+ * Coordinate form of a search move (e9e7, d9d10q), as used in divide output.
+ */
+export function moveToCoordinates(move: SearchMove): string {
+  const toSquare = (square: number) => squareName({ row: Math.floor(square / BOARD_SIZE), col: square % BOARD_SIZE });
+  const promotion = movePromotionType(move);
+  const letter = !promotion ? '' : promotion === 'knight' ? 'n' : promotion[0];
+  return toSquare(moveFrom(move)) + toSquare(moveTo(move)) + letter;
+}
+
+/**
+ * Perft split by first move, sorted by move. Comparing two divides shows
+ * which move's subtree disagrees.
+ */
+export function divide(position: SearchBoard, depth: number): { move: string; nodes: number }[] {
+  return position.generateMoves()
+    .map(move => {
+      const name = moveToCoordinates(move);
+      position.makeMove(move);
+      const nodes = perft(position, depth - 1);
+      position.unmakeMove();
+      return { move: name, nodes };
+    })
+    .sort((a, b) => a.move.localeCompare(b.move));
+}
+
+/**
+ * Perft using the shared rules engine (immutable boards). Much slower; used to
+ * confirm the search board's counts.
+ */
+export function referencePerft(
+  board: (ChessPiece | null)[][],
+  color: PieceColor,
+  enPassantTarget: EnPassantTarget,
+  depth: number
+): number {
+  if (depth === 0) return 1;
+
+  const moves = generateLegalMoves(board, color, enPassantTarget);
+  if (depth === 1) return moves.length;
+
+  let nodes = 0;
+  for (const move of moves) {
+    nodes += referencePerft(applyMove(board, move), getOpponentColor(color), getEnPassantTarget(move), depth - 1);
+  }
+  return nodes;
+}
@@ -0,0 +1,321 @@
+/**
+ * Wizard Chess Position Notation
+ * FEN-style text notation for 10x10 wizard chess positions
+ *
+ *   rnbwqkwbnr/pppppppppp/10/10/10/10/10/10/PPPPPPPPPP/RNBWQKWBNR w KQkq - 0 1
+ *
+ * Fields, separated by single spaces:
+ *   1. Piece placement from rank 10 (black's home) down to rank 1, files a-j.
+ *      Letters are p, n, b, r, q, k and w (wizard); uppercase is white.
+ *      Runs of empty squares are written as a number from 1 to 10.
+ *   2. Side to move: w or b.
+ *   3. Castling rights: any of K, Q, k, q (K = white kingside, toward the
+ *      j-file rook), or - when neither side can castle.
+ *   4. En passant target: the square a pawn just skipped with a double step
+ *      (e.g. e8 after black plays e9-e7), or - if the last move wasn't one.
+ *   5. Halfmove clock: plies since the last pawn move or capture.
+ *   6. Fullmove number: starts at 1 and increments after black moves.
+ *
+ * Positions written before the en passant field existed (five fields) are
+ * still accepted and read as having no en passant target.
+ */
+
+import { ChessPiece, GameState, PieceColor, PieceType, GameMode, AIDifficulty, DrawReason } from './types';
+import { createInitialGameState } from './gameEngine';
+import { getDrawReason, getPositionKey } from '@shared/drawRules';
+import { BOARD_SIZE, KING_START_COL, getGameStatus, getHomeRow, type EnPassantTarget } from '@shared/chessRules';
+import { parseSquare, squareName } from './notation';
+
+export const STARTING_POSITION = 'rnbwqkwbnr/pppppppppp/10/10/10/10/10/10/PPPPPPPPPP/RNBWQKWBNR w KQkq - 0 1';
+
+const PIECE_LETTERS: Record<PieceType, string> = {
+  pawn: 'p',
+  knight: 'n',
+  bishop: 'b',
+  rook: 'r',
+  queen: 'q',
+  king: 'k',
+  wizard: 'w'
+};
+
+const LETTER_PIECES: Record<string, PieceType> = Object.fromEntries(
+  Object.entries(PIECE_LETTERS).map(([type, letter]) => [letter, type as PieceType])
+);
+
+export interface CastlingRights {
+  whiteKingside: boolean;
+  whiteQueenside: boolean;
+  blackKingside: boolean;
+  blackQueenside: boolean;
+}
+
+function pieceToLetter(piece: ChessPiece): string {
+  const letter = PIECE_LETTERS[piece.type];
+  return piece.color === 'white' ? letter.toUpperCase() : letter;
+}
+
+function isUnmoved(piece: ChessPiece | null, type: PieceType, color: PieceColor): boolean {
+  return !!piece && piece.type === type && piece.color === color && !piece.hasMoved;
+}
+
+/**
+ * Castling rights implied by the board: the king and the relevant corner rook
+ * must both still be on their starting squares without having moved.
+ */
+export function getCastlingRights(board: (ChessPiece | null)[][]): CastlingRights {
+  const rightsFor = (color: PieceColor) => {
+    const row = getHomeRow(color);
+    const kingReady = isUnmoved(board[row][KING_START_COL], 'king', color);
+    return {
+      kingside: kingReady && isUnmoved(board[row][BOARD_SIZE - 1], 'rook', color),
+      queenside: kingReady && isUnmoved(board[row][0], 'rook', color)
+    };
+  };
+
+  const white = rightsFor('white');
+  const black = rightsFor('black');
+  return {
+    whiteKingside: white.kingside,
+    whiteQueenside: white.queenside,
+    blackKingside: black.kingside,
+    blackQueenside: black.queenside
+  };
+}
+
+export function serializeCastlingRights(rights: CastlingRights): string {
+  const field =
+    (rights.whiteKingside ? 'K' : '') +
+    (rights.whiteQueenside ? 'Q' : '') +
+    (rights.blackKingside ? 'k' : '') +
+    (rights.blackQueenside ? 'q' : '');
+  return field || '-';
+}
+
+export function serializePlacement(board: (ChessPiece | null)[][]): string {
+  return board.map(row => {
+    let rank = '';
+    let empty = 0;
+    for (const square of row) {
+      if (!square) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) {
+        rank += empty;
+        empty = 0;
+      }
+      rank += pieceToLetter(square);
+    }
+    return empty > 0 ? rank + empty : rank;
+  }).join('/');
+}
+
+// Games that didn't track the counters (older saves, AI snapshots) derive them
+// from the move history instead
+function deriveHalfmoveClock(gameState: GameState): number {
+  let clock = 0;
+  for (const move of gameState.moveHistory) {
+    clock = move.piece.type === 'pawn' || move.captured ? 0 : clock + 1;
+  }
+  return clock;
+}
+
+/**
+ * Serialize a game state to position notation.
+ */
+export function serializePosition(gameState: GameState): string {
+  const placement = serializePlacement(gameState.board);
+  const sideToMove = gameState.currentPlayer === 'white' ? 'w' : 'b';
+  const castling = serializeCastlingRights(getCastlingRights(gameState.board));
+  const enPassant = gameState.enPassantTarget ? squareName(gameState.enPassantTarget) : '-';
+  const halfmoveClock = gameState.halfmoveClock ?? deriveHalfmoveClock(gameState);
+  const fullmoveNumber = gameState.fullmoveNumber ?? Math.floor(gameState.moveHistory.length / 2) + 1;
+
+  return `${placement} ${sideToMove} ${castling} ${enPassant} ${halfmoveClock} ${fullmoveNumber}`;
+}
+
+function parsePlacement(placement: string): (ChessPiece | null)[][] {
+  const ranks = placement.split('/');
+  if (ranks.length !== BOARD_SIZE) {
+    throw new Error(`Position must have ${BOARD_SIZE} ranks, found ${ranks.length}`);
+  }
+
+  return ranks.map((rank, row) => {
+    const squares: (ChessPiece | null)[] = [];
+    // Multi-digit runs ("10") are read greedily
+    const tokens = rank.match(/\d+|[a-zA-Z]|./g) || [];
+
+    for (const token of tokens) {
+      if (/^\d+$/.test(token)) {
+        const count = parseInt(token, 10);
+        if (count < 1 || count > BOARD_SIZE) {
+          throw new Error(`Invalid empty-square count "${token}" on rank ${BOARD_SIZE - row}`);
+        }
+        for (let i = 0; i < count; i++) squares.push(null);
+        continue;
+      }
+
+      const type = LETTER_PIECES[token.toLowerCase()];
+      if (!type) {
+        throw new Error(`Unknown piece letter "${token}" on rank ${BOARD_SIZE - row}`);
+      }
+      const color: PieceColor = token === token.toUpperCase() ? 'white' : 'black';
+      const col = squares.length;
+      squares.push({
+        type,
+        color,
+        id: `${color === 'white' ? 'w' : 'b'}-${type}-${row}-${col}`,
+        hasMoved: false
+      });
+    }
+
+    if (squares.length !== BOARD_SIZE) {
+      throw new Error(`Rank ${BOARD_SIZE - row} describes ${squares.length} squares, expected ${BOARD_SIZE}`);
+    }
+    return squares;
+  });
+}
+
+// hasMoved is how the rules engine tracks castling rights and pawn double steps,
+// so rebuild it from the castling field and pawn ranks
+function applyMovedFlags(board: (ChessPiece | null)[][], castling: string): void {
+  if (!/^(-|K?Q?k?q?)$/.test(castling) || castling === '') {
+    throw new Error(`Invalid castling rights "${castling}"`);
+  }
+
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+
+      if (piece.type === 'pawn') {
+        piece.hasMoved = row !== (piece.color === 'white' ? BOARD_SIZE - 2 : 1);
+      } else if (piece.type === 'king' || piece.type === 'rook') {
+        piece.hasMoved = true;
+      }
+    }
+  }
+
+  const sides: { color: PieceColor; kingside: string; queenside: string }[] = [
+    { color: 'white', kingside: 'K', queenside: 'Q' },
+    { color: 'black', kingside: 'k', queenside: 'q' }
+  ];
+
+  for (const { color, kingside, queenside } of sides) {
+    const row = getHomeRow(color);
+    const corners = [
+      { right: kingside, col: BOARD_SIZE - 1 },
+      { right: queenside, col: 0 }
+    ];
+
+    for (const { right, col } of corners) {
+      if (!castling.includes(right)) continue;
+
+      const king = board[row][KING_START_COL];
+      const rook = board[row][col];
+      if (king?.type !== 'king' || king.color !== color || rook?.type !== 'rook' || rook.color !== color) {
+        throw new Error(`Castling right "${right}" needs the ${color} king and rook on their starting squares`);
+      }
+      king.hasMoved = false;
+      rook.hasMoved = false;
+    }
+  }
+}
+
+// The target must be a skipped square: on the double-stepping side's third
+// rank, empty, with that side's pawn directly in front of it
+function parseEnPassantTarget(board: (ChessPiece | null)[][], field: string, sideToMove: PieceColor): EnPassantTarget {
+  if (field === '-') return null;
+
+  const target = parseSquare(field);
+  const mover: PieceColor = sideToMove === 'white' ? 'black' : 'white';
+  const skippedRow = mover === 'white' ? BOARD_SIZE - 3 : 2;
+  const pawnRow = mover === 'white' ? BOARD_SIZE - 4 : 3;
+  const pawn = target ? board[pawnRow][target.col] : null;
+
+  if (!target || target.row !== skippedRow || board[target.row][target.col] ||
+      pawn?.type !== 'pawn' || pawn.color !== mover) {
+    throw new Error(`Invalid en passant target "${field}"`);
+  }
+  return target;
+}
+
+function parseCounter(value: string, name: string, min: number): number {
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < min) {
+    throw new Error(`Invalid ${name} "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Parse position notation into a fresh game state. Throws with a description
+ * of the first problem found if the notation is malformed or the position
+ * can't be played (missing kings, pawns on a back rank, side not to move
+ * already in check).
+ */
+export function parsePosition(
+  notation: string,
+  mode: GameMode = 'local',
+  aiDifficulty: AIDifficulty = 'medium'
+): GameState {
+  const fields = notation.trim().split(/\s+/);
+  if (fields.length === 5) {
+    fields.splice(3, 0, '-');
+  }
+  if (fields.length !== 6) {
+    throw new Error(`Position needs 6 fields (placement, side, castling, en passant, halfmove clock, fullmove number), found ${fields.length}`);
+  }
+
+  const [placement, side, castling, enPassant, halfmove, fullmove] = fields;
+  const board = parsePlacement(placement);
+
+  if (side !== 'w' && side !== 'b') {
+    throw new Error(`Invalid side to move "${side}"`);
+  }
+  const currentPlayer: PieceColor = side === 'w' ? 'white' : 'black';
+
+  applyMovedFlags(board, castling);
+  const enPassantTarget = parseEnPassantTarget(board, enPassant, currentPlayer);
+
+  for (const color of ['white', 'black'] as PieceColor[]) {
+    const kings = board.flat().filter(piece => piece?.type === 'king' && piece.color === color).length;
+    if (kings !== 1) {
+      throw new Error(`Position must have exactly one ${color} king, found ${kings}`);
+    }
+  }
+
+  // Pawns promote on reaching the far rank and can never stand on their own
+  const backRankPawn = [0, BOARD_SIZE - 1].find(row => board[row].some(piece => piece?.type === 'pawn'));
+  if (backRankPawn !== undefined) {
+    throw new Error(`Pawns can't stand on rank ${BOARD_SIZE - backRankPawn}`);
+  }
+
+  const opponent: PieceColor = currentPlayer === 'white' ? 'black' : 'white';
+  if (getGameStatus(board, opponent).isInCheck) {
+    throw new Error(`The ${opponent} king is in check but it is ${currentPlayer} to move`);
+  }
+
+  const { isInCheck, isCheckmate, isStalemate } = getGameStatus(board, currentPlayer, enPassantTarget);
+  const halfmoveClock = parseCounter(halfmove, 'halfmove clock', 0);
+  const positionHistory = [getPositionKey(board, currentPlayer, enPassantTarget)];
+  const drawReason: DrawReason | null = isCheckmate ? null
+    : isStalemate ? 'stalemate'
+    : getDrawReason({ board, halfmoveClock, positionHistory });
+
+  return {
+    ...createInitialGameState(mode, aiDifficulty),
+    board,
+    currentPlayer,
+    isInCheck,
+    isCheckmate,
+    isStalemate,
+    drawReason,
+    gamePhase: isCheckmate || drawReason ? 'ended' : 'playing',
+    winner: isCheckmate ? opponent : null,
+    enPassantTarget,
+    halfmoveClock,
+    fullmoveNumber: parseCounter(fullmove, 'fullmove number', 1),
+    positionHistory,
+    startPosition: notation.trim()
+  };
+}
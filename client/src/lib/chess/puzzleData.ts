@@ -0,0 +1,29 @@
+/**
+ * Puzzle Data
+ * Generated by client/src/lib/ai/buildPuzzles.ts (20 puzzles); do not edit by hand
+ */
+
+import type { Puzzle } from './puzzles';
+
+export const PUZZLE_DATA: Puzzle[] = [
+  {"id":"07cb47226acd6598","position":"rn8/ppp1kw4/3p1pp3/4p4p/5Q4/3P3b2/6w3/2NWB5/PPP2P2PP/R3K5 b - - 0 37","solution":["e7f6"],"themes":["material"],"rating":950},
+  {"id":"13c9df8affca8415","position":"rnbw1k3r/ppp1ppnppp/8w1/7p2/5W4/10/3P1b4/10/PPP1PPP1PP/RN1W1K1BNR w KQkq - 0 11","solution":["f6f4"],"themes":["material","wizardAttack"],"rating":950},
+  {"id":"1b3e8ae0318c06f0","position":"rn1w1k1bnr/ppp1ppppp1/3p6/7w1p/6B3/10/3P6/6P1W1/PPP1PP1PPP/RNBW1K2NR b KQkq - 0 9","solution":["h7g6"],"themes":["material","wizardAttack"],"rating":950},
+  {"id":"296dcc272b8a7791","position":"rnbw1k1bnr/ppp1ppppp1/3p6/1q5w1p/10/3B6/3P6/6P1W1/PPP1PP1PPP/RNBW1K2NR w KQkq - 0 7","solution":["d5b7"],"themes":["material"],"rating":950},
+  {"id":"5002581144c1772a","position":"2w2k1bnr/B3p2ppp/p9/3W2p3/10/10/10/2N6P/PPP1PK1Pw1/R6WNR b k - 2 19","solution":["i2h1"],"themes":["material","wizardAttack"],"rating":950},
+  {"id":"713eaa90b71dce10","position":"rn7r/ppp1kw2Q1/3p1pp3/4p4p/1q8/6P3/3P2w1b1/3W6/PPP1PP2PP/RNB1K5 w - - 2 32","solution":["i9j10"],"themes":["material"],"rating":950},
+  {"id":"9ab1a70b2a36f461","position":"rn2wk3r/ppp2p4/3p2pn2/4p4p/1q8/4Q1P3/3P2w1b1/3W6/PPP1PP2PP/RNB1K5 w kq - 0 29","solution":["e5h8"],"themes":["material"],"rating":950},
+  {"id":"adc9eb5bcf0ad59e","position":"rn2wk2nr/ppp2p1pp1/3p2pb2/1q2pb1w1p/9W/7P2/3P6/7Q2/PPP1PPP1PP/RNBW1K1BNR b KQkq - 3 13","solution":["h8j6"],"themes":["material"],"rating":950},
+  {"id":"b20e5f0c90bd8a37","position":"rnbw1kw1nr/ppp1pp1ppp/3p2p3/7Q2/3b6/10/3P3W2/10/PPP1PPPPPP/RNBW1K1BNR b KQkq - 0 6","solution":["g8h7"],"themes":["material"],"rating":950},
+  {"id":"b9029c6e2a6fcad1","position":"2kr5r/ppp2p1ppp/2n3w3/2w7/2B2W4/5WN3/2N7/6P3/PPP1PP2PP/R4K3R b KQ - 0 25","solution":["c7c6"],"themes":["material","wizardAttack"],"rating":950},
+  {"id":"cc0dbba315177f53","position":"Q1w2kwbnr/p1p1pppppp/p2p6/10/10/10/6P3/3W5P/PPP1PK1PP1/RNB3W1NR b k - 0 10","solution":["c10a10"],"themes":["material","wizardAttack"],"rating":950},
+  {"id":"d0c600c46f2b0542","position":"rn1w1kwb1r/ppp1pp1ppp/3p2pn2/10/6b3/1q8/3PP5/3W5N/PPP2PPPPP/RNB2KWB1R w KQkq - 0 7","solution":["d3b5"],"themes":["material","wizardAttack"],"rating":950},
+  {"id":"02ae074fa96d62cd","position":"10/5k1ppp/10/p3bnp3/2w7/2P7/P5w3/10/7K2/9r b - a3 0 50","solution":["e7c5","a4a5","c5g1"],"themes":["mate"],"rating":1300},
+  {"id":"5ee23fefa780deeb","position":"r4k4/pppbp2p1p/n5p3/10/10/P7P1/4w5/10/KPP7/3r6 b q - 2 37","solution":["e4c4","a2a3","d1a1"],"themes":["mate","wizardTeleport"],"rating":1300},
+  {"id":"af8c9005a5c60352","position":"8k1/p7pp/2p2W1p2/4R5/10/10/10/9P/1w3PPP1P/5K1B1R w - - 0 40","solution":["f8g8","i10j10","e7e10"],"themes":["mate","wizardTeleport"],"rating":1300},
+  {"id":"e4502a4cf2dd057d","position":"r4k4/ppp1p2p1p/n5p3/5b4/10/P7P1/4w5/1P8/1K8/8r1 b q - 2 40","solution":["e4d4","b2a3","i1a1"],"themes":["mate","wizardTeleport"],"rating":1350},
+  {"id":"474e1a3dd4e33d7b","position":"3W3k2/8p1/10/10/4p1W3/4B4p/6P3/5P2P1/P1P2P1P1P/RN3K2NR w KQ - 2 41","solution":["g6g8","j5j4","d10f8"],"themes":["mate","wizardTeleport","quietMove"],"rating":1500},
+  {"id":"8ec33d8d44b6c383","position":"10/5k1ppp/2w7/p3bnp3/10/7r2/1P7P/4w5/P1P1P3K1/10 b - - 0 41","solution":["e3g1","a2a3","g1h1"],"themes":["mate","wizardTeleport","quietMove"],"rating":1500},
+  {"id":"e691e971968b7e27","position":"10/5k1ppp/2w7/p3bnp3/10/7r2/9P/4w5/P1P1P3K1/10 b - - 3 43","solution":["e3g1","i2j3","g1i3"],"themes":["mate","wizardTeleport","quietMove"],"rating":1500},
+  {"id":"fe90cec4c3cf468b","position":"2k7/ppp1p2p1p/6p3/5b4/Pn6P1/10/4w5/KP8/10/3r4r1 b - - 0 43","solution":["e4d4","i6i7","d1a1"],"themes":["mate","wizardTeleport","quietMove"],"rating":1500}
+];
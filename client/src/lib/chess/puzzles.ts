@@ -0,0 +1,118 @@
+/**
+ * Tactical Puzzles
+ * Puzzle definitions, solution checking and puzzle ratings
+ *
+ * A puzzle is a position with the solver to move and one forcing line that
+ * mates or wins material. The line alternates the solver's moves with the
+ * opponent's replies and starts and ends with a solver move. Moves are in the
+ * opening book's coordinate form (e3e5, d9d10q). Each solver move must match
+ * the line, except that any mating move is accepted where the line mates.
+ *
+ * Solvers and puzzles are both rated: a solved puzzle counts as a win for the
+ * solver against the puzzle's rating and a failed one as a loss, and the
+ * puzzle's rating moves the other way.
+ *
+ * Puzzles are mined from played games by client/src/lib/ai/buildPuzzles.ts.
+ */
+
+import { ChessMove, GameState, PieceColor } from './types';
+import { makeMove } from './gameEngine';
+import { bookMoveName, resolveBookMove } from './openingBook';
+import { parsePosition } from './positionNotation';
+import { moveToSAN } from './notation';
+import { PUZZLE_DATA } from './puzzleData';
+
+export type PuzzleTheme = 'mate' | 'material' | 'wizardAttack' | 'wizardTeleport' | 'quietMove';
+
+export interface Puzzle {
+  id: string;
+  // Position notation, solver to move
+  position: string;
+  // Coordinate moves, solver first and last
+  solution: string[];
+  themes: PuzzleTheme[];
+  rating: number;
+}
+
+export type PuzzleMoveResult = 'correct' | 'solved' | 'wrong';
+
+export const PUZZLE_THEME_LABELS: Record<PuzzleTheme, string> = {
+  mate: 'Checkmate',
+  material: 'Win material',
+  wizardAttack: 'Wizard attack',
+  wizardTeleport: 'Wizard teleport',
+  quietMove: 'Quiet move'
+};
+
+export const DEFAULT_PUZZLE_RATING = 1200;
+
+// Solver ratings move faster than puzzle ratings, which settle over many solvers
+const SOLVER_K = 32;
+const PUZZLE_K = 16;
+const MIN_RATING = 400;
+const MAX_RATING = 3000;
+
+/**
+ * The side solving `puzzle`.
+ */
+export function puzzleColor(puzzle: Puzzle): PieceColor {
+  return puzzle.position.split(/\s+/)[1] === 'b' ? 'black' : 'white';
+}
+
+/**
+ * Checks the solver's `move`, played at `ply` of the solution from
+ * `gameState`. 'correct' means the line continues with the opponent's reply.
+ */
+export function checkPuzzleMove(puzzle: Puzzle, gameState: GameState, ply: number, move: ChessMove): PuzzleMoveResult {
+  const last = ply === puzzle.solution.length - 1;
+  if (bookMoveName(move) === puzzle.solution[ply]) {
+    return last ? 'solved' : 'correct';
+  }
+
+  // Any mate finishes a mating line
+  if (last && puzzle.themes.includes('mate') && makeMove(gameState, move).isCheckmate) {
+    return 'solved';
+  }
+  return 'wrong';
+}
+
+/**
+ * The solution move at `ply` as a legal move in `gameState`.
+ */
+export function solutionMove(puzzle: Puzzle, gameState: GameState, ply: number): ChessMove {
+  const move = resolveBookMove(gameState, puzzle.solution[ply]);
+  if (!move) {
+    throw new Error(`Puzzle ${puzzle.id}: solution move ${puzzle.solution[ply]} is not legal`);
+  }
+  return move;
+}
+
+/**
+ * The solution in SAN, replayed from the puzzle's position.
+ */
+export function solutionToSAN(puzzle: Puzzle): string[] {
+  let gameState = parsePosition(puzzle.position);
+  return puzzle.solution.map((_, ply) => {
+    const move = solutionMove(puzzle, gameState, ply);
+    const san = moveToSAN(gameState.board, move, gameState.enPassantTarget ?? null);
+    gameState = makeMove(gameState, move);
+    return san;
+  });
+}
+
+const clampRating = (rating: number) => Math.max(MIN_RATING, Math.min(MAX_RATING, Math.round(rating)));
+
+/**
+ * New solver and puzzle ratings after an attempt.
+ */
+export function updatePuzzleRatings(solverRating: number, puzzleRating: number, solved: boolean): { solver: number; puzzle: number } {
+  const expected = 1 / (1 + Math.pow(10, (puzzleRating - solverRating) / 400));
+  const delta = (solved ? 1 : 0) - expected;
+  return {
+    solver: clampRating(solverRating + SOLVER_K * delta),
+    puzzle: clampRating(puzzleRating - PUZZLE_K * delta)
+  };
+}
+
+// The puzzles shipped with the game
+export const PUZZLES: Puzzle[] = PUZZLE_DATA;
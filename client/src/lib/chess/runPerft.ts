@@ -0,0 +1,54 @@
+// Headless perft runner: npx tsx client/src/lib/chess/runPerft.ts [depth] [position]
+// With no position, checks every entry in PERFT_POSITIONS against its known
+// counts. A position is a name from the library or a position string; for a
+// single position the per-move split is printed as well.
+import { PERFT_POSITIONS, divide, perft } from './perft';
+import { parsePosition } from './positionNotation';
+import { SearchBoard } from './searchBoard';
+
+function runPosition(name: string, position: string, depth: number, expected?: number): boolean {
+  const searchBoard = SearchBoard.fromGameState(parsePosition(position));
+  const start = Date.now();
+  const nodes = perft(searchBoard, depth);
+  const elapsed = Date.now() - start;
+
+  if (expected === undefined) {
+    console.log(`📊 ${name} depth ${depth}: ${nodes} nodes (${elapsed}ms)`);
+    return true;
+  }
+  if (nodes === expected) {
+    console.log(`✅ ${name} depth ${depth}: ${nodes} nodes (${elapsed}ms)`);
+    return true;
+  }
+  console.log(`❌ ${name} depth ${depth}: ${nodes} nodes, expected ${expected}`);
+  return false;
+}
+
+export function runPerft(depthArg?: string, positionArg?: string): boolean {
+  const requestedDepth = depthArg ? parseInt(depthArg, 10) : undefined;
+  if (requestedDepth !== undefined && !(requestedDepth > 0)) {
+    throw new Error(`Invalid perft depth: ${depthArg}`);
+  }
+
+  if (!positionArg) {
+    let passed = true;
+    for (const entry of PERFT_POSITIONS) {
+      const depth = Math.min(requestedDepth ?? 3, entry.nodes.length);
+      passed = runPosition(entry.name, entry.position, depth, entry.nodes[depth - 1]) && passed;
+    }
+    return passed;
+  }
+
+  const entry = PERFT_POSITIONS.find(candidate => candidate.name === positionArg);
+  const position = entry?.position ?? positionArg;
+  const depth = requestedDepth ?? 3;
+
+  const searchBoard = SearchBoard.fromGameState(parsePosition(position));
+  for (const { move, nodes } of divide(searchBoard, depth)) {
+    console.log(`${move}: ${nodes}`);
+  }
+  return runPosition(entry?.name ?? position, position, depth, entry?.nodes[depth - 1]);
+}
+
+const passed = runPerft(process.argv[2], process.argv[3]);
+if (!passed) process.exit(1);
@@ -0,0 +1,761 @@
+/**
+ * Mutable Board for AI Search
+ * Make/unmake board representation used by the AI players
+ *
+ * GameState boards are immutable 2D arrays of piece objects, and the rules
+ * engine copies the whole board for every move it tests. Search visits far
+ * too many positions for that, so it works on this representation instead:
+ *   - a 100-square Int8Array (square = row * 10 + col) of piece codes,
+ *     positive for white and negative for black
+ *   - a piece list per color, so generation never scans empty squares
+ *   - castling rights as bits and the en passant target as a square
+ *   - the position's Zobrist key (zobrist.ts), updated as moves are made
+ * makeMove changes the board in place and unmakeMove restores it exactly.
+ *
+ * Moves are plain numbers. The low 16 bits are the same number encodeMove
+ * (transpositionTable.ts) gives the equivalent ChessMove; flag bits above
+ * them mark captures, en passant, castling, wizard attacks and double steps.
+ * Move rules mirror shared/chessRules.ts exactly; the perft tests compare the
+ * two generators position by position.
+ */
+
+import { ChessMove, ChessPiece, GameState, PieceColor, PieceType, Position } from './types';
+import {
+  BOARD_SIZE,
+  KING_START_COL,
+  KINGSIDE_CASTLE_COL,
+  PROMOTION_PIECES,
+  QUEENSIDE_CASTLE_COL,
+  createMove,
+  type EnPassantTarget
+} from '@shared/chessRules';
+import { ZOBRIST_TABLES, ZobristKey } from './zobrist';
+
+type Board = (ChessPiece | null)[][];
+
+export type SearchMove = number;
+
+const SQUARES = BOARD_SIZE * BOARD_SIZE;
+const WHITE = 0;
+const BLACK = 1;
+
+// Piece codes follow ZOBRIST_TABLES.pieceTypes, starting at 1
+const PIECE_TYPES = ZOBRIST_TABLES.pieceTypes;
+const PAWN = 1;
+const KNIGHT = 2;
+const BISHOP = 3;
+const ROOK = 4;
+const QUEEN = 5;
+const KING = 6;
+const WIZARD = 7;
+
+export const MOVE_CAPTURE = 1 << 16;
+export const MOVE_EN_PASSANT = 1 << 17;
+export const MOVE_CASTLING = 1 << 18;
+export const MOVE_WIZARD_ATTACK = 1 << 19;
+export const MOVE_DOUBLE_STEP = 1 << 20;
+const NULL_MOVE = -1;
+
+export function moveFrom(move: SearchMove): number {
+  return Math.floor((move & 0xFFFF) / SQUARES) % SQUARES;
+}
+
+export function moveTo(move: SearchMove): number {
+  return (move & 0xFFFF) % SQUARES;
+}
+
+/**
+ * The part of a move the transposition table stores; equal to encodeMove of
+ * the matching ChessMove.
+ */
+export function moveKey(move: SearchMove): number {
+  return move & 0xFFFF;
+}
+
+// 0 for no promotion, otherwise 1 + index into PROMOTION_PIECES
+function movePromotion(move: SearchMove): number {
+  return Math.floor((move & 0xFFFF) / (SQUARES * SQUARES));
+}
+
+export function movePromotionType(move: SearchMove): PieceType | undefined {
+  const promotion = movePromotion(move);
+  return promotion ? PROMOTION_PIECES[promotion - 1] : undefined;
+}
+
+function encodeMove(from: number, to: number, flags: number, promotion: number = 0): SearchMove {
+  return ((promotion * SQUARES + from) * SQUARES + to) | flags;
+}
+
+const rowOf = (square: number) => Math.floor(square / BOARD_SIZE);
+const colOf = (square: number) => square % BOARD_SIZE;
+const colorOf = (code: number) => (code > 0 ? WHITE : BLACK);
+const signOf = (color: number) => (color === WHITE ? 1 : -1);
+const homeRowOf = (color: number) => (color === WHITE ? BOARD_SIZE - 1 : 0);
+
+// First four are the rook directions, last four the bishop directions
+const DIRECTIONS = [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+const KNIGHT_OFFSETS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+
+function buildTargets(offsets: number[][]): number[][] {
+  const targets: number[][] = [];
+  for (let square = 0; square < SQUARES; square++) {
+    targets.push(offsets
+      .map(([dr, dc]) => [rowOf(square) + dr, colOf(square) + dc])
+      .filter(([row, col]) => row >= 0 && row < BOARD_SIZE && col >= 0 && col < BOARD_SIZE)
+      .map(([row, col]) => row * BOARD_SIZE + col));
+  }
+  return targets;
+}
+
+const KNIGHT_TARGETS = buildTargets(KNIGHT_OFFSETS);
+const KING_TARGETS = buildTargets(DIRECTIONS);
+// Wizards reach two squares along each line, jumping over anything in between
+const WIZARD_TARGETS = buildTargets(DIRECTIONS.flatMap(([dr, dc]) => [[dr, dc], [2 * dr, 2 * dc]]));
+const RAYS: number[][][] = Array.from({ length: SQUARES }, (_, square) =>
+  DIRECTIONS.map(([dr, dc]) => {
+    const ray: number[] = [];
+    for (let row = rowOf(square) + dr, col = colOf(square) + dc;
+      row >= 0 && row < BOARD_SIZE && col >= 0 && col < BOARD_SIZE;
+      row += dr, col += dc) {
+      ray.push(row * BOARD_SIZE + col);
+    }
+    return ray;
+  })
+);
+
+// Castling right bits as in ZOBRIST_TABLES: white kingside, white queenside,
+// black kingside, black queenside. A right is lost for good as soon as
+// anything moves from or to its king or rook square.
+const CASTLING_MASKS = new Uint8Array(SQUARES);
+[WHITE, BLACK].forEach(color => {
+  const base = homeRowOf(color) * BOARD_SIZE;
+  const kingside = 1 << (color * 2);
+  const queenside = 1 << (color * 2 + 1);
+  CASTLING_MASKS[base + KING_START_COL] = kingside | queenside;
+  CASTLING_MASKS[base + BOARD_SIZE - 1] = kingside;
+  CASTLING_MASKS[base] = queenside;
+});
+
+interface UndoEntry {
+  move: SearchMove;
+  captured: number;
+  capturedSquare: number;
+  castling: number;
+  enPassant: number;
+  halfmoves: number;
+  side: number;
+  keyLo: number;
+  keyHi: number;
+}
+
+export class SearchBoard {
+  private squares = new Int8Array(SQUARES);
+  private pieceLists: number[][] = [[], []];
+  private listIndex = new Int16Array(SQUARES);
+  private kingSquares = [-1, -1];
+  private side = WHITE;
+  private castling = 0;
+  private enPassant = -1;
+  private halfmoves = 0;
+  private keyLo = 0;
+  private keyHi = 0;
+  private history: UndoEntry[] = [];
+  // Keys of the game's positions before this one, oldest first
+  private earlierKeys: ZobristKey[] = [];
+
+  constructor(
+    board: Board,
+    sideToMove: PieceColor = 'white',
+    enPassantTarget: EnPassantTarget = null,
+    halfmoveClock: number = 0
+  ) {
+    for (let row = 0; row < BOARD_SIZE; row++) {
+      for (let col = 0; col < BOARD_SIZE; col++) {
+        const piece = board[row][col];
+        if (piece) {
+          const code = PIECE_TYPES.indexOf(piece.type) + 1;
+          this.addPiece(row * BOARD_SIZE + col, piece.color === 'white' ? code : -code);
+        }
+      }
+    }
+
+    // Rights need the king and the corner rook unmoved on their home squares
+    [WHITE, BLACK].forEach(color => {
+      const row = homeRowOf(color);
+      const unmoved = (col: number, code: number) => {
+        const piece = board[row][col];
+        return this.squares[row * BOARD_SIZE + col] === signOf(color) * code && !piece!.hasMoved;
+      };
+      if (!unmoved(KING_START_COL, KING)) return;
+      if (unmoved(BOARD_SIZE - 1, ROOK)) this.setCastling(this.castling | 1 << (color * 2));
+      if (unmoved(0, ROOK)) this.setCastling(this.castling | 1 << (color * 2 + 1));
+    });
+
+    if (enPassantTarget) {
+      this.setEnPassant(enPassantTarget.row * BOARD_SIZE + enPassantTarget.col);
+    }
+    if (sideToMove === 'black') {
+      this.setSide(BLACK);
+    }
+    this.halfmoves = halfmoveClock;
+  }
+
+  static fromGameState(
+    gameState: Pick<GameState, 'board' | 'currentPlayer' | 'enPassantTarget' | 'halfmoveClock'>
+  ): SearchBoard {
+    return new SearchBoard(
+      gameState.board,
+      gameState.currentPlayer,
+      gameState.enPassantTarget ?? null,
+      gameState.halfmoveClock ?? 0
+    );
+  }
+
+  get sideToMove(): PieceColor {
+    return this.side === WHITE ? 'white' : 'black';
+  }
+
+  get key(): ZobristKey {
+    return { lo: this.keyLo, hi: this.keyHi };
+  }
+
+  get enPassantTarget(): EnPassantTarget {
+    return this.enPassant < 0 ? null : { row: rowOf(this.enPassant), col: colOf(this.enPassant) };
+  }
+
+  get halfmoveClock(): number {
+    return this.halfmoves;
+  }
+
+  /**
+   * Give the keys of the positions the game went through before this one,
+   * oldest first, so isRepetition can see repeats of moves already played.
+   */
+  setEarlierPositions(keys: ZobristKey[]): void {
+    this.earlierKeys = keys;
+  }
+
+  /**
+   * Whether this position already occurred since the last capture or pawn
+   * move, in the search line or earlier in the game. A null move ends the
+   * scan: positions before it weren't reached by moves.
+   */
+  isRepetition(): boolean {
+    const length = this.history.length;
+    for (let back = 1; back <= this.halfmoves; back++) {
+      let lo: number;
+      let hi: number;
+      if (back <= length) {
+        const entry = this.history[length - back];
+        if (entry.move === NULL_MOVE) return false;
+        lo = entry.keyLo;
+        hi = entry.keyHi;
+      } else {
+        const earlier = this.earlierKeys[this.earlierKeys.length - (back - length)];
+        if (!earlier) return false;
+        lo = earlier.lo;
+        hi = earlier.hi;
+      }
+      if (back % 2 === 0 && lo === this.keyLo && hi === this.keyHi) return true;
+    }
+    return false;
+  }
+
+  /** Number of moves made and not yet unmade. */
+  get ply(): number {
+    return this.history.length;
+  }
+
+  pieceTypeAt(square: number): PieceType | null {
+    const code = this.squares[square];
+    return code === 0 ? null : PIECE_TYPES[Math.abs(code) - 1];
+  }
+
+  pieceColorAt(square: number): PieceColor | null {
+    const code = this.squares[square];
+    return code === 0 ? null : code > 0 ? 'white' : 'black';
+  }
+
+  /**
+   * Type of the piece `move` removes from the board, or null for a quiet move.
+   */
+  capturedType(move: SearchMove): PieceType | null {
+    if (!(move & MOVE_CAPTURE)) return null;
+    return move & MOVE_EN_PASSANT ? 'pawn' : this.pieceTypeAt(moveTo(move));
+  }
+
+  // --- Board updates (each keeps the piece lists and key in step) ---
+
+  private xorPiece(square: number, code: number): void {
+    const index = ((code > 0 ? 0 : PIECE_TYPES.length) + Math.abs(code) - 1) * SQUARES + square;
+    this.keyLo ^= ZOBRIST_TABLES.pieceLo[index];
+    this.keyHi ^= ZOBRIST_TABLES.pieceHi[index];
+  }
+
+  private addPiece(square: number, code: number): void {
+    const list = this.pieceLists[colorOf(code)];
+    this.squares[square] = code;
+    this.listIndex[square] = list.length;
+    list.push(square);
+    if (Math.abs(code) === KING) this.kingSquares[colorOf(code)] = square;
+    this.xorPiece(square, code);
+  }
+
+  private removePiece(square: number): void {
+    const code = this.squares[square];
+    const list = this.pieceLists[colorOf(code)];
+    const last = list.pop()!;
+    if (last !== square) {
+      list[this.listIndex[square]] = last;
+      this.listIndex[last] = this.listIndex[square];
+    }
+    this.squares[square] = 0;
+    if (Math.abs(code) === KING) this.kingSquares[colorOf(code)] = -1;
+    this.xorPiece(square, code);
+  }
+
+  private movePiece(from: number, to: number): void {
+    const code = this.squares[from];
+    this.pieceLists[colorOf(code)][this.listIndex[from]] = to;
+    this.listIndex[to] = this.listIndex[from];
+    this.squares[to] = code;
+    this.squares[from] = 0;
+    if (Math.abs(code) === KING) this.kingSquares[colorOf(code)] = to;
+    this.xorPiece(from, code);
+    this.xorPiece(to, code);
+  }
+
+  private setCastling(castling: number): void {
+    const changed = this.castling ^ castling;
+    for (let right = 0; right < 4; right++) {
+      if (changed & (1 << right)) {
+        this.keyLo ^= ZOBRIST_TABLES.castlingLo[right];
+        this.keyHi ^= ZOBRIST_TABLES.castlingHi[right];
+      }
+    }
+    this.castling = castling;
+  }
+
+  private setEnPassant(square: number): void {
+    if (this.enPassant >= 0) {
+      this.keyLo ^= ZOBRIST_TABLES.enPassantLo[colOf(this.enPassant)];
+      this.keyHi ^= ZOBRIST_TABLES.enPassantHi[colOf(this.enPassant)];
+    }
+    if (square >= 0) {
+      this.keyLo ^= ZOBRIST_TABLES.enPassantLo[colOf(square)];
+      this.keyHi ^= ZOBRIST_TABLES.enPassantHi[colOf(square)];
+    }
+    this.enPassant = square;
+  }
+
+  private setSide(side: number): void {
+    if (side !== this.side) {
+      this.keyLo ^= ZOBRIST_TABLES.blackToMoveLo;
+      this.keyHi ^= ZOBRIST_TABLES.blackToMoveHi;
+    }
+    this.side = side;
+  }
+
+  private pushHistory(move: SearchMove): UndoEntry {
+    const entry: UndoEntry = {
+      move,
+      captured: 0,
+      capturedSquare: -1,
+      castling: this.castling,
+      enPassant: this.enPassant,
+      halfmoves: this.halfmoves,
+      side: this.side,
+      keyLo: this.keyLo,
+      keyHi: this.keyHi
+    };
+    this.history.push(entry);
+    return entry;
+  }
+
+  /**
+   * Play a move generated for this position. The side to move becomes the
+   * opponent of whoever moved.
+   */
+  makeMove(move: SearchMove): void {
+    const entry = this.pushHistory(move);
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const code = this.squares[from];
+    const color = colorOf(code);
+
+    const capturedSquare = move & MOVE_EN_PASSANT
+      ? rowOf(from) * BOARD_SIZE + colOf(to)
+      : this.squares[to] !== 0 ? to : -1;
+    if (capturedSquare >= 0) {
+      entry.captured = this.squares[capturedSquare];
+      entry.capturedSquare = capturedSquare;
+      this.removePiece(capturedSquare);
+    }
+
+    // Wizard attacks leave the wizard where it is
+    if (!(move & MOVE_WIZARD_ATTACK)) {
+      this.movePiece(from, to);
+
+      const promotion = movePromotion(move);
+      if (promotion) {
+        const promoted = signOf(color) * (PIECE_TYPES.indexOf(PROMOTION_PIECES[promotion - 1]) + 1);
+        this.xorPiece(to, code);
+        this.xorPiece(to, promoted);
+        this.squares[to] = promoted;
+      }
+
+      if (move & MOVE_CASTLING) {
+        const base = rowOf(from) * BOARD_SIZE;
+        if (colOf(to) === QUEENSIDE_CASTLE_COL) {
+          this.movePiece(base, base + QUEENSIDE_CASTLE_COL + 1);
+        } else {
+          this.movePiece(base + BOARD_SIZE - 1, base + KINGSIDE_CASTLE_COL - 1);
+        }
+      }
+    }
+
+    this.setCastling(this.castling & ~(CASTLING_MASKS[from] | CASTLING_MASKS[to]));
+    this.setEnPassant(move & MOVE_DOUBLE_STEP ? (from + to) / 2 : -1);
+    this.halfmoves = Math.abs(code) === PAWN || capturedSquare >= 0 ? 0 : this.halfmoves + 1;
+    this.setSide(1 - color);
+  }
+
+  /**
+   * Pass the turn without moving, for threat detection and null-move search.
+   */
+  makeNullMove(): void {
+    this.pushHistory(NULL_MOVE);
+    this.setEnPassant(-1);
+    this.halfmoves++;
+    this.setSide(1 - this.side);
+  }
+
+  /**
+   * Take back the last makeMove or makeNullMove.
+   */
+  unmakeMove(): void {
+    const entry = this.history.pop();
+    if (!entry) throw new Error('No move to unmake');
+
+    const { move } = entry;
+    if (move !== NULL_MOVE && !(move & MOVE_WIZARD_ATTACK)) {
+      const from = moveFrom(move);
+      const to = moveTo(move);
+
+      if (movePromotion(move)) {
+        this.squares[to] = signOf(colorOf(this.squares[to])) * PAWN;
+      }
+      if (move & MOVE_CASTLING) {
+        const base = rowOf(from) * BOARD_SIZE;
+        if (colOf(to) === QUEENSIDE_CASTLE_COL) {
+          this.movePiece(base + QUEENSIDE_CASTLE_COL + 1, base);
+        } else {
+          this.movePiece(base + KINGSIDE_CASTLE_COL - 1, base + BOARD_SIZE - 1);
+        }
+      }
+      this.movePiece(to, from);
+    }
+    if (entry.capturedSquare >= 0) {
+      this.addPiece(entry.capturedSquare, entry.captured);
+    }
+
+    // The piece updates above toggled the key; the saved one is exact
+    this.castling = entry.castling;
+    this.enPassant = entry.enPassant;
+    this.halfmoves = entry.halfmoves;
+    this.side = entry.side;
+    this.keyLo = entry.keyLo;
+    this.keyHi = entry.keyHi;
+  }
+
+  // --- Attacks and move generation ---
+
+  /**
+   * Whether any piece of `byColor` attacks the square. Same rules as
+   * isSquareAttacked in shared/chessRules.
+   */
+  isSquareAttacked(square: number, byColor: PieceColor): boolean {
+    const sign = byColor === 'white' ? 1 : -1;
+    const squares = this.squares;
+
+    // A white pawn attacks upwards, so it sits one row below the square
+    const pawnRow = rowOf(square) + sign;
+    if (pawnRow >= 0 && pawnRow < BOARD_SIZE) {
+      const col = colOf(square);
+      if (col > 0 && squares[pawnRow * BOARD_SIZE + col - 1] === sign * PAWN) return true;
+      if (col < BOARD_SIZE - 1 && squares[pawnRow * BOARD_SIZE + col + 1] === sign * PAWN) return true;
+    }
+
+    for (const target of KNIGHT_TARGETS[square]) {
+      if (squares[target] === sign * KNIGHT) return true;
+    }
+    for (const target of KING_TARGETS[square]) {
+      if (squares[target] === sign * KING) return true;
+    }
+    for (const target of WIZARD_TARGETS[square]) {
+      if (squares[target] === sign * WIZARD) return true;
+    }
+
+    const rays = RAYS[square];
+    for (let direction = 0; direction < DIRECTIONS.length; direction++) {
+      const slider = direction < 4 ? ROOK : BISHOP;
+      for (const target of rays[direction]) {
+        const code = squares[target];
+        if (code === 0) continue;
+        if (code === sign * slider || code === sign * QUEEN) return true;
+        break;
+      }
+    }
+
+    return false;
+  }
+
+  isInCheck(color: PieceColor = this.sideToMove): boolean {
+    const king = this.kingSquares[color === 'white' ? WHITE : BLACK];
+    return king >= 0 && this.isSquareAttacked(king, color === 'white' ? 'black' : 'white');
+  }
+
+  /**
+   * Legal moves for `color` (default: the side to move). En passant is only
+   * offered to the side to move, as in getLegalMoves.
+   */
+  generateMoves(color: PieceColor = this.sideToMove): SearchMove[] {
+    return this.generatePseudoLegalMoves(color).filter(move => this.isLegal(move, color));
+  }
+
+  hasLegalMove(color: PieceColor = this.sideToMove): boolean {
+    return this.generatePseudoLegalMoves(color).some(move => this.isLegal(move, color));
+  }
+
+  isCheckmate(color: PieceColor = this.sideToMove): boolean {
+    return this.isInCheck(color) && !this.hasLegalMove(color);
+  }
+
+  private isLegal(move: SearchMove, color: PieceColor): boolean {
+    this.makeMove(move);
+    const legal = !this.isInCheck(color);
+    this.unmakeMove();
+    return legal;
+  }
+
+  /**
+   * Moves that follow the movement rules but may leave the mover's king in
+   * check.
+   */
+  generatePseudoLegalMoves(color: PieceColor = this.sideToMove): SearchMove[] {
+    const us = color === 'white' ? WHITE : BLACK;
+    const moves: SearchMove[] = [];
+
+    for (const from of this.pieceLists[us]) {
+      switch (Math.abs(this.squares[from])) {
+        case PAWN:
+          this.addPawnMoves(moves, from, us);
+          break;
+        case KNIGHT:
+          this.addStepMoves(moves, from, us, KNIGHT_TARGETS[from], 0);
+          break;
+        case BISHOP:
+          this.addSlidingMoves(moves, from, us, 4, 8);
+          break;
+        case ROOK:
+          this.addSlidingMoves(moves, from, us, 0, 4);
+          break;
+        case QUEEN:
+          this.addSlidingMoves(moves, from, us, 0, 8);
+          break;
+        case KING:
+          this.addStepMoves(moves, from, us, KING_TARGETS[from], 0);
+          this.addCastlingMoves(moves, from, us);
+          break;
+        case WIZARD:
+          // Teleport to empty squares, attack enemies without moving
+          this.addStepMoves(moves, from, us, WIZARD_TARGETS[from], MOVE_WIZARD_ATTACK);
+          break;
+      }
+    }
+
+    return moves;
+  }
+
+  private addStepMoves(moves: SearchMove[], from: number, us: number, targets: number[], captureFlags: number): void {
+    const sign = signOf(us);
+    for (const to of targets) {
+      const code = this.squares[to];
+      if (code === 0) {
+        moves.push(encodeMove(from, to, 0));
+      } else if (code * sign < 0) {
+        moves.push(encodeMove(from, to, MOVE_CAPTURE | captureFlags));
+      }
+    }
+  }
+
+  private addSlidingMoves(moves: SearchMove[], from: number, us: number, firstDirection: number, lastDirection: number): void {
+    const sign = signOf(us);
+    for (let direction = firstDirection; direction < lastDirection; direction++) {
+      for (const to of RAYS[from][direction]) {
+        const code = this.squares[to];
+        if (code === 0) {
+          moves.push(encodeMove(from, to, 0));
+          continue;
+        }
+        if (code * sign < 0) {
+          moves.push(encodeMove(from, to, MOVE_CAPTURE));
+        }
+        break;
+      }
+    }
+  }
+
+  private addPawnMoves(moves: SearchMove[], from: number, us: number): void {
+    const sign = signOf(us);
+    const row = rowOf(from);
+    const col = colOf(from);
+    const nextRow = row - sign;
+    if (nextRow < 0 || nextRow >= BOARD_SIZE) return;
+
+    const promotionRow = us === WHITE ? 0 : BOARD_SIZE - 1;
+    const startRow = us === WHITE ? BOARD_SIZE - 2 : 1;
+    const push = (to: number, flags: number) => {
+      if (nextRow === promotionRow) {
+        for (let promotion = 1; promotion <= PROMOTION_PIECES.length; promotion++) {
+          moves.push(encodeMove(from, to, flags, promotion));
+        }
+      } else {
+        moves.push(encodeMove(from, to, flags));
+      }
+    };
+
+    const oneForward = nextRow * BOARD_SIZE + col;
+    if (this.squares[oneForward] === 0) {
+      push(oneForward, 0);
+      const twoForward = oneForward - sign * BOARD_SIZE;
+      if (row === startRow && this.squares[twoForward] === 0) {
+        moves.push(encodeMove(from, twoForward, MOVE_DOUBLE_STEP));
+      }
+    }
+
+    for (const dc of [-1, 1]) {
+      const targetCol = col + dc;
+      if (targetCol < 0 || targetCol >= BOARD_SIZE) continue;
+      const to = nextRow * BOARD_SIZE + targetCol;
+      const code = this.squares[to];
+      if (code * sign < 0) {
+        push(to, MOVE_CAPTURE);
+      } else if (code === 0 && us === this.side && to === this.enPassant &&
+                 this.squares[row * BOARD_SIZE + targetCol] === -sign * PAWN) {
+        moves.push(encodeMove(from, to, MOVE_CAPTURE | MOVE_EN_PASSANT));
+      }
+    }
+  }
+
+  private addCastlingMoves(moves: SearchMove[], from: number, us: number): void {
+    const base = homeRowOf(us) * BOARD_SIZE;
+    const kingside = this.castling & (1 << (us * 2));
+    const queenside = this.castling & (1 << (us * 2 + 1));
+    if (from !== base + KING_START_COL || (!kingside && !queenside)) return;
+
+    const enemy: PieceColor = us === WHITE ? 'black' : 'white';
+    if (this.isSquareAttacked(from, enemy)) return;
+
+    const isClear = (fromCol: number, toCol: number) => {
+      for (let col = fromCol; col <= toCol; col++) {
+        if (this.squares[base + col] !== 0) return false;
+      }
+      return true;
+    };
+    const isSafe = (fromCol: number, toCol: number) => {
+      for (let col = fromCol; col <= toCol; col++) {
+        if (this.isSquareAttacked(base + col, enemy)) return false;
+      }
+      return true;
+    };
+
+    // Queenside: b..e empty, c..f unattacked. Kingside: g..i empty, f..h unattacked
+    if (queenside && isClear(1, KING_START_COL - 1) && isSafe(QUEENSIDE_CASTLE_COL, KING_START_COL)) {
+      moves.push(encodeMove(from, base + QUEENSIDE_CASTLE_COL, MOVE_CASTLING));
+    }
+    if (kingside && isClear(KING_START_COL + 1, BOARD_SIZE - 2) && isSafe(KING_START_COL, KINGSIDE_CASTLE_COL)) {
+      moves.push(encodeMove(from, base + KINGSIDE_CASTLE_COL, MOVE_CASTLING));
+    }
+  }
+
+  /**
+   * Mirrors hasInsufficientMaterial in shared/drawRules.ts using the piece lists.
+   */
+  hasInsufficientMaterial(): boolean {
+    let minors = 0;
+    let bishopColors = 0;
+    let onlyBishops = true;
+
+    for (const list of this.pieceLists) {
+      for (const square of list) {
+        const type = Math.abs(this.squares[square]);
+        if (type === KING) continue;
+        if (type !== BISHOP && type !== KNIGHT) return false;
+        minors++;
+        if (type === BISHOP) {
+          bishopColors |= 1 << ((rowOf(square) + colOf(square)) % 2);
+        } else {
+          onlyBishops = false;
+        }
+      }
+    }
+
+    return minors <= 1 || (onlyBishops && bishopColors !== 3);
+  }
+
+  // --- Conversion to and from the rules engine's types ---
+
+  /**
+   * The position as a GameState-style board. Pieces get fresh ids; hasMoved
+   * is rebuilt from castling rights and pawn ranks as in parsePosition.
+   */
+  toBoard(): Board {
+    const board: Board = Array.from({ length: BOARD_SIZE }, () => Array(BOARD_SIZE).fill(null));
+
+    for (let square = 0; square < SQUARES; square++) {
+      const code = this.squares[square];
+      if (code === 0) continue;
+
+      const color: PieceColor = code > 0 ? 'white' : 'black';
+      const type = PIECE_TYPES[Math.abs(code) - 1];
+      const row = rowOf(square);
+      const col = colOf(square);
+      let hasMoved = false;
+      if (type === 'pawn') {
+        hasMoved = row !== (color === 'white' ? BOARD_SIZE - 2 : 1);
+      } else if (type === 'king' || type === 'rook') {
+        hasMoved = (this.castling & CASTLING_MASKS[square]) === 0;
+      }
+      board[row][col] = { type, color, id: `${color === 'white' ? 'w' : 'b'}-${type}-${row}-${col}`, hasMoved };
+    }
+
+    return board;
+  }
+
+  /**
+   * The fully described ChessMove for a move of the current position. Pass
+   * the GameState board the position came from to keep its piece ids.
+   */
+  toChessMove(move: SearchMove, board: Board = this.toBoard()): ChessMove {
+    const from: Position = { row: rowOf(moveFrom(move)), col: colOf(moveFrom(move)) };
+    const to: Position = { row: rowOf(moveTo(move)), col: colOf(moveTo(move)) };
+    return createMove(board, from, to, movePromotionType(move), this.enPassantTarget)!;
+  }
+
+  /**
+   * The SearchMove for a ChessMove of the current position.
+   */
+  fromChessMove(move: ChessMove): SearchMove {
+    const from = move.from.row * BOARD_SIZE + move.from.col;
+    const to = move.to.row * BOARD_SIZE + move.to.col;
+    let flags = 0;
+    if (move.captured) flags |= MOVE_CAPTURE;
+    if (move.isEnPassant) flags |= MOVE_EN_PASSANT;
+    if (move.isCastling) flags |= MOVE_CASTLING;
+    if (move.isWizardAttack) flags |= MOVE_WIZARD_ATTACK;
+    if (move.piece.type === 'pawn' && Math.abs(move.to.row - move.from.row) === 2) flags |= MOVE_DOUBLE_STEP;
+    const promotion = move.promotion ? PROMOTION_PIECES.indexOf(move.promotion) + 1 : 0;
+    return encodeMove(from, to, flags, promotion);
+  }
+}
@@ -0,0 +1,425 @@
+/**
+ * Alpha-Beta Search Engine
+ * Iterative deepening negamax shared by the AI players in advancedAI.ts
+ *
+ * Each player supplies its own evaluation; the engine does the rest:
+ *   - iterative deepening, each depth searched in a narrow aspiration window
+ *     around the previous depth's score and widened when the score falls
+ *     outside it
+ *   - a quiescence search at the horizon that plays out captures (wizard
+ *     attacks included) so the score never stops in the middle of an exchange,
+ *     and every evasion when in check so a mate isn't scored as material
+ *   - move ordering: transposition table move, captures by most valuable
+ *     victim, then quiet moves by the killer and history heuristics
+ *   - a time budget, checked every 1024 nodes. A depth cut off by the clock is
+ *     thrown away and the previous depth's result stands
+ *   - positions repeated within the line or from the game so far
+ *     (SearchBoard.setEarlierPositions) score as draws
+ *   - optionally several best lines (multi-PV): each depth searches the root
+ *     again with the first moves already found left out, so every line starts
+ *     with a different move
+ */
+
+import { AIDifficulty, ChessMove, ChessPiece, PieceColor, PieceType } from './types';
+import { BOARD_SIZE } from '@shared/chessRules';
+import { TranspositionTable } from './transpositionTable';
+import { SearchBoard, SearchMove, moveFrom, moveKey, moveTo, movePromotionType } from './searchBoard';
+import { FIFTY_MOVE_RULE_PLIES } from '@shared/drawRules';
+
+// How far a search may go: always to a depth, optionally within a time limit
+export interface SearchLimits {
+  maxDepth: number;
+  timeLimitMs?: number;
+  // Lines to find, each starting with a different move (default 1)
+  multiPV?: number;
+}
+
+// A line the search expects: its first move, score and continuation
+export interface SearchLine {
+  move: ChessMove;
+  score: number;
+  pv: ChessMove[];
+}
+
+// Outcome of a search to `depth`: best move, its score from the searching
+// side's point of view and the line the search expects. `lines` holds the
+// best `multiPV` lines, best first
+export interface SearchInfo {
+  move: ChessMove;
+  score: number;
+  depth: number;
+  pv: ChessMove[];
+  lines: SearchLine[];
+  nodes: number;
+  elapsedMs: number;
+}
+
+// Scores `position` from `color`'s point of view
+export type Evaluator = (position: SearchBoard, color: PieceColor) => number;
+
+// Time and depth each difficulty may spend on a move. Easy also asks for a
+// few lines so it can play one that isn't the best
+export const SEARCH_BUDGETS: Record<AIDifficulty, SearchLimits> = {
+  easy: { maxDepth: 1, timeLimitMs: 250, multiPV: 4 },
+  medium: { maxDepth: 2, timeLimitMs: 1000 },
+  hard: { maxDepth: 5, timeLimitMs: 3000 },
+  advanced: { maxDepth: 8, timeLimitMs: 6000 }
+};
+
+export const MATE_SCORE = 10000;
+const MAX_PLY = 64;
+// Search scores count a pawn as 10
+const SCORE_TO_CENTIPAWNS = 10;
+const ASPIRATION_WINDOW = 5;
+
+// Ordering values for captures (victim first, then cheapest attacker)
+const ORDER_VALUES: Record<PieceType, number> = {
+  pawn: 1, knight: 3, bishop: 3, wizard: 4, rook: 5, queen: 9, king: 20
+};
+const TABLE_MOVE_ORDER = 1 << 30;
+const CAPTURE_ORDER = 1 << 24;
+const PROMOTION_ORDER = CAPTURE_ORDER - 1000;
+const KILLER_ORDER = [1 << 23, (1 << 23) - 1];
+const HISTORY_LIMIT = 1 << 20;
+const SQUARES = BOARD_SIZE * BOARD_SIZE;
+
+/**
+ * A search score in centipawns.
+ */
+export function scoreToCentipawns(score: number): number {
+  return Math.round(score * SCORE_TO_CENTIPAWNS);
+}
+
+/**
+ * Moves until mate for a mate score (negative when the side to move is the
+ * one mated), or null for any other score.
+ */
+export function mateIn(score: number): number | null {
+  if (Math.abs(score) < MATE_SCORE - MAX_PLY) return null;
+  return Math.sign(score) * Math.max(1, Math.ceil((MATE_SCORE - Math.abs(score)) / 2));
+}
+
+// Mate scores count plies from the root, but a table entry can be reached at
+// any ply: store them counted from the entry's own node, and count them from
+// the root again when they're read back
+function scoreToTable(score: number, ply: number): number {
+  if (score >= MATE_SCORE - MAX_PLY) return score + ply;
+  if (score <= -(MATE_SCORE - MAX_PLY)) return score - ply;
+  return score;
+}
+
+function scoreFromTable(score: number, ply: number): number {
+  if (score >= MATE_SCORE - MAX_PLY) return score - ply;
+  if (score <= -(MATE_SCORE - MAX_PLY)) return score + ply;
+  return score;
+}
+
+export class SearchEngine {
+  private readonly evaluate: Evaluator;
+  private transpositionTable = new TranspositionTable();
+  // Table scores depend on whose evaluation produced them
+  private tableColor: PieceColor | null = null;
+  private rootColor: PieceColor = 'white';
+  private killers = new Int32Array(MAX_PLY * 2).fill(-1);
+  private history = new Int32Array(2 * SQUARES * SQUARES);
+  private rootMove: SearchMove | null = null;
+  // Root moves earlier lines of a multi-PV search already start with
+  private excludedRootMoves = new Set<number>();
+  private nodes = 0;
+  private deadline = Infinity;
+  private stopped = false;
+
+  constructor(evaluate: Evaluator) {
+    this.evaluate = evaluate;
+  }
+
+  /**
+   * Forget everything learned from earlier searches (call after the
+   * evaluation changes).
+   */
+  clear(): void {
+    this.transpositionTable.clear();
+    this.killers.fill(-1);
+    this.history.fill(0);
+  }
+
+  /**
+   * Best move for the side to move, searching one depth deeper at a time
+   * until `limits` runs out. Every finished depth is reported through
+   * `onProgress`. `board` is the caller's board, so the returned move refers
+   * to the caller's pieces. Returns null when there is no legal move.
+   */
+  search(
+    position: SearchBoard,
+    limits: SearchLimits,
+    onProgress?: (info: SearchInfo) => void,
+    board?: (ChessPiece | null)[][]
+  ): SearchInfo | null {
+    const color = position.sideToMove;
+    if (this.tableColor !== color) {
+      this.transpositionTable.clear();
+      this.tableColor = color;
+    }
+    this.rootColor = color;
+    this.killers.fill(-1);
+    // Older history still helps ordering, but shouldn't dominate
+    for (let i = 0; i < this.history.length; i++) this.history[i] >>= 2;
+
+    const start = Date.now();
+    this.nodes = 0;
+    this.stopped = false;
+    let best: SearchInfo | null = null;
+    const lineCount = Math.min(limits.multiPV ?? 1, position.generateMoves().length);
+
+    for (let depth = 1; depth <= Math.min(limits.maxDepth, MAX_PLY); depth++) {
+      // Depth 1 always finishes so there is a move to play
+      this.deadline = depth === 1 || limits.timeLimitMs === undefined ? Infinity : start + limits.timeLimitMs;
+
+      const lines: SearchLine[] = [];
+      for (let i = 0; i < lineCount; i++) {
+        const score = this.aspirationSearch(position, depth, best?.lines[i]?.score);
+        if (this.stopped || this.rootMove === null) break;
+
+        lines.push({
+          move: position.toChessMove(this.rootMove, board),
+          score,
+          pv: this.lineFrom(position, this.rootMove, depth)
+        });
+        this.excludedRootMoves.add(moveKey(this.rootMove));
+      }
+      this.excludedRootMoves.clear();
+      if (this.stopped || lines.length === 0) break;
+
+      lines.sort((a, b) => b.score - a.score);
+      best = {
+        move: lines[0].move,
+        score: lines[0].score,
+        depth,
+        pv: lines[0].pv,
+        lines,
+        nodes: this.nodes,
+        elapsedMs: Date.now() - start
+      };
+      onProgress?.(best);
+
+      // The next depth takes several times as long as this one did
+      if (limits.timeLimitMs !== undefined && best.elapsedMs * 2 > limits.timeLimitMs) break;
+      // A forced mate won't get any better
+      if (Math.abs(best.score) >= MATE_SCORE - MAX_PLY) break;
+    }
+
+    return best;
+  }
+
+  // Searches first in a window around the previous score; a score outside it
+  // is only a bound, so widen that side and search again
+  private aspirationSearch(position: SearchBoard, depth: number, previous?: number): number {
+    if (previous === undefined || depth < 3) {
+      return this.negamax(position, depth, -Infinity, Infinity, 0);
+    }
+
+    let delta = ASPIRATION_WINDOW;
+    let alpha = previous - delta;
+    let beta = previous + delta;
+    for (;;) {
+      const score = this.negamax(position, depth, alpha, beta, 0);
+      if (this.stopped) return score;
+      if (score <= alpha) {
+        alpha = delta > 4 * ASPIRATION_WINDOW ? -Infinity : score - delta;
+      } else if (score >= beta) {
+        beta = delta > 4 * ASPIRATION_WINDOW ? Infinity : score + delta;
+      } else {
+        return score;
+      }
+      delta *= 2;
+    }
+  }
+
+  // Score from the side to move's point of view
+  private negamax(position: SearchBoard, depth: number, alpha: number, beta: number, ply: number): number {
+    if (this.outOfTime()) return 0;
+
+    // Fifty-move and insufficient-material draws end the line, and so does a
+    // repeated position: whoever repeated it can repeat it again
+    if (ply > 0 && (
+      position.halfmoveClock >= FIFTY_MOVE_RULE_PLIES || position.hasInsufficientMaterial() || position.isRepetition()
+    )) {
+      return 0;
+    }
+
+    if (depth <= 0 || ply >= MAX_PLY) {
+      return this.quiescence(position, alpha, beta, ply);
+    }
+
+    const key = position.key;
+    const originalAlpha = alpha;
+
+    // The root always searches so it has a move to return
+    const tableEntry = this.transpositionTable.probe(key);
+    if (tableEntry && tableEntry.depth >= depth && ply > 0) {
+      const tableScore = scoreFromTable(tableEntry.score, ply);
+      if (tableEntry.bound === 'exact') return tableScore;
+      if (tableEntry.bound === 'lower') {
+        alpha = Math.max(alpha, tableScore);
+      } else {
+        beta = Math.min(beta, tableScore);
+      }
+      if (alpha >= beta) return tableScore;
+    }
+
+    const moves = position.generateMoves();
+    if (moves.length === 0) {
+      // Checkmate (sooner is worse) or stalemate
+      return position.isInCheck() ? -(MATE_SCORE - ply) : 0;
+    }
+    const searched = ply === 0 && this.excludedRootMoves.size > 0
+      ? moves.filter(move => !this.excludedRootMoves.has(moveKey(move)))
+      : moves;
+
+    const ordered = this.orderMoves(position, searched, tableEntry?.bestMove ?? null, ply);
+    let bestScore = -Infinity;
+    let bestMove: SearchMove | null = null;
+
+    for (const move of ordered) {
+      position.makeMove(move);
+      const score = -this.negamax(position, depth - 1, -beta, -alpha, ply + 1);
+      position.unmakeMove();
+      if (this.stopped) return 0;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = move;
+      }
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) {
+        if (position.capturedType(move) === null) this.rememberQuietCutoff(position, move, depth, ply);
+        break;
+      }
+    }
+
+    // A score outside the original window is only a bound on the real value
+    // A root searched without some of its moves doesn't get its real value
+    const bound = bestScore <= originalAlpha ? 'upper' : bestScore >= beta ? 'lower' : 'exact';
+    if (searched === moves) {
+      this.transpositionTable.store(key, depth, scoreToTable(bestScore, ply), bound, bestMove === null ? null : moveKey(bestMove));
+    }
+    if (ply === 0) this.rootMove = bestMove;
+
+    return bestScore;
+  }
+
+  // Only captures are searched past the horizon. The side to move may also
+  // stand pat on the static evaluation instead of capturing - unless it is in
+  // check, where every evasion is searched and having none is mate
+  private quiescence(position: SearchBoard, alpha: number, beta: number, ply: number): number {
+    if (this.outOfTime()) return 0;
+
+    const inCheck = position.isInCheck();
+    let moves = position.generateMoves();
+    let bestScore = -Infinity;
+
+    if (inCheck && ply < MAX_PLY) {
+      if (moves.length === 0) return -(MATE_SCORE - ply);
+    } else {
+      const color = position.sideToMove;
+      const evaluation = this.evaluate(position, this.rootColor);
+      const standPat = color === this.rootColor ? evaluation : -evaluation;
+      if (standPat >= beta || ply >= MAX_PLY) return standPat;
+      if (standPat > alpha) alpha = standPat;
+
+      moves = moves.filter(move => position.capturedType(move) !== null);
+      bestScore = standPat;
+    }
+
+    for (const move of this.orderMoves(position, moves, null, ply)) {
+      position.makeMove(move);
+      const score = -this.quiescence(position, -beta, -alpha, ply + 1);
+      position.unmakeMove();
+      if (this.stopped) return 0;
+
+      if (score > bestScore) bestScore = score;
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+
+    return bestScore;
+  }
+
+  // Table move, then captures by most valuable victim / least valuable
+  // attacker, promotions, this ply's killer moves, and the rest by history
+  private orderMoves(position: SearchBoard, moves: SearchMove[], tableMove: number | null, ply: number): SearchMove[] {
+    const side = position.sideToMove === 'white' ? 0 : 1;
+
+    const scored = moves.map(move => {
+      let score: number;
+      const captured = position.capturedType(move);
+      if (tableMove !== null && moveKey(move) === tableMove) {
+        score = TABLE_MOVE_ORDER;
+      } else if (captured) {
+        const attacker = position.pieceTypeAt(moveFrom(move))!;
+        score = CAPTURE_ORDER + ORDER_VALUES[captured] * 100 - ORDER_VALUES[attacker];
+      } else if (movePromotionType(move)) {
+        score = PROMOTION_ORDER + ORDER_VALUES[movePromotionType(move)!];
+      } else if (move === this.killers[ply * 2]) {
+        score = KILLER_ORDER[0];
+      } else if (move === this.killers[ply * 2 + 1]) {
+        score = KILLER_ORDER[1];
+      } else {
+        score = this.history[this.historyIndex(side, move)];
+      }
+      return { move, score };
+    });
+
+    return scored.sort((a, b) => b.score - a.score).map(entry => entry.move);
+  }
+
+  // A quiet move that refuted this position is likely to refute its siblings
+  // (killers) and is worth trying early anywhere (history)
+  private rememberQuietCutoff(position: SearchBoard, move: SearchMove, depth: number, ply: number): void {
+    if (this.killers[ply * 2] !== move) {
+      this.killers[ply * 2 + 1] = this.killers[ply * 2];
+      this.killers[ply * 2] = move;
+    }
+
+    const index = this.historyIndex(position.sideToMove === 'white' ? 0 : 1, move);
+    this.history[index] += depth * depth;
+    if (this.history[index] > HISTORY_LIMIT) {
+      for (let i = 0; i < this.history.length; i++) this.history[i] >>= 1;
+    }
+  }
+
+  private historyIndex(side: number, move: SearchMove): number {
+    return (side * SQUARES + moveFrom(move)) * SQUARES + moveTo(move);
+  }
+
+  private outOfTime(): boolean {
+    if ((++this.nodes & 1023) === 0 && Date.now() > this.deadline) {
+      this.stopped = true;
+    }
+    return this.stopped;
+  }
+
+  // `move` followed by the principal variation after it
+  private lineFrom(position: SearchBoard, move: SearchMove, depth: number): ChessMove[] {
+    const first = position.toChessMove(move);
+    position.makeMove(move);
+    const rest = this.principalVariation(position, depth - 1);
+    position.unmakeMove();
+    return [first, ...rest];
+  }
+
+  // Follows the best moves stored in the transposition table from `position`
+  private principalVariation(position: SearchBoard, depth: number): ChessMove[] {
+    const pv: ChessMove[] = [];
+    while (pv.length < depth) {
+      const entry = this.transpositionTable.probe(position.key);
+      if (!entry || entry.bestMove === null) break;
+      const move = position.generateMoves().find(candidate => moveKey(candidate) === entry.bestMove);
+      if (move === undefined) break;
+      pv.push(position.toChessMove(move));
+      position.makeMove(move);
+    }
+    pv.forEach(() => position.unmakeMove());
+    return pv;
+  }
+}
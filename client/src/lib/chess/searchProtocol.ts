@@ -0,0 +1,47 @@
+/**
+ * AI Search Worker Protocol
+ * Messages between the game and the search worker (searchWorker.ts)
+ *
+ * The game posts the position to search in position notation, with the keys
+ * of the game's earlier positions (position notation has no history, and the
+ * search needs it to see repetitions), the search limits and its current
+ * evaluation weights. The worker answers with
+ * a progress message after every depth it finishes, then one result (or an
+ * error). Every message carries the request's id so answers to a search the
+ * game has since cancelled can be told apart and dropped.
+ */
+
+import type { NeuralWeights } from './advancedAI';
+import type { SearchInfo, SearchLimits } from './searchEngine';
+import type { ZobristKey } from './zobrist';
+
+export interface SearchRequest {
+  type: 'search';
+  id: number;
+  position: string;
+  // Keys of the positions before each move played, oldest first
+  history: ZobristKey[];
+  limits: SearchLimits;
+  weights?: NeuralWeights;
+}
+
+export interface SearchProgressMessage {
+  type: 'progress';
+  id: number;
+  info: SearchInfo;
+}
+
+export interface SearchResultMessage {
+  type: 'result';
+  id: number;
+  // null when the side to move has no legal moves
+  info: SearchInfo | null;
+}
+
+export interface SearchErrorMessage {
+  type: 'error';
+  id: number;
+  message: string;
+}
+
+export type SearchWorkerResponse = SearchProgressMessage | SearchResultMessage | SearchErrorMessage;
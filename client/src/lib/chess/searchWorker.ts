@@ -0,0 +1,34 @@
+/**
+ * AI Search Worker
+ * Runs the advanced AI's search off the main thread. Started and stopped by
+ * searchWorkerClient.ts; see searchProtocol.ts for the messages.
+ */
+
+import { AdvancedAIPlayer } from './advancedAI';
+import { parsePosition } from './positionNotation';
+import type { SearchRequest, SearchWorkerResponse } from './searchProtocol';
+
+const worker = self as unknown as Worker;
+
+// One player for the worker's lifetime, so its transposition table carries
+// over from one move to the next
+const player = new AdvancedAIPlayer();
+
+function post(message: SearchWorkerResponse): void {
+  worker.postMessage(message);
+}
+
+worker.onmessage = (event: MessageEvent<SearchRequest>) => {
+  const { id, position, history, limits, weights } = event.data;
+
+  try {
+    if (weights) player.setNeuralWeights(weights);
+    const gameState = parsePosition(position);
+    const info = player.search(gameState, limits, progress => {
+      post({ type: 'progress', id, info: progress });
+    }, history);
+    post({ type: 'result', id, info });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,138 @@
+/**
+ * AI Search Worker Client
+ * Runs AI searches in a Web Worker so the board keeps responding while the
+ * AI thinks
+ *
+ * One search runs at a time. Starting another, or calling cancel() when the
+ * player undoes or resets, terminates the worker and resolves the pending
+ * search with null; the next search starts a fresh worker. Where workers
+ * don't exist (Node scripts and tests) the search runs on the calling thread.
+ */
+
+import { ChessMove, GameState } from './types';
+import { createMove } from '@shared/chessRules';
+import { advancedAI, gameHistoryKeys } from './advancedAI';
+import type { SearchInfo, SearchLimits } from './searchEngine';
+import { serializePosition } from './positionNotation';
+import type { SearchRequest, SearchWorkerResponse } from './searchProtocol';
+
+interface PendingSearch {
+  id: number;
+  gameState: GameState;
+  resolve: (info: SearchInfo | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: (info: SearchInfo) => void;
+}
+
+export class SearchWorkerClient {
+  private worker: Worker | null = null;
+  private pending: PendingSearch | null = null;
+  private nextId = 1;
+
+  get isSearching(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Best move for the side to move within `limits`, or null if the search was
+   * cancelled or there is no legal move.
+   */
+  search(gameState: GameState, limits: SearchLimits, onProgress?: (info: SearchInfo) => void): Promise<SearchInfo | null> {
+    this.cancel();
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.resolve(advancedAI.search(gameState, limits, onProgress));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending = { id, gameState, resolve, reject, onProgress };
+      const request: SearchRequest = {
+        type: 'search',
+        id,
+        position: serializePosition(gameState),
+        history: gameHistoryKeys(gameState),
+        limits,
+        weights: advancedAI.getNeuralWeights()
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Abandons the running search, if any. Its promise resolves with null.
+   */
+  cancel(): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    // A search in progress never reads its messages, so stop the whole worker
+    this.stopWorker();
+    this.pending = null;
+    pending.resolve(null);
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (typeof Worker === 'undefined') return null;
+
+    try {
+      this.worker = new Worker(new URL('./searchWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn('⚠️ Search worker unavailable, searching on the main thread:', error);
+      return null;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.stopWorker();
+      const pending = this.pending;
+      this.pending = null;
+      pending?.reject(new Error(event.message || 'Search worker failed'));
+    };
+    return this.worker;
+  }
+
+  private stopWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private handleMessage(message: SearchWorkerResponse): void {
+    const pending = this.pending;
+    // Answer to a search that has since been cancelled
+    if (!pending || pending.id !== message.id) return;
+
+    switch (message.type) {
+      case 'progress':
+        pending.onProgress?.(this.withCallerMove(pending.gameState, message.info));
+        break;
+      case 'result':
+        this.pending = null;
+        pending.resolve(message.info && this.withCallerMove(pending.gameState, message.info));
+        break;
+      case 'error':
+        this.pending = null;
+        pending.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  // The worker built its moves on its own copy of the board; rebuild each
+  // line's first move on the caller's board so it refers to the caller's pieces
+  private withCallerMove(gameState: GameState, info: SearchInfo): SearchInfo {
+    const callerMove = (line: { move: ChessMove }) => {
+      const { from, to, promotion } = line.move;
+      return createMove(gameState.board, from, to, promotion, gameState.enPassantTarget ?? null) ?? line.move;
+    };
+    return {
+      ...info,
+      move: callerMove(info),
+      lines: info.lines.map(line => ({ ...line, move: callerMove(line) }))
+    };
+  }
+}
+
+export const searchWorker = new SearchWorkerClient();
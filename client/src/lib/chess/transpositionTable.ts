@@ -0,0 +1,109 @@
+/**
+ * Transposition Table for AI Search
+ * Fixed-size cache of search results keyed by Zobrist hash
+ *
+ * Each slot remembers the depth a position was searched to, its score, what
+ * kind of bound that score is and the best move found. Scores from a search
+ * cut off by alpha-beta are only bounds:
+ *   exact  the score is the position's value at that depth
+ *   lower  the real value is at least the score (the search failed high)
+ *   upper  the real value is at most the score (the search failed low)
+ *
+ * Entries live in typed arrays indexed by the low bits of the key, so the
+ * table never grows. A new result replaces the slot unless the slot holds the
+ * same position searched deeper.
+ */
+
+import { ChessMove } from './types';
+import { BOARD_SIZE, PROMOTION_PIECES } from '@shared/chessRules';
+import { ZobristKey } from './zobrist';
+
+export type BoundType = 'exact' | 'lower' | 'upper';
+
+export interface TranspositionEntry {
+  score: number;
+  depth: number;
+  bound: BoundType;
+  bestMove: number | null;
+}
+
+const BOUNDS: BoundType[] = ['exact', 'lower', 'upper'];
+const NO_MOVE = -1;
+const SQUARES = BOARD_SIZE * BOARD_SIZE;
+
+export const DEFAULT_TABLE_BITS = 18;
+
+/**
+ * Compact number for a move (origin, destination and promotion piece), as
+ * stored in the table.
+ */
+export function encodeMove(move: ChessMove): number {
+  const from = move.from.row * BOARD_SIZE + move.from.col;
+  const to = move.to.row * BOARD_SIZE + move.to.col;
+  const promotion = move.promotion ? PROMOTION_PIECES.indexOf(move.promotion) + 1 : 0;
+  return (promotion * SQUARES + from) * SQUARES + to;
+}
+
+export class TranspositionTable {
+  private readonly mask: number;
+  private keysLo: Int32Array;
+  private keysHi: Int32Array;
+  private scores: Float64Array;
+  private depths: Int8Array;
+  private bounds: Uint8Array;
+  private moves: Int32Array;
+  private used: Uint8Array;
+
+  constructor(bits: number = DEFAULT_TABLE_BITS) {
+    const size = 1 << bits;
+    this.mask = size - 1;
+    this.keysLo = new Int32Array(size);
+    this.keysHi = new Int32Array(size);
+    this.scores = new Float64Array(size);
+    this.depths = new Int8Array(size);
+    this.bounds = new Uint8Array(size);
+    this.moves = new Int32Array(size);
+    this.used = new Uint8Array(size);
+  }
+
+  get size(): number {
+    return this.mask + 1;
+  }
+
+  probe(key: ZobristKey): TranspositionEntry | null {
+    const slot = key.lo & this.mask;
+    if (!this.used[slot] || this.keysLo[slot] !== key.lo || this.keysHi[slot] !== key.hi) {
+      return null;
+    }
+    return {
+      score: this.scores[slot],
+      depth: this.depths[slot],
+      bound: BOUNDS[this.bounds[slot]],
+      bestMove: this.moves[slot] === NO_MOVE ? null : this.moves[slot]
+    };
+  }
+
+  /**
+   * `bestMove` is the move's encodeMove number (moveKey for search board moves).
+   */
+  store(key: ZobristKey, depth: number, score: number, bound: BoundType, bestMove: number | null): void {
+    const slot = key.lo & this.mask;
+    const samePosition = this.used[slot] && this.keysLo[slot] === key.lo && this.keysHi[slot] === key.hi;
+    if (samePosition && this.depths[slot] > depth) return;
+
+    this.used[slot] = 1;
+    this.keysLo[slot] = key.lo;
+    this.keysHi[slot] = key.hi;
+    this.scores[slot] = score;
+    this.depths[slot] = depth;
+    this.bounds[slot] = BOUNDS.indexOf(bound);
+    // Keep the old best move if this search didn't produce one
+    if (bestMove !== null || !samePosition) {
+      this.moves[slot] = bestMove ?? NO_MOVE;
+    }
+  }
+
+  clear(): void {
+    this.used.fill(0);
+  }
+}
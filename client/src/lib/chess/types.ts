@@ -1,34 +1,13 @@
-export type PieceType = 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king' | 'wizard';
-export type PieceColor = 'white' | 'black';
-export type GamePhase = 'menu' | 'playing' | 'ended';
-export type GameMode = 'local' | 'ai' | 'ai-vs-ai' | 'multiplayer';
-export type AIDifficulty = 'easy' | 'medium' | 'hard' | 'advanced';
-
-export interface Position {
-  row: number;
-  col: number;
-}
+import type { PieceType, PieceColor, Position, ChessPiece, ChessMove } from '@shared/chessRules';
+import type { DrawReason } from '@shared/drawRules';
 
-export interface ChessPiece {
-  type: PieceType;
-  color: PieceColor;
-  id: string;
-  hasMoved?: boolean;
-}
+// Board primitives and moves are defined by the shared rules engine so the
+// server validates online games against the same types
+export type { PieceType, PieceColor, Position, ChessPiece, ChessMove, DrawReason };
 
-export interface ChessMove {
-  from: Position;
-  to: Position;
-  piece: ChessPiece;
-  captured?: ChessPiece;
-  isWizardTeleport?: boolean;
-  isWizardAttack?: boolean;
-  promotion?: PieceType; // For pawn promotion
-  isCastling?: boolean;
-  rookMove?: { from: Position; to: Position }; // For castling, track rook movement
-  notation?: string; // Move notation (e.g., "e2e4", "Nf3")
-  move?: string; // Alternative move representation
-}
+export type GamePhase = 'menu' | 'playing' | 'ended';
+export type GameMode = 'local' | 'ai' | 'ai-vs-ai' | 'multiplayer' | 'analysis' | 'puzzle' | 'endgame';
+export type AIDifficulty = 'easy' | 'medium' | 'hard' | 'advanced';
 
 export interface GameState {
   board: (ChessPiece | null)[][];
@@ -43,6 +22,17 @@ export interface GameState {
   isCheckmate: boolean;
   isStalemate: boolean;
   winner: PieceColor | null;
+  // Why a finished game without a winner was drawn (see shared/drawRules.ts)
+  drawReason?: DrawReason | null;
+  // Position keys since the last pawn move or capture, for threefold repetition
+  positionHistory?: string[];
+  // Square skipped by a pawn's double step on the previous move, capturable en passant
+  enPassantTarget?: Position | null;
+  // Move counters for position notation (see positionNotation.ts)
+  halfmoveClock?: number;
+  fullmoveNumber?: number;
+  // Position notation the game started from, when it wasn't the standard start
+  startPosition?: string;
 }
 
 export interface AIMove {
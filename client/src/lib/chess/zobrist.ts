@@ -0,0 +1,204 @@
+/**
+ * Zobrist Hashing for Wizard Chess
+ * 64-bit position keys that can be updated move by move
+ *
+ * Every (piece, square) pair, each castling right, each en passant file and
+ * the side to move gets a fixed random number; a position's key is the XOR of
+ * the numbers for everything present. Making a move only XORs out what left
+ * and XORs in what arrived, so search never rescans the board.
+ *
+ * JavaScript bitwise operators work on 32 bits, so keys are kept as two
+ * 32-bit halves. The random numbers come from a fixed seed, so the same
+ * position has the same key in every tab, worker and session.
+ */
+
+import { ChessMove, ChessPiece, PieceColor, PieceType } from './types';
+import { BOARD_SIZE, KING_START_COL, getHomeRow, type EnPassantTarget } from '@shared/chessRules';
+
+type Board = (ChessPiece | null)[][];
+
+export interface ZobristKey {
+  lo: number;
+  hi: number;
+}
+
+const PIECE_TYPES: PieceType[] = ['pawn', 'knight', 'bishop', 'rook', 'queen', 'king', 'wizard'];
+const SQUARES = BOARD_SIZE * BOARD_SIZE;
+
+// White kingside, white queenside, black kingside, black queenside
+const CASTLING_RIGHTS = 4;
+
+function createRandom(seed: number): () => number {
+  // mulberry32
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (t ^ (t >>> 14)) | 0;
+  };
+}
+
+const random = createRandom(0x5A0B1257);
+const fill = (size: number) => {
+  const values = new Int32Array(size);
+  for (let i = 0; i < size; i++) values[i] = random();
+  return values;
+};
+
+const PIECE_KEYS_LO = fill(2 * PIECE_TYPES.length * SQUARES);
+const PIECE_KEYS_HI = fill(2 * PIECE_TYPES.length * SQUARES);
+const CASTLING_KEYS_LO = fill(CASTLING_RIGHTS);
+const CASTLING_KEYS_HI = fill(CASTLING_RIGHTS);
+const EN_PASSANT_KEYS_LO = fill(BOARD_SIZE);
+const EN_PASSANT_KEYS_HI = fill(BOARD_SIZE);
+const BLACK_TO_MOVE_LO = random();
+const BLACK_TO_MOVE_HI = random();
+
+/**
+ * Raw key tables for board representations that keep their own key (see
+ * searchBoard.ts). Piece keys are indexed by (color * 7 + type) * 100 + square,
+ * with white as color 0, types in PIECE_TYPES order and square = row * 10 + col.
+ * Castling bits are white kingside, white queenside, black kingside, black
+ * queenside; en passant keys are per file.
+ */
+export const ZOBRIST_TABLES = {
+  pieceTypes: PIECE_TYPES,
+  pieceLo: PIECE_KEYS_LO,
+  pieceHi: PIECE_KEYS_HI,
+  castlingLo: CASTLING_KEYS_LO,
+  castlingHi: CASTLING_KEYS_HI,
+  enPassantLo: EN_PASSANT_KEYS_LO,
+  enPassantHi: EN_PASSANT_KEYS_HI,
+  blackToMoveLo: BLACK_TO_MOVE_LO,
+  blackToMoveHi: BLACK_TO_MOVE_HI
+} as const;
+
+function pieceIndex(piece: ChessPiece, row: number, col: number): number {
+  const kind = (piece.color === 'white' ? 0 : PIECE_TYPES.length) + PIECE_TYPES.indexOf(piece.type);
+  return kind * SQUARES + row * BOARD_SIZE + col;
+}
+
+// Bit i set = castling right i still available
+function castlingBits(board: Board): number {
+  let bits = 0;
+  (['white', 'black'] as PieceColor[]).forEach((color, side) => {
+    const row = getHomeRow(color);
+    const unmoved = (col: number, type: PieceType) => {
+      const piece = board[row][col];
+      return !!piece && piece.type === type && piece.color === color && !piece.hasMoved;
+    };
+    if (!unmoved(KING_START_COL, 'king')) return;
+    if (unmoved(BOARD_SIZE - 1, 'rook')) bits |= 1 << (side * 2);
+    if (unmoved(0, 'rook')) bits |= 1 << (side * 2 + 1);
+  });
+  return bits;
+}
+
+/**
+ * Key for a position computed from scratch.
+ */
+export function computeZobristKey(board: Board, sideToMove: PieceColor, enPassantTarget: EnPassantTarget = null): ZobristKey {
+  let lo = 0;
+  let hi = 0;
+
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+      const index = pieceIndex(piece, row, col);
+      lo ^= PIECE_KEYS_LO[index];
+      hi ^= PIECE_KEYS_HI[index];
+    }
+  }
+
+  const castling = castlingBits(board);
+  for (let right = 0; right < CASTLING_RIGHTS; right++) {
+    if (castling & (1 << right)) {
+      lo ^= CASTLING_KEYS_LO[right];
+      hi ^= CASTLING_KEYS_HI[right];
+    }
+  }
+
+  if (enPassantTarget) {
+    lo ^= EN_PASSANT_KEYS_LO[enPassantTarget.col];
+    hi ^= EN_PASSANT_KEYS_HI[enPassantTarget.col];
+  }
+  if (sideToMove === 'black') {
+    lo ^= BLACK_TO_MOVE_LO;
+    hi ^= BLACK_TO_MOVE_HI;
+  }
+
+  return { lo, hi };
+}
+
+/**
+ * Key after `move`, given the key before it. `board` is the position the move
+ * was played on and `nextBoard` the result, so promotions, castling rights and
+ * the captured piece are read from the boards rather than trusted from the move.
+ */
+export function updateZobristKey(
+  key: ZobristKey,
+  board: Board,
+  move: ChessMove,
+  nextBoard: Board,
+  enPassantBefore: EnPassantTarget = null,
+  enPassantAfter: EnPassantTarget = null
+): ZobristKey {
+  let { lo, hi } = key;
+  const toggle = (piece: ChessPiece | null, row: number, col: number) => {
+    if (!piece) return;
+    const index = pieceIndex(piece, row, col);
+    lo ^= PIECE_KEYS_LO[index];
+    hi ^= PIECE_KEYS_HI[index];
+  };
+
+  const { from, to } = move;
+  if (move.isWizardAttack) {
+    // The wizard stays where it is; only its target disappears
+    toggle(board[to.row][to.col], to.row, to.col);
+  } else {
+    toggle(board[from.row][from.col], from.row, from.col);
+    if (move.isEnPassant) {
+      toggle(board[from.row][to.col], from.row, to.col);
+    } else {
+      toggle(board[to.row][to.col], to.row, to.col);
+    }
+    toggle(nextBoard[to.row][to.col], to.row, to.col);
+
+    if (move.isCastling && move.rookMove) {
+      const rookFrom = move.rookMove.from;
+      const rookTo = move.rookMove.to;
+      toggle(board[rookFrom.row][rookFrom.col], rookFrom.row, rookFrom.col);
+      toggle(nextBoard[rookTo.row][rookTo.col], rookTo.row, rookTo.col);
+    }
+  }
+
+  const castlingChanges = castlingBits(board) ^ castlingBits(nextBoard);
+  for (let right = 0; right < CASTLING_RIGHTS; right++) {
+    if (castlingChanges & (1 << right)) {
+      lo ^= CASTLING_KEYS_LO[right];
+      hi ^= CASTLING_KEYS_HI[right];
+    }
+  }
+
+  if (enPassantBefore) {
+    lo ^= EN_PASSANT_KEYS_LO[enPassantBefore.col];
+    hi ^= EN_PASSANT_KEYS_HI[enPassantBefore.col];
+  }
+  if (enPassantAfter) {
+    lo ^= EN_PASSANT_KEYS_LO[enPassantAfter.col];
+    hi ^= EN_PASSANT_KEYS_HI[enPassantAfter.col];
+  }
+
+  lo ^= BLACK_TO_MOVE_LO;
+  hi ^= BLACK_TO_MOVE_HI;
+  return { lo, hi };
+}
+
+/**
+ * 16-digit hex form of a key, for storage and logging.
+ */
+export function zobristKeyToString(key: ZobristKey): string {
+  return (key.hi >>> 0).toString(16).padStart(8, '0') + (key.lo >>> 0).toString(16).padStart(8, '0');
+}
@@ -25,6 +25,8 @@ export interface GameSaveData {
     theme: string;
     boardTheme: string;
   };
+  // Endgame trainer progress by lesson id
+  endgameProgress: Record<string, any>;
 }
 
 export interface SaveResponse {
@@ -66,6 +68,10 @@ class CloudSaveManager {
       const achievementStore = localStorage.getItem('fantasy-chess-achievements');
       const achievementData = achievementStore ? JSON.parse(achievementStore) : {};
 
+      // Get endgame trainer progress
+      const endgameStore = localStorage.getItem('endgame-trainer-storage');
+      const endgameData = endgameStore ? JSON.parse(endgameStore) : {};
+
       // Get audio settings
       const audioStore = localStorage.getItem('wizard-chess-audio');
       const audioData = audioStore ? JSON.parse(audioStore) : {};
@@ -97,7 +103,8 @@ class CloudSaveManager {
           averageGameTime: 0,
           fastestWin: null
         },
-        gameSettings
+        gameSettings,
+        endgameProgress: endgameData.state?.progress || {}
       };
 
       return saveData;
@@ -285,6 +292,15 @@ class CloudSaveManager {
         localStorage.setItem('fantasy-chess-achievements', JSON.stringify(saveData.achievements));
       }
 
+      // Apply endgame trainer progress
+      if (saveData.endgameProgress) {
+        const endgameStore = {
+          state: { progress: saveData.endgameProgress },
+          version: 0
+        };
+        localStorage.setItem('endgame-trainer-storage', JSON.stringify(endgameStore));
+      }
+
       // Apply game settings
       if (saveData.gameSettings) {
         const audioSettings = {
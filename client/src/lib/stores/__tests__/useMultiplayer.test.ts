@@ -0,0 +1,100 @@
+/**
+ * Online Game Store Tests
+ * Results the server sends must end the local game, not just be displayed,
+ * and matchmaking must ask the server for the chosen time control
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// Captures the handlers of the last socket opened so the test can play the server
+const server = vi.hoisted(() => ({
+  handlers: new Map<string, (data: any) => void>(),
+  received: [] as Array<{ event: string; data: any }>
+}));
+
+vi.mock('socket.io-client', () => ({
+  io: () => {
+    server.handlers = new Map();
+    return {
+      connected: false,
+      on: (event: string, handler: (data: any) => void) => server.handlers.set(event, handler),
+      off: () => {},
+      emit: (event: string, data: any) => server.received.push({ event, data }),
+      disconnect: () => {}
+    };
+  }
+}));
+vi.mock('../../utils/socketReconnection', () => ({
+  SocketReconnectionManager: class {
+    destroy() {}
+  }
+}));
+
+import { useMultiplayer } from '../useMultiplayer';
+import { useChess } from '../useChess';
+import { createInitialGameState } from '../../chess/gameEngine';
+
+const serverSends = (event: string, data: any) => server.handlers.get(event)!(data);
+
+describe('online game results', () => {
+  it('locks the board when the server flags a player', async () => {
+    useMultiplayer.getState().connect({ userId: 1, username: 'white', displayName: 'White', rating: 1200 });
+    useChess.setState(createInitialGameState('multiplayer', 'medium'));
+    serverSends('game:matched', {
+      gameId: 'game_1',
+      opponent: { name: 'Black', rating: 1200 },
+      yourColor: 'white',
+      gameState: useChess.getState(),
+      timeControl: 60
+    });
+
+    serverSends('game:ended', { winner: 'black', reason: 'timeout', rated: true });
+
+    expect(useMultiplayer.getState().gameResult).toEqual({ winner: 'black', reason: 'timeout', rated: true });
+    await vi.waitFor(() => expect(useChess.getState().gamePhase).toBe('ended'));
+    expect(useChess.getState().winner).toBe('black');
+
+    // White's pawns can no longer be picked up
+    useChess.getState().selectSquare({ row: 8, col: 4 });
+    expect(useChess.getState().selectedPosition).toBeNull();
+    expect(useChess.getState().validMoves).toEqual([]);
+  });
+
+  it('records agreed draws as drawn games', async () => {
+    useChess.setState(createInitialGameState('multiplayer', 'medium'));
+
+    serverSends('game:ended', { winner: 'draw', reason: 'agreement', rated: true });
+
+    await vi.waitFor(() => expect(useChess.getState().gamePhase).toBe('ended'));
+    expect(useChess.getState().winner).toBeNull();
+    expect(useChess.getState().drawReason).toBe('agreement');
+  });
+});
+
+describe('abort window', () => {
+  it("keeps the server's move count when moves are taken back", () => {
+    useMultiplayer.getState().connect({ userId: 1, username: 'white', displayName: 'White', rating: 1200 });
+    const gameState = createInitialGameState('multiplayer', 'medium');
+    serverSends('game:matched', { gameId: 'game_2', opponent: { name: 'Black', rating: 1200 }, yourColor: 'white', gameState });
+    expect(useMultiplayer.getState().currentGame?.movesPlayed).toBe(0);
+
+    serverSends('game:move', { gameId: 'game_2', gameState, movesPlayed: 2 });
+    serverSends('game:takeback', { gameId: 'game_2', gameState, movesPlayed: 2 });
+
+    expect(useMultiplayer.getState().currentGame?.movesPlayed).toBe(2);
+  });
+});
+
+describe('matchmaking', () => {
+  it('queues for the chosen time control', () => {
+    useMultiplayer.getState().connect({ userId: 1, username: 'white', displayName: 'White', rating: 1200 });
+    serverSends('connect', undefined);
+
+    useMultiplayer.getState().joinMatchmaking('15+10');
+
+    expect(server.received.filter(message => message.event.startsWith('matchmaking:'))).toEqual([
+      { event: 'matchmaking:find-opponent', data: { timeControl: '15+10' } }
+    ]);
+    expect(useMultiplayer.getState().matchmaking.inQueue).toBe(true);
+  });
+});
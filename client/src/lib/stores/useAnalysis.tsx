@@ -0,0 +1,192 @@
+import { create } from 'zustand';
+import { ChessMove, GameState, PieceColor } from '../chess/types';
+import {
+  AnalysisTree,
+  addMove,
+  createAnalysisTree,
+  lineEnd,
+  promoteVariation,
+  removeVariation,
+  treeFromGame
+} from '../chess/analysisTree';
+import { lineToSAN } from '../chess/notation';
+import { mateIn, scoreToCentipawns, type SearchInfo, type SearchLimits } from '../chess/searchEngine';
+import { SearchWorkerClient } from '../chess/searchWorkerClient';
+import { useChess } from './useChess';
+
+// One of the engine's candidate lines, scored from white's point of view
+export interface AnalysisLine {
+  san: string[];
+  // First move, so the line can be played on the board
+  move: ChessMove;
+  centipawns: number;
+  // Moves to mate, positive when white mates
+  mate: number | null;
+}
+
+interface AnalysisStore {
+  tree: AnalysisTree | null;
+  currentId: number;
+
+  // Engine output for the current node
+  engineEnabled: boolean;
+  multiPV: number;
+  depth: number;
+  lines: AnalysisLine[];
+
+  startAnalysis: (gameState: GameState) => void;
+  playMove: (move: ChessMove) => void;
+  goTo: (id: number) => void;
+  goBack: () => void;
+  goForward: () => void;
+  goToEnd: () => void;
+  removeVariation: (id: number) => void;
+  promoteVariation: (id: number) => void;
+  setMultiPV: (multiPV: number) => void;
+  toggleEngine: () => void;
+  stopAnalysis: () => void;
+}
+
+// Deep enough to keep improving for a while; the time limit ends each search
+export const ANALYSIS_LIMITS: SearchLimits = { maxDepth: 16, timeLimitMs: 20000 };
+export const MAX_MULTI_PV = 5;
+
+// Analysis gets its own worker so it never cancels the AI's searches
+const analysisWorker = new SearchWorkerClient();
+
+function toAnalysisLines(gameState: GameState, info: SearchInfo): AnalysisLine[] {
+  const sign = gameState.currentPlayer === 'white' ? 1 : -1;
+  return info.lines.map(line => {
+    const mate = mateIn(line.score);
+    return {
+      san: lineToSAN(gameState.board, gameState.currentPlayer, line.pv.length > 0 ? line.pv : [line.move], gameState.enPassantTarget ?? null),
+      move: line.move,
+      centipawns: scoreToCentipawns(line.score) * sign,
+      mate: mate === null ? null : mate * sign
+    };
+  });
+}
+
+export const useAnalysis = create<AnalysisStore>()((set, get) => {
+  // Shows node `id` on the board and restarts the engine there
+  const showNode = (tree: AnalysisTree, id: number) => {
+    set({ tree, currentId: id, depth: 0, lines: [] });
+    useChess.setState({ startPosition: undefined, ...tree.nodes[id].gameState, selectedPosition: null, validMoves: [] });
+    analyse();
+  };
+
+  const analyse = () => {
+    analysisWorker.cancel();
+    const { tree, currentId, engineEnabled, multiPV } = get();
+    if (!tree || !engineEnabled) return;
+
+    const gameState = tree.nodes[currentId].gameState;
+    if (gameState.gamePhase === 'ended') return;
+
+    // Progress from a cancelled search never arrives, so anything that does
+    // is for the node still on the board
+    analysisWorker.search(gameState, { ...ANALYSIS_LIMITS, multiPV }, info => {
+      set({ depth: info.depth, lines: toAnalysisLines(gameState, info) });
+    }).catch(error => {
+      console.error('❌ Analysis search failed:', error);
+    });
+  };
+
+  return {
+    tree: null,
+    currentId: 0,
+    engineEnabled: true,
+    multiPV: 3,
+    depth: 0,
+    lines: [],
+
+    startAnalysis: (gameState: GameState) => {
+      const { tree, id } = gameState.moveHistory.length > 0
+        ? treeFromGame(gameState)
+        : { tree: createAnalysisTree({ ...gameState, gameMode: 'analysis' }), id: 0 };
+      console.log('🔬 Analysis board ready:', { moves: gameState.moveHistory.length });
+      showNode(tree, id);
+    },
+
+    playMove: (move: ChessMove) => {
+      const { tree: current, currentId } = get();
+      if (!current) return;
+      const { tree, id } = addMove(current, currentId, move);
+      showNode(tree, id);
+    },
+
+    goTo: (id: number) => {
+      const { tree } = get();
+      if (tree?.nodes[id]) showNode(tree, id);
+    },
+
+    goBack: () => {
+      const { tree, currentId } = get();
+      const parent = tree?.nodes[currentId].parent;
+      if (tree && parent !== null && parent !== undefined) showNode(tree, parent);
+    },
+
+    goForward: () => {
+      const { tree, currentId } = get();
+      const next = tree?.nodes[currentId].children[0];
+      if (tree && next !== undefined) showNode(tree, next);
+    },
+
+    goToEnd: () => {
+      const { tree, currentId } = get();
+      if (tree) showNode(tree, lineEnd(tree, currentId));
+    },
+
+    removeVariation: (id: number) => {
+      const { tree, currentId } = get();
+      if (!tree || !tree.nodes[id] || tree.nodes[id].parent === null) return;
+
+      // Step off the removed line if the board is on it
+      const parent = tree.nodes[id].parent!;
+      const pruned = removeVariation(tree, id);
+      if (pruned.nodes[currentId]) {
+        set({ tree: pruned });
+      } else {
+        showNode(pruned, parent);
+      }
+    },
+
+    promoteVariation: (id: number) => {
+      const { tree } = get();
+      if (tree?.nodes[id]) set({ tree: promoteVariation(tree, id) });
+    },
+
+    setMultiPV: (multiPV: number) => {
+      set({ multiPV: Math.max(1, Math.min(MAX_MULTI_PV, Math.round(multiPV))), depth: 0, lines: [] });
+      analyse();
+    },
+
+    toggleEngine: () => {
+      set(state => ({ engineEnabled: !state.engineEnabled, depth: 0, lines: [] }));
+      if (get().engineEnabled) {
+        analyse();
+      } else {
+        analysisWorker.cancel();
+      }
+    },
+
+    stopAnalysis: () => {
+      analysisWorker.cancel();
+      set({ tree: null, currentId: 0, depth: 0, lines: [] });
+    }
+  };
+});
+
+/**
+ * Evaluation of the current position from white's point of view: the best
+ * line's score, or the result once the game is over.
+ */
+export function currentEvaluation(lines: AnalysisLine[], gameState: Pick<GameState, 'isCheckmate' | 'gamePhase' | 'currentPlayer'>): { centipawns: number; mate: number | null } {
+  if (gameState.isCheckmate) {
+    // The side to move has been mated
+    const winner: PieceColor = gameState.currentPlayer === 'white' ? 'black' : 'white';
+    return { centipawns: winner === 'white' ? Infinity : -Infinity, mate: 0 };
+  }
+  if (gameState.gamePhase === 'ended' || lines.length === 0) return { centipawns: 0, mate: null };
+  return { centipawns: lines[0].centipawns, mate: lines[0].mate };
+}
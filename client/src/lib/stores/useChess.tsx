@@ -1,8 +1,14 @@
 import { create } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
 import { GameState, ChessMove, Position, GameMode, AIDifficulty, PieceColor } from "../chess/types";
-import { createInitialBoard, makeMove, getValidMovesForPosition } from "../chess/gameEngine";
+import { createInitialGameState, makeMove, getValidMovesForPosition } from "../chess/gameEngine";
+import { parsePosition } from "../chess/positionNotation";
+import { exportGameRecord, importGameRecord } from "../chess/gameRecord";
+import { withNotation } from "../chess/notation";
+import type { GameRecord, GameRecordHeaders } from "../chess/gameRecord";
+import { createMove } from "@shared/chessRules";
 import { getAIMove } from "../chess/aiPlayer";
+import { searchWorker } from "../chess/searchWorkerClient";
 import { useAudio } from "./useAudio";
 import { wizardChessAudio } from "../audio/audioManager";
 import { useMultiplayer } from "./useMultiplayer";
@@ -15,6 +21,10 @@ import { useAIDifficultyProgression } from "./useAIDifficultyProgression";
 import { useWizardAssistant } from "./useWizardAssistant";
 import gameDataCollector from "../dataCollection/gameDataCollector";
 import { useDynamicAIMentor } from "./useDynamicAIMentor";
+import { reviewAndLogGame } from "./useGameReview";
+import { useAnalysis } from "./useAnalysis";
+import { usePuzzles } from "./usePuzzles";
+import { useEndgameTrainer } from "./useEndgameTrainer";
 import { aiCoach, rlCommentary } from "../ai/coach";
 import type { Tags } from "../ai/coach";
 
@@ -31,7 +41,7 @@ interface ChessStore extends GameState {
   aiThinkingMessage: string;
   
   // Actions
-  startGame: (mode: GameMode, aiDifficulty?: AIDifficulty) => void;
+  startGame: (mode: GameMode, aiDifficulty?: AIDifficulty, position?: string) => void;
   selectSquare: (position: Position | null) => void;
   makePlayerMove: (from: Position, to: Position) => Promise<void>;
   makeAIMove: () => void;
@@ -40,21 +50,15 @@ interface ChessStore extends GameState {
   undoMove: () => void;
   toggleHints: () => void;
   setAIThinking: (thinking: boolean, message?: string) => void;
+  applyServerState: (serverState: any) => void;
+  endOnlineGame: (winner: PieceColor | 'draw' | null, reason: string) => void;
+  exportGameRecord: (headers?: Partial<GameRecordHeaders>) => string;
+  importGameRecord: (text: string) => GameRecord;
 }
 
 const initialState: GameState = {
-  board: createInitialBoard(),
-  currentPlayer: 'white',
-  selectedPosition: null,
-  validMoves: [],
-  gamePhase: 'menu',
-  gameMode: 'local',
-  aiDifficulty: 'medium',
-  moveHistory: [],
-  isInCheck: false,
-  isCheckmate: false,
-  isStalemate: false,
-  winner: null
+  ...createInitialGameState('local', 'medium'),
+  gamePhase: 'menu'
 };
 
 export const useChess = create<ChessStore>()(
@@ -66,8 +70,19 @@ export const useChess = create<ChessStore>()(
     aiThinking: false,
     aiThinkingMessage: '',
 
-    startGame: (mode: GameMode, aiDifficulty: AIDifficulty = 'medium') => {
-      const newBoard = createInitialBoard();
+    startGame: (mode: GameMode, aiDifficulty: AIDifficulty = 'medium', position?: string) => {
+      // Every mode (local, AI, campaign, online) starts from the shared canonical position
+      // unless a position in wizard chess notation is supplied
+      let newGame: GameState;
+      try {
+        newGame = position
+          ? parsePosition(position, mode, aiDifficulty)
+          : createInitialGameState(mode, aiDifficulty);
+      } catch (error) {
+        console.error('❌ Invalid starting position:', error);
+        return;
+      }
+      const newBoard = newGame.board;
       console.log('🎮 Starting new game:', { mode, aiDifficulty });
       console.log('📋 Initial board created:', newBoard);
       console.log('🔍 White pawn positions (row 8):', newBoard[8]);
@@ -91,22 +106,34 @@ export const useChess = create<ChessStore>()(
         );
       }
       
+      searchWorker.cancel();
       set({
-        board: newBoard,
-        currentPlayer: 'white',
-        selectedPosition: null,
-        validMoves: [],
-        gamePhase: 'playing',
-        gameMode: mode,
-        aiDifficulty: aiDifficulty,
-        moveHistory: [],
-        isInCheck: false,
-        isCheckmate: false,
-        isStalemate: false,
-        winner: null,
+        startPosition: undefined,
+        ...newGame,
         gameStartTime: Date.now(),
         wizardCaptureCount: 0
       });
+
+      // The analysis board keeps its own tree of lines, starting here
+      if (mode === 'analysis') {
+        useAnalysis.getState().startAnalysis(newGame);
+      } else {
+        useAnalysis.getState().stopAnalysis();
+      }
+
+      // Puzzle mode sets up each puzzle's position itself
+      if (mode === 'puzzle') {
+        usePuzzles.getState().nextPuzzle();
+      } else {
+        usePuzzles.getState().stopPuzzles();
+      }
+
+      // The endgame trainer sets up each lesson's position itself
+      if (mode === 'endgame') {
+        useEndgameTrainer.getState().nextLesson();
+      } else {
+        useEndgameTrainer.getState().stopLesson();
+      }
       
       // ELIMINATE old music and FORCE Theme-music1.mp3 playback
       // Clear all music variables pre-init
@@ -175,6 +202,13 @@ export const useChess = create<ChessStore>()(
           get().makeAIVsAIMove();
         }, 1000); // Start after 1 second
       }
+
+      // A loaded position may hand the first move to the AI (black)
+      if (mode === 'ai' && newGame.currentPlayer === 'black' && newGame.gamePhase === 'playing') {
+        setTimeout(() => {
+          get().makeAIMove();
+        }, 1000);
+      }
     },
 
     selectSquare: (position: Position | null) => {
@@ -276,56 +310,11 @@ export const useChess = create<ChessStore>()(
 
     makePlayerMove: async (from: Position, to: Position) => {
       const state = get();
-      const piece = state.board[from.row][from.col];
-      const captured = state.board[to.row][to.col] || undefined;
-      
-      if (!piece) return;
-
-      // Wizard movement logic: 
-      // - Teleport: move to empty square within 2 squares (wizard moves to new position)
-      // - Attack: destroy enemy within 2 squares but wizard STAYS in original position
-      const isWizardMove = piece.type === 'wizard';
-      const isWizardTeleport = isWizardMove && !captured;
-      const isWizardAttack = isWizardMove && !!captured && captured.color !== piece.color;
-      
-      // Check for castling
-      const isCastling = piece.type === 'king' && from.col === 5 && (to.col === 2 || to.col === 7);
-      let rookMove: { from: Position; to: Position } | undefined = undefined;
-      
-      if (isCastling) {
-        const homeRow = piece.color === 'white' ? 9 : 0;
-        if (to.col === 2) { // Queenside castling (king to c1/c10)
-          rookMove = { 
-            from: { row: homeRow, col: 0 }, 
-            to: { row: homeRow, col: 3 } 
-          };
-          console.log('🏰 Queenside castling detected:', { kingMove: `${from.col}→${to.col}`, rookMove: `0→3` });
-        } else if (to.col === 7) { // Kingside castling (king to h1/h10)  
-          rookMove = { 
-            from: { row: homeRow, col: 9 }, 
-            to: { row: homeRow, col: 6 } 
-          };
-          console.log('🏰 Kingside castling detected:', { kingMove: `${from.col}→${to.col}`, rookMove: `9→6` });
-        }
-      }
-      
-      // Check if pawn promotion is needed
-      const promotion = piece.type === 'pawn' && 
-        ((piece.color === 'white' && to.row === 0) || (piece.color === 'black' && to.row === 9)) 
-        ? 'queen' // Auto-promote to queen for now
-        : undefined;
-
-      const move: ChessMove = {
-        from,
-        to,
-        piece,
-        captured,
-        isWizardTeleport,
-        isWizardAttack,
-        promotion,
-        isCastling,
-        rookMove
-      };
+      // The shared rules engine derives wizard teleport/attack, castling, en passant and promotion flags
+      const move = createMove(state.board, from, to, undefined, state.enPassantTarget ?? null);
+      if (!move) return;
+
+      const { piece, captured, isWizardTeleport, isWizardAttack, isCastling, promotion } = move;
 
       // Play audio based on move type
       console.log('🎵 Playing audio for:', { piece: piece.type, captured: !!captured, isWizardAttack, isWizardTeleport, isCastling, promotion });
@@ -349,7 +338,25 @@ export const useChess = create<ChessStore>()(
         chessBoard.dispatchEvent(animationEvent);
       }
 
-      const newState = makeMove(state, move);
+      // Analysis moves go into the variation tree, which updates the board
+      if (state.gameMode === 'analysis') {
+        useAnalysis.getState().playMove(withNotation(state.board, move, state.enPassantTarget));
+        return;
+      }
+
+      // Puzzle moves are checked against the solution before they reach the board
+      if (state.gameMode === 'puzzle') {
+        usePuzzles.getState().playMove(withNotation(state.board, move, state.enPassantTarget));
+        return;
+      }
+
+      // Endgame lessons are played against the trainer's defender
+      if (state.gameMode === 'endgame') {
+        useEndgameTrainer.getState().playMove(withNotation(state.board, move, state.enPassantTarget));
+        return;
+      }
+
+      const newState = makeMove(state, withNotation(state.board, move, state.enPassantTarget));
       
       // Track wizard captures for campaign requirements
       let newWizardCaptureCount = state.wizardCaptureCount;
@@ -453,6 +460,7 @@ export const useChess = create<ChessStore>()(
       if (newState.gamePhase === 'ended' && state.gameMode === 'ai') {
         const aiColor: PieceColor = 'black'; // AI is always black in human vs AI mode
         aiLearning.analyzeGame(newState, aiColor, 'human');
+        reviewAndLogGame(newState, Date.now() - state.gameStartTime);
         
         // 📊 End data collection and save game data
         if (gameDataCollector.isCollectingData()) {
@@ -537,12 +545,14 @@ export const useChess = create<ChessStore>()(
       }
 
       const aiMove = await getAIMove(state);
+      if (get().moveHistory !== state.moveHistory) return;
+
       if (aiMove) {
         // Audio managed by ChessAudioController component
         // Audio managed by ChessAudioController component
 
         // Skip repetition detection in AI vs AI mode to allow competitive evaluation
-        const newState = makeMove(state, aiMove, true);
+        const newState = makeMove(state, withNotation(state.board, aiMove, state.enPassantTarget), true);
         set(newState);
         
         // Analyze completed AI vs AI games for learning
@@ -578,11 +588,18 @@ export const useChess = create<ChessStore>()(
         // Simulate AI thinking time
         await new Promise(resolve => setTimeout(resolve, thinkingDelay));
 
-        const aiMove = await getAIMove(state);
+        // An undo or reset while we were thinking makes this move stale
+        if (get().moveHistory !== state.moveHistory) return;
+
+        const aiMove = await getAIMove(state, info => {
+          setAIThinking(true, `Searching depth ${info.depth} (score ${info.score.toFixed(1)})...`);
+        });
+        if (get().moveHistory !== state.moveHistory) return;
+
         if (aiMove) {
           // Audio managed by ChessAudioController component
 
-          const newState = makeMove(state, aiMove);
+          const newState = makeMove(state, withNotation(state.board, aiMove, state.enPassantTarget));
           set(newState);
           
           // 📊 Record AI move for data collection
@@ -594,6 +611,7 @@ export const useChess = create<ChessStore>()(
           if (newState.gamePhase === 'ended' && state.gameMode === 'ai') {
             const aiColor: PieceColor = 'black'; // AI is always black in human vs AI mode
             aiLearning.analyzeGame(newState, aiColor, 'human');
+            reviewAndLogGame(newState, Date.now() - state.gameStartTime);
             
             // 📊 End data collection when AI wins/draws
             if (gameDataCollector.isCollectingData()) {
@@ -612,25 +630,67 @@ export const useChess = create<ChessStore>()(
     },
 
     resetGame: () => {
+      searchWorker.cancel();
+      useAnalysis.getState().stopAnalysis();
+      usePuzzles.getState().stopPuzzles();
+      useEndgameTrainer.getState().stopLesson();
       set({
         ...initialState,
+        startPosition: undefined,
         gamePhase: 'menu'
       });
     },
 
+    // Game records: export the current game, or load a record by replaying it.
+    // Import throws GameRecordError (with line/move numbers) for bad records
+    exportGameRecord: (headers?: Partial<GameRecordHeaders>) => {
+      return exportGameRecord(get(), headers);
+    },
+
+    importGameRecord: (text: string) => {
+      const { record, gameState } = importGameRecord(text);
+      searchWorker.cancel();
+      console.log('📜 Game record imported:', { moves: record.moves.length, result: record.headers.result });
+
+      set({
+        startPosition: undefined,
+        ...gameState,
+        gameStartTime: Date.now(),
+        wizardCaptureCount: gameState.moveHistory.filter(move => move.isWizardAttack).length,
+        aiThinking: false,
+        aiThinkingMessage: ''
+      });
+      return record;
+    },
+
     undoMove: () => {
       const state = get();
       if (state.moveHistory.length === 0) return;
+      searchWorker.cancel();
+
+      // On the analysis board, undo steps back along the current line
+      if (state.gameMode === 'analysis') {
+        useAnalysis.getState().goBack();
+        return;
+      }
+
+      // Puzzles are retried from the start rather than taken back move by move
+      if (state.gameMode === 'puzzle') {
+        usePuzzles.getState().retry();
+        return;
+      }
+
+      // Lessons restart from their position, like puzzles
+      if (state.gameMode === 'endgame') {
+        useEndgameTrainer.getState().retry();
+        return;
+      }
 
       // For simplicity, just reset to initial state and replay all moves except the last one
       const movesToReplay = state.moveHistory.slice(0, -1);
-      let newState: GameState = {
-        ...initialState,
-        board: createInitialBoard(),
-        gamePhase: 'playing',
-        gameMode: state.gameMode,
-        aiDifficulty: state.aiDifficulty
-      };
+      let newState: GameState = state.startPosition
+        ? parsePosition(state.startPosition, state.gameMode, state.aiDifficulty)
+        : createInitialGameState(state.gameMode, state.aiDifficulty);
 
       for (const move of movesToReplay) {
         newState = makeMove(newState, move);
@@ -645,6 +705,60 @@ export const useChess = create<ChessStore>()(
 
     setAIThinking: (thinking: boolean, message: string = '') => {
       set({ aiThinking: thinking, aiThinkingMessage: message });
+    },
+
+    // Online games: the server's board is authoritative, so replace ours with it
+    // after every accepted or rejected move
+    applyServerState: (serverState: any) => {
+      const state = get();
+      if (state.gameMode !== 'multiplayer' || !serverState?.board) return;
+
+      const gameStatus = serverState.gameStatus || 'active';
+      const sideToMove: PieceColor = serverState.currentPlayer;
+
+      // The server doesn't send SAN: keep what we already have and notate the
+      // newly played move against our board from before it
+      const serverHistory: ChessMove[] = serverState.moveHistory || [];
+      const moveHistory = serverHistory.map((move, index) => {
+        if (move.notation) return move;
+        if (index < state.moveHistory.length) {
+          return { ...move, notation: state.moveHistory[index].notation };
+        }
+        return index === state.moveHistory.length ? withNotation(state.board, move, state.enPassantTarget) : move;
+      });
+
+      set({
+        board: serverState.board,
+        currentPlayer: sideToMove,
+        moveHistory,
+        selectedPosition: null,
+        validMoves: [],
+        isInCheck: !!serverState.isInCheck,
+        enPassantTarget: serverState.enPassantTarget ?? null,
+        isCheckmate: gameStatus === 'checkmate',
+        isStalemate: gameStatus === 'stalemate',
+        // The server applies the draw rules and says which one ended the game
+        drawReason: serverState.drawReason ?? (gameStatus === 'stalemate' ? 'stalemate' : null),
+        halfmoveClock: serverState.halfmoveClock ?? state.halfmoveClock,
+        positionHistory: serverState.positionHistory ?? state.positionHistory,
+        gamePhase: gameStatus === 'active' ? 'playing' : 'ended',
+        winner: gameStatus === 'checkmate' ? (sideToMove === 'white' ? 'black' : 'white') : null
+      });
+    },
+
+    // Online games also end off the board - on time, by resignation, by
+    // agreement or by abort - so lock our board once the server says it's over
+    endOnlineGame: (winner: PieceColor | 'draw' | null, reason: string) => {
+      const state = get();
+      if (state.gameMode !== 'multiplayer') return;
+
+      set({
+        gamePhase: 'ended',
+        winner: winner === 'draw' ? null : winner,
+        drawReason: reason === 'agreement' ? 'agreement' : state.drawReason,
+        selectedPosition: null,
+        validMoves: []
+      });
     }
   }))
 );
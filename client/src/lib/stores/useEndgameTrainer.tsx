@@ -0,0 +1,178 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ChessMove, GameState } from '../chess/types';
+import { makeMove } from '../chess/gameEngine';
+import { parsePosition } from '../chess/positionNotation';
+import type { SearchLimits } from '../chess/searchEngine';
+import { SearchWorkerClient } from '../chess/searchWorkerClient';
+import { ENDGAME_LESSONS, EndgameLesson, checkLesson, lessonColor } from '../chess/endgameLessons';
+import cloudSaveManager from '../saves/cloudSaveManager';
+import { useChess } from './useChess';
+
+export type TrainerStatus = 'idle' | 'playing' | 'defending' | 'completed' | 'failed';
+
+export interface LessonProgress {
+  completed: boolean;
+  attempts: number;
+  // Fewest moves the goal was reached in
+  bestMoves: number | null;
+  completedAt: number | null;
+}
+
+interface EndgameTrainerStore {
+  // Saved per lesson id, and synced with the cloud save
+  progress: Record<string, LessonProgress>;
+
+  lesson: EndgameLesson | null;
+  gameState: GameState | null;
+  status: TrainerStatus;
+  // Why the last attempt failed
+  reason: string | null;
+  movesPlayed: number;
+
+  startLesson: (id: string) => void;
+  nextLesson: () => void;
+  playMove: (move: ChessMove) => void;
+  retry: () => void;
+  stopLesson: () => void;
+  resetProgress: () => void;
+}
+
+// The defender searches deeply so it always finds the most stubborn reply
+export const DEFENDER_LIMITS: SearchLimits = { maxDepth: 12, timeLimitMs: 2500 };
+
+// The defender gets its own worker so it never cancels the AI's searches
+const defenderWorker = new SearchWorkerClient();
+
+const emptyProgress = (): LessonProgress => ({ completed: false, attempts: 0, bestMoves: null, completedAt: null });
+
+export const useEndgameTrainer = create<EndgameTrainerStore>()(
+  persist(
+    (set, get) => {
+      // Shows `gameState` on the board
+      const show = (gameState: GameState) => {
+        set({ gameState });
+        useChess.setState({ ...gameState, selectedPosition: null, validMoves: [] });
+      };
+
+      // Records the attempt's result once the lesson is decided; true while it goes on
+      const settle = (lesson: EndgameLesson, gameState: GameState): boolean => {
+        const result = checkLesson(lesson, gameState);
+        const movesPlayed = gameState.moveHistory.filter(move => move.piece.color === lessonColor(lesson)).length;
+        set({ movesPlayed });
+        if (result.status === 'playing') return true;
+
+        if (result.status === 'failed') {
+          console.log(`📕 Endgame lesson failed: ${lesson.id} (${result.reason})`);
+          set({ status: 'failed', reason: result.reason ?? null });
+          return false;
+        }
+
+        const previous = get().progress[lesson.id] ?? emptyProgress();
+        console.log(`📗 Endgame lesson completed: ${lesson.id} in ${movesPlayed} moves`);
+        set({
+          status: 'completed',
+          reason: null,
+          progress: {
+            ...get().progress,
+            [lesson.id]: {
+              ...previous,
+              completed: true,
+              bestMoves: previous.bestMoves === null ? movesPlayed : Math.min(previous.bestMoves, movesPlayed),
+              completedAt: previous.completedAt ?? Date.now()
+            }
+          }
+        });
+        cloudSaveManager.markPendingChanges();
+        return false;
+      };
+
+      const defend = async (lesson: EndgameLesson, gameState: GameState) => {
+        set({ status: 'defending' });
+        try {
+          const result = await defenderWorker.search(gameState, DEFENDER_LIMITS);
+          // The lesson may have been left or restarted meanwhile
+          if (!result || get().gameState !== gameState) return;
+
+          const afterReply = makeMove(gameState, result.move);
+          show(afterReply);
+          if (settle(lesson, afterReply)) set({ status: 'playing' });
+        } catch (error) {
+          console.error('❌ Endgame defender search failed:', error);
+          if (get().gameState === gameState) set({ status: 'playing' });
+        }
+      };
+
+      const begin = (lesson: EndgameLesson) => {
+        defenderWorker.cancel();
+        const previous = get().progress[lesson.id] ?? emptyProgress();
+        set({
+          lesson,
+          status: 'playing',
+          reason: null,
+          movesPlayed: 0,
+          progress: { ...get().progress, [lesson.id]: { ...previous, attempts: previous.attempts + 1 } }
+        });
+        show(parsePosition(lesson.position, 'endgame', 'advanced'));
+      };
+
+      return {
+        progress: {},
+        lesson: null,
+        gameState: null,
+        status: 'idle',
+        reason: null,
+        movesPlayed: 0,
+
+        startLesson: (id: string) => {
+          const lesson = ENDGAME_LESSONS.find(candidate => candidate.id === id);
+          if (!lesson) {
+            console.warn(`⚠️ Unknown endgame lesson: ${id}`);
+            return;
+          }
+          console.log('📘 Endgame lesson:', { id: lesson.id, goal: lesson.goal });
+          begin(lesson);
+        },
+
+        // The first unfinished lesson after the current one, wrapping around
+        nextLesson: () => {
+          const { lesson, progress } = get();
+          const start = lesson ? ENDGAME_LESSONS.indexOf(lesson) + 1 : 0;
+          const ordered = [...ENDGAME_LESSONS.slice(start), ...ENDGAME_LESSONS.slice(0, start)];
+          const next = ordered.find(candidate => !progress[candidate.id]?.completed) ?? ordered[0];
+          if (next) get().startLesson(next.id);
+        },
+
+        playMove: (move: ChessMove) => {
+          const { lesson, gameState, status } = get();
+          if (!lesson || !gameState || status !== 'playing') return;
+
+          const afterMove = makeMove(gameState, move);
+          show(afterMove);
+          if (settle(lesson, afterMove)) defend(lesson, afterMove);
+        },
+
+        retry: () => {
+          const { lesson } = get();
+          if (lesson) begin(lesson);
+        },
+
+        stopLesson: () => {
+          defenderWorker.cancel();
+          set({ lesson: null, gameState: null, status: 'idle', reason: null, movesPlayed: 0 });
+        },
+
+        resetProgress: () => {
+          set({ progress: {} });
+          cloudSaveManager.markPendingChanges();
+        }
+      };
+    },
+    {
+      name: 'endgame-trainer-storage',
+      partialize: (state) => ({
+        progress: state.progress
+      })
+    }
+  )
+);
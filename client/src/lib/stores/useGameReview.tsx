@@ -0,0 +1,119 @@
+import { create } from 'zustand';
+import { ChessMove, GameState } from '../chess/types';
+import { makeMove } from '../chess/gameEngine';
+import { getStartingState } from '../chess/gameRecord';
+import { GameReview, reviewGame } from '../chess/gameReview';
+import { SearchWorkerClient } from '../chess/searchWorkerClient';
+import { AITrainingClient } from '../ai/humanTraining';
+
+export type ReviewStatus = 'idle' | 'reviewing' | 'done' | 'failed';
+
+interface GameReviewStore {
+  status: ReviewStatus;
+  // Fraction of positions searched so far
+  progress: number;
+  review: GameReview | null;
+  // Moves of the game being (or last) reviewed, so a finished game is only reviewed once
+  reviewedMoves: ChessMove[] | null;
+
+  startReview: (gameState: GameState) => Promise<GameReview | null>;
+  cancelReview: () => void;
+}
+
+// Reviews get their own worker so they never cancel (or wait for) the AI's searches
+const reviewWorker = new SearchWorkerClient();
+const trainingClient = new AITrainingClient();
+
+let controller: AbortController | null = null;
+let pendingReview: Promise<GameReview | null> | null = null;
+
+export const useGameReview = create<GameReviewStore>()((set, get) => ({
+  status: 'idle',
+  progress: 0,
+  review: null,
+  reviewedMoves: null,
+
+  startReview: (gameState: GameState) => {
+    const { reviewedMoves, status, review } = get();
+    if (reviewedMoves === gameState.moveHistory) {
+      if (status === 'done') return Promise.resolve(review);
+      if (status === 'reviewing' && pendingReview) return pendingReview;
+    }
+
+    get().cancelReview();
+    const current = new AbortController();
+    controller = current;
+    set({ status: 'reviewing', progress: 0, review: null, reviewedMoves: gameState.moveHistory });
+    console.log(`🔎 Reviewing game of ${gameState.moveHistory.length} moves...`);
+
+    pendingReview = reviewGame(gameState, {
+      search: (position, limits) => reviewWorker.search(position, limits),
+      signal: current.signal,
+      onProgress: (done, total) => set({ progress: done / total })
+    }).then(result => {
+      if (controller !== current) return null;
+      controller = null;
+      if (result) {
+        set({ status: 'done', progress: 1, review: result });
+        console.log('✅ Game review complete:', result.summary);
+      }
+      return result;
+    }).catch(error => {
+      if (controller !== current) return null;
+      controller = null;
+      console.error('❌ Game review failed:', error);
+      set({ status: 'failed' });
+      return null;
+    });
+    return pendingReview;
+  },
+
+  cancelReview: () => {
+    if (!controller) return;
+    controller.abort();
+    controller = null;
+    pendingReview = null;
+    reviewWorker.cancel();
+    set({ status: 'idle', progress: 0, review: null, reviewedMoves: null });
+  }
+}));
+
+/**
+ * Stores a reviewed human-vs-AI game (human white, AI black) in humanAIGames
+ * with the review's blunder, mistake and accuracy counts for the human.
+ */
+export function logReviewedGame(gameState: GameState, review: GameReview, gameTimeMs: number): Promise<void> {
+  let state = getStartingState(gameState);
+  const boardStates = [state.board];
+  for (const move of gameState.moveHistory) {
+    state = makeMove(state, move, true);
+    boardStates.push(state.board);
+  }
+
+  const human = review.summary.white;
+  return trainingClient.logGame({
+    playerColor: 'white',
+    aiDifficulty: gameState.aiDifficulty,
+    moves: gameState.moveHistory,
+    boardStates,
+    outcome: gameState.winner === 'white' ? 'player_win' : gameState.winner === 'black' ? 'ai_win' : 'draw',
+    gameTime: Math.round(gameTimeMs / 1000),
+    moveCount: gameState.moveHistory.length,
+    wizardMovesUsed: gameState.moveHistory.filter(move => move.piece.color === 'white' && (move.isWizardTeleport || move.isWizardAttack)).length,
+    blunders: human.blunders,
+    mistakes: human.mistakes,
+    accuracyScore: Math.round(human.accuracy),
+    openingType: review.openingType ?? undefined,
+    endgameType: review.endgameType ?? undefined
+  });
+}
+
+/**
+ * Reviews a finished human-vs-AI game in the background and logs it once
+ * the review is done.
+ */
+export function reviewAndLogGame(gameState: GameState, gameTimeMs: number): void {
+  useGameReview.getState().startReview(gameState).then(review => {
+    if (review) return logReviewedGame(gameState, review, gameTimeMs);
+  });
+}
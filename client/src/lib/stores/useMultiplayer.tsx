@@ -1,6 +1,23 @@
 import { create } from 'zustand';
 import { io, Socket } from 'socket.io-client';
 import { SocketReconnectionManager } from '../utils/socketReconnection';
+import type { MoveRejectedEvent } from '@shared/gameStateSync';
+import type { NegotiationColor, NegotiationRejectedEvent, OfferType } from '@shared/gameNegotiation';
+import type {
+  LiveGameSummary,
+  SpectatorCountEvent,
+  SpectatorEndedEvent,
+  SpectatorJoinedEvent,
+  SpectatorUpdate
+} from '@shared/spectating';
+import {
+  DEFAULT_TIME_CONTROL,
+  bestClockOffset,
+  clockSyncSample,
+  type ClockSyncSample,
+  type ClockUpdate,
+  type TimeControl
+} from '@shared/gameClock';
 
 interface OnlinePlayer {
   userId: number;
@@ -27,6 +44,33 @@ interface OnlineGame {
   timeControl: number;
   yourTime: number;
   opponentTime: number;
+  // The server's latest clock reading; the display counts down from it
+  clock?: ClockUpdate | null;
+  // Moves played as the server counts them, taken-back moves included, which
+  // is what decides whether the game can still be aborted
+  movesPlayed?: number;
+  // Proves this client holds its seat when it reconnects on a new socket
+  seatToken?: string;
+}
+
+interface OnlineGameResult {
+  winner: 'white' | 'black' | 'draw' | null;
+  reason: string;
+  // Aborted games don't count for rating
+  rated: boolean;
+}
+
+interface SpectatedGame {
+  game: LiveGameSummary;
+  // What spectators see, `delayMs` behind the players
+  view: SpectatorUpdate;
+  delayMs: number;
+  result: SpectatorEndedEvent | null;
+}
+
+interface OnlineOffer {
+  type: OfferType;
+  from: NegotiationColor;
 }
 
 interface MatchmakingStatus {
@@ -53,6 +97,22 @@ interface MultiplayerState {
   
   // Current game
   currentGame: OnlineGame | null;
+  lastMoveRejection: MoveRejectedEvent | null;
+  gameResult: OnlineGameResult | null;
+  pendingOffer: OnlineOffer | null;
+  // Latest news about an offer, e.g. that it was declined or refused by the server
+  negotiationMessage: string | null;
+
+  // Watching other players' games
+  liveGames: LiveGameSummary[];
+  spectating: SpectatedGame | null;
+  spectateError: string | null;
+  // Spectators of the game being played or watched
+  spectatorCount: number;
+
+  // Server time minus client time, estimated from clock sync round trips
+  serverTimeOffset: number;
+  clockSyncSamples: ClockSyncSample[];
   
   // Server stats
   serverStats: {
@@ -65,10 +125,18 @@ interface MultiplayerState {
   connect: (playerData: { userId: number; username: string; displayName: string; rating: number }) => void;
   disconnect: () => void;
   setCurrentGame: (game: OnlineGame | null) => void;
-  joinMatchmaking: (timeControl?: number) => void;
+  joinMatchmaking: (timeControl?: TimeControl) => void;
   leaveMatchmaking: () => void;
   makeMove: (gameId: string, move: any) => void;
   resignGame: (gameId: string) => void;
+  offerDraw: (gameId: string) => void;
+  respondToDraw: (gameId: string, accept: boolean) => void;
+  requestTakeback: (gameId: string) => void;
+  respondToTakeback: (gameId: string, accept: boolean) => void;
+  abortGame: (gameId: string) => void;
+  fetchLiveGames: () => void;
+  spectateGame: (gameId: string) => void;
+  stopSpectating: () => void;
   fetchServerStats: () => Promise<void>;
   
   // Event handlers
@@ -94,6 +162,16 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
     status: 'idle'
   },
   currentGame: null,
+  lastMoveRejection: null,
+  gameResult: null,
+  pendingOffer: null,
+  negotiationMessage: null,
+  liveGames: [],
+  spectating: null,
+  spectateError: null,
+  spectatorCount: 0,
+  serverTimeOffset: 0,
+  clockSyncSamples: [],
   serverStats: null,
 
   // 🔌 Connection management
@@ -146,7 +224,8 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
         const currentGame = get().currentGame;
         newSocket.emit('player:reconnect', {
           ...playerData,
-          lastGameId: currentGame?.gameId
+          lastGameId: currentGame?.gameId,
+          seatToken: currentGame?.seatToken
         });
       },
       onReconnectFailed: () => {
@@ -164,6 +243,7 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
     newSocket.on('connect', () => {
       console.log('🎮 Connected to multiplayer server');
       set({ socket: newSocket, isConnected: true, connectionError: null });
+      startClockSync(newSocket);
       
       // Check if this is a reconnection
       const attempts = get().reconnectAttempts;
@@ -171,7 +251,8 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
         // This is a reconnection
         newSocket.emit('player:reconnect', {
           ...playerData,
-          lastGameId: get().currentGame?.gameId
+          lastGameId: get().currentGame?.gameId,
+          seatToken: get().currentGame?.seatToken
         });
       } else {
         // Initial connection
@@ -187,6 +268,7 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
     newSocket.on('disconnect', (reason) => {
       console.log('🔌 Disconnected from multiplayer server:', reason);
       set({ isConnected: false });
+      stopClockSync();
       
       // Reconnection manager will handle reconnection
     });
@@ -224,8 +306,10 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
           currentGame: {
             ...currentGame,
             gameState: gameData.gameState,
-            yourTime: gameData.player1Time,
-            opponentTime: gameData.player2Time
+            movesPlayed: gameData.movesPlayed ?? currentGame.movesPlayed,
+            yourTime: currentGame.yourColor === 'white' ? gameData.player1Time : gameData.player2Time,
+            opponentTime: currentGame.yourColor === 'white' ? gameData.player2Time : gameData.player1Time,
+            clock: gameData.clock ?? currentGame.clock
           }
         });
       }
@@ -261,10 +345,15 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
           opponent: gameData.opponent,
           yourColor: gameData.yourColor,
           gameState: gameData.gameState,
+          movesPlayed: gameData.movesPlayed ?? 0,
+          seatToken: gameData.seatToken,
           timeControl: gameData.timeControl || 600,
           yourTime: gameData.yourColor === 'white' ? gameData.player1Time || 600 : gameData.player2Time || 600,
-          opponentTime: gameData.yourColor === 'white' ? gameData.player2Time || 600 : gameData.player1Time || 600
+          opponentTime: gameData.yourColor === 'white' ? gameData.player2Time || 600 : gameData.player1Time || 600,
+          clock: gameData.clock ?? null
         },
+        gameResult: null,
+        spectatorCount: 0,
         matchmaking: { inQueue: false, status: 'found' }
       });
     });
@@ -276,9 +365,130 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
         set({
           currentGame: {
             ...currentGame,
-            gameState: data.gameState
-          }
+            gameState: data.gameState,
+            movesPlayed: data.movesPlayed ?? currentGame.movesPlayed
+          },
+          lastMoveRejection: null
+        });
+        if (data.clock) applyClock(data.clock);
+        syncChessBoard(data.gameState);
+      }
+    });
+
+    // The periodic authoritative state; only the abort count is taken from it,
+    // moves and takebacks already keep the board in step
+    newSocket.on('game:state-sync', (data: { gameId: string; movesPlayed?: number }) => {
+      const { currentGame } = get();
+      if (currentGame && currentGame.gameId === data.gameId && data.movesPlayed !== undefined) {
+        set({ currentGame: { ...currentGame, movesPlayed: data.movesPlayed } });
+      }
+    });
+
+    newSocket.on('game:clock', (clock: ClockUpdate) => {
+      applyClock(clock);
+    });
+
+    newSocket.on('clock:sync', (data: { clientTime: number; serverTime: number }) => {
+      // Keep the latest few round trips and trust the fastest one
+      const sample = clockSyncSample(data.clientTime, data.serverTime, Date.now());
+      const clockSyncSamples = [...get().clockSyncSamples, sample].slice(-CLOCK_SYNC_SAMPLES);
+      set({ clockSyncSamples, serverTimeOffset: bestClockOffset(clockSyncSamples) });
+    });
+
+    newSocket.on('game:ended', (data: OnlineGameResult & { clock?: ClockUpdate }) => {
+      console.log(`🏁 Online game ended (${data.reason}), winner: ${data.winner ?? 'none'}`);
+      set({
+        gameResult: { winner: data.winner, reason: data.reason, rated: data.rated ?? true },
+        pendingOffer: null
+      });
+      if (data.clock) applyClock(data.clock);
+      endChessGame(data.winner, data.reason);
+    });
+
+    // Draw offers and takeback requests
+    newSocket.on('game:offer', (data: OnlineOffer & { gameId: string }) => {
+      console.log(`🤝 ${data.type} offer from ${data.from}`);
+      set({ pendingOffer: { type: data.type, from: data.from }, negotiationMessage: null });
+    });
+
+    newSocket.on('game:offer-declined', (data: { gameId: string; type: OfferType }) => {
+      set({ pendingOffer: null, negotiationMessage: `${data.type === 'draw' ? 'Draw offer' : 'Takeback request'} declined` });
+    });
+
+    newSocket.on('game:offer-cancelled', () => {
+      set({ pendingOffer: null });
+    });
+
+    newSocket.on('game:negotiation-rejected', (data: NegotiationRejectedEvent) => {
+      console.warn(`🚫 Offer refused by server (${data.reason}):`, data.message);
+      set({ negotiationMessage: data.message });
+    });
+
+    // Spectating
+    newSocket.on('spectate:games', (games: LiveGameSummary[]) => {
+      set({ liveGames: games });
+    });
+
+    newSocket.on('spectate:joined', (data: SpectatorJoinedEvent) => {
+      console.log(`👀 Spectating game ${data.gameId} (${data.delayMs}ms delay)`);
+      const { game, delayMs, ...view } = data;
+      set({
+        spectating: { game, view, delayMs, result: null },
+        spectatorCount: game.spectators,
+        spectateError: null
+      });
+    });
+
+    newSocket.on('spectate:update', (view: SpectatorUpdate) => {
+      const { spectating } = get();
+      if (spectating && spectating.game.gameId === view.gameId) {
+        set({ spectating: { ...spectating, view } });
+      }
+    });
+
+    newSocket.on('spectate:ended', (data: SpectatorEndedEvent) => {
+      const { spectating } = get();
+      if (spectating && spectating.game.gameId === data.gameId) {
+        // Games can end off the board, so stop the clock where the server stopped it
+        set({ spectating: { ...spectating, view: { ...spectating.view, clock: data.clock }, result: data } });
+      }
+    });
+
+    newSocket.on('spectate:error', (data: { gameId: string; message: string }) => {
+      console.warn('🚫 Cannot spectate:', data.message);
+      set({ spectateError: data.message });
+    });
+
+    newSocket.on('game:spectators', (data: SpectatorCountEvent) => {
+      const { currentGame, spectating } = get();
+      if (currentGame?.gameId === data.gameId || spectating?.game.gameId === data.gameId) {
+        set({ spectatorCount: data.count });
+      }
+    });
+
+    newSocket.on('game:takeback', (data) => {
+      console.log('↩️ Move taken back');
+      const { currentGame } = get();
+      if (currentGame && currentGame.gameId === data.gameId) {
+        set({
+          currentGame: { ...currentGame, gameState: data.gameState, movesPlayed: data.movesPlayed ?? currentGame.movesPlayed },
+          pendingOffer: null,
+          negotiationMessage: 'Move taken back'
         });
+        if (data.clock) applyClock(data.clock);
+        syncChessBoard(data.gameState);
+      }
+    });
+
+    newSocket.on('game:move-rejected', (data: MoveRejectedEvent) => {
+      console.warn(`🚫 Move rejected by server (${data.reason}):`, data.message);
+      const { currentGame } = get();
+      set({ lastMoveRejection: data });
+
+      // Roll back the optimistic local move to the server's position
+      if (currentGame && currentGame.gameId === data.gameId && data.gameState) {
+        set({ currentGame: { ...currentGame, gameState: data.gameState } });
+        syncChessBoard(data.gameState);
       }
     });
 
@@ -300,12 +510,19 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
         reconnectionManager.destroy();
       }
       
+      stopClockSync();
       socket.disconnect();
       set({ 
         socket: null, 
         isConnected: false, 
         currentPlayer: null,
         currentGame: null,
+        gameResult: null,
+        pendingOffer: null,
+        negotiationMessage: null,
+        spectating: null,
+        spectatorCount: 0,
+        clockSyncSamples: [],
         matchmaking: { inQueue: false, status: 'idle' },
         reconnectionManager: null,
         reconnectAttempts: 0
@@ -315,10 +532,10 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
 
   setCurrentGame: (game) => {
     console.log('🎮 Setting current game:', game);
-    set({ currentGame: game });
+    set({ currentGame: game, gameResult: null, pendingOffer: null, negotiationMessage: null, spectatorCount: 0 });
   },
   
-  joinMatchmaking: (timeControl = 600) => {
+  joinMatchmaking: (timeControl = DEFAULT_TIME_CONTROL) => {
     const { socket, isConnected } = get();
     if (!socket || !isConnected) {
       console.error('❌ Not connected to server');
@@ -326,7 +543,7 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
     }
 
     console.log('🎯 Joining matchmaking queue...');
-    socket.emit('matchmaking:join', { timeControl });
+    socket.emit('matchmaking:find-opponent', { timeControl });
     set({ 
       matchmaking: { inQueue: true, status: 'searching' }
     });
@@ -362,6 +579,51 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
     socket.emit('game:resign', { gameId });
     set({ currentGame: null });
   },
+
+  offerDraw: (gameId) => {
+    emitGameAction('game:offer-draw', gameId);
+  },
+
+  respondToDraw: (gameId, accept) => {
+    emitGameAction(accept ? 'game:accept-draw' : 'game:decline-draw', gameId);
+  },
+
+  requestTakeback: (gameId) => {
+    emitGameAction('game:request-takeback', gameId);
+  },
+
+  respondToTakeback: (gameId, accept) => {
+    emitGameAction(accept ? 'game:accept-takeback' : 'game:decline-takeback', gameId);
+  },
+
+  abortGame: (gameId) => {
+    emitGameAction('game:abort', gameId);
+  },
+
+  fetchLiveGames: () => {
+    const { socket, isConnected } = get();
+    if (!socket || !isConnected) return;
+    socket.emit('spectate:list');
+  },
+
+  spectateGame: (gameId) => {
+    const { socket, isConnected, spectating } = get();
+    if (!socket || !isConnected) {
+      console.error('❌ Not connected to server');
+      return;
+    }
+
+    if (spectating) socket.emit('spectate:leave', { gameId: spectating.game.gameId });
+    console.log('👀 Joining as spectator:', gameId);
+    socket.emit('spectate:join', { gameId });
+    set({ spectateError: null });
+  },
+
+  stopSpectating: () => {
+    const { socket, spectating } = get();
+    if (spectating) socket?.emit('spectate:leave', { gameId: spectating.game.gameId });
+    set({ spectating: null, spectatorCount: 0 });
+  },
   
   fetchServerStats: async () => {
     try {
@@ -408,6 +670,69 @@ const multiplayerStore = create<MultiplayerState>((set, get) => ({
   }
 }));
 
+// Send a negotiation event for `gameId`; the server answers with the outcome
+function emitGameAction(event: string, gameId: string) {
+  const { socket, isConnected } = multiplayerStore.getState();
+  if (!socket || !isConnected) {
+    console.error('❌ Not connected to server');
+    return;
+  }
+
+  console.log(`🤝 ${event}`);
+  socket.emit(event, { gameId });
+  multiplayerStore.setState({ negotiationMessage: null });
+}
+
+// How often the client re-measures its offset from the server's clock
+const CLOCK_SYNC_INTERVAL = 10000;
+const CLOCK_SYNC_SAMPLES = 5;
+let clockSyncTimer: ReturnType<typeof setInterval> | null = null;
+
+function startClockSync(socket: Socket) {
+  stopClockSync();
+  const ping = () => socket.emit('clock:sync', { clientTime: Date.now() });
+  ping();
+  clockSyncTimer = setInterval(ping, CLOCK_SYNC_INTERVAL);
+}
+
+function stopClockSync() {
+  if (clockSyncTimer) {
+    clearInterval(clockSyncTimer);
+    clockSyncTimer = null;
+  }
+}
+
+// Store the server's clock reading on the current game
+function applyClock(clock: ClockUpdate) {
+  const { currentGame } = multiplayerStore.getState();
+  if (!currentGame || currentGame.gameId !== clock.gameId) return;
+
+  const opponentColor = currentGame.yourColor === 'white' ? 'black' : 'white';
+  multiplayerStore.setState({
+    currentGame: {
+      ...currentGame,
+      clock,
+      yourTime: Math.ceil(clock[currentGame.yourColor] / 1000),
+      opponentTime: Math.ceil(clock[opponentColor] / 1000)
+    }
+  });
+}
+
+// Push the server's authoritative position into the chess store. Imported lazily
+// because useChess already depends on this store
+function syncChessBoard(serverState: any) {
+  import('./useChess').then(({ useChess }) => {
+    useChess.getState().applyServerState(serverState);
+  });
+}
+
+// Lock the chess store's board once the server ends the game
+function endChessGame(winner: OnlineGameResult['winner'], reason: string) {
+  import('./useChess').then(({ useChess }) => {
+    useChess.getState().endOnlineGame(winner, reason);
+  });
+}
+
 // Export the store
 export const useMultiplayer = multiplayerStore;
 
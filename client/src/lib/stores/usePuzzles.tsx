@@ -0,0 +1,183 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ChessMove, GameState } from '../chess/types';
+import { makeMove } from '../chess/gameEngine';
+import { parsePosition } from '../chess/positionNotation';
+import {
+  DEFAULT_PUZZLE_RATING,
+  PUZZLES,
+  Puzzle,
+  checkPuzzleMove,
+  solutionMove,
+  updatePuzzleRatings
+} from '../chess/puzzles';
+import { useChess } from './useChess';
+
+export type PuzzleStatus = 'idle' | 'solving' | 'opponent' | 'wrong' | 'solved' | 'revealed';
+
+export interface PuzzleAttempt {
+  id: string;
+  solved: boolean;
+  ratingChange: number;
+  timestamp: number;
+}
+
+interface PuzzleStore {
+  // Puzzle rating, kept apart from the game ratings
+  rating: number;
+  // Ratings of puzzles that have been attempted, by puzzle id
+  puzzleRatings: Record<string, number>;
+  history: PuzzleAttempt[];
+
+  current: Puzzle | null;
+  gameState: GameState | null;
+  // Index into the solution of the next move
+  ply: number;
+  status: PuzzleStatus;
+  // Only the first attempt at a puzzle is rated
+  rated: boolean;
+  lastRatingChange: number | null;
+
+  nextPuzzle: () => void;
+  playMove: (move: ChessMove) => void;
+  retry: () => void;
+  revealSolution: () => void;
+  stopPuzzles: () => void;
+  resetPuzzleRating: () => void;
+}
+
+// Candidates are the unsolved puzzles rated closest to the solver
+const CANDIDATE_POOL = 5;
+const MAX_HISTORY = 200;
+// Pause before the opponent's reply is played
+const REPLY_DELAY_MS = 600;
+
+export function puzzleRating(puzzle: Puzzle, puzzleRatings: Record<string, number>): number {
+  return puzzleRatings[puzzle.id] ?? puzzle.rating;
+}
+
+function pickPuzzle(rating: number, puzzleRatings: Record<string, number>, history: PuzzleAttempt[], previousId?: string): Puzzle | null {
+  const solved = new Set(history.filter(attempt => attempt.solved).map(attempt => attempt.id));
+  const others = PUZZLES.filter(puzzle => puzzle.id !== previousId);
+  const unsolved = others.filter(puzzle => !solved.has(puzzle.id));
+  const pool = (unsolved.length > 0 ? unsolved : others.length > 0 ? others : PUZZLES)
+    .slice()
+    .sort((a, b) => Math.abs(puzzleRating(a, puzzleRatings) - rating) - Math.abs(puzzleRating(b, puzzleRatings) - rating))
+    .slice(0, CANDIDATE_POOL);
+  return pool.length > 0 ? pool[Math.floor(Math.random() * pool.length)] : null;
+}
+
+export const usePuzzles = create<PuzzleStore>()(
+  persist(
+    (set, get) => {
+      // Shows `gameState` on the board
+      const show = (gameState: GameState) => {
+        set({ gameState });
+        useChess.setState({ ...gameState, selectedPosition: null, validMoves: [] });
+      };
+
+      // Rates the current puzzle's first attempt
+      const rate = (solved: boolean) => {
+        const { current, rated, rating, puzzleRatings, history } = get();
+        if (!current || rated) return;
+
+        const updated = updatePuzzleRatings(rating, puzzleRating(current, puzzleRatings), solved);
+        const ratingChange = updated.solver - rating;
+        console.log(`🧩 Puzzle ${solved ? 'solved' : 'failed'}: rating ${rating} → ${updated.solver}`);
+        set({
+          rating: updated.solver,
+          puzzleRatings: { ...puzzleRatings, [current.id]: updated.puzzle },
+          history: [...history, { id: current.id, solved, ratingChange, timestamp: Date.now() }].slice(-MAX_HISTORY),
+          rated: true,
+          lastRatingChange: ratingChange
+        });
+      };
+
+      const startFrom = (puzzle: Puzzle) => {
+        set({ current: puzzle, ply: 0, status: 'solving' });
+        show(parsePosition(puzzle.position, 'puzzle', 'advanced'));
+      };
+
+      return {
+        rating: DEFAULT_PUZZLE_RATING,
+        puzzleRatings: {},
+        history: [],
+        current: null,
+        gameState: null,
+        ply: 0,
+        status: 'idle',
+        rated: false,
+        lastRatingChange: null,
+
+        nextPuzzle: () => {
+          const { rating, puzzleRatings, history, current } = get();
+          const puzzle = pickPuzzle(rating, puzzleRatings, history, current?.id);
+          if (!puzzle) {
+            console.warn('⚠️ No puzzles available');
+            set({ current: null, gameState: null, status: 'idle' });
+            return;
+          }
+          console.log('🧩 Puzzle:', { id: puzzle.id, rating: puzzleRating(puzzle, puzzleRatings), themes: puzzle.themes });
+          set({ rated: false, lastRatingChange: null });
+          startFrom(puzzle);
+        },
+
+        playMove: (move: ChessMove) => {
+          const { current, gameState, ply, status } = get();
+          if (!current || !gameState || status !== 'solving') return;
+
+          const result = checkPuzzleMove(current, gameState, ply, move);
+          if (result === 'wrong') {
+            set({ status: 'wrong' });
+            rate(false);
+            return;
+          }
+
+          const afterMove = makeMove(gameState, move);
+          show(afterMove);
+          if (result === 'solved') {
+            set({ ply: ply + 1, status: 'solved' });
+            rate(true);
+            return;
+          }
+
+          set({ ply: ply + 1, status: 'opponent' });
+          setTimeout(() => {
+            // The puzzle may have been left or restarted meanwhile
+            if (get().current !== current || get().gameState !== afterMove) return;
+            show(makeMove(afterMove, solutionMove(current, afterMove, ply + 1)));
+            set({ ply: ply + 2, status: 'solving' });
+          }, REPLY_DELAY_MS);
+        },
+
+        retry: () => {
+          const { current } = get();
+          if (current) startFrom(current);
+        },
+
+        revealSolution: () => {
+          const { current, status } = get();
+          if (!current || status === 'solved') return;
+          rate(false);
+          set({ status: 'revealed' });
+        },
+
+        stopPuzzles: () => {
+          set({ current: null, gameState: null, ply: 0, status: 'idle' });
+        },
+
+        resetPuzzleRating: () => {
+          set({ rating: DEFAULT_PUZZLE_RATING, puzzleRatings: {}, history: [], lastRatingChange: null });
+        }
+      };
+    },
+    {
+      name: 'puzzle-storage',
+      partialize: (state) => ({
+        rating: state.rating,
+        puzzleRatings: state.puzzleRatings,
+        history: state.history
+      })
+    }
+  )
+);
@@ -0,0 +1,301 @@
+/**
+ * Online Game Server Tests
+ * Plays both seats of a game against the multiplayer manager over in-memory sockets
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+// Without a database every write is skipped at once; `database.slow` makes
+// each query resolve a tick later, as a real one would
+const database = vi.hoisted(() => {
+  const query: any = new Proxy(() => {}, {
+    get: (_target, property) => property === 'then'
+      ? (resolve: (rows: unknown[]) => void) => Promise.resolve([]).then(resolve)
+      : () => query,
+    apply: () => query
+  });
+  return { slow: false, query };
+});
+
+vi.mock('../storage', () => ({
+  getDB: () => {
+    if (!database.slow) throw new Error('Database not available');
+    return database.query;
+  }
+}));
+
+import { MultiplayerManager } from '../multiplayer';
+import { DEFAULT_SPECTATOR_DELAY_MS } from '../../shared/spectating';
+
+class TestSocket {
+  rooms = new Set<string>();
+  received: Array<{ event: string; data: any }> = [];
+  broadcast = { emit: () => {} };
+  // The handshake request, with the session of a signed-in user
+  request: { session?: { userId?: number } } = {};
+  private handlers = new Map<string, (data?: any) => unknown>();
+
+  constructor(public id: string) {
+    this.rooms.add(id);
+  }
+
+  on(event: string, handler: (data?: any) => unknown) {
+    this.handlers.set(event, handler);
+  }
+
+  onAny() {}
+
+  emit(event: string, data?: any) {
+    this.received.push({ event, data });
+  }
+
+  join(room: string) {
+    this.rooms.add(room);
+  }
+
+  leave(room: string) {
+    this.rooms.delete(room);
+  }
+
+  disconnect() {}
+
+  // Sends an event from this client and waits until the server has handled it
+  async send(event: string, data?: any) {
+    await this.handlers.get(event)?.(data);
+  }
+
+  last(event: string) {
+    return this.received.filter(message => message.event === event).pop()?.data;
+  }
+}
+
+function createServer() {
+  const sockets = new Map<string, TestSocket>();
+  let onConnection: (socket: TestSocket) => void = () => {};
+
+  // Each socket in any of `rooms` gets the event once
+  const toRooms = (rooms: string[]) => ({
+    to: (room: string) => toRooms([...rooms, room]),
+    emit: (event: string, data?: any) => {
+      sockets.forEach(socket => rooms.some(room => socket.rooms.has(room)) && socket.emit(event, data));
+    }
+  });
+
+  const io = {
+    on: (_event: string, handler: (socket: TestSocket) => void) => {
+      onConnection = handler;
+    },
+    emit: () => {},
+    to: (room: string) => toRooms([room]),
+    in: (room: string) => ({
+      socketsLeave: (left: string) => sockets.forEach(socket => socket.rooms.has(room) && socket.leave(left))
+    }),
+    sockets: { sockets }
+  };
+  new MultiplayerManager(io as any);
+
+  return {
+    connect: (id: string, sessionUserId?: number) => {
+      const socket = new TestSocket(id);
+      if (sessionUserId !== undefined) socket.request.session = { userId: sessionUserId };
+      sockets.set(id, socket);
+      onConnection(socket);
+      return socket;
+    }
+  };
+}
+
+// Seats two players in a fresh game; the first to queue plays white
+async function startGame(timeControl = '15+10') {
+  const server = createServer();
+  const white = server.connect('white-socket');
+  const black = server.connect('black-socket');
+  await white.send('player:join', { userId: 1, username: 'white', displayName: 'White', rating: 1200 });
+  await black.send('player:join', { userId: 2, username: 'black', displayName: 'Black', rating: 1200 });
+
+  vi.spyOn(Math, 'random').mockReturnValue(0.9);
+  await white.send('matchmaking:find-opponent', { timeControl });
+  await black.send('matchmaking:find-opponent', { timeControl });
+  vi.mocked(Math.random).mockRestore();
+
+  const gameId: string = white.last('game:matched').gameId;
+  return { server, white, black, gameId };
+}
+
+const START = 1_000_000;
+
+describe('online game server', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    database.slow = false;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('starts a matched game with the time control both players queued for', async () => {
+    const server = createServer();
+    const blitz = server.connect('blitz-socket');
+    const rapid = server.connect('rapid-socket');
+    const opponent = server.connect('opponent-socket');
+    await blitz.send('player:join', { userId: 1, username: 'blitz', displayName: 'Blitz', rating: 1200 });
+    await rapid.send('player:join', { userId: 2, username: 'rapid', displayName: 'Rapid', rating: 1200 });
+    await opponent.send('player:join', { userId: 3, username: 'opponent', displayName: 'Opponent', rating: 1200 });
+
+    await blitz.send('matchmaking:find-opponent', { timeControl: '5+0' });
+    await rapid.send('matchmaking:find-opponent', { timeControl: '15+10' });
+    expect(blitz.last('game:matched')).toBeUndefined();
+
+    await opponent.send('matchmaking:find-opponent', { timeControl: '5+0' });
+    const matched = blitz.last('game:matched');
+    expect(matched.timeControl).toBe(300);
+    expect(matched.clock).toMatchObject({ white: 300_000, black: 300_000, running: 'white' });
+    expect(rapid.last('game:matched')).toBeUndefined();
+  });
+
+  it('takes back the increment along with the move', async () => {
+    const { white, black, gameId } = await startGame('15+10');
+
+    vi.setSystemTime(START + 5000);
+    await white.send('game:move', { gameId, move: { from: { row: 8, col: 4 }, to: { row: 6, col: 4 } } });
+    expect(white.last('game:move').clock.white).toBe(900_000 - 5000 + 10_000);
+
+    vi.setSystemTime(START + 8000);
+    await white.send('game:request-takeback', { gameId });
+    await black.send('game:accept-takeback', { gameId });
+
+    const takeback = white.last('game:takeback');
+    expect(takeback.gameState.moveHistory).toHaveLength(0);
+    expect(takeback.clock).toMatchObject({ white: 900_000 - 5000, black: 900_000 - 3000, running: 'white' });
+  });
+
+  it('ends a game once when two results arrive while the first is being saved', async () => {
+    const { white, black, gameId } = await startGame();
+    database.slow = true;
+
+    await Promise.all([
+      white.send('game:resign', { gameId }),
+      black.send('game:resign', { gameId }),
+      black.send('game:move', { gameId, move: { from: { row: 1, col: 4 }, to: { row: 3, col: 4 } } })
+    ]);
+
+    const ended = white.received.filter(message => message.event === 'game:ended');
+    expect(ended).toHaveLength(1);
+    expect(ended[0].data).toMatchObject({ winner: 'black', reason: 'resign' });
+    expect(white.last('game:move')).toBeUndefined();
+  });
+
+  it("doesn't reopen the abort window when moves are taken back", async () => {
+    const { white, black, gameId } = await startGame();
+
+    await white.send('game:move', { gameId, move: { from: { row: 8, col: 4 }, to: { row: 6, col: 4 } } });
+    await black.send('game:move', { gameId, move: { from: { row: 1, col: 4 }, to: { row: 3, col: 4 } } });
+    await black.send('game:request-takeback', { gameId });
+    await white.send('game:accept-takeback', { gameId });
+    expect(white.last('game:takeback').gameState.moveHistory).toHaveLength(1);
+    expect(white.last('game:takeback').movesPlayed).toBe(2);
+
+    await white.send('game:abort', { gameId });
+    expect(white.last('game:negotiation-rejected').reason).toBe('abort_too_late');
+    expect(white.last('game:ended')).toBeUndefined();
+  });
+
+  it('stops the clock spectators see when a game ends off the board', async () => {
+    const { server, white, gameId } = await startGame();
+    const spectator = server.connect('spectator-socket');
+    await spectator.send('player:join', { userId: 3, username: 'viewer', displayName: 'Viewer', rating: 1200 });
+    await spectator.send('spectate:join', { gameId });
+
+    vi.setSystemTime(START + 4000);
+    await white.send('game:resign', { gameId });
+    vi.advanceTimersByTime(DEFAULT_SPECTATOR_DELAY_MS);
+
+    expect(spectator.last('spectate:ended')).toMatchObject({
+      winner: 'black',
+      reason: 'resign',
+      clock: { white: 900_000 - 4000, running: null }
+    });
+  });
+
+  describe('players only', () => {
+    async function watchGame() {
+      const game = await startGame();
+      const spectator = game.server.connect('spectator-socket');
+      const viewer = { userId: 3, username: 'viewer', displayName: 'Viewer', rating: 1200 };
+      await spectator.send('player:join', viewer);
+      await spectator.send('spectate:join', { gameId: game.gameId });
+      return { ...game, spectator, viewer };
+    }
+
+    it("doesn't let a spectator reconnect into the players' room", async () => {
+      const { spectator, viewer, gameId } = await watchGame();
+
+      await spectator.send('player:reconnect', { ...viewer, lastGameId: gameId });
+
+      expect(spectator.rooms.has(`game:${gameId}`)).toBe(false);
+      expect(spectator.last('game:restored')).toBeUndefined();
+    });
+
+    it("doesn't seat a socket that only claims a player's user id", async () => {
+      const { white, spectator, gameId } = await watchGame();
+      const whiteProfile = { userId: 1, username: 'white', displayName: 'White', rating: 1200 };
+
+      await spectator.send('player:reconnect', { ...whiteProfile, lastGameId: gameId });
+      expect(spectator.rooms.has(`game:${gameId}`)).toBe(false);
+      expect(spectator.last('game:restored')).toBeUndefined();
+
+      await spectator.send('player:join', whiteProfile);
+      await spectator.send('game:resign', { gameId });
+      expect(spectator.last('game:negotiation-rejected').reason).toBe('not_in_game');
+      expect(white.last('game:ended')).toBeUndefined();
+    });
+
+    it('gives a seat back to a new socket with its seat token or signed-in session', async () => {
+      const { server, white, gameId } = await startGame();
+      const whiteProfile = { userId: 1, username: 'white', displayName: 'White', rating: 1200 };
+      const blackProfile = { userId: 2, username: 'black', displayName: 'Black', rating: 1200 };
+
+      const whiteAgain = server.connect('white-socket-2');
+      await whiteAgain.send('player:reconnect', { ...whiteProfile, lastGameId: gameId, seatToken: white.last('game:matched').seatToken });
+      expect(whiteAgain.rooms.has(`game:${gameId}`)).toBe(true);
+      expect(whiteAgain.last('game:restored').gameId).toBe(gameId);
+
+      // The old socket no longer speaks for white
+      await white.send('game:move', { gameId, move: { from: { row: 8, col: 4 }, to: { row: 6, col: 4 } } });
+      expect(white.last('game:move-rejected').reason).toBe('not_in_game');
+
+      const blackAgain = server.connect('black-socket-2', 2);
+      await blackAgain.send('player:reconnect', { ...blackProfile, lastGameId: gameId });
+      expect(blackAgain.last('game:restored').gameId).toBe(gameId);
+
+      await blackAgain.send('game:resign', { gameId });
+      expect(whiteAgain.last('game:ended')).toMatchObject({ winner: 'white', reason: 'resign' });
+    });
+
+    it("doesn't let a spectator resign for a player", async () => {
+      const { white, spectator, gameId } = await watchGame();
+
+      await spectator.send('game:resign', { gameId });
+
+      expect(spectator.last('game:negotiation-rejected').reason).toBe('not_in_game');
+      expect(white.last('game:ended')).toBeUndefined();
+
+      await white.send('game:resign', { gameId });
+      expect(white.last('game:ended')).toMatchObject({ winner: 'black', reason: 'resign' });
+    });
+
+    it("doesn't sync or validate state for a spectator", async () => {
+      const { white, spectator, gameId } = await watchGame();
+
+      await spectator.send('game:request-sync', { gameId });
+      expect(white.last('game:state-sync')).toBeUndefined();
+
+      await spectator.send('game:validate-state', { gameId, checksum: 'stale' });
+      expect(spectator.last('game:validation-result')).toBeUndefined();
+      expect(white.last('game:state-sync')).toBeUndefined();
+    });
+  });
+});
@@ -14,7 +14,7 @@ import path from "path";
 const app = express();
 
 // Configure session middleware for authentication
-app.use(session({
+const sessionMiddleware = session({
   secret: process.env.SESSION_SECRET || 'wizard-chess-session-secret-2025',
   resave: false,
   saveUninitialized: false,
@@ -25,7 +25,8 @@ app.use(session({
     sameSite: 'lax' // Allow cross-origin requests
   },
   name: 'wizard-chess-session' // Custom session name
-}));
+});
+app.use(sessionMiddleware);
 
 // Special middleware for Stripe webhooks - must handle raw body
 app.use('/api/webhooks/stripe', express.raw({ type: 'application/json' }));
@@ -86,6 +87,10 @@ app.use((req, res, next) => {
       transports: ['websocket', 'polling']
     });
 
+    // Give sockets the signed-in user's session, so multiplayer can take
+    // identities from it rather than from what the client claims
+    io.engine.use(sessionMiddleware);
+
     // Initialize multiplayer manager with Socket.IO instance
     const multiplayerManager = new MultiplayerManager(io);
     
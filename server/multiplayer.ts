@@ -1,9 +1,55 @@
-import { Server as SocketServer } from 'socket.io';
+import { Server as SocketServer, Socket } from 'socket.io';
 import { Server as HttpServer } from 'http';
+import crypto from 'crypto';
 import { getDB } from './storage';
 import { onlineGames, matchmakingQueue, users } from '../shared/schema';
 import { eq, and, or } from 'drizzle-orm';
-import { GameStateManager, detectDesyncIndicators } from '../shared/gameStateSync';
+import {
+  GameStateManager,
+  detectDesyncIndicators,
+  MOVE_REJECTION_MESSAGES,
+  createInitialOnlineGameState,
+  type MoveRejectedEvent,
+  type OnlineMoveRejectionReason
+} from '../shared/gameStateSync';
+import { validateMove, type MoveRequest } from '../shared/chessRules';
+import { getDrawReason, trackPosition, type DrawReason } from '../shared/drawRules';
+import {
+  DEFAULT_TIME_CONTROL,
+  clockUpdate,
+  createGameClock,
+  flaggedSide,
+  isTimeControl,
+  parseTimeControl,
+  pressClock,
+  remainingTime,
+  startClock,
+  stopClock,
+  type GameClock,
+  type TimeControl
+} from '../shared/gameClock';
+import {
+  NEGOTIATION_REJECTION_MESSAGES,
+  checkAbort,
+  checkAnswer,
+  checkOffer,
+  clearOffer,
+  createNegotiationState,
+  offerCancelledByMove,
+  recordOffer,
+  type NegotiationColor,
+  type NegotiationRejectedEvent,
+  type NegotiationRejectionReason,
+  type NegotiationState,
+  type OfferType
+} from '../shared/gameNegotiation';
+import {
+  DEFAULT_SPECTATOR_DELAY_MS,
+  type LiveGameSummary,
+  type SpectatorEndedEvent,
+  type SpectatorJoinedEvent,
+  type SpectatorUpdate
+} from '../shared/spectating';
 import logger from './utils/logger';
 
 interface PlayerData {
@@ -14,15 +60,33 @@ interface PlayerData {
   socketId: string;
 }
 
+interface QueuedPlayer extends PlayerData {
+  timeControl: TimeControl;
+}
+
 interface GameData {
   gameId: string;
+  // Each seat belongs to the socket in its socketId; a player whose socket
+  // dropped takes it back with their seat token (or their signed-in session)
   player1: PlayerData;
   player2: PlayerData;
+  seatTokens: Record<NegotiationColor, string>;
   gameState: any;
   currentTurn: 'white' | 'black';
   timeControl?: number;
   player1Time?: number;
   player2Time?: number;
+  clock: GameClock;
+  negotiation: NegotiationState;
+  // Positions before each move, for takebacks, with the clocks as the move
+  // arrived - before its increment was credited
+  previousStates: Array<{ gameState: any; currentTurn: 'white' | 'black'; clock: GameClock }>;
+  // Moves ever played, takebacks included, so a takeback can't reopen the abort window
+  movesPlayed: number;
+  // Socket ids watching the game, and what they currently see
+  spectators: Set<string>;
+  spectatorView: SpectatorUpdate;
+  startedAt: number;
   stateManager: GameStateManager;
   lastChecksum?: string;
   lastSyncTime?: number;
@@ -32,12 +96,15 @@ class MultiplayerManager {
   private io: SocketServer;
   private connectedPlayers: Map<string, PlayerData> = new Map();
   private activeGames: Map<string, GameData> = new Map();
-  private matchmakingQueue: PlayerData[] = [];
+  private matchmakingQueue: QueuedPlayer[] = [];
   private playerHeartbeats: Map<string, NodeJS.Timeout> = new Map();
   private HEARTBEAT_INTERVAL = 15000; // 15 seconds
   private HEARTBEAT_TIMEOUT = 30000; // 30 seconds disconnect timeout
   private STATE_SYNC_INTERVAL = 5000; // Sync state every 5 seconds
   private stateSyncTimers: Map<string, NodeJS.Timeout> = new Map();
+  private flagTimers: Map<string, NodeJS.Timeout> = new Map();
+  // How long spectators wait for each move, so it can't be relayed to a player
+  private SPECTATOR_DELAY_MS = Number(process.env.SPECTATOR_MOVE_DELAY_MS ?? DEFAULT_SPECTATOR_DELAY_MS);
 
   constructor(io: SocketServer) {
     this.io = io;
@@ -115,11 +182,14 @@ class MultiplayerManager {
         displayName: string; 
         rating: number;
         lastGameId?: string;
+        seatToken?: string;
       }) => {
         console.log(`🔄 Player reconnecting: ${data.displayName}`);
         
+        const { lastGameId, seatToken, ...player } = data;
         const playerData: PlayerData = {
-          ...data,
+          ...player,
+          userId: this.sessionUserId(socket) ?? player.userId,
           socketId: socket.id
         };
         
@@ -127,20 +197,25 @@ class MultiplayerManager {
         this.connectedPlayers.set(socket.id, playerData);
         
         // Rejoin personal room
-        socket.join(`user:${data.userId}`);
+        socket.join(`user:${playerData.userId}`);
         
-        // Check if player was in a game
-        if (data.lastGameId && this.activeGames.has(data.lastGameId)) {
-          const game = this.activeGames.get(data.lastGameId);
-          socket.join(data.lastGameId);
+        // Rejoin the game only if the player proves they hold a seat in it -
+        // its room gets moves before the spectator delay
+        const game = lastGameId ? this.activeGames.get(lastGameId) : undefined;
+        if (lastGameId && game && this.reclaimSeat(socket, game, seatToken)) {
+          socket.join(lastGameId);
+          socket.join(`game:${lastGameId}`);
+          this.recordClockTimes(game);
           
           // Send current game state
           socket.emit('game:restored', {
-            gameId: data.lastGameId,
-            gameState: game?.gameState,
-            currentTurn: game?.currentTurn,
-            player1Time: game?.player1Time,
-            player2Time: game?.player2Time
+            gameId: lastGameId,
+            gameState: game.gameState,
+            currentTurn: game.currentTurn,
+            movesPlayed: game.movesPlayed,
+            player1Time: game.player1Time,
+            player2Time: game.player2Time,
+            clock: clockUpdate(lastGameId, game.clock, Date.now())
           });
         }
         
@@ -156,13 +231,14 @@ class MultiplayerManager {
         try {
           const playerData: PlayerData = {
             ...data,
+            userId: this.sessionUserId(socket) ?? data.userId,
             socketId: socket.id
           };
           
           this.connectedPlayers.set(socket.id, playerData);
           
           // Join personal room for direct messages
-          socket.join(`user:${data.userId}`);
+          socket.join(`user:${playerData.userId}`);
           
           console.log(`👤 Player joined: ${data.displayName} (Rating: ${data.rating})`);
           
@@ -267,6 +343,8 @@ class MultiplayerManager {
         }
 
         try {
+          const timeControl = isTimeControl(data.timeControl) ? data.timeControl : DEFAULT_TIME_CONTROL;
+
           // Add to database queue (if available)
           try {
             const db = getDB();
@@ -275,7 +353,7 @@ class MultiplayerManager {
               username: player.username,
               displayName: player.displayName,
               rating: player.rating,
-              timeControl: parseInt(data.timeControl?.split('+')[0] || '10') * 60, // Convert "10+0" to 600 seconds
+              timeControl: parseTimeControl(timeControl).initialMs / 1000, // Convert "10+0" to 600 seconds
               status: 'waiting'
             });
           } catch (dbError) {
@@ -283,9 +361,10 @@ class MultiplayerManager {
           }
 
           // Add to local queue
-          this.matchmakingQueue.push(player);
+          const queued: QueuedPlayer = { ...player, timeControl };
+          this.matchmakingQueue.push(queued);
           
-          console.log(`🎯 Player ${player.displayName} joined matchmaking queue`);
+          console.log(`🎯 Player ${player.displayName} joined matchmaking queue (${timeControl})`);
           
           socket.emit('matchmaking:joined', { 
             queuePosition: this.matchmakingQueue.length,
@@ -293,7 +372,7 @@ class MultiplayerManager {
           });
 
           // Try to find a match
-          this.attemptMatch(player);
+          this.attemptMatch(queued);
           
         } catch (error) {
           console.error('Error joining matchmaking:', error);
@@ -333,24 +412,44 @@ class MultiplayerManager {
         const player = this.connectedPlayers.get(socket.id);
         if (!player) return;
 
+        const request: MoveRequest | null = data.move
+          ? { from: data.move.from, to: data.move.to, promotion: data.move.promotion }
+          : null;
+
         const game = this.activeGames.get(data.gameId);
         if (!game) {
-          socket.emit('game:error', { message: 'Game not found' });
+          this.rejectMove(socket, data.gameId, 'game_not_found', request);
           return;
         }
 
         // Validate it's the player's turn
-        const isPlayer1 = game.player1.userId === player.userId;
-        const isPlayer2 = game.player2.userId === player.userId;
-        
-        if (!isPlayer1 && !isPlayer2) {
-          socket.emit('game:error', { message: 'You are not in this game' });
+        const playerColor = this.seatColor(socket, game);
+        if (!playerColor) {
+          this.rejectMove(socket, data.gameId, 'not_in_game', request);
+          return;
+        }
+
+        if (game.gameState.gameStatus !== 'active') {
+          this.rejectMove(socket, data.gameId, 'game_over', request, game);
           return;
         }
 
-        const playerColor = isPlayer1 ? 'white' : 'black';
         if (game.currentTurn !== playerColor) {
-          socket.emit('game:error', { message: 'Not your turn' });
+          this.rejectMove(socket, data.gameId, 'not_your_turn', request, game);
+          return;
+        }
+
+        // Moves are timed by their arrival here - a move that lands after the
+        // flag fell loses on time even if the flag timer hasn't fired yet
+        const now = Date.now();
+        if (flaggedSide(game.clock, now)) {
+          this.rejectMove(socket, data.gameId, 'game_over', request, game);
+          await this.handleTimeout(data.gameId);
+          return;
+        }
+
+        if (!request) {
+          this.rejectMove(socket, data.gameId, 'malformed_move', null, game);
           return;
         }
 
@@ -360,16 +459,46 @@ class MultiplayerManager {
             const currentChecksum = game.stateManager.generateChecksum(game.gameState);
             if (data.checksum !== currentChecksum) {
               console.warn(`⚠️ Checksum mismatch! Client: ${data.checksum}, Server: ${currentChecksum}`);
-              
-              // Send state sync to resolve desync
-              this.sendStateSync(game, data.gameId);
+              this.rejectMove(socket, data.gameId, 'state_mismatch', request, game);
               return;
             }
           }
 
+          // Replay the submitted squares on the server's own board - the client's
+          // board is never trusted
+          const result = validateMove(game.gameState.board, playerColor, request, game.gameState.enPassantTarget ?? null);
+          if (!result.valid) {
+            console.warn(`⚠️ Move rejected in game ${data.gameId} from ${player.displayName}: ${result.reason}`);
+            this.rejectMove(socket, data.gameId, result.reason, request, game);
+            return;
+          }
+
+          const { move, status } = result;
+          const nextTurn = playerColor === 'white' ? 'black' : 'white';
+          const tracking = trackPosition(game.gameState, move, result.board, nextTurn, result.enPassantTarget);
+          // Repetition, the fifty-move rule and dead positions end online games too
+          const drawReason: DrawReason | null = status.isCheckmate ? null
+            : status.isStalemate ? 'stalemate'
+            : getDrawReason({ board: result.board, ...tracking });
+          const gameStatus = status.isCheckmate ? 'checkmate' : drawReason === 'stalemate' ? 'stalemate' : drawReason ? 'draw' : 'active';
+
           // Update game state
-          game.gameState = data.move.gameState;
+          game.previousStates.push({ gameState: game.gameState, currentTurn: game.currentTurn, clock: stopClock(game.clock, now) });
+          game.movesPlayed++;
+          game.clock = gameStatus === 'active' ? pressClock(game.clock, playerColor, now) : stopClock(game.clock, now);
+          this.recordClockTimes(game);
           game.currentTurn = game.currentTurn === 'white' ? 'black' : 'white';
+          game.gameState = {
+            ...game.gameState,
+            board: result.board,
+            currentPlayer: game.currentTurn,
+            moveHistory: [...(game.gameState.moveHistory || []), move],
+            isInCheck: status.isInCheck,
+            enPassantTarget: result.enPassantTarget,
+            drawReason,
+            ...tracking,
+            gameStatus
+          };
           
           // Create state snapshot if state manager exists
           let checksum = '';
@@ -389,21 +518,43 @@ class MultiplayerManager {
               .set({
                 gameState: game.gameState,
                 currentTurn: game.currentTurn,
-                moveHistory: data.move.moveHistory || []
+                moveHistory: game.gameState.moveHistory,
+                player1Time: game.player1Time,
+                player2Time: game.player2Time
               })
               .where(eq(onlineGames.gameId, data.gameId));
           } catch (dbError) {
             console.log('⚠️ Skipping database game state update - database not available');
           }
 
-          // Broadcast move to both players with checksum
+          // Broadcast move to both players with checksum, stamped with the
+          // server time the clock was pressed at
           this.io.to(`game:${data.gameId}`).emit('game:move', {
-            move: data.move,
+            gameId: data.gameId,
+            move,
             gameState: game.gameState,
             currentTurn: game.currentTurn,
+            movesPlayed: game.movesPlayed,
             checksum,
-            sequenceNumber
+            sequenceNumber,
+            serverTime: now,
+            clock: clockUpdate(data.gameId, game.clock, now)
           });
+          this.scheduleFlag(data.gameId);
+          this.queueSpectatorUpdate(game);
+
+          const cancelled = offerCancelledByMove(game.negotiation, playerColor);
+          if (cancelled) {
+            game.negotiation = clearOffer(game.negotiation);
+            this.io.to(`game:${data.gameId}`).emit('game:offer-cancelled', { gameId: data.gameId, type: cancelled.type });
+          }
+
+          // The server decides when the game is over, never the client
+          if (status.isCheckmate) {
+            await this.handleGameEnd(data.gameId, 'checkmate', playerColor);
+          } else if (drawReason) {
+            await this.handleGameEnd(data.gameId, drawReason, 'draw');
+          }
 
         } catch (error) {
           console.error('Error handling game move:', error);
@@ -414,7 +565,7 @@ class MultiplayerManager {
       // Handle state sync requests
       socket.on('game:request-sync', async (data: { gameId: string }) => {
         const game = this.activeGames.get(data.gameId);
-        if (game) {
+        if (game && this.seatColor(socket, game)) {
           this.sendStateSync(game, data.gameId);
         }
       });
@@ -425,7 +576,7 @@ class MultiplayerManager {
         checksum: string;
       }) => {
         const game = this.activeGames.get(data.gameId);
-        if (!game || !game.stateManager) return;
+        if (!game || !game.stateManager || !this.seatColor(socket, game)) return;
 
         const serverChecksum = game.stateManager.generateChecksum(game.gameState);
         const isValid = serverChecksum === data.checksum;
@@ -442,12 +593,109 @@ class MultiplayerManager {
         }
       });
 
+      // Answer clock sync pings so clients can estimate the server's time
+      socket.on('clock:sync', (data: { clientTime: number }) => {
+        socket.emit('clock:sync', { clientTime: data.clientTime, serverTime: Date.now() });
+      });
+
       socket.on('game:resign', async (data: { gameId: string }) => {
-        await this.handleGameEnd(data.gameId, socket.id, 'resign');
+        const seat = this.findSeat(socket, data.gameId);
+        if (!seat) return;
+
+        await this.handleGameEnd(data.gameId, 'resign', seat.color === 'white' ? 'black' : 'white');
+      });
+
+      // Draw offers and takeback requests
+      socket.on('game:offer-draw', (data: { gameId: string }) => {
+        this.handleOffer(socket, data.gameId, 'draw');
+      });
+
+      socket.on('game:accept-draw', async (data: { gameId: string }) => {
+        if (this.answerOffer(socket, data.gameId, 'draw')) {
+          await this.handleGameEnd(data.gameId, 'agreement', 'draw');
+        }
+      });
+
+      socket.on('game:decline-draw', (data: { gameId: string }) => {
+        if (this.answerOffer(socket, data.gameId, 'draw')) {
+          this.io.to(`game:${data.gameId}`).emit('game:offer-declined', { gameId: data.gameId, type: 'draw' });
+        }
+      });
+
+      socket.on('game:request-takeback', (data: { gameId: string }) => {
+        this.handleOffer(socket, data.gameId, 'takeback');
+      });
+
+      socket.on('game:accept-takeback', async (data: { gameId: string }) => {
+        if (this.answerOffer(socket, data.gameId, 'takeback')) {
+          await this.takeBackMove(data.gameId);
+        }
+      });
+
+      socket.on('game:decline-takeback', (data: { gameId: string }) => {
+        if (this.answerOffer(socket, data.gameId, 'takeback')) {
+          this.io.to(`game:${data.gameId}`).emit('game:offer-declined', { gameId: data.gameId, type: 'takeback' });
+        }
+      });
+
+      // Either player may call the game off before both have moved, unrated
+      socket.on('game:abort', async (data: { gameId: string }) => {
+        const seat = this.findSeat(socket, data.gameId);
+        if (!seat) return;
+
+        const reason = checkAbort(seat.game.movesPlayed);
+        if (reason) {
+          this.rejectNegotiation(socket, data.gameId, reason);
+          return;
+        }
+
+        console.log(`🚫 Game ${data.gameId} aborted by ${seat.color}`);
+        await this.handleGameEnd(data.gameId, 'aborted');
+      });
+
+      // Spectating live games
+      socket.on('spectate:list', () => {
+        socket.emit('spectate:games', this.getLiveGames());
+      });
+
+      socket.on('spectate:join', (data: { gameId: string }) => {
+        const game = this.activeGames.get(data.gameId);
+        if (!game) {
+          socket.emit('spectate:error', { gameId: data.gameId, message: 'That game has already finished' });
+          return;
+        }
+
+        const player = this.connectedPlayers.get(socket.id);
+        if (player && (game.player1.userId === player.userId || game.player2.userId === player.userId)) {
+          socket.emit('spectate:error', { gameId: data.gameId, message: 'You are playing in this game' });
+          return;
+        }
+
+        socket.join(`spectate:${data.gameId}`);
+        game.spectators.add(socket.id);
+        console.log(`👀 Spectator joined game ${data.gameId} (${game.spectators.size} watching)`);
+
+        const joined: SpectatorJoinedEvent = {
+          ...game.spectatorView,
+          game: this.summarizeGame(game),
+          delayMs: this.SPECTATOR_DELAY_MS
+        };
+        socket.emit('spectate:joined', joined);
+        this.broadcastSpectatorCount(game);
+      });
+
+      socket.on('spectate:leave', (data: { gameId: string }) => {
+        this.removeSpectator(socket.id, data.gameId);
+        socket.leave(`spectate:${data.gameId}`);
       });
 
       socket.on('disconnect', (reason) => {
         console.log(`🔌 Client disconnected: ${socket.id}, reason: ${reason}`);
+
+        // Stop counting them as a spectator anywhere
+        for (const gameId of Array.from(this.activeGames.keys())) {
+          this.removeSpectator(socket.id, gameId);
+        }
         
         // Clear heartbeat timeout
         const heartbeatTimeout = this.playerHeartbeats.get(socket.id);
@@ -497,11 +745,12 @@ class MultiplayerManager {
     this.io.emit('server:stats', stats);
   }
 
-  private async attemptMatch(newPlayer: PlayerData) {
-    // Find suitable opponent (within 200 rating points)
+  private async attemptMatch(newPlayer: QueuedPlayer) {
+    // Find suitable opponent (within 200 rating points, same time control)
     const ratingRange = 200;
     const opponent = this.matchmakingQueue.find(p => 
       p.socketId !== newPlayer.socketId &&
+      p.timeControl === newPlayer.timeControl &&
       Math.abs(p.rating - newPlayer.rating) <= ratingRange
     );
 
@@ -520,18 +769,30 @@ class MultiplayerManager {
     
     // Randomly assign colors
     const isNewPlayerWhite = Math.random() < 0.5;
-    const player1 = isNewPlayerWhite ? newPlayer : opponent;
-    const player2 = isNewPlayerWhite ? opponent : newPlayer;
+    const player1: PlayerData = isNewPlayerWhite ? newPlayer : opponent;
+    const player2: PlayerData = isNewPlayerWhite ? opponent : newPlayer;
 
+    const settings = parseTimeControl(newPlayer.timeControl);
+    const timeControl = settings.initialMs / 1000;
+    const initialState = this.getInitialGameState();
+    const clock = createGameClock(settings);
     const gameData: GameData = {
       gameId,
       player1,
       player2,
-      gameState: this.getInitialGameState(),
+      seatTokens: { white: crypto.randomBytes(16).toString('hex'), black: crypto.randomBytes(16).toString('hex') },
+      gameState: initialState,
       currentTurn: 'white',
-      timeControl: 600, // 10 minutes
-      player1Time: 600,
-      player2Time: 600,
+      timeControl,
+      player1Time: timeControl,
+      player2Time: timeControl,
+      clock,
+      negotiation: createNegotiationState(),
+      previousStates: [],
+      movesPlayed: 0,
+      spectators: new Set(),
+      spectatorView: { gameId, gameState: initialState, currentTurn: 'white', clock: clockUpdate(gameId, clock, Date.now()) },
+      startedAt: Date.now(),
       stateManager: new GameStateManager(),
       lastSyncTime: Date.now()
     };
@@ -552,9 +813,9 @@ class MultiplayerManager {
           currentTurn: 'white',
           status: 'active',
           moveHistory: [],
-          timeControl: 600,
-          player1Time: 600,
-          player2Time: 600,
+          timeControl,
+          player1Time: timeControl,
+          player2Time: timeControl,
           startedAt: new Date()
         });
 
@@ -576,19 +837,35 @@ class MultiplayerManager {
       // Start state sync timer for this game
       this.startStateSyncTimer(gameId);
 
+      // White's time starts as soon as both players are told about the game
+      const now = Date.now();
+      gameData.clock = startClock(gameData.clock, 'white', now);
+      gameData.spectatorView = { ...gameData.spectatorView, clock: clockUpdate(gameId, gameData.clock, now) };
+      this.scheduleFlag(gameId);
+
+      const matched = {
+        gameId,
+        gameState: gameData.gameState,
+        movesPlayed: gameData.movesPlayed,
+        timeControl,
+        player1Time: timeControl,
+        player2Time: timeControl,
+        clock: clockUpdate(gameId, gameData.clock, now)
+      };
+
       // Notify both players
       this.io.to(player1.socketId).emit('game:matched', {
-        gameId,
+        ...matched,
         opponent: { name: player2.displayName, rating: player2.rating },
         yourColor: 'white',
-        gameState: gameData.gameState
+        seatToken: gameData.seatTokens.white
       });
 
       this.io.to(player2.socketId).emit('game:matched', {
-        gameId,
+        ...matched,
         opponent: { name: player1.displayName, rating: player1.rating },
         yourColor: 'black',
-        gameState: gameData.gameState
+        seatToken: gameData.seatTokens.black
       });
 
       console.log(`🎮 Game created: ${player1.displayName} vs ${player2.displayName}`);
@@ -602,18 +879,33 @@ class MultiplayerManager {
     }
   }
 
-  private async handleGameEnd(gameId: string, resigner?: string, reason?: string) {
+  private async handleGameEnd(
+    gameId: string,
+    reason?: string,
+    result?: 'white' | 'black' | 'draw'
+  ) {
     const game = this.activeGames.get(gameId);
     if (!game) return;
 
-    let winner: 'white' | 'black' | 'draw' | null = null;
-    
-    if (reason === 'resign' && resigner) {
-      const resigningPlayer = this.connectedPlayers.get(resigner);
-      if (resigningPlayer) {
-        winner = game.player1.userId === resigningPlayer.userId ? 'black' : 'white';
-      }
+    const winner: 'white' | 'black' | 'draw' | null = result ?? null;
+
+    // Close the game before anything is awaited, so moves, offers and a
+    // second result arriving meanwhile find no game to act on
+    this.activeGames.delete(gameId);
+    if (game.gameState.gameStatus === 'active') {
+      game.gameState = { ...game.gameState, gameStatus: 'ended' };
     }
+    const syncTimer = this.stateSyncTimers.get(gameId);
+    if (syncTimer) {
+      clearInterval(syncTimer);
+      this.stateSyncTimers.delete(gameId);
+    }
+
+    // Freeze the clocks where they stand
+    const now = Date.now();
+    game.clock = stopClock(game.clock, now);
+    this.recordClockTimes(game);
+    this.clearFlagTimer(gameId);
 
     try {
       // Update database (if available)
@@ -621,8 +913,10 @@ class MultiplayerManager {
         const db = getDB();
         await db.update(onlineGames)
           .set({
-            status: 'completed',
+            status: reason === 'aborted' ? 'aborted' : 'completed',
             winner,
+            player1Time: game.player1Time,
+            player2Time: game.player2Time,
             completedAt: new Date()
           })
           .where(eq(onlineGames.gameId, gameId));
@@ -631,81 +925,317 @@ class MultiplayerManager {
       }
 
       // Notify players
+      const clock = clockUpdate(gameId, game.clock, now);
       this.io.to(`game:${gameId}`).emit('game:ended', {
         winner,
-        reason: reason || 'game_over'
+        reason: reason || 'game_over',
+        rated: reason !== 'aborted',
+        clock
       });
 
-      // Clean up state sync timer
-      const syncTimer = this.stateSyncTimers.get(gameId);
-      if (syncTimer) {
-        clearInterval(syncTimer);
-        this.stateSyncTimers.delete(gameId);
-      }
-
-      // Clean up
-      this.activeGames.delete(gameId);
-
+      // Spectators learn the result after the delay, then leave the game
+      const ended: SpectatorEndedEvent = { gameId, winner, reason: reason || 'game_over', clock };
+      this.afterSpectatorDelay(() => {
+        this.io.to(`spectate:${gameId}`).emit('spectate:ended', ended);
+        this.io.in(`spectate:${gameId}`).socketsLeave(`spectate:${gameId}`);
+      });
     } catch (error) {
       console.error('Error ending game:', error);
     }
   }
 
-  private getInitialGameState() {
-    // Return initial 10x10 wizard chess board state
-    return {
-      board: this.createInitialBoard(),
-      currentPlayer: 'white',
-      gameStatus: 'active',
-      moveHistory: []
+  private rejectMove(
+    socket: Socket,
+    gameId: string,
+    reason: OnlineMoveRejectionReason,
+    move: MoveRequest | null,
+    game?: GameData
+  ) {
+    const event: MoveRejectedEvent = {
+      gameId,
+      reason,
+      message: MOVE_REJECTION_MESSAGES[reason],
+      move
     };
+
+    // Include the authoritative position so the client can undo its optimistic move
+    if (game) {
+      event.currentTurn = game.currentTurn;
+      event.gameState = game.gameState;
+      if (game.stateManager) {
+        event.checksum = game.stateManager.generateChecksum(game.gameState);
+        event.sequenceNumber = game.stateManager.getSequenceNumber();
+      }
+    }
+
+    socket.emit('game:move-rejected', event);
   }
 
-  private createInitialBoard() {
-    // Create 10x10 board with wizard chess pieces
-    const board = Array(10).fill(null).map(() => Array(10).fill(null));
-    
-    // Set up pieces (simplified version)
-    const pieces = {
-      pawn: 'pawn', rook: 'rook', knight: 'knight', 
-      bishop: 'bishop', queen: 'queen', king: 'king', wizard: 'wizard'
+  /**
+   * Arms a timer for the moment the side to move runs out of time.
+   */
+  private scheduleFlag(gameId: string) {
+    this.clearFlagTimer(gameId);
+
+    const game = this.activeGames.get(gameId);
+    if (!game?.clock.running) return;
+
+    const remaining = remainingTime(game.clock, game.clock.running, Date.now());
+    const timer = setTimeout(() => {
+      this.flagTimers.delete(gameId);
+      this.handleTimeout(gameId).catch(error => console.error('Error flagging player:', error));
+    }, remaining);
+
+    this.flagTimers.set(gameId, timer);
+  }
+
+  private clearFlagTimer(gameId: string) {
+    const timer = this.flagTimers.get(gameId);
+    if (timer) {
+      clearTimeout(timer);
+      this.flagTimers.delete(gameId);
+    }
+  }
+
+  /**
+   * Ends the game on time if the side to move has flagged, and otherwise
+   * re-arms the flag timer (timers can fire a little early).
+   */
+  private async handleTimeout(gameId: string) {
+    const game = this.activeGames.get(gameId);
+    if (!game) return;
+
+    const flagged = flaggedSide(game.clock, Date.now());
+    if (!flagged) {
+      this.scheduleFlag(gameId);
+      return;
+    }
+
+    console.log(`⏰ ${flagged} flagged in game ${gameId}`);
+    await this.handleGameEnd(gameId, 'timeout', flagged === 'white' ? 'black' : 'white');
+  }
+
+  /**
+   * Mirrors the clock into the per-player seconds kept on the game and in the database.
+   */
+  private recordClockTimes(game: GameData) {
+    const now = Date.now();
+    game.player1Time = Math.ceil(remainingTime(game.clock, 'white', now) / 1000);
+    game.player2Time = Math.ceil(remainingTime(game.clock, 'black', now) / 1000);
+  }
+
+  /**
+   * The colour `socket`'s player plays in `game`, or null for anyone else -
+   * spectators included.
+   */
+  private seatColor(socket: Socket, game: GameData): NegotiationColor | null {
+    if (game.player1.socketId === socket.id) return 'white';
+    if (game.player2.socketId === socket.id) return 'black';
+    return null;
+  }
+
+  /**
+   * The signed-in user of the session `socket` connected with, if any.
+   */
+  private sessionUserId(socket: Socket): number | null {
+    const request = socket.request as { session?: { userId?: number } } | undefined;
+    return request?.session?.userId ?? null;
+  }
+
+  /**
+   * Moves a seat in `game` to `socket` when the socket shows it belongs to
+   * that seat's player: by the seat token sent with `game:matched`, or by a
+   * signed-in session of the seated user. A user id alone proves nothing.
+   */
+  private reclaimSeat(socket: Socket, game: GameData, seatToken?: string): NegotiationColor | null {
+    const sessionUserId = this.sessionUserId(socket);
+    for (const color of ['white', 'black'] as const) {
+      const seat = color === 'white' ? game.player1 : game.player2;
+      const owns = seatToken === game.seatTokens[color] || (sessionUserId !== null && sessionUserId === seat.userId);
+      if (!owns) continue;
+
+      if (color === 'white') {
+        game.player1 = { ...game.player1, socketId: socket.id };
+      } else {
+        game.player2 = { ...game.player2, socketId: socket.id };
+      }
+      return color;
+    }
+    return null;
+  }
+
+  /**
+   * The active game `gameId` and the colour `socket`'s player has in it.
+   * Rejects the request and returns null if there is none.
+   */
+  private findSeat(socket: Socket, gameId: string): { game: GameData; color: NegotiationColor } | null {
+    const game = this.activeGames.get(gameId);
+    if (!game) {
+      this.rejectNegotiation(socket, gameId, 'game_not_found');
+      return null;
+    }
+
+    const color = this.seatColor(socket, game);
+    if (!color) {
+      this.rejectNegotiation(socket, gameId, 'not_in_game');
+      return null;
+    }
+    if (game.gameState.gameStatus !== 'active') {
+      this.rejectNegotiation(socket, gameId, 'game_over');
+      return null;
+    }
+    return { game, color };
+  }
+
+  private handleOffer(socket: Socket, gameId: string, type: OfferType) {
+    const seat = this.findSeat(socket, gameId);
+    if (!seat) return;
+
+    const { game, color } = seat;
+    const lastMover = game.previousStates.length > 0 ? game.previousStates[game.previousStates.length - 1].currentTurn : null;
+    const now = Date.now();
+    const reason = checkOffer(game.negotiation, type, color, lastMover, now);
+    if (reason) {
+      this.rejectNegotiation(socket, gameId, reason);
+      return;
+    }
+
+    game.negotiation = recordOffer(game.negotiation, type, color, now);
+    console.log(`🤝 ${color} made a ${type} offer in game ${gameId}`);
+    this.io.to(`game:${gameId}`).emit('game:offer', { gameId, type, from: color });
+  }
+
+  /**
+   * Settles the pending `type` offer if `socket`'s player may answer it.
+   */
+  private answerOffer(socket: Socket, gameId: string, type: OfferType): boolean {
+    const seat = this.findSeat(socket, gameId);
+    if (!seat) return false;
+
+    const reason = checkAnswer(seat.game.negotiation, type, seat.color);
+    if (reason) {
+      this.rejectNegotiation(socket, gameId, reason);
+      return false;
+    }
+
+    seat.game.negotiation = clearOffer(seat.game.negotiation);
+    return true;
+  }
+
+  /**
+   * Rolls the game back one ply and hands the move back to the player who made it.
+   * They get back the time they had when the move arrived, without its increment;
+   * their opponent keeps the time already spent.
+   */
+  private async takeBackMove(gameId: string) {
+    const game = this.activeGames.get(gameId);
+    const previous = game?.previousStates.pop();
+    if (!game || !previous) return;
+
+    const now = Date.now();
+    game.gameState = previous.gameState;
+    game.currentTurn = previous.currentTurn;
+    const stopped = stopClock(game.clock, now);
+    game.clock = startClock({ ...stopped, [previous.currentTurn]: previous.clock[previous.currentTurn] }, previous.currentTurn, now);
+    this.recordClockTimes(game);
+    this.scheduleFlag(gameId);
+
+    const snapshot = game.stateManager.createSnapshot(game.gameState);
+    game.lastChecksum = snapshot.checksum;
+    game.lastSyncTime = now;
+
+    try {
+      const db = getDB();
+      await db.update(onlineGames)
+        .set({
+          gameState: game.gameState,
+          currentTurn: game.currentTurn,
+          moveHistory: game.gameState.moveHistory,
+          player1Time: game.player1Time,
+          player2Time: game.player2Time
+        })
+        .where(eq(onlineGames.gameId, gameId));
+    } catch (dbError) {
+      console.log('⚠️ Skipping database takeback update - database not available');
+    }
+
+    console.log(`↩️ Move taken back in game ${gameId}`);
+    this.io.to(`game:${gameId}`).emit('game:takeback', {
+      gameId,
+      gameState: game.gameState,
+      currentTurn: game.currentTurn,
+      movesPlayed: game.movesPlayed,
+      checksum: snapshot.checksum,
+      sequenceNumber: snapshot.sequenceNumber,
+      clock: clockUpdate(gameId, game.clock, now)
+    });
+    this.queueSpectatorUpdate(game);
+  }
+
+  /**
+   * Shows spectators the game as it stands now once the spectator delay has passed.
+   */
+  private queueSpectatorUpdate(game: GameData) {
+    const view: SpectatorUpdate = {
+      gameId: game.gameId,
+      gameState: game.gameState,
+      currentTurn: game.currentTurn,
+      clock: clockUpdate(game.gameId, game.clock, Date.now())
     };
 
-    // White pieces (bottom)
-    for (let col = 0; col < 10; col++) {
-      board[8][col] = { type: pieces.pawn, color: 'white' };
+    this.afterSpectatorDelay(() => {
+      game.spectatorView = view;
+      this.io.to(`spectate:${game.gameId}`).emit('spectate:update', view);
+    });
+  }
+
+  private afterSpectatorDelay(callback: () => void) {
+    if (this.SPECTATOR_DELAY_MS > 0) {
+      setTimeout(callback, this.SPECTATOR_DELAY_MS);
+    } else {
+      callback();
     }
-    
-    // Back rank
-    board[9][0] = { type: pieces.rook, color: 'white' };
-    board[9][1] = { type: pieces.knight, color: 'white' };
-    board[9][2] = { type: pieces.bishop, color: 'white' };
-    board[9][3] = { type: pieces.queen, color: 'white' };
-    board[9][4] = { type: pieces.king, color: 'white' };
-    board[9][5] = { type: pieces.wizard, color: 'white' };
-    board[9][6] = { type: pieces.bishop, color: 'white' };
-    board[9][7] = { type: pieces.knight, color: 'white' };
-    board[9][8] = { type: pieces.rook, color: 'white' };
-    board[9][9] = { type: pieces.wizard, color: 'white' };
-
-    // Black pieces (top)
-    for (let col = 0; col < 10; col++) {
-      board[1][col] = { type: pieces.pawn, color: 'black' };
+  }
+
+  private removeSpectator(socketId: string, gameId: string) {
+    const game = this.activeGames.get(gameId);
+    if (game?.spectators.delete(socketId)) {
+      this.broadcastSpectatorCount(game);
     }
-    
-    // Back rank
-    board[0][0] = { type: pieces.rook, color: 'black' };
-    board[0][1] = { type: pieces.knight, color: 'black' };
-    board[0][2] = { type: pieces.bishop, color: 'black' };
-    board[0][3] = { type: pieces.queen, color: 'black' };
-    board[0][4] = { type: pieces.king, color: 'black' };
-    board[0][5] = { type: pieces.wizard, color: 'black' };
-    board[0][6] = { type: pieces.bishop, color: 'black' };
-    board[0][7] = { type: pieces.knight, color: 'black' };
-    board[0][8] = { type: pieces.rook, color: 'black' };
-    board[0][9] = { type: pieces.wizard, color: 'black' };
+  }
+
+  private broadcastSpectatorCount(game: GameData) {
+    this.io.to(`game:${game.gameId}`).to(`spectate:${game.gameId}`).emit('game:spectators', {
+      gameId: game.gameId,
+      count: game.spectators.size
+    });
+  }
+
+  private summarizeGame(game: GameData): LiveGameSummary {
+    const minutes = (game.timeControl ?? 0) / 60;
+    return {
+      gameId: game.gameId,
+      white: { name: game.player1.displayName, rating: game.player1.rating },
+      black: { name: game.player2.displayName, rating: game.player2.rating },
+      timeControl: `${minutes}+${game.clock.incrementMs / 1000}`,
+      moves: game.spectatorView.gameState.moveHistory?.length || 0,
+      spectators: game.spectators.size,
+      startedAt: game.startedAt
+    };
+  }
 
-    return board;
+  private rejectNegotiation(socket: Socket, gameId: string, reason: NegotiationRejectionReason) {
+    const event: NegotiationRejectedEvent = {
+      gameId,
+      reason,
+      message: NEGOTIATION_REJECTION_MESSAGES[reason]
+    };
+    socket.emit('game:negotiation-rejected', event);
+  }
+
+  private getInitialGameState() {
+    // Same canonical 10x10 start position the client uses
+    return createInitialOnlineGameState();
   }
 
   private estimateWaitTime(): number {
@@ -720,12 +1250,17 @@ class MultiplayerManager {
     
     // Send authoritative state to all players in the game
     this.io.to(`game:${gameId}`).emit('game:state-sync', {
+      gameId,
       gameState: game.gameState,
       currentTurn: game.currentTurn,
+      movesPlayed: game.movesPlayed,
       checksum: snapshot.checksum,
       sequenceNumber: snapshot.sequenceNumber,
       timestamp: snapshot.timestamp
     });
+
+    // Refresh the clocks so displays that drifted snap back to the server's time
+    this.io.to(`game:${gameId}`).emit('game:clock', clockUpdate(gameId, game.clock, Date.now()));
     
     console.log(`📋 State sync sent for game ${gameId} - Checksum: ${snapshot.checksum}`);
   }
@@ -777,6 +1312,13 @@ class MultiplayerManager {
     }
   }
 
+  /**
+   * Games in progress that can be watched, as spectators see them.
+   */
+  public getLiveGames(): LiveGameSummary[] {
+    return Array.from(this.activeGames.values()).map(game => this.summarizeGame(game));
+  }
+
   public getActiveGamesCount(): number {
     return this.activeGames.size;
   }
@@ -50,11 +50,11 @@ router.post("/log-game", async (req: AuthRequest, res: Response) => {
       gameTime,
       moveCount,
       wizardMovesUsed,
-      blunders: blunders || null,
-      mistakes: mistakes || null,
-      accuracyScore: accuracyScore || null,
-      openingType: openingType || null,
-      endgameType: endgameType || null,
+      blunders: blunders ?? null,
+      mistakes: mistakes ?? null,
+      accuracyScore: accuracyScore ?? null,
+      openingType: openingType ?? null,
+      endgameType: endgameType ?? null,
       completedAt: new Date()
     }).returning();
 
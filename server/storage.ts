@@ -243,6 +243,7 @@ export class MemStorage implements IStorage {
         id: this.currentSaveId++,
         userId,
         ...saveDataInput,
+        endgameProgress: saveDataInput.endgameProgress ?? null,
         lastSyncedAt: new Date(),
         createdAt: new Date()
       };
@@ -0,0 +1,66 @@
+/**
+ * Draw Rules Tests
+ * Repetition tracked move by move the way the server does, and dead positions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialBoard, validateMove, type Board, type PieceColor } from '../chessRules';
+import { FIFTY_MOVE_RULE_PLIES, getDrawReason, getPositionKey, hasInsufficientMaterial, trackPosition } from '../drawRules';
+
+describe('draw rules', () => {
+  it('draws on the third repetition of a knight shuffle', () => {
+    let board: Board = createInitialBoard();
+    let tracking = { halfmoveClock: 0, positionHistory: [getPositionKey(board, 'white')] };
+    let side: PieceColor = 'white';
+    const shuffle = [[9, 1, 7, 0], [0, 1, 2, 0], [7, 0, 9, 1], [2, 0, 0, 1]];
+    const reasons: (string | null)[] = [];
+
+    for (let ply = 0; ply < 8; ply++) {
+      const [fromRow, fromCol, toRow, toCol] = shuffle[ply % 4];
+      const result = validateMove(board, side, { from: { row: fromRow, col: fromCol }, to: { row: toRow, col: toCol } });
+      if (!result.valid) throw new Error(result.reason);
+      side = side === 'white' ? 'black' : 'white';
+      board = result.board;
+      tracking = trackPosition(tracking, result.move, board, side, result.enPassantTarget);
+      reasons.push(getDrawReason({ board, ...tracking }));
+    }
+
+    expect(reasons.slice(0, 7).every(reason => reason === null)).toBe(true);
+    expect(reasons[7]).toBe('threefold_repetition');
+    expect(tracking.halfmoveClock).toBe(8);
+  });
+
+  it('draws dead positions and long quiet stretches', () => {
+    const board: Board = Array.from({ length: 10 }, () => Array(10).fill(null));
+    board[9][5] = { type: 'king', color: 'white', id: 'wk' };
+    board[0][5] = { type: 'king', color: 'black', id: 'bk' };
+    board[5][5] = { type: 'knight', color: 'white', id: 'wn' };
+    expect(hasInsufficientMaterial(board)).toBe(true);
+
+    board[5][6] = { type: 'wizard', color: 'black', id: 'bw' };
+    expect(hasInsufficientMaterial(board)).toBe(false);
+    expect(getDrawReason({ board, halfmoveClock: FIFTY_MOVE_RULE_PLIES - 1 })).toBeNull();
+    expect(getDrawReason({ board, halfmoveClock: FIFTY_MOVE_RULE_PLIES })).toBe('fifty_move_rule');
+  });
+
+  it('keys the en passant square only when the capture is legal', () => {
+    const empty = (): Board => Array.from({ length: 10 }, () => Array(10).fill(null));
+    const target = { row: 7, col: 3 };
+    const board = empty();
+    board[9][5] = { type: 'king', color: 'white', id: 'wk' };
+    board[0][5] = { type: 'king', color: 'black', id: 'bk' };
+    board[6][3] = { type: 'pawn', color: 'white', id: 'wp', hasMoved: true };
+    board[6][7] = { type: 'pawn', color: 'black', id: 'bp', hasMoved: true };
+    expect(getPositionKey(board, 'black', target)).toBe(getPositionKey(board, 'black'));
+
+    board[6][4] = board[6][7];
+    board[6][7] = null;
+    expect(getPositionKey(board, 'black', target)).not.toBe(getPositionKey(board, 'black'));
+
+    // Taking would clear the rank between the rook and the black king
+    board[0][5] = null;
+    board[6][9] = { type: 'king', color: 'black', id: 'bk' };
+    board[6][0] = { type: 'rook', color: 'white', id: 'wr' };
+    expect(getPositionKey(board, 'black', target)).toBe(getPositionKey(board, 'black'));
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Online Game Clock Tests
+ * Time controls, increments, flagging and the lag-compensated display
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  bestClockOffset,
+  clockSyncSample,
+  clockUpdate,
+  createGameClock,
+  displayedTime,
+  flaggedSide,
+  formatClock,
+  parseTimeControl,
+  pressClock,
+  remainingTime,
+  startClock
+} from '../gameClock';
+
+describe('game clock', () => {
+  it('parses time controls and falls back to the default', () => {
+    expect(parseTimeControl('15+10')).toEqual({ initialMs: 900_000, incrementMs: 10_000 });
+    expect(parseTimeControl('5+0')).toEqual({ initialMs: 300_000, incrementMs: 0 });
+    expect(parseTimeControl('3+2')).toEqual({ initialMs: 600_000, incrementMs: 0 });
+  });
+
+  it('charges the mover, adds the increment and flags a side out of time', () => {
+    let clock = startClock(createGameClock(parseTimeControl('15+10')), 'white', 0);
+    clock = pressClock(clock, 'white', 30_000);
+    expect(clock.white).toBe(880_000);
+    expect(clock.running).toBe('black');
+    expect(remainingTime(clock, 'black', 100_000)).toBe(830_000);
+
+    expect(flaggedSide(clock, 929_999)).toBeNull();
+    expect(flaggedSide(clock, 930_000)).toBe('black');
+    expect(remainingTime(clock, 'black', 1_000_000)).toBe(0);
+  });
+
+  it('counts the running side down from the estimated server time', () => {
+    const clock = startClock(createGameClock(parseTimeControl('5+0')), 'black', 1000);
+    const update = clockUpdate('game', clock, 3000);
+    expect(update.black).toBe(298_000);
+
+    // Server is 5s ahead; the fast round trip wins over the laggy one
+    const offset = bestClockOffset([
+      clockSyncSample(10_000, 15_400, 10_800),
+      clockSyncSample(20_000, 25_050, 20_100)
+    ]);
+    expect(offset).toBe(5000);
+    expect(displayedTime(update, 'black', 7000)).toBe(294_000);
+    expect(displayedTime(update, 'white', 100_000)).toBe(300_000);
+
+    expect(formatClock(298_000)).toBe('4:58');
+    expect(formatClock(9_450)).toBe('0:09.4');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Online Game Negotiation Tests
+ * Offer limits, answering offers, moves that cancel them and the abort window
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_OFFERS_PER_GAME,
+  OFFER_COOLDOWN_MS,
+  checkAbort,
+  checkAnswer,
+  checkOffer,
+  clearOffer,
+  createNegotiationState,
+  offerCancelledByMove,
+  recordOffer
+} from '../gameNegotiation';
+
+describe('game negotiation', () => {
+  it('limits offers to one pending, a cooldown and a per-game count', () => {
+    let state = recordOffer(createNegotiationState(), 'draw', 'white', 0);
+    expect(checkOffer(state, 'draw', 'black', 'white', 1000)).toBe('offer_pending');
+
+    state = clearOffer(state);
+    expect(checkOffer(state, 'draw', 'white', 'white', OFFER_COOLDOWN_MS - 1)).toBe('offer_cooldown');
+    expect(checkOffer(state, 'draw', 'black', 'white', 1000)).toBeNull();
+
+    for (let i = 1; i < MAX_OFFERS_PER_GAME; i++) {
+      state = clearOffer(recordOffer(state, 'draw', 'white', i * OFFER_COOLDOWN_MS));
+    }
+    expect(checkOffer(state, 'draw', 'white', 'white', 10 * OFFER_COOLDOWN_MS)).toBe('offer_limit');
+    expect(checkOffer(state, 'takeback', 'white', 'white', 10 * OFFER_COOLDOWN_MS)).toBeNull();
+  });
+
+  it('only lets the last mover ask for a takeback and the opponent answer', () => {
+    const state = createNegotiationState();
+    expect(checkOffer(state, 'takeback', 'white', null, 0)).toBe('nothing_to_take_back');
+    expect(checkOffer(state, 'takeback', 'white', 'black', 0)).toBe('nothing_to_take_back');
+
+    const requested = recordOffer(state, 'takeback', 'white', 0);
+    expect(checkAnswer(requested, 'takeback', 'white')).toBe('own_offer');
+    expect(checkAnswer(requested, 'draw', 'black')).toBe('no_offer');
+    expect(checkAnswer(requested, 'takeback', 'black')).toBeNull();
+  });
+
+  it('cancels offers a move makes stale and closes the abort window', () => {
+    const draw = recordOffer(createNegotiationState(), 'draw', 'white', 0);
+    expect(offerCancelledByMove(draw, 'white')).toBeNull();
+    expect(offerCancelledByMove(draw, 'black')?.type).toBe('draw');
+    expect(offerCancelledByMove(recordOffer(createNegotiationState(), 'takeback', 'white', 0), 'white')?.type).toBe('takeback');
+
+    expect(checkAbort(0)).toBeNull();
+    expect(checkAbort(1)).toBeNull();
+    expect(checkAbort(2)).toBe('abort_too_late');
+  });
+});
@@ -0,0 +1,644 @@
+/**
+ * Wizard Chess Rules Engine
+ * Pure 10x10 move generation and validation shared by the client and the
+ * multiplayer server. Nothing in here touches the DOM, stores or sockets, so
+ * the server can replay every online move with exactly the client's rules.
+ */
+
+export type PieceType = 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king' | 'wizard';
+export type PieceColor = 'white' | 'black';
+
+export interface Position {
+  row: number;
+  col: number;
+}
+
+export interface ChessPiece {
+  type: PieceType;
+  color: PieceColor;
+  id: string;
+  hasMoved?: boolean;
+}
+
+export interface ChessMove {
+  from: Position;
+  to: Position;
+  piece: ChessPiece;
+  captured?: ChessPiece;
+  isWizardTeleport?: boolean;
+  isWizardAttack?: boolean;
+  promotion?: PieceType; // For pawn promotion
+  isCastling?: boolean;
+  rookMove?: { from: Position; to: Position }; // For castling, track rook movement
+  isEnPassant?: boolean; // Captured pawn sits beside the destination, not on it
+  notation?: string; // Move notation (e.g., "e2e4", "Nf3")
+  move?: string; // Alternative move representation
+}
+
+export type Board = (ChessPiece | null)[][];
+
+/**
+ * The minimal description of a move a player submits: squares plus an
+ * optional promotion choice. Everything else is derived from the board.
+ */
+export interface MoveRequest {
+  from: Position;
+  to: Position;
+  promotion?: PieceType;
+}
+
+export interface GameStatus {
+  isInCheck: boolean;
+  isCheckmate: boolean;
+  isStalemate: boolean;
+}
+
+/**
+ * En passant follows standard chess: right after a pawn's two-square advance,
+ * an enemy pawn on an adjacent file of the same rank may capture it by moving
+ * diagonally onto the skipped square. The wider board changes nothing (only
+ * adjacent files qualify) and only pawns can capture this way; wizards never
+ * capture en passant. Functions that need it take the skipped square as
+ * `enPassantTarget`, which is null unless the previous move was a double step.
+ */
+export type EnPassantTarget = Position | null;
+
+export const BOARD_SIZE = 10;
+export const PROMOTION_PIECES: PieceType[] = ['queen', 'wizard', 'rook', 'bishop', 'knight'];
+
+// King starts on the f-file; castling lands it on c (queenside) or h (kingside)
+export const KING_START_COL = 5;
+export const QUEENSIDE_CASTLE_COL = 2;
+export const KINGSIDE_CASTLE_COL = 7;
+
+/**
+ * The canonical starting back rank, a-file to j-file. Every mode (local, AI,
+ * campaign and online) starts from this layout; castling assumes the king on
+ * the f-file and rooks in the corners.
+ */
+export const STARTING_BACK_RANK: PieceType[] = [
+  'rook', 'knight', 'bishop', 'wizard', 'queen', 'king', 'wizard', 'bishop', 'knight', 'rook'
+];
+
+const ROOK_DIRECTIONS = [[0, 1], [0, -1], [1, 0], [-1, 0]];
+const BISHOP_DIRECTIONS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+const KING_DIRECTIONS = [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS];
+const KNIGHT_OFFSETS = [
+  [-2, -1], [-2, 1], [-1, -2], [-1, 2],
+  [1, -2], [1, 2], [2, -1], [2, 1]
+];
+const WIZARD_RANGE = 2;
+
+export function isValidPosition(pos: Position): boolean {
+  return pos.row >= 0 && pos.row < BOARD_SIZE && pos.col >= 0 && pos.col < BOARD_SIZE;
+}
+
+export function getOpponentColor(color: PieceColor): PieceColor {
+  return color === 'white' ? 'black' : 'white';
+}
+
+export function getHomeRow(color: PieceColor): number {
+  return color === 'white' ? BOARD_SIZE - 1 : 0;
+}
+
+export function getPromotionRow(color: PieceColor): number {
+  return color === 'white' ? 0 : BOARD_SIZE - 1;
+}
+
+export function cloneBoard(board: Board): Board {
+  return board.map(row => [...row]);
+}
+
+/**
+ * Build the starting position. Piece ids are stable (`w-rook-0`, `b-pawn-4`, ...)
+ * so both sides of an online game agree on them.
+ */
+export function createInitialBoard(): Board {
+  const board: Board = Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null));
+
+  for (const color of ['white', 'black'] as PieceColor[]) {
+    const prefix = color === 'white' ? 'w' : 'b';
+    const homeRow = getHomeRow(color);
+    const pawnRow = color === 'white' ? homeRow - 1 : homeRow + 1;
+
+    STARTING_BACK_RANK.forEach((type, col) => {
+      board[homeRow][col] = { type, color, id: `${prefix}-${type}-${col}`, hasMoved: false };
+      board[pawnRow][col] = { type: 'pawn', color, id: `${prefix}-pawn-${col}`, hasMoved: false };
+    });
+  }
+
+  return board;
+}
+
+export function findKing(board: Board, color: PieceColor): Position | null {
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const piece = board[row][col];
+      if (piece && piece.type === 'king' && piece.color === color) {
+        return { row, col };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Pseudo-legal destinations for a piece: follows movement rules (including
+ * castling and wizard teleport/attack) but ignores whether the mover's own
+ * king is left in check.
+ */
+export function getPossibleMoves(
+  board: Board,
+  position: Position,
+  piece: ChessPiece,
+  enPassantTarget: EnPassantTarget = null
+): Position[] {
+  switch (piece.type) {
+    case 'pawn':
+      return getPawnMoves(board, position, piece, enPassantTarget);
+    case 'rook':
+      return getSlidingMoves(board, position, piece, ROOK_DIRECTIONS);
+    case 'knight':
+      return getKnightMoves(board, position, piece);
+    case 'bishop':
+      return getSlidingMoves(board, position, piece, BISHOP_DIRECTIONS);
+    case 'queen':
+      return getSlidingMoves(board, position, piece, KING_DIRECTIONS);
+    case 'king':
+      return [...getKingSteps(board, position, piece), ...getCastlingMoves(board, position, piece)];
+    case 'wizard':
+      return getWizardMoves(board, position, piece);
+    default:
+      return [];
+  }
+}
+
+function getPawnMoves(board: Board, pos: Position, piece: ChessPiece, enPassantTarget: EnPassantTarget): Position[] {
+  const moves: Position[] = [];
+  const direction = piece.color === 'white' ? -1 : 1;
+  const startRow = piece.color === 'white' ? BOARD_SIZE - 2 : 1;
+
+  // Move forward one square, or two from the starting rank
+  const oneForward = { row: pos.row + direction, col: pos.col };
+  if (isValidPosition(oneForward) && !board[oneForward.row][oneForward.col]) {
+    moves.push(oneForward);
+
+    if (pos.row === startRow) {
+      const twoForward = { row: pos.row + 2 * direction, col: pos.col };
+      if (isValidPosition(twoForward) && !board[twoForward.row][twoForward.col]) {
+        moves.push(twoForward);
+      }
+    }
+  }
+
+  // Diagonal captures
+  for (const colOffset of [-1, 1]) {
+    const capturePos = { row: pos.row + direction, col: pos.col + colOffset };
+    if (isValidPosition(capturePos)) {
+      const target = board[capturePos.row][capturePos.col];
+      if (target && target.color !== piece.color) {
+        moves.push(capturePos);
+      } else if (isEnPassantCapture(board, pos, capturePos, piece, enPassantTarget)) {
+        moves.push(capturePos);
+      }
+    }
+  }
+
+  return moves;
+}
+
+function isEnPassantCapture(
+  board: Board,
+  from: Position,
+  to: Position,
+  piece: ChessPiece,
+  enPassantTarget: EnPassantTarget
+): boolean {
+  if (piece.type !== 'pawn' || !enPassantTarget) return false;
+  if (to.row !== enPassantTarget.row || to.col !== enPassantTarget.col || from.col === to.col) return false;
+
+  const victim = board[from.row][to.col];
+  return !board[to.row][to.col] && !!victim && victim.type === 'pawn' && victim.color !== piece.color;
+}
+
+/**
+ * The square a pawn skipped if `move` was a two-square advance, i.e. the
+ * en passant target for the reply; null for every other move.
+ */
+export function getEnPassantTarget(move: ChessMove): EnPassantTarget {
+  if (move.piece.type !== 'pawn' || Math.abs(move.to.row - move.from.row) !== 2) return null;
+  return { row: (move.from.row + move.to.row) / 2, col: move.from.col };
+}
+
+function getSlidingMoves(board: Board, pos: Position, piece: ChessPiece, directions: number[][]): Position[] {
+  const moves: Position[] = [];
+
+  for (const [dr, dc] of directions) {
+    for (let i = 1; i < BOARD_SIZE; i++) {
+      const newPos = { row: pos.row + dr * i, col: pos.col + dc * i };
+      if (!isValidPosition(newPos)) break;
+
+      const target = board[newPos.row][newPos.col];
+      if (!target) {
+        moves.push(newPos);
+      } else {
+        if (target.color !== piece.color) {
+          moves.push(newPos);
+        }
+        break;
+      }
+    }
+  }
+
+  return moves;
+}
+
+function getKnightMoves(board: Board, pos: Position, piece: ChessPiece): Position[] {
+  const moves: Position[] = [];
+
+  for (const [dr, dc] of KNIGHT_OFFSETS) {
+    const newPos = { row: pos.row + dr, col: pos.col + dc };
+    if (isValidPosition(newPos)) {
+      const target = board[newPos.row][newPos.col];
+      if (!target || target.color !== piece.color) {
+        moves.push(newPos);
+      }
+    }
+  }
+
+  return moves;
+}
+
+function getKingSteps(board: Board, pos: Position, piece: ChessPiece): Position[] {
+  const moves: Position[] = [];
+
+  for (const [dr, dc] of KING_DIRECTIONS) {
+    const newPos = { row: pos.row + dr, col: pos.col + dc };
+    if (isValidPosition(newPos)) {
+      const target = board[newPos.row][newPos.col];
+      if (!target || target.color !== piece.color) {
+        moves.push(newPos);
+      }
+    }
+  }
+
+  return moves;
+}
+
+function getCastlingMoves(board: Board, pos: Position, king: ChessPiece): Position[] {
+  const moves: Position[] = [];
+  const homeRow = getHomeRow(king.color);
+  const enemy = getOpponentColor(king.color);
+
+  if (king.hasMoved) return moves;
+  if (pos.row !== homeRow || pos.col !== KING_START_COL) return moves;
+  // Can't castle out of check
+  if (isSquareAttacked(board, pos, enemy)) return moves;
+
+  // Queenside: rook a -> d, king f -> c. b..e must be empty and c..f unattacked
+  if (canCastleWith(board, homeRow, 0, king.color) &&
+      isRowClear(board, homeRow, 1, KING_START_COL - 1) &&
+      !isAnySquareAttacked(board, homeRow, QUEENSIDE_CASTLE_COL, KING_START_COL, enemy)) {
+    moves.push({ row: homeRow, col: QUEENSIDE_CASTLE_COL });
+  }
+
+  // Kingside: rook j -> g, king f -> h. g..i must be empty and f..h unattacked
+  if (canCastleWith(board, homeRow, BOARD_SIZE - 1, king.color) &&
+      isRowClear(board, homeRow, KING_START_COL + 1, BOARD_SIZE - 2) &&
+      !isAnySquareAttacked(board, homeRow, KING_START_COL, KINGSIDE_CASTLE_COL, enemy)) {
+    moves.push({ row: homeRow, col: KINGSIDE_CASTLE_COL });
+  }
+
+  return moves;
+}
+
+function canCastleWith(board: Board, row: number, col: number, color: PieceColor): boolean {
+  const rook = board[row][col];
+  return !!rook && rook.type === 'rook' && rook.color === color && !rook.hasMoved;
+}
+
+function isRowClear(board: Board, row: number, fromCol: number, toCol: number): boolean {
+  for (let col = fromCol; col <= toCol; col++) {
+    if (board[row][col]) return false;
+  }
+  return true;
+}
+
+function isAnySquareAttacked(board: Board, row: number, fromCol: number, toCol: number, byColor: PieceColor): boolean {
+  for (let col = fromCol; col <= toCol; col++) {
+    if (isSquareAttacked(board, { row, col }, byColor)) return true;
+  }
+  return false;
+}
+
+function getWizardMoves(board: Board, pos: Position, piece: ChessPiece): Position[] {
+  const moves: Position[] = [];
+
+  // Wizards teleport to any empty square within 2 squares along the 8 lines,
+  // and attack any enemy in the same range, ignoring pieces in between
+  for (const [dr, dc] of KING_DIRECTIONS) {
+    for (let distance = 1; distance <= WIZARD_RANGE; distance++) {
+      const newPos = { row: pos.row + dr * distance, col: pos.col + dc * distance };
+      if (!isValidPosition(newPos)) continue;
+
+      const target = board[newPos.row][newPos.col];
+      if (!target || target.color !== piece.color) {
+        moves.push(newPos);
+      }
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * Whether any piece of `byColor` attacks the square. Pawns only attack
+ * diagonally and wizards strike anything within range, blocked or not.
+ */
+export function isSquareAttacked(board: Board, square: Position, byColor: PieceColor): boolean {
+  const pieceAt = (row: number, col: number): ChessPiece | null =>
+    isValidPosition({ row, col }) ? board[row][col] : null;
+  const isEnemy = (piece: ChessPiece | null, ...types: PieceType[]): boolean =>
+    !!piece && piece.color === byColor && types.includes(piece.type);
+
+  // Pawns: a white pawn attacks upwards (row - 1), so it sits one row below
+  const pawnRow = square.row + (byColor === 'white' ? 1 : -1);
+  if (isEnemy(pieceAt(pawnRow, square.col - 1), 'pawn') || isEnemy(pieceAt(pawnRow, square.col + 1), 'pawn')) {
+    return true;
+  }
+
+  for (const [dr, dc] of KNIGHT_OFFSETS) {
+    if (isEnemy(pieceAt(square.row + dr, square.col + dc), 'knight')) return true;
+  }
+
+  for (const [dr, dc] of KING_DIRECTIONS) {
+    if (isEnemy(pieceAt(square.row + dr, square.col + dc), 'king')) return true;
+    for (let distance = 1; distance <= WIZARD_RANGE; distance++) {
+      if (isEnemy(pieceAt(square.row + dr * distance, square.col + dc * distance), 'wizard')) return true;
+    }
+  }
+
+  for (const [dr, dc] of ROOK_DIRECTIONS) {
+    if (isEnemy(firstPieceOnRay(board, square, dr, dc), 'rook', 'queen')) return true;
+  }
+  for (const [dr, dc] of BISHOP_DIRECTIONS) {
+    if (isEnemy(firstPieceOnRay(board, square, dr, dc), 'bishop', 'queen')) return true;
+  }
+
+  return false;
+}
+
+function firstPieceOnRay(board: Board, from: Position, dr: number, dc: number): ChessPiece | null {
+  for (let i = 1; i < BOARD_SIZE; i++) {
+    const pos = { row: from.row + dr * i, col: from.col + dc * i };
+    if (!isValidPosition(pos)) return null;
+    const piece = board[pos.row][pos.col];
+    if (piece) return piece;
+  }
+  return null;
+}
+
+export function isKingInCheck(board: Board, color: PieceColor): boolean {
+  const kingPos = findKing(board, color);
+  if (!kingPos) return false;
+  return isSquareAttacked(board, kingPos, getOpponentColor(color));
+}
+
+/**
+ * Build a fully described move (captures, wizard flags, castling rook and
+ * promotion) from a pair of squares. Returns null if `from` is empty.
+ * This does not check legality; see `resolveMove` for that.
+ */
+export function createMove(
+  board: Board,
+  from: Position,
+  to: Position,
+  promotion?: PieceType,
+  enPassantTarget: EnPassantTarget = null
+): ChessMove | null {
+  const piece = board[from.row]?.[from.col];
+  if (!piece) return null;
+
+  const target = board[to.row]?.[to.col] || undefined;
+  const captured = target && target.color !== piece.color ? target : undefined;
+
+  const move: ChessMove = { from, to, piece, captured };
+
+  if (isEnPassantCapture(board, from, to, piece, enPassantTarget)) {
+    move.isEnPassant = true;
+    move.captured = board[from.row][to.col]!;
+  }
+
+  if (piece.type === 'wizard') {
+    // Teleport: wizard moves to the empty square. Attack: target is destroyed
+    // but the wizard stays where it is
+    move.isWizardTeleport = !captured;
+    move.isWizardAttack = !!captured;
+  }
+
+  if (piece.type === 'king' && from.row === to.row && from.col === KING_START_COL &&
+      (to.col === QUEENSIDE_CASTLE_COL || to.col === KINGSIDE_CASTLE_COL)) {
+    const queenside = to.col === QUEENSIDE_CASTLE_COL;
+    move.isCastling = true;
+    move.rookMove = {
+      from: { row: from.row, col: queenside ? 0 : BOARD_SIZE - 1 },
+      to: { row: from.row, col: queenside ? QUEENSIDE_CASTLE_COL + 1 : KINGSIDE_CASTLE_COL - 1 }
+    };
+  }
+
+  if (piece.type === 'pawn' && to.row === getPromotionRow(piece.color)) {
+    move.promotion = promotion || 'queen';
+  }
+
+  return move;
+}
+
+/**
+ * Apply a move to a copy of the board. The input board is not modified.
+ */
+export function applyMove(board: Board, move: ChessMove): Board {
+  const newBoard = cloneBoard(board);
+
+  if (move.isWizardAttack) {
+    // Wizard attacks: remove target piece but wizard stays in place
+    newBoard[move.to.row][move.to.col] = null;
+    newBoard[move.from.row][move.from.col] = { ...move.piece, hasMoved: true };
+  } else if (move.isCastling && move.rookMove) {
+    newBoard[move.to.row][move.to.col] = { ...move.piece, hasMoved: true };
+    newBoard[move.from.row][move.from.col] = null;
+
+    const rook = newBoard[move.rookMove.from.row][move.rookMove.from.col];
+    if (rook) {
+      newBoard[move.rookMove.to.row][move.rookMove.to.col] = { ...rook, hasMoved: true };
+      newBoard[move.rookMove.from.row][move.rookMove.from.col] = null;
+    }
+  } else {
+    // Normal move or wizard teleport
+    let pieceToPlace: ChessPiece = { ...move.piece, hasMoved: true };
+
+    if (move.piece.type === 'pawn' && move.promotion && move.to.row === getPromotionRow(move.piece.color)) {
+      pieceToPlace = {
+        ...pieceToPlace,
+        type: move.promotion,
+        id: `${move.piece.color}-${move.promotion}-promoted-${move.to.row}-${move.to.col}`
+      };
+    }
+
+    newBoard[move.to.row][move.to.col] = pieceToPlace;
+    newBoard[move.from.row][move.from.col] = null;
+
+    if (move.isEnPassant) {
+      // The captured pawn is beside the destination, on the rank the capture started from
+      newBoard[move.from.row][move.to.col] = null;
+    }
+  }
+
+  return newBoard;
+}
+
+/**
+ * Legal destinations for the piece on `from`, i.e. pseudo-legal moves that
+ * do not leave the mover's king in check.
+ */
+export function getLegalDestinations(board: Board, from: Position, enPassantTarget: EnPassantTarget = null): Position[] {
+  const piece = board[from.row]?.[from.col];
+  if (!piece) return [];
+
+  return getPossibleMoves(board, from, piece, enPassantTarget).filter(to => {
+    const move = createMove(board, from, to, undefined, enPassantTarget);
+    return !!move && !isKingInCheck(applyMove(board, move), piece.color);
+  });
+}
+
+/**
+ * Every legal move for `color`, fully described. Promotions are generated
+ * once per promotion piece.
+ */
+export function generateLegalMoves(board: Board, color: PieceColor, enPassantTarget: EnPassantTarget = null): ChessMove[] {
+  const moves: ChessMove[] = [];
+
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.color !== color) continue;
+
+      const from = { row, col };
+      for (const to of getLegalDestinations(board, from, enPassantTarget)) {
+        if (piece.type === 'pawn' && to.row === getPromotionRow(color)) {
+          for (const promotion of PROMOTION_PIECES) {
+            moves.push(createMove(board, from, to, promotion, enPassantTarget)!);
+          }
+        } else {
+          moves.push(createMove(board, from, to, undefined, enPassantTarget)!);
+        }
+      }
+    }
+  }
+
+  return moves;
+}
+
+export function hasAnyLegalMove(board: Board, color: PieceColor, enPassantTarget: EnPassantTarget = null): boolean {
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const piece = board[row][col];
+      if (piece && piece.color === color && getLegalDestinations(board, { row, col }, enPassantTarget).length > 0) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Check, checkmate and stalemate for the side about to move.
+ */
+export function getGameStatus(board: Board, sideToMove: PieceColor, enPassantTarget: EnPassantTarget = null): GameStatus {
+  const isInCheck = isKingInCheck(board, sideToMove);
+  const canMove = hasAnyLegalMove(board, sideToMove, enPassantTarget);
+
+  return {
+    isInCheck,
+    isCheckmate: isInCheck && !canMove,
+    isStalemate: !isInCheck && !canMove
+  };
+}
+
+/**
+ * Why a submitted move was refused. Sent to clients as-is, so treat these as
+ * part of the multiplayer protocol.
+ */
+export type MoveRejectionReason =
+  | 'malformed_move'
+  | 'no_piece'
+  | 'wrong_color'
+  | 'illegal_move'
+  | 'leaves_king_in_check'
+  | 'invalid_promotion';
+
+export type MoveValidation =
+  | { valid: true; move: ChessMove; board: Board; status: GameStatus; enPassantTarget: EnPassantTarget }
+  | { valid: false; reason: MoveRejectionReason };
+
+/**
+ * Validate a submitted move for the side to move. On success returns the
+ * fully described move, the resulting board, the opponent's status
+ * (check/checkmate/stalemate) and the en passant target for the reply;
+ * otherwise the reason it was rejected.
+ */
+export function validateMove(
+  board: Board,
+  sideToMove: PieceColor,
+  request: MoveRequest,
+  enPassantTarget: EnPassantTarget = null
+): MoveValidation {
+  if (!request || !isPositionLike(request.from) || !isPositionLike(request.to)) {
+    return { valid: false, reason: 'malformed_move' };
+  }
+
+  const piece = board[request.from.row][request.from.col];
+  if (!piece) return { valid: false, reason: 'no_piece' };
+  if (piece.color !== sideToMove) return { valid: false, reason: 'wrong_color' };
+
+  const isTarget = (pos: Position) => pos.row === request.to.row && pos.col === request.to.col;
+  if (!getPossibleMoves(board, request.from, piece, enPassantTarget).some(isTarget)) {
+    return { valid: false, reason: 'illegal_move' };
+  }
+  if (!getLegalDestinations(board, request.from, enPassantTarget).some(isTarget)) {
+    return { valid: false, reason: 'leaves_king_in_check' };
+  }
+
+  if (request.promotion !== undefined && !PROMOTION_PIECES.includes(request.promotion)) {
+    return { valid: false, reason: 'invalid_promotion' };
+  }
+
+  const move = createMove(board, request.from, request.to, request.promotion, enPassantTarget)!;
+  const newBoard = applyMove(board, move);
+  const nextEnPassantTarget = getEnPassantTarget(move);
+
+  return {
+    valid: true,
+    move,
+    board: newBoard,
+    status: getGameStatus(newBoard, getOpponentColor(sideToMove), nextEnPassantTarget),
+    enPassantTarget: nextEnPassantTarget
+  };
+}
+
+function isPositionLike(pos: Position | undefined): pos is Position {
+  return !!pos && Number.isInteger(pos.row) && Number.isInteger(pos.col) && isValidPosition(pos);
+}
+
+/**
+ * Turn a submitted move into a legal, fully described move for the side to
+ * move, or null if the move is not legal in this position.
+ */
+export function resolveMove(
+  board: Board,
+  sideToMove: PieceColor,
+  request: MoveRequest,
+  enPassantTarget: EnPassantTarget = null
+): ChessMove | null {
+  const result = validateMove(board, sideToMove, request, enPassantTarget);
+  return result.valid ? result.move : null;
+}
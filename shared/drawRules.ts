@@ -0,0 +1,175 @@
+/**
+ * Draw Rules for Wizard Chess
+ * Threefold repetition, the fifty-move rule and insufficient material
+ *
+ * - Threefold repetition: the same position (pieces, side to move, castling
+ *   rights and a takeable en passant target) occurs for the third time.
+ * - Fifty-move rule: 100 plies in a row without a pawn move or a capture.
+ *   Wizard attacks remove a piece, so they count as captures and reset the
+ *   clock; wizard teleports do not. The standard limit is kept: teleports make
+ *   shuffling easy, but a longer limit only drags out dead positions.
+ * - Insufficient material: neither side can ever deliver mate. A wizard can
+ *   check from range and cover squares a bishop or knight can't, so any
+ *   wizard, pawn, queen or rook keeps the game alive. Only bare kings, a lone
+ *   bishop or knight, or bishops all on one square color are treated as dead.
+ *
+ * Stalemate also ends in a draw; it is reported through the same reason field
+ * so the UI can tell the cases apart.
+ */
+
+import {
+  BOARD_SIZE,
+  KING_START_COL,
+  getHomeRow,
+  getLegalDestinations,
+  type Board,
+  type ChessMove,
+  type EnPassantTarget,
+  type PieceColor,
+  type Position
+} from './chessRules';
+
+// 'agreement' is only ever set by online games, when a draw offer is accepted
+export type DrawReason = 'stalemate' | 'threefold_repetition' | 'fifty_move_rule' | 'insufficient_material' | 'agreement';
+
+/**
+ * What the draw rules need to know about a game besides its board.
+ */
+export interface DrawTracking {
+  // Plies since the last pawn move or capture
+  halfmoveClock?: number;
+  // Position keys since the last pawn move or capture
+  positionHistory?: string[];
+}
+
+export const FIFTY_MOVE_RULE_PLIES = 100;
+export const REPETITION_LIMIT = 3;
+
+export const DRAW_REASON_DESCRIPTIONS: Record<DrawReason, string> = {
+  stalemate: 'No legal moves available, but the king is not in check.',
+  threefold_repetition: 'The same position occurred three times.',
+  fifty_move_rule: 'Fifty moves passed without a capture or pawn move.',
+  insufficient_material: 'Neither side has enough material left to checkmate.',
+  agreement: 'Both players agreed to a draw.'
+};
+
+const PIECE_KEYS: Record<string, string> = {
+  pawn: 'p', knight: 'n', bishop: 'b', rook: 'r', queen: 'q', king: 'k', wizard: 'w'
+};
+
+function castlingKey(board: Board, color: PieceColor): string {
+  const row = getHomeRow(color);
+  const unmoved = (col: number, type: string) => {
+    const piece = board[row][col];
+    return !!piece && piece.type === type && piece.color === color && !piece.hasMoved;
+  };
+  if (!unmoved(KING_START_COL, 'king')) return '';
+  return (unmoved(BOARD_SIZE - 1, 'rook') ? 'K' : '') + (unmoved(0, 'rook') ? 'Q' : '');
+}
+
+// The en passant target only changes the position when the side to move can
+// actually take en passant; otherwise it is the same position as without it.
+function canCaptureEnPassant(board: Board, sideToMove: PieceColor, target: Position): boolean {
+  for (const row of [target.row - 1, target.row + 1]) {
+    for (const col of [target.col - 1, target.col + 1]) {
+      const piece = board[row]?.[col];
+      if (!piece || piece.type !== 'pawn' || piece.color !== sideToMove) continue;
+      const destinations = getLegalDestinations(board, { row, col }, target);
+      if (destinations.some(to => to.row === target.row && to.col === target.col)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Key identifying a position for repetition purposes. Two positions with the
+ * same key are the same position under the rules.
+ */
+export function getPositionKey(board: Board, sideToMove: PieceColor, enPassantTarget: EnPassantTarget = null): string {
+  let key = '';
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const piece = board[row][col];
+      if (!piece) {
+        key += '.';
+      } else {
+        const letter = PIECE_KEYS[piece.type];
+        key += piece.color === 'white' ? letter.toUpperCase() : letter;
+      }
+    }
+  }
+
+  key += ` ${sideToMove[0]} ${castlingKey(board, 'white')}${castlingKey(board, 'black').toLowerCase()}`;
+  if (enPassantTarget && canCaptureEnPassant(board, sideToMove, enPassantTarget)) {
+    key += ` ${enPassantTarget.row},${enPassantTarget.col}`;
+  }
+  return key;
+}
+
+export function hasInsufficientMaterial(board: Board): boolean {
+  const minors: { type: string; squareColor: number }[] = [];
+
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.type === 'king') continue;
+      if (piece.type !== 'bishop' && piece.type !== 'knight') return false;
+      minors.push({ type: piece.type, squareColor: (row + col) % 2 });
+    }
+  }
+
+  if (minors.length <= 1) return true;
+
+  // Any number of bishops (either side) confined to one square color can't mate
+  return minors.every(minor => minor.type === 'bishop' && minor.squareColor === minors[0].squareColor);
+}
+
+export function countRepetitions(positionHistory: string[], key: string): number {
+  return positionHistory.filter(entry => entry === key).length;
+}
+
+/**
+ * Tracking after `move` reached `board` with `sideToMove` to play. Pawn moves
+ * and captures are irreversible: they reset the fifty-move clock, and no
+ * earlier position can repeat.
+ */
+export function trackPosition(
+  tracking: DrawTracking,
+  move: ChessMove,
+  board: Board,
+  sideToMove: PieceColor,
+  enPassantTarget: EnPassantTarget = null
+): Required<DrawTracking> {
+  const isIrreversible = move.piece.type === 'pawn' || !!move.captured;
+  const positionKey = getPositionKey(board, sideToMove, enPassantTarget);
+  return {
+    halfmoveClock: isIrreversible ? 0 : (tracking.halfmoveClock ?? 0) + 1,
+    positionHistory: isIrreversible ? [positionKey] : [...(tracking.positionHistory || []), positionKey]
+  };
+}
+
+/**
+ * Draw reason for a position that has just been reached, or null if play
+ * goes on. Stalemate is not detected here; callers already know it from the
+ * rules engine's game status.
+ */
+export function getDrawReason(
+  gameState: DrawTracking & { board: Board },
+  skipRepetitionCheck: boolean = false
+): DrawReason | null {
+  if (hasInsufficientMaterial(gameState.board)) {
+    return 'insufficient_material';
+  }
+
+  const positionHistory = gameState.positionHistory || [];
+  if (!skipRepetitionCheck && positionHistory.length >= REPETITION_LIMIT &&
+      countRepetitions(positionHistory, positionHistory[positionHistory.length - 1]) >= REPETITION_LIMIT) {
+    return 'threefold_repetition';
+  }
+
+  if ((gameState.halfmoveClock ?? 0) >= FIFTY_MOVE_RULE_PLIES) {
+    return 'fifty_move_rule';
+  }
+
+  return null;
+}
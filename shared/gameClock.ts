@@ -0,0 +1,173 @@
+/**
+ * Online Game Clocks
+ * Server-authoritative chess clocks with increments, and the client's view of them
+ *
+ * The server owns the clock: it charges the mover for the time between the
+ * moment their turn started and the moment their move arrived, adds the
+ * increment, and flags a side whose time runs out. Clients only render the
+ * latest `ClockUpdate`, counting the running side down against their estimate
+ * of the server's time so network lag doesn't skew the display.
+ */
+
+export type ClockColor = 'white' | 'black';
+
+export type TimeControl = '5+0' | '10+0' | '15+10' | '30+0';
+
+export const TIME_CONTROLS: TimeControl[] = ['5+0', '10+0', '15+10', '30+0'];
+
+export const DEFAULT_TIME_CONTROL: TimeControl = '10+0';
+
+export interface ClockSettings {
+  initialMs: number;
+  incrementMs: number;
+}
+
+/**
+ * Remaining time per side, in milliseconds. `running` is the side whose time
+ * is being spent since `turnStartedAt`, and is null once the clock stops.
+ */
+export interface GameClock {
+  white: number;
+  black: number;
+  incrementMs: number;
+  running: ClockColor | null;
+  turnStartedAt: number | null;
+}
+
+/**
+ * Payload of the `game:clock` event, also attached to `game:move`. Times are
+ * what each side had left at `serverTime`.
+ */
+export interface ClockUpdate {
+  gameId: string;
+  white: number;
+  black: number;
+  running: ClockColor | null;
+  serverTime: number;
+}
+
+/**
+ * One round trip of `clock:sync`, used to estimate the server's time.
+ */
+export interface ClockSyncSample {
+  // Server time minus client time, in milliseconds
+  offset: number;
+  roundTrip: number;
+}
+
+/**
+ * Minutes and increment seconds of a "minutes+increment" time control.
+ * Unknown time controls fall back to the default.
+ */
+export function parseTimeControl(timeControl: string | undefined): ClockSettings {
+  const known = isTimeControl(timeControl) ? timeControl : DEFAULT_TIME_CONTROL;
+  const [minutes, increment] = known.split('+').map(Number);
+  return { initialMs: minutes * 60_000, incrementMs: increment * 1000 };
+}
+
+export function isTimeControl(timeControl: unknown): timeControl is TimeControl {
+  return TIME_CONTROLS.includes(timeControl as TimeControl);
+}
+
+export function createGameClock(settings: ClockSettings): GameClock {
+  return {
+    white: settings.initialMs,
+    black: settings.initialMs,
+    incrementMs: settings.incrementMs,
+    running: null,
+    turnStartedAt: null
+  };
+}
+
+/**
+ * Time `color` has left at `now`, never below zero.
+ */
+export function remainingTime(clock: GameClock, color: ClockColor, now: number): number {
+  const spent = clock.running === color && clock.turnStartedAt !== null ? now - clock.turnStartedAt : 0;
+  return Math.max(0, clock[color] - spent);
+}
+
+/**
+ * Starts `color`'s time at `now`.
+ */
+export function startClock(clock: GameClock, color: ClockColor, now: number): GameClock {
+  return { ...stopClock(clock, now), running: color, turnStartedAt: now };
+}
+
+/**
+ * Charges the running side up to `now` and stops the clock.
+ */
+export function stopClock(clock: GameClock, now: number): GameClock {
+  if (!clock.running) return clock;
+  return {
+    ...clock,
+    [clock.running]: remainingTime(clock, clock.running, now),
+    running: null,
+    turnStartedAt: null
+  };
+}
+
+/**
+ * `color` completed a move at `now`: charge it, add the increment and start the
+ * opponent's time.
+ */
+export function pressClock(clock: GameClock, color: ClockColor, now: number): GameClock {
+  const stopped = stopClock(clock, now);
+  const credited = { ...stopped, [color]: stopped[color] + clock.incrementMs };
+  return startClock(credited, color === 'white' ? 'black' : 'white', now);
+}
+
+/**
+ * The side whose flag has fallen at `now`, if any.
+ */
+export function flaggedSide(clock: GameClock, now: number): ClockColor | null {
+  return clock.running && remainingTime(clock, clock.running, now) <= 0 ? clock.running : null;
+}
+
+export function clockUpdate(gameId: string, clock: GameClock, now: number): ClockUpdate {
+  return {
+    gameId,
+    white: remainingTime(clock, 'white', now),
+    black: remainingTime(clock, 'black', now),
+    running: clock.running,
+    serverTime: now
+  };
+}
+
+/**
+ * Time `color` has left according to `update`, at the client's estimate of the
+ * server's current time.
+ */
+export function displayedTime(update: ClockUpdate, color: ClockColor, serverNow: number): number {
+  const spent = update.running === color ? Math.max(0, serverNow - update.serverTime) : 0;
+  return Math.max(0, update[color] - spent);
+}
+
+/**
+ * Offset and round trip of a `clock:sync` exchange, assuming the server
+ * stamped its reply halfway through the round trip.
+ */
+export function clockSyncSample(clientSentAt: number, serverTime: number, clientReceivedAt: number): ClockSyncSample {
+  const roundTrip = Math.max(0, clientReceivedAt - clientSentAt);
+  return { offset: serverTime - (clientSentAt + roundTrip / 2), roundTrip };
+}
+
+/**
+ * The offset of the fastest exchange, which is the least skewed by lag.
+ */
+export function bestClockOffset(samples: ClockSyncSample[]): number {
+  if (samples.length === 0) return 0;
+  return samples.reduce((best, sample) => (sample.roundTrip < best.roundTrip ? sample : best)).offset;
+}
+
+/**
+ * "m:ss", with tenths under ten seconds.
+ */
+export function formatClock(ms: number): string {
+  if (ms < 10_000) {
+    const tenths = Math.floor(ms / 100);
+    return `0:0${Math.floor(tenths / 10)}.${tenths % 10}`;
+  }
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
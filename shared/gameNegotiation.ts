@@ -0,0 +1,148 @@
+/**
+ * Online Game Negotiation
+ * Draw offers, takeback requests and aborts, with per-game limits against spam
+ *
+ * Only one offer can be pending in a game at a time. Each player may make a
+ * limited number of offers of each type per game, spaced by a cooldown. A
+ * takeback undoes exactly one ply, so only the player who made the last move
+ * can ask for it. Either player can abort before both sides have moved, and
+ * aborted games are unrated.
+ */
+
+export type NegotiationColor = 'white' | 'black';
+
+export type OfferType = 'draw' | 'takeback';
+
+// Offers of one type a player may make per game
+export const MAX_OFFERS_PER_GAME = 3;
+// Minimum gap between two offers of the same type by the same player
+export const OFFER_COOLDOWN_MS = 30000;
+// Plies after which a game can no longer be aborted
+export const ABORT_PLY_LIMIT = 2;
+
+export interface PendingOffer {
+  type: OfferType;
+  from: NegotiationColor;
+  createdAt: number;
+}
+
+export interface NegotiationState {
+  pending: PendingOffer | null;
+  // When each player made each type of offer
+  offers: Record<NegotiationColor, Record<OfferType, number[]>>;
+}
+
+export type NegotiationRejectionReason =
+  | 'game_not_found'
+  | 'not_in_game'
+  | 'game_over'
+  | 'offer_pending'
+  | 'offer_limit'
+  | 'offer_cooldown'
+  | 'nothing_to_take_back'
+  | 'no_offer'
+  | 'own_offer'
+  | 'abort_too_late';
+
+/**
+ * Payload of the `game:negotiation-rejected` event.
+ */
+export interface NegotiationRejectedEvent {
+  gameId: string;
+  reason: NegotiationRejectionReason;
+  message: string;
+}
+
+export const NEGOTIATION_REJECTION_MESSAGES: Record<NegotiationRejectionReason, string> = {
+  game_not_found: 'Game not found',
+  not_in_game: 'You are not in this game',
+  game_over: 'The game is already over',
+  offer_pending: 'There is already an offer waiting for an answer',
+  offer_limit: `You can only make ${MAX_OFFERS_PER_GAME} offers of each kind per game`,
+  offer_cooldown: 'Please wait a little before offering again',
+  nothing_to_take_back: 'You can only take back your own last move',
+  no_offer: 'There is no offer to answer',
+  own_offer: 'You cannot answer your own offer',
+  abort_too_late: 'Games can only be aborted before both players have moved'
+};
+
+export function createNegotiationState(): NegotiationState {
+  return {
+    pending: null,
+    offers: {
+      white: { draw: [], takeback: [] },
+      black: { draw: [], takeback: [] }
+    }
+  };
+}
+
+/**
+ * Why `from` may not make a `type` offer at `now`, or null if they may.
+ * `lastMover` is the side that made the last move, null before any move.
+ */
+export function checkOffer(
+  state: NegotiationState,
+  type: OfferType,
+  from: NegotiationColor,
+  lastMover: NegotiationColor | null,
+  now: number
+): NegotiationRejectionReason | null {
+  if (state.pending) return 'offer_pending';
+  if (type === 'takeback' && lastMover !== from) return 'nothing_to_take_back';
+
+  const previous = state.offers[from][type];
+  if (previous.length >= MAX_OFFERS_PER_GAME) return 'offer_limit';
+  if (previous.length > 0 && now - previous[previous.length - 1] < OFFER_COOLDOWN_MS) return 'offer_cooldown';
+  return null;
+}
+
+export function recordOffer(
+  state: NegotiationState,
+  type: OfferType,
+  from: NegotiationColor,
+  now: number
+): NegotiationState {
+  return {
+    pending: { type, from, createdAt: now },
+    offers: {
+      ...state.offers,
+      [from]: { ...state.offers[from], [type]: [...state.offers[from][type], now] }
+    }
+  };
+}
+
+/**
+ * Why `by` may not answer a pending `type` offer, or null if they may.
+ */
+export function checkAnswer(
+  state: NegotiationState,
+  type: OfferType,
+  by: NegotiationColor
+): NegotiationRejectionReason | null {
+  if (!state.pending || state.pending.type !== type) return 'no_offer';
+  if (state.pending.from === by) return 'own_offer';
+  return null;
+}
+
+export function clearOffer(state: NegotiationState): NegotiationState {
+  return { ...state, pending: null };
+}
+
+/**
+ * The offer a move by `mover` cancels: any takeback request, since the move
+ * it undoes is no longer the last, and the opponent's draw offer, which moving
+ * on declines.
+ */
+export function offerCancelledByMove(state: NegotiationState, mover: NegotiationColor): PendingOffer | null {
+  const { pending } = state;
+  if (!pending) return null;
+  return pending.type === 'takeback' || pending.from !== mover ? pending : null;
+}
+
+/**
+ * Whether a game can still be aborted after `pliesPlayed` moves. Moves taken
+ * back still count, so a takeback doesn't reopen the window.
+ */
+export function checkAbort(pliesPlayed: number): NegotiationRejectionReason | null {
+  return pliesPlayed < ABORT_PLY_LIMIT ? null : 'abort_too_late';
+}
@@ -3,6 +3,9 @@
  * Handles checksums, state reconciliation, and desync prevention
  */
 
+import { createInitialBoard, type ChessMove, type EnPassantTarget, type MoveRejectionReason, type MoveRequest } from './chessRules';
+import { getPositionKey, type DrawReason } from './drawRules';
+
 // Platform-specific crypto handling
 const isNode = typeof process !== 'undefined' && process.versions && process.versions.node;
 
@@ -27,6 +30,65 @@ export interface MoveData {
   checksum?: string;
 }
 
+/**
+ * Reasons the server refuses an online move: the rules engine's reasons plus
+ * the session-level checks done before the move reaches the rules.
+ */
+export type OnlineMoveRejectionReason =
+  | MoveRejectionReason
+  | 'game_not_found'
+  | 'not_in_game'
+  | 'not_your_turn'
+  | 'game_over'
+  | 'state_mismatch';
+
+/**
+ * Payload of the `game:move-rejected` event. Carries the authoritative state
+ * so the client can roll back its optimistic move.
+ */
+export interface MoveRejectedEvent {
+  gameId: string;
+  reason: OnlineMoveRejectionReason;
+  message: string;
+  move: MoveRequest | null;
+  currentTurn?: 'white' | 'black';
+  gameState?: any;
+  checksum?: string;
+  sequenceNumber?: number;
+}
+
+export const MOVE_REJECTION_MESSAGES: Record<OnlineMoveRejectionReason, string> = {
+  malformed_move: 'Move is missing valid from/to squares',
+  no_piece: 'There is no piece on the starting square',
+  wrong_color: 'That piece belongs to your opponent',
+  illegal_move: 'That piece cannot move there',
+  leaves_king_in_check: 'That move would leave your king in check',
+  invalid_promotion: 'Pawns can only promote to a queen, wizard, rook, bishop or knight',
+  game_not_found: 'Game not found',
+  not_in_game: 'You are not in this game',
+  not_your_turn: 'Not your turn',
+  game_over: 'The game is already over',
+  state_mismatch: 'Your board is out of sync with the server'
+};
+
+/**
+ * Starting state of an online game. Uses the same canonical position as
+ * local and AI games so client and server boards agree from move one.
+ */
+export function createInitialOnlineGameState() {
+  const board = createInitialBoard();
+  return {
+    board,
+    currentPlayer: 'white' as 'white' | 'black',
+    gameStatus: 'active',
+    moveHistory: [] as ChessMove[],
+    enPassantTarget: null as EnPassantTarget,
+    drawReason: null as DrawReason | null,
+    halfmoveClock: 0,
+    positionHistory: [getPositionKey(board, 'white')]
+  };
+}
+
 export class GameStateManager {
   private sequenceNumber: number = 0;
   private stateHistory: GameStateSnapshot[] = [];
@@ -36,6 +36,7 @@ export const userSaveData = pgTable("user_save_data", {
   achievements: jsonb("achievements").notNull(), // completed achievements
   playerStats: jsonb("player_stats").notNull(), // statistics
   gameSettings: jsonb("game_settings").notNull(), // audio, preferences
+  endgameProgress: jsonb("endgame_progress"), // endgame trainer lessons completed
   lastSyncedAt: timestamp("last_synced_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -82,7 +83,7 @@ export const onlineGames = pgTable("online_games", {
   player2Name: text("player2_name").notNull(),
   gameState: jsonb("game_state").notNull(),
   currentTurn: text("current_turn").notNull(), // 'white' or 'black'
-  status: text("status").notNull(), // 'waiting', 'active', 'completed'
+  status: text("status").notNull(), // 'waiting', 'active', 'completed', 'aborted'
   winner: text("winner"), // 'white', 'black', 'draw', null
   moveHistory: jsonb("move_history").notNull(),
   timeControl: integer("time_control"), // in seconds
@@ -0,0 +1,69 @@
+/**
+ * Spectating Online Games
+ * Events exchanged with spectators of live games
+ *
+ * Spectators see the game through a delayed copy of the players' stream:
+ * each move, takeback and result reaches them only after the spectator delay,
+ * so someone watching can't relay moves to a player in time to matter.
+ */
+
+import type { ClockUpdate } from './gameClock';
+
+// Used when the server doesn't configure SPECTATOR_MOVE_DELAY_MS
+export const DEFAULT_SPECTATOR_DELAY_MS = 3000;
+
+export interface LiveGamePlayer {
+  name: string;
+  rating: number;
+}
+
+/**
+ * One entry of the live games list sent by `spectate:games`.
+ */
+export interface LiveGameSummary {
+  gameId: string;
+  white: LiveGamePlayer;
+  black: LiveGamePlayer;
+  // "minutes+increment"
+  timeControl: string;
+  moves: number;
+  spectators: number;
+  startedAt: number;
+}
+
+/**
+ * The delayed position spectators see, sent by `spectate:update`.
+ */
+export interface SpectatorUpdate {
+  gameId: string;
+  gameState: any;
+  currentTurn: 'white' | 'black';
+  clock: ClockUpdate;
+}
+
+/**
+ * Payload of `spectate:joined`: the game being watched and its delayed position.
+ */
+export interface SpectatorJoinedEvent extends SpectatorUpdate {
+  game: LiveGameSummary;
+  delayMs: number;
+}
+
+/**
+ * Payload of `spectate:ended`, sent to spectators once the delay has passed.
+ */
+export interface SpectatorEndedEvent {
+  gameId: string;
+  winner: 'white' | 'black' | 'draw' | null;
+  reason: string;
+  // The clocks as they stopped at the end of the game
+  clock: ClockUpdate;
+}
+
+/**
+ * Payload of `game:spectators`, sent to players and spectators alike.
+ */
+export interface SpectatorCountEvent {
+  gameId: string;
+  count: number;
+}